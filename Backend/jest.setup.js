@@ -0,0 +1,8 @@
+// Variables config/index.ts requires at import, and contract addresses so chain code is active
+process.env.NODE_ENV = 'test';
+process.env.PORT = process.env.PORT || '3001';
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545';
+process.env.CDP_API_KEY = process.env.CDP_API_KEY || 'test';
+process.env.CDP_API_SECRET = process.env.CDP_API_SECRET || 'test';
+process.env.DATABASE_URL = 'memory:';
+process.env.COUPON_NFT_ADDRESS = process.env.COUPON_NFT_ADDRESS || '0x5FbDB2315678afecb367f032d93F642f64180aa3';
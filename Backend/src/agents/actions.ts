@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import {
+  CdpAction,
+  DeployNftAction,
+  GetBalanceAction,
+  GetWalletDetailsAction,
+  TransferAction,
+} from '@coinbase/cdp-agentkit-core';
+import { config } from '@/config';
+import { couponNftAbi } from '@/services/chain';
+
+const MintCouponInput = z
+  .object({
+    to: z.string().describe('Address that receives the coupon'),
+    coffeeShopsEarned: z.number().int().min(0).describe('Snaps that earned the coupon'),
+    discountPercent: z.number().int().min(1).max(100),
+    expiryDays: z.number().int().min(1),
+    venueId: z.string().describe('Venue the coupon is valid at, empty for any venue'),
+  })
+  .strip();
+
+/**
+ * Custom agentkit action: mint a CouponNFT from the agent wallet (needs MINTER_ROLE)
+ */
+export const MintCouponAction: CdpAction<typeof MintCouponInput> = {
+  name: 'mint_coupon',
+  description: 'Mint a Snap Coffee CouponNFT to a user address.',
+  argsSchema: MintCouponInput,
+  func: async (wallet, args) => {
+    const invocation = await wallet.invokeContract({
+      contractAddress: config.CONTRACTS.COUPON_NFT,
+      method: 'mintCoupon',
+      args: {
+        to: args.to,
+        coffeeShopsEarned: String(args.coffeeShopsEarned),
+        discountPercent: String(args.discountPercent),
+        expiryDays: String(args.expiryDays),
+        venueId: args.venueId,
+      },
+      abi: couponNftAbi,
+    });
+    const result = await invocation.wait();
+    return `Minted coupon to ${args.to}. Transaction hash: ${result.getTransactionHash()}`;
+  },
+};
+
+/**
+ * Actions the agent's tools are built from, by name
+ */
+export const AGENT_ACTIONS = {
+  get_wallet_details: new GetWalletDetailsAction(),
+  get_balance: new GetBalanceAction(),
+  deploy_nft: new DeployNftAction(),
+  transfer: new TransferAction(),
+  mint_coupon: MintCouponAction,
+};
+
+/**
+ * First transaction hash in an action result (agentkit actions return text)
+ */
+export function extractTransactionHash(result: string): string | null {
+  return result.match(/0x[0-9a-fA-F]{64}/)?.[0] || null;
+}
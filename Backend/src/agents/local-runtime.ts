@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { CdpAction, CdpActionSchemaAny } from '@coinbase/cdp-agentkit-core';
+import { config } from '@/config';
+import { RewardBreakdown, RewardComponent } from '@/types';
+import { AgentTask } from '@/agents/tool-guard';
+import { AGENT_ACTIONS } from '@/agents/actions';
+import { AgentRequest, AgentRuntime, WalletToolkit } from '@/agents/runtime';
+
+/**
+ * Calls a wallet tool, with arguments typed by the action's schema
+ */
+export type AgentToolRunner = <TSchema extends CdpActionSchemaAny>(
+  action: CdpAction<TSchema>,
+  args: z.infer<TSchema>
+) => Promise<string>;
+
+/**
+ * Stands in for the LLM on one task; may call wallet tools
+ */
+export type AgentScript = (request: AgentRequest, runTool: AgentToolRunner) => Promise<string>;
+
+const COMPONENT_LABELS: Record<RewardComponent, string> = {
+  base: 'base reward',
+  quality: 'quality bonus',
+  new_venue: 'new venue bonus',
+  streak: 'streak bonus',
+};
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Deterministic scripts for the CoffeeRewardAgent tasks that prompt an LLM
+ */
+export const DEFAULT_AGENT_SCRIPTS: Partial<Record<AgentTask, AgentScript>> = {
+  async explainReward({ params }) {
+    const { venueName, breakdown } = params as { venueName: string; breakdown: RewardBreakdown };
+    const paid = breakdown.items
+      .filter(item => parseFloat(item.amount) > 0)
+      .map(item => `${item.amount} ${COMPONENT_LABELS[item.component]} (${item.reason})`);
+    return `You earned ${breakdown.total} BEAN for your snap at ${venueName}: ${paid.join(', ')}.`;
+  },
+
+  async setupCoffeeShop({ params }, runTool) {
+    const { venueName, city, state } = params as { venueName: string; city: string; state: string };
+    const wallet = await runTool(AGENT_ACTIONS.get_wallet_details, {});
+    const deployment = await runTool(AGENT_ACTIONS.deploy_nft, {
+      name: `${venueName} Coffee Coupons`,
+      symbol: 'SNAPC',
+      baseURI: `${config.APP_URL}/api/coupons/metadata/`,
+    });
+    return `Set up ${venueName} in ${city}, ${state}. ${wallet}\n${deployment}\nLoyalty rule: ${config.REWARDS.COUPON_THRESHOLD} coffees = 1 coupon.`;
+  },
+
+  async validateCouponRedemption({ params }) {
+    const { userAddress, couponTokenId, venueName } = params as {
+      userAddress: string;
+      couponTokenId: string;
+      venueName: string;
+    };
+    return `Coupon #${couponTokenId} presented by ${userAddress} at ${venueName}. ` +
+      'Ownership and redemption status must be confirmed on-chain before the coupon is honored.';
+  },
+
+  async optimizeTipping({ params }, runTool) {
+    const { toCreator, creatorEngagement, suggestedAmount } = params as {
+      toCreator: string;
+      creatorEngagement: number;
+      suggestedAmount: number;
+    };
+    const balance = await runTool(AGENT_ACTIONS.get_balance, { assetId: 'usdc' });
+    const engagement = Math.min(Math.max(creatorEngagement, 0), 100);
+    const optimized = Math.max(0.01, Math.round(suggestedAmount * (0.5 + engagement / 100) * 100) / 100);
+    return `Suggested tip for ${toCreator}: $${optimized.toFixed(2)} USDC ` +
+      `(engagement score ${engagement}, suggested $${suggestedAmount.toFixed(2)}).\n${balance}`;
+  },
+};
+
+/**
+ * In-memory wallet for the local runtime.
+ * Addresses and transaction hashes are derived from the inputs and call order,
+ * so a fresh process replays the same outputs.
+ */
+export class MockWalletToolkit implements WalletToolkit {
+  readonly address: string;
+  private nonce = 0;
+
+  constructor(
+    private readonly networkId: string,
+    seed = 'snap-coffee-agent',
+    private readonly balances: Record<string, string> = { eth: '0.05', usdc: '100' }
+  ) {
+    this.address = `0x${sha256(seed).substring(0, 40)}`;
+  }
+
+  async run<TSchema extends CdpActionSchemaAny>(action: CdpAction<TSchema>, args: z.infer<TSchema>): Promise<string> {
+    const input: Record<string, unknown> = args;
+
+    switch (action.name) {
+      case 'get_wallet_details':
+        return `Wallet: mock-wallet on network: ${this.networkId} with default address: ${this.address}`;
+      case 'get_balance': {
+        const assetId = String(input.assetId).toLowerCase();
+        return `Balances for wallet mock-wallet:\n  ${this.address}: ${this.balances[assetId] || '0'} ${assetId}`;
+      }
+      case 'deploy_nft': {
+        const contract = `0x${sha256(`${this.address}:${this.nonce}:${input.name}`).substring(0, 40)}`;
+        return `Deployed NFT Collection ${input.name} to address ${contract} on network ${this.networkId}.\n` +
+          `Transaction hash for the deployment: ${this.transactionHash(action.name, input)}`;
+      }
+      case 'transfer':
+        return `Transferred ${input.amount} of ${input.assetId} to ${input.destination}.\n` +
+          `Transaction hash for the transfer: ${this.transactionHash(action.name, input)}`;
+      case 'mint_coupon':
+        return `Minted coupon to ${input.to}. Transaction hash: ${this.transactionHash(action.name, input)}`;
+      default:
+        throw new Error(`Mock wallet does not support ${action.name}`);
+    }
+  }
+
+  private transactionHash(action: string, input: Record<string, unknown>): string {
+    return `0x${sha256(`${this.networkId}:${this.nonce++}:${action}:${JSON.stringify(input)}`)}`;
+  }
+}
+
+/**
+ * Scripted stand-in for the LLM, used in development and tests
+ */
+export class LocalAgentRuntime implements AgentRuntime {
+  readonly name = 'local';
+
+  constructor(
+    private readonly toolkit: WalletToolkit,
+    private readonly scripts: Partial<Record<AgentTask, AgentScript>> = DEFAULT_AGENT_SCRIPTS
+  ) {}
+
+  async complete(request: AgentRequest): Promise<string> {
+    const script = this.scripts[request.task];
+    if (!script) {
+      throw new Error(`No local agent script for ${request.task}`);
+    }
+    return script(request, (action, args) => this.runAction(action, args));
+  }
+
+  async runAction<TSchema extends CdpActionSchemaAny>(action: CdpAction<TSchema>, args: z.infer<TSchema>): Promise<string> {
+    return this.toolkit.run(action, args);
+  }
+}
@@ -1,93 +1,90 @@
-import { CdpAgentkit } from '@coinbase/cdp-agentkit-core';
-import { CdpAgent } from '@coinbase/cdp-agentkit-langchain';
-import { HumanMessage } from '@langchain/core/messages';
-import { cdpServerWalletService } from '@/services/cdp-server-wallet';
+import { parseEventLogs } from 'viem';
+import { config } from '@/config';
+import { RewardBreakdown } from '@/types';
+import { couponNftAbi, getPublicClient } from '@/services/chain';
+import { AgentTask, AgentToolGuard, agentToolGuard } from '@/agents/tool-guard';
+import { AgentRuntime, createAgentRuntime } from '@/agents/runtime';
+import { extractTransactionHash, MintCouponAction } from '@/agents/actions';
+
+const SYSTEM_PROMPT = `
+  You are a coffee validation expert for the Snap Coffee rewards program.
+  
+  Your role:
+  1. Explain validation results and reward breakdowns to users
+  2. Help coffee shops get set up on the network
+  3. Assist with coupon redemption and tipping questions
+  
+  Reward amounts are computed by the server's reward policy (base, quality,
+  new venue and streak bonuses) and credited by the server. Never choose,
+  change or transfer a reward amount yourself; only explain the breakdown
+  you are given, line by line.
+  
+  Always be concise and friendly.
+`;
 
 /**
- * Autonomous AI agent for coffee snap validation and reward distribution
- * Integrates with CDP Agent Kit for blockchain operations
+ * AI agent for reward explanations, coffee shop setup, redemptions and tipping.
+ * Runs on CDP Agent Kit, or on a scripted local runtime when no credentials are configured
+ * outside production. The runtime is picked on first use, so a misconfigured agent fails
+ * its own requests instead of the server's boot.
  */
 export class CoffeeRewardAgent {
-  private agent: CdpAgent;
-  private agentkit: CdpAgentkit;
-
-  constructor() {
-    // Initialize CDP Agent Kit with Server Wallet integration
-    this.agentkit = CdpAgentkit.configureWithWallet({
-      cdpApiKeyName: process.env.CDP_API_KEY_NAME!,
-      cdpApiKeyPrivateKey: process.env.CDP_API_KEY_PRIVATE_KEY!,
-      networkId: 'base-mainnet', // or base-sepolia for testing
-      useServerSigner: true // Enable server-side signing
-    });
-
-    // Create agent with blockchain capabilities
-    this.agent = new CdpAgent({
-      agentkit: this.agentkit,
-      model: 'gpt-4o-mini',
-      systemPrompt: `
-        You are a coffee validation expert and blockchain reward distributor.
-        
-        Your role:
-        1. Analyze coffee photos for authenticity and quality
-        2. Validate location data matches the photo
-        3. Distribute BEAN token rewards based on validation results
-        4. Handle special cases like first-time venues or streak bonuses
-        
-        Validation criteria:
-        - Photo must show actual coffee/coffee shop setting
-        - Location must be reasonable (not residential/fake)
-        - Quality assessment: lighting, composition, authenticity
-        
-        Reward structure:
-        - Base reward: 10 BEAN tokens
-        - Quality bonus: +5 BEAN for exceptional photos
-        - New venue bonus: +10 BEAN for first post at location
-        - Streak bonus: +2 BEAN per day in current streak
-        
-        Always explain your reasoning and provide confidence scores.
-      `
-    });
+  private runtimeInstance: AgentRuntime | null;
+
+  constructor(
+    private readonly toolGuard: AgentToolGuard = agentToolGuard,
+    runtime?: AgentRuntime
+  ) {
+    this.runtimeInstance = runtime || null;
+  }
+
+  get runtimeName(): string {
+    return this.runtime.name;
+  }
+
+  private get runtime(): AgentRuntime {
+    if (!this.runtimeInstance) {
+      this.runtimeInstance = createAgentRuntime(SYSTEM_PROMPT, this.toolGuard);
+    }
+    return this.runtimeInstance;
   }
 
   /**
-   * Validate coffee snap and distribute rewards autonomously
+   * Explain a policy-computed snap reward; the amounts are final and not up to the agent
    */
-  async validateAndReward(params: {
-    imageUrl: string;
-    userAddress: string;
+  async explainReward(params: {
     venueName: string;
     city: string;
     state: string;
     coffeeType: string;
-    userStreak?: number;
-    isNewVenue?: boolean;
+    confidence: number;
+    breakdown: RewardBreakdown;
   }) {
     try {
+      const lines = params.breakdown.items
+        .map(item => `- ${item.component}: ${item.amount} BEAN (${item.reason})`)
+        .join('\n');
+
       const prompt = `
-        Validate this coffee snap and distribute appropriate BEAN token rewards:
+        Explain this coffee snap reward to the user in two or three sentences:
         
-        Image: ${params.imageUrl}
-        User: ${params.userAddress}
         Location: ${params.venueName} in ${params.city}, ${params.state}
         Coffee: ${params.coffeeType}
-        Current streak: ${params.userStreak || 0} days
-        New venue: ${params.isNewVenue ? 'Yes' : 'No'}
+        Validation confidence: ${Math.round(params.confidence * 100)}%
         
-        Steps:
-        1. Analyze the image for coffee authenticity (confidence score 0-100)
-        2. Validate location reasonableness
-        3. Calculate total reward amount based on criteria
-        4. Transfer BEAN tokens to user address: ${params.userAddress}
-        5. Provide detailed validation report
+        Reward breakdown (final, computed by the reward policy):
+        ${lines}
+        Total: ${params.breakdown.total} BEAN
         
-        Token contract address: ${process.env.BEAN_TOKEN_ADDRESS}
+        Do not suggest a different amount and do not call any tools.
       `;
 
-      const response = await this.agent.invoke([new HumanMessage(prompt)]);
+      const { result, actions } = await this.invoke('explainReward', prompt, params);
       
       return {
         success: true,
-        validation: response,
+        explanation: result,
+        actions,
         timestamp: new Date().toISOString()
       };
 
@@ -109,7 +106,7 @@ export class CoffeeRewardAgent {
     city: string;
     state: string;
     placeId: string;
-  }) {
+  }, options: { dryRun?: boolean } = {}) {
     const prompt = `
       Setup a new coffee shop in our network:
       
@@ -126,10 +123,12 @@ export class CoffeeRewardAgent {
     `;
 
     try {
-      const response = await this.agent.invoke([new HumanMessage(prompt)]);
+      const { result, dryRun, actions } = await this.invoke('setupCoffeeShop', prompt, params, options);
       return {
         success: true,
-        setup: response,
+        setup: result,
+        dryRun,
+        actions,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -149,7 +148,7 @@ export class CoffeeRewardAgent {
     couponTokenId: string;
     venueName: string;
     redemptionCode: string;
-  }) {
+  }, options: { dryRun?: boolean } = {}) {
     const prompt = `
       Validate and process coupon redemption:
       
@@ -167,10 +166,12 @@ export class CoffeeRewardAgent {
     `;
 
     try {
-      const response = await this.agent.invoke([new HumanMessage(prompt)]);
+      const { result, dryRun, actions } = await this.invoke('validateCouponRedemption', prompt, params, options);
       return {
         success: true,
-        redemption: response,
+        redemption: result,
+        dryRun,
+        actions,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -190,7 +191,7 @@ export class CoffeeRewardAgent {
     toCreator: string;
     creatorEngagement: number;
     suggestedAmount: number;
-  }) {
+  }, options: { dryRun?: boolean } = {}) {
     const prompt = `
       Optimize tip amount for maximum engagement impact:
       
@@ -209,10 +210,12 @@ export class CoffeeRewardAgent {
     `;
 
     try {
-      const response = await this.agent.invoke([new HumanMessage(prompt)]);
+      const { result, dryRun, actions } = await this.invoke('optimizeTipping', prompt, params, options);
       return {
         success: true,
-        optimization: response,
+        optimization: result,
+        dryRun,
+        actions,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -223,7 +226,67 @@ export class CoffeeRewardAgent {
       };
     }
   }
+
+  /**
+   * Mint a CouponNFT from the agent wallet; a direct guarded tool call, no LLM involved
+   */
+  async mintCoupon(params: {
+    userAddress: string;
+    storeId: string;
+    coffeeShopsEarned?: number;
+  }, options: { dryRun?: boolean } = {}) {
+    try {
+      const { result, dryRun, actions } = await this.toolGuard.run('mintCoupon', () => this.runtime.runAction(MintCouponAction, {
+        to: params.userAddress,
+        coffeeShopsEarned: params.coffeeShopsEarned ?? config.REWARDS.COUPON_THRESHOLD,
+        discountPercent: config.REWARDS.COUPON_DISCOUNT_PERCENT,
+        expiryDays: config.REWARDS.COUPON_EXPIRY_DAYS,
+        venueId: params.storeId,
+      }), options);
+      const transactionHash = extractTransactionHash(result);
+      return {
+        success: true,
+        tokenId: await this.mintedTokenId(transactionHash),
+        transactionHash,
+        result,
+        dryRun,
+        actions,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Coupon mint error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Token ID from the CouponMinted event in the mint receipt; null without a receipt to
+   * read (dry run, rejected action, no RPC) or when it has no CouponMinted event
+   */
+  private async mintedTokenId(transactionHash: string | null): Promise<string | null> {
+    const client = getPublicClient();
+    if (!transactionHash || !client) return null;
+
+    try {
+      const receipt = await client.getTransactionReceipt({ hash: transactionHash as `0x${string}` });
+      const [minted] = parseEventLogs({ abi: couponNftAbi, eventName: 'CouponMinted', logs: receipt.logs });
+      return minted ? minted.args.tokenId.toString() : null;
+    } catch (error) {
+      console.error('Coupon mint receipt lookup failed:', transactionHash, error);
+      return null;
+    }
+  }
+
+  /**
+   * Run a task on the runtime; its tool calls go through the guard (dry-run plans without signing)
+   */
+  private invoke(task: AgentTask, prompt: string, params: object, options: { dryRun?: boolean } = {}) {
+    return this.toolGuard.run(task, () => this.runtime.complete({ task, prompt, params: { ...params } }), options);
+  }
 }
 
 // Export singleton instance
-export const coffeeRewardAgent = new CoffeeRewardAgent();
\ No newline at end of file
+export const coffeeRewardAgent = new CoffeeRewardAgent();
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { HumanMessage } from '@langchain/core/messages';
+import { CdpAction, CdpActionSchemaAny, CdpAgentkit } from '@coinbase/cdp-agentkit-core';
+import { config } from '@/config';
+import { AgentTask, AgentToolGuard, agentToolGuard } from '@/agents/tool-guard';
+import { LocalAgentRuntime, MockWalletToolkit } from '@/agents/local-runtime';
+
+/**
+ * Wallet side of the agent: runs agentkit actions (the real CdpAgentkit or a mock)
+ * with arguments typed by the action's schema
+ */
+export interface WalletToolkit {
+  run<TSchema extends CdpActionSchemaAny>(action: CdpAction<TSchema>, args: z.infer<TSchema>): Promise<string>;
+}
+
+/**
+ * LangChain agent built by CdpAgent; only invoke is used
+ */
+interface LlmAgent {
+  invoke(messages: HumanMessage[]): Promise<unknown>;
+}
+
+export interface AgentRequest {
+  task: AgentTask;
+  prompt: string; // What an LLM is asked
+  params: Record<string, unknown>; // The same request as data, for scripted runtimes
+}
+
+/**
+ * LLM plus wallet toolkit behind CoffeeRewardAgent.
+ * Tool calls from either method go through the AgentToolGuard.
+ */
+export interface AgentRuntime {
+  readonly name: AgentRuntimeName;
+  complete(request: AgentRequest): Promise<string>;
+  // Direct tool call, no LLM
+  runAction<TSchema extends CdpActionSchemaAny>(action: CdpAction<TSchema>, args: z.infer<TSchema>): Promise<string>;
+}
+
+export type AgentRuntimeName = 'cdp' | 'local';
+
+/**
+ * CdpAgentkit.run declares args as the schema object itself but hands them to
+ * action.func, which takes the parsed arguments; this adapts it to WalletToolkit
+ */
+function cdpWalletToolkit(agentkit: CdpAgentkit): WalletToolkit {
+  return {
+    run: (action, args) => agentkit.run(action, args as unknown as typeof action.argsSchema),
+  };
+}
+
+/**
+ * CDP Agent Kit with an OpenAI model, created on first use so the server
+ * boots without CDP or OpenAI credentials
+ */
+export class CdpAgentRuntime implements AgentRuntime {
+  readonly name = 'cdp';
+  private toolkit: Promise<WalletToolkit> | null = null;
+  private agent: Promise<LlmAgent> | null = null;
+
+  constructor(
+    private readonly systemPrompt: string,
+    private readonly guard: AgentToolGuard,
+    private readonly options: { apiKeyName: string; apiKeyPrivateKey: string; networkId: string; model: string }
+  ) {}
+
+  async complete(request: AgentRequest): Promise<string> {
+    const agent = await this.getAgent();
+    const response = await agent.invoke([new HumanMessage(request.prompt)]);
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  async runAction<TSchema extends CdpActionSchemaAny>(action: CdpAction<TSchema>, args: z.infer<TSchema>): Promise<string> {
+    const toolkit = await this.getToolkit();
+    return toolkit.run(action, args);
+  }
+
+  private getToolkit(): Promise<WalletToolkit> {
+    if (!this.toolkit) {
+      this.toolkit = CdpAgentkit.configureWithWallet({
+        cdpApiKeyName: this.options.apiKeyName,
+        cdpApiKeyPrivateKey: this.options.apiKeyPrivateKey,
+        networkId: this.options.networkId,
+      }).then(agentkit => this.guard.guard(cdpWalletToolkit(agentkit))); // Every wallet action is allowlisted and capped
+      this.toolkit.catch(() => {
+        this.toolkit = null; // Retry configuration on the next call
+      });
+    }
+    return this.toolkit;
+  }
+
+  private getAgent(): Promise<LlmAgent> {
+    if (!this.agent) {
+      this.agent = Promise.all([this.getToolkit(), import('@coinbase/cdp-agentkit-langchain')])
+        .then(([agentkit, { CdpAgent }]) => new CdpAgent({
+          agentkit,
+          model: this.options.model,
+          systemPrompt: this.systemPrompt,
+        }));
+      this.agent.catch(() => {
+        this.agent = null;
+      });
+    }
+    return this.agent;
+  }
+}
+
+/**
+ * Pick the agent runtime from AGENT_RUNTIME, defaulting to cdp only when
+ * CDP and OpenAI credentials are configured. The local runtime signs nothing and
+ * fabricates transaction hashes, so it is refused in production.
+ */
+export function createAgentRuntime(
+  systemPrompt: string,
+  guard: AgentToolGuard = agentToolGuard,
+  name: string | undefined = config.AGENT.RUNTIME
+): AgentRuntime {
+  const hasCredentials = !!(config.CDP_API_KEY_NAME && config.CDP_API_KEY_PRIVATE_KEY && config.OPENAI_API_KEY);
+  const selected: AgentRuntimeName = name
+    ? (name as AgentRuntimeName)
+    : hasCredentials ? 'cdp' : 'local';
+
+  switch (selected) {
+    case 'cdp':
+      if (!hasCredentials) {
+        throw new Error('AGENT_RUNTIME=cdp requires CDP_API_KEY_NAME, CDP_API_KEY_PRIVATE_KEY and OPENAI_API_KEY');
+      }
+      return new CdpAgentRuntime(systemPrompt, guard, {
+        apiKeyName: config.CDP_API_KEY_NAME!,
+        apiKeyPrivateKey: config.CDP_API_KEY_PRIVATE_KEY!,
+        networkId: config.AGENT.NETWORK_ID,
+        model: config.OPENAI_MODEL,
+      });
+    case 'local':
+      if (config.NODE_ENV === 'production') {
+        throw new Error('The local agent runtime is not allowed in production; set CDP_API_KEY_NAME, CDP_API_KEY_PRIVATE_KEY and OPENAI_API_KEY');
+      }
+      return new LocalAgentRuntime(guard.guard(new MockWalletToolkit(config.AGENT.NETWORK_ID)));
+    default:
+      throw new Error(`Unsupported AGENT_RUNTIME: ${name}`);
+  }
+}
@@ -0,0 +1,247 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { parseUnits } from 'viem';
+import { CdpAction, CdpActionSchemaAny } from '@coinbase/cdp-agentkit-core';
+import { config } from '@/config';
+import { AgentActionRecord } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { WalletToolkit } from '@/agents/runtime';
+
+export type AgentTask = 'explainReward' | 'setupCoffeeShop' | 'validateCouponRedemption' | 'optimizeTipping' | 'mintCoupon';
+
+/**
+ * CDP Agentkit actions each CoffeeRewardAgent method may call; anything else is rejected
+ */
+export const AGENT_TOOL_ALLOWLIST: Record<AgentTask, readonly string[]> = {
+  explainReward: [],
+  setupCoffeeShop: ['get_wallet_details', 'get_balance', 'deploy_nft', 'transfer'],
+  validateCouponRedemption: ['get_wallet_details', 'get_balance'],
+  optimizeTipping: ['get_balance'],
+  mintCoupon: ['mint_coupon'],
+};
+
+export interface SpendCap {
+  perCall: string;
+  perDay: string; // Per UTC day, across all agent sessions
+}
+
+export const DEFAULT_SPEND_CAPS: Record<string, SpendCap> = Object.fromEntries(
+  Object.entries(config.AGENT.SPEND_CAPS).map(([assetId, cap]) => [
+    assetId.toLowerCase(),
+    { perCall: cap.PER_CALL, perDay: cap.PER_DAY },
+  ])
+);
+
+export interface GuardedResult<T> {
+  result: T;
+  dryRun: boolean;
+  actions: AgentActionRecord[]; // Every action the agent proposed, in order
+}
+
+interface GuardSession {
+  id: string;
+  task: AgentTask;
+  dryRun: boolean;
+  actions: AgentActionRecord[];
+}
+
+// Caps are compared in 18-decimal fixed point, enough for ETH and any ERC-20
+const toUnits = (amount: string): bigint => parseUnits(amount, 18);
+
+/**
+ * Asset and amount an action would spend from the agent wallet, if any
+ */
+function spendOf(action: string, args: Record<string, unknown>): { assetId: string; amount: string } | undefined {
+  switch (action) {
+    case 'transfer':
+      return { assetId: String(args.assetId).toLowerCase(), amount: String(args.amount) };
+    case 'trade':
+      return { assetId: String(args.fromAssetId).toLowerCase(), amount: String(args.amount) };
+    case 'register_basename':
+      return { assetId: 'eth', amount: String(args.amount) };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Sits between the LLM and the CDP wallet.
+ * Agent prompts carry user-supplied text (venue names, redemption codes), so every
+ * proposed action is logged and checked against the task's allowlist and the spend
+ * caps before it is signed. In dry-run mode approved actions are recorded as planned
+ * and never executed.
+ */
+export class AgentToolGuard {
+  private actions: Collection<AgentActionRecord>;
+  private sessions = new AsyncLocalStorage<GuardSession>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    db: Database = database,
+    private readonly allowlist: Record<AgentTask, readonly string[]> = AGENT_TOOL_ALLOWLIST,
+    private readonly caps: Record<string, SpendCap> = DEFAULT_SPEND_CAPS
+  ) {
+    this.actions = db.collection<AgentActionRecord>('agent_actions');
+  }
+
+  /**
+   * Wrap an agentkit (or mock toolkit) so its actions go through the guard
+   */
+  guard<T extends WalletToolkit>(toolkit: T): T {
+    const guarded = Object.create(toolkit) as T;
+    guarded.run = (action, args) => this.execute(action, args, () => toolkit.run(action, args));
+    return guarded;
+  }
+
+  /**
+   * Run an agent task; tool calls made while it runs are checked against its allowlist
+   */
+  async run<T>(task: AgentTask, fn: () => Promise<T>, options: { dryRun?: boolean } = {}): Promise<GuardedResult<T>> {
+    const session: GuardSession = {
+      id: `agent_${Date.now()}_${Math.random().toString(36).substring(2)}`,
+      task,
+      dryRun: options.dryRun ?? config.AGENT.DRY_RUN,
+      actions: [],
+    };
+
+    const result = await this.sessions.run(session, fn);
+    return { result, dryRun: session.dryRun, actions: session.actions };
+  }
+
+  async getSessionActions(sessionId: string): Promise<AgentActionRecord[]> {
+    const actions = await this.actions.find(action => action.sessionId === sessionId);
+    return actions.sort((a, b) => a.proposedAt.getTime() - b.proposedAt.getTime());
+  }
+
+  private async execute<TSchema extends CdpActionSchemaAny>(
+    action: CdpAction<TSchema>,
+    args: unknown,
+    perform: () => Promise<string>
+  ): Promise<string> {
+    const session = this.sessions.getStore();
+    const proposed = await this.serialize(() => this.review(session, action, args));
+    session?.actions.push(proposed);
+
+    if (proposed.status === 'rejected') {
+      console.warn('Agent action rejected:', { action: proposed.action, task: proposed.task, reason: proposed.reason });
+      return `Action ${proposed.action} was rejected: ${proposed.reason}`;
+    }
+    if (proposed.status === 'planned') {
+      return `Dry run: ${proposed.action} was planned but not executed`;
+    }
+
+    try {
+      const result = await perform();
+      this.track(session, await this.complete(proposed.id, { status: 'executed', result }));
+      return result;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.track(session, await this.complete(proposed.id, { status: 'failed', reason }));
+      throw error;
+    }
+  }
+
+  /**
+   * Validate a proposed action and record the decision.
+   * Runs serialized so concurrent sessions can't both spend the last of a daily cap.
+   */
+  private async review<TSchema extends CdpActionSchemaAny>(
+    session: GuardSession | undefined,
+    action: CdpAction<TSchema>,
+    args: unknown
+  ): Promise<AgentActionRecord> {
+    const parsed = action.argsSchema.safeParse(args);
+    const actionArgs: Record<string, unknown> = parsed.success ? parsed.data : { ...(args as object) };
+    const spend = spendOf(action.name, actionArgs);
+
+    const record: AgentActionRecord = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substring(2)}`,
+      sessionId: session?.id || 'none',
+      task: session?.task || 'none',
+      action: action.name,
+      args: actionArgs,
+      spend,
+      status: 'approved',
+      proposedAt: new Date(),
+    };
+
+    const reason = !session
+      ? 'Agent tool calls are only allowed inside a guarded task'
+      : !this.allowlist[session.task].includes(action.name)
+        ? `${action.name} is not allowed for ${session.task}`
+        : !parsed.success
+          ? `Invalid arguments: ${parsed.error.issues.map(issue => issue.message).join(', ')}`
+          : spend
+            ? await this.checkSpend(spend, record.proposedAt)
+            : undefined;
+
+    if (reason) {
+      record.status = 'rejected';
+      record.reason = reason;
+    } else if (session?.dryRun) {
+      record.status = 'planned';
+    }
+
+    console.log('Agent action proposed:', {
+      sessionId: record.sessionId,
+      task: record.task,
+      action: record.action,
+      spend: record.spend,
+      status: record.status,
+    });
+
+    return this.actions.insert(record);
+  }
+
+  /**
+   * Rejection reason if a spend breaks the per-call or per-day cap for its asset
+   */
+  private async checkSpend(spend: { assetId: string; amount: string }, now: Date): Promise<string | undefined> {
+    const cap = this.caps[spend.assetId];
+    if (!cap) return `Spending ${spend.assetId} is not allowed`;
+
+    let amount: bigint;
+    try {
+      amount = toUnits(spend.amount);
+    } catch {
+      return `Invalid ${spend.assetId} amount: ${spend.amount}`;
+    }
+    if (amount <= 0n) return 'Spend amount must be positive';
+    if (amount > toUnits(cap.perCall)) {
+      return `${spend.amount} ${spend.assetId} exceeds the per-call cap of ${cap.perCall}`;
+    }
+
+    const day = now.toISOString().substring(0, 10);
+    const spentToday = (await this.actions.find(record =>
+      record.spend?.assetId === spend.assetId &&
+      (record.status === 'approved' || record.status === 'executed') &&
+      record.proposedAt.toISOString().substring(0, 10) === day
+    )).reduce((sum, record) => sum + toUnits(record.spend!.amount), 0n);
+
+    if (spentToday + amount > toUnits(cap.perDay)) {
+      return `${spend.amount} ${spend.assetId} would exceed the daily cap of ${cap.perDay}`;
+    }
+    return undefined;
+  }
+
+  private async complete(
+    id: string,
+    outcome: Pick<AgentActionRecord, 'status' | 'result' | 'reason'>
+  ): Promise<AgentActionRecord | null> {
+    return this.actions.update(id, { ...outcome, completedAt: new Date() });
+  }
+
+  private track(session: GuardSession | undefined, record: AgentActionRecord | null): void {
+    if (!session || !record) return;
+    const index = session.actions.findIndex(action => action.id === record.id);
+    if (index >= 0) session.actions[index] = record;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const agentToolGuard = new AgentToolGuard();
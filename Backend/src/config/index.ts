@@ -33,7 +33,7 @@ export const config = {
     'https://codalabs.ngrok.io',
   ],
   
-  // Database Configuration (for future use)
+  // Database Configuration (memory: or file:<dir>, defaults to file:./data)
   DATABASE_URL: process.env.DATABASE_URL,
   
   // Blockchain Configuration
@@ -46,22 +46,56 @@ export const config = {
     LOYALTY_TOKEN: process.env.LOYALTY_TOKEN_ADDRESS || '',
     COUPON_NFT: process.env.COUPON_NFT_ADDRESS || '',
     SNAP_REGISTRY: process.env.SNAP_REGISTRY_ADDRESS || '',
+    REWARDS_CONTROLLER: process.env.REWARDS_CONTROLLER_ADDRESS || '',
+  },
+
+  // Chain event indexer (CouponNFT, LoyaltyToken, SnapRegistry, RewardsController)
+  INDEXER: {
+    ENABLED: process.env.INDEXER_ENABLED === 'true', // Run inside the API server
+    RPC_URL: process.env.INDEXER_RPC_URL, // Defaults to LOCAL_RPC_URL with SIGNER=local, else the Base RPC
+    START_BLOCK: parseInt(process.env.INDEXER_START_BLOCK || '0', 10), // Usually the contracts' deployment block
+    CONFIRMATIONS: parseInt(process.env.INDEXER_CONFIRMATIONS || '5', 10), // Blocks behind the head before indexing
+    BATCH_SIZE: parseInt(process.env.INDEXER_BATCH_SIZE || '2000', 10), // Blocks per getLogs request
+    POLL_INTERVAL_MS: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '15000', 10),
+  },
+  
+  // USDC tips (defaults are Circle's USDC on the configured Base network)
+  USDC: {
+    TOKEN_ADDRESS: process.env.USDC_TOKEN_ADDRESS || (process.env.NODE_ENV === 'production'
+      ? '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+      : '0x036CbD53842c5426634e7929541eC2318f3dCF7e'),
+    EIP712_NAME: process.env.USDC_EIP712_NAME || (process.env.NODE_ENV === 'production' ? 'USD Coin' : 'USDC'),
+    EIP712_VERSION: '2',
+    AUTHORIZATION_TTL_MINUTES: 30, // How long a relayed tip's signed authorization stays valid
   },
   
   // CDP (Coinbase Developer Platform) Configuration
   CDP_API_KEY: process.env.CDP_API_KEY!,
   CDP_API_SECRET: process.env.CDP_API_SECRET!,
   CDP_WALLET_ID: process.env.CDP_WALLET_ID,
-  
+  CDP_API_KEY_NAME: process.env.CDP_API_KEY_NAME, // Agent Kit credentials
+  CDP_API_KEY_PRIVATE_KEY: process.env.CDP_API_KEY_PRIVATE_KEY,
+
+  // Transaction signer: cdp (server wallet) | local (private key on a Hardhat node)
+  SIGNER: process.env.SIGNER || (process.env.NODE_ENV === 'production' ? 'cdp' : 'local'),
+  LOCAL_RPC_URL: process.env.LOCAL_RPC_URL || 'http://127.0.0.1:8545',
+  LOCAL_SIGNER_PRIVATE_KEY: process.env.LOCAL_SIGNER_PRIVATE_KEY, // Defaults to Hardhat account #0
+
   // Farcaster Configuration
   FARCASTER_WEBHOOK_SECRET: process.env.FARCASTER_WEBHOOK_SECRET,
   FARCASTER_API_KEY: process.env.FARCASTER_API_KEY,
   NEYNAR_API_KEY: process.env.NEYNAR_API_KEY,
   FARCASTER_SIGNER_UUID: process.env.FARCASTER_SIGNER_UUID,
+  FARCASTER_NETWORK: parseInt(process.env.FARCASTER_NETWORK || '1', 10), // Webhook messages must be for this network (1 = mainnet)
+  FARCASTER_WEBHOOK_MAX_AGE_SECONDS: parseInt(process.env.FARCASTER_WEBHOOK_MAX_AGE_SECONDS || '300', 10), // Replay window
   
   // AI/Image Processing
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  OPENAI_MODEL: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  OPENAI_MAX_TOKENS: parseInt(process.env.OPENAI_MAX_TOKENS || '1000', 10),
   GOOGLE_VISION_API_KEY: process.env.GOOGLE_VISION_API_KEY,
+  VISION_PROVIDER: process.env.VISION_PROVIDER, // openai | google | local (defaults by configured keys)
+  VISION_FIXTURES_PATH: process.env.VISION_FIXTURES_PATH, // JSON fixtures for the local provider
   
   // Firebase Storage Configuration
   FIREBASE_API_KEY: process.env.FIREBASE_API_KEY,
@@ -87,16 +121,30 @@ export const config = {
   },
   
   // API Authentication
-  JWT_SECRET: process.env.API_SECRET || process.env.JWT_SECRET || 'snap-coffee-dev-secret',
+  JWT_SECRET: process.env.JWT_SECRET || 'snap-coffee-dev-secret', // Signs user session tokens
   JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '7d',
+  AUTH: {
+    // Hosts a SIWE/SIWF message may name as its domain
+    DOMAINS: process.env.AUTH_DOMAINS?.split(',') || ['snapcoffee.xyz', 'localhost:8080'],
+    NONCE_TTL_MINUTES: 10,
+    BOOTSTRAP_ADMIN_KEY: process.env.BOOTSTRAP_ADMIN_KEY, // Admin key for creating the first API clients
+    OPTIMISM_RPC_URL: process.env.OPTIMISM_RPC_URL || 'https://mainnet.optimism.io', // Farcaster IdRegistry
+  },
   
   // Webhook Configuration
   WEBHOOK_SECRET: process.env.WEBHOOK_SECRET || 'snap-coffee-webhook-secret',
+  ONRAMP_WEBHOOK_SECRET: process.env.ONRAMP_WEBHOOK_SECRET, // HMAC key for x-cc-webhook-signature
+  ONRAMP: {
+    APP_ID: process.env.COINBASE_ONRAMP_APP_ID,
+    SESSION_TTL_MINUTES: parseInt(process.env.ONRAMP_SESSION_TTL_MINUTES || '60', 10),
+    SWEEP_INTERVAL_MS: parseInt(process.env.ONRAMP_SWEEP_INTERVAL_MS || '60000', 10), // How often stale sessions are expired
+  },
   
   // App Configuration
   APP_NAME: 'Snap Coffee Backend',
   APP_VERSION: '1.0.0',
   APP_URL: process.env.APP_URL || 'https://snapcoffee.xyz',
+  API_BASE_URL: process.env.API_BASE_URL || 'http://localhost:3001', // Public URL of this API (coupon metadata images)
   
   // Feature Flags
   FEATURES: {
@@ -109,6 +157,9 @@ export const config = {
   // Reward Configuration
   REWARDS: {
     COFFEE_SNAP_AMOUNT: process.env.REWARD_COFFEE_SNAP || '10', // 10 $BEAN per snap
+    QUALITY_BONUS_AMOUNT: '5', // +5 $BEAN for exceptional photos
+    QUALITY_BONUS_CONFIDENCE: 0.9, // Validation confidence that counts as exceptional
+    NEW_VENUE_BONUS_AMOUNT: '10', // +10 $BEAN for the first snap at a venue
     MILESTONE_AMOUNTS: {
       '10': '100', // 100 $BEAN for 10 snaps + NFT
       '25': '300', // 300 $BEAN for 25 snaps
@@ -116,13 +167,56 @@ export const config = {
       '100': '2000', // 2000 $BEAN for 100 snaps
     },
     COUPON_THRESHOLD: 10, // Snaps needed for NFT coupon
+    COUPON_DISCOUNT_PERCENT: 20, // CouponNFT discount for milestone coupons
+    COUPON_EXPIRY_DAYS: 30,
+  },
+
+  // Signed coupon QR codes shown at venues
+  COUPONS: {
+    PRESENTATION_TTL_SECONDS: parseInt(process.env.COUPON_PRESENTATION_TTL_SECONDS || '120', 10), // How long a QR stays valid
+    CLOCK_SKEW_SECONDS: 30, // Tolerated difference between the signer's and our clock
+    REMINDER_HOURS: parseInt(process.env.COUPON_REMINDER_HOURS || '72', 10), // Expiring-soon notice lead time
+    SWEEP_ENABLED: process.env.COUPON_SWEEP_ENABLED === 'true', // Run the lifecycle sweep inside the API server
+    SWEEP_INTERVAL_MS: parseInt(process.env.COUPON_SWEEP_INTERVAL_MS || '3600000', 10),
+    EXPIRY_BATCH_SIZE: 50, // Token IDs per CouponNFT.recordExpired call (contract allows 100)
+  },
+  
+  // Streaks (consecutive snap days in the user's timezone)
+  STREAKS: {
+    DEFAULT_TIMEZONE: process.env.STREAK_DEFAULT_TIMEZONE || 'UTC', // IANA zone when the client sends none
+    GRACE_DAYS: parseInt(process.env.STREAK_GRACE_DAYS || '1', 10), // Missed days tolerated between snap days
+    TIMEZONE_CHANGE_DAYS: parseInt(process.env.STREAK_TIMEZONE_CHANGE_DAYS || '30', 10), // Min days between timezone changes
+    BONUS_PER_DAY: 2, // +2 $BEAN per day in the current streak
+    MAX_BONUS_DAYS: 14, // Bonus stops growing after two weeks
+  },
+  
+  // CoffeeRewardAgent on-chain tool guard
+  AGENT: {
+    RUNTIME: process.env.AGENT_RUNTIME, // cdp | local (defaults to cdp when CDP and OpenAI keys are set)
+    NETWORK_ID: process.env.AGENT_NETWORK_ID || (process.env.NODE_ENV === 'production' ? 'base-mainnet' : 'base-sepolia'),
+    DRY_RUN: process.env.AGENT_DRY_RUN === 'true', // Plan tool calls without signing
+    SPEND_CAPS: {
+      // Per asset id, in whole units; assets not listed can't be spent by the agent
+      eth: {
+        PER_CALL: process.env.AGENT_ETH_PER_CALL_CAP || '0.001',
+        PER_DAY: process.env.AGENT_ETH_PER_DAY_CAP || '0.01',
+      },
+      usdc: {
+        PER_CALL: process.env.AGENT_USDC_PER_CALL_CAP || '5',
+        PER_DAY: process.env.AGENT_USDC_PER_DAY_CAP || '50',
+      },
+    } as Record<string, { PER_CALL: string; PER_DAY: string }>,
   },
   
   // Validation Thresholds
   VALIDATION: {
     AI_CONFIDENCE_THRESHOLD: 0.8, // 80% confidence required
     DUPLICATE_DETECTION_HOURS: 24, // Hours to check for duplicates
-    MAX_SNAPS_PER_DAY: 10, // Anti-spam limit
+    DUPLICATE_HASH_DISTANCE: 10, // Max differing bits (of 64) for perceptual hashes to match
+    MAX_SNAPS_PER_DAY: 10, // Anti-spam limit (per fid and per wallet)
+    VENUE_COOLDOWN_MINUTES: 30, // Matches RewardsController.COOLDOWN_PERIOD
+    MAX_PHOTO_AGE_HOURS: parseInt(process.env.MAX_PHOTO_AGE_HOURS || '24', 10), // From EXIF capture time
+    MAX_VENUE_DISTANCE_METERS: parseInt(process.env.MAX_VENUE_DISTANCE_METERS || '500', 10), // EXIF GPS to venue
   },
   
   // Logging Configuration
@@ -143,6 +237,10 @@ export function validateConfig(): void {
     throw new Error('NODE_ENV must be development, production, or test');
   }
   
+  if (config.NODE_ENV === 'production' && config.JWT_SECRET === 'snap-coffee-dev-secret') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  
   // Validate URLs
   try {
     new URL(config.BASE_RPC_URL);
@@ -1,69 +1,258 @@
 import { Request, Response } from 'express';
-import { ApiResponse } from '@/types';
+import axios from 'axios';
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { AgentActionRecord, ApiResponse, CoffeeSnap, MilestoneAward } from '@/types';
+import { config } from '@/config';
 import { coffeeRewardAgent } from '@/agents/reward-agent';
+import { ImageValidationService } from '@/services/image-validation';
+import { CoffeeShopService } from '@/services/coffee-shop';
+import { GooglePlacesService } from '@/services/places';
+import { StorageService } from '@/services/storage';
+import { snapRepository } from '@/services/snap-repository';
+import { snapQuotaService } from '@/services/snap-quota';
+import { snapRewardService } from '@/services/snap-rewards';
+import { milestoneService } from '@/services/milestones';
+import { AuthenticatedRequest, isSessionUser } from '@/middleware/auth';
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+const STORAGE_HOSTS = ['firebasestorage.googleapis.com', 'storage.googleapis.com'];
+
+/**
+ * imageUrl is fetched server-side, so only https URLs into our own storage bucket are
+ * accepted (no arbitrary hosts, ports or internal addresses); null if it isn't one
+ */
+function storageImageUrl(imageUrl: unknown): URL | null {
+  const bucket = config.FIREBASE_STORAGE_BUCKET;
+  if (typeof imageUrl !== 'string' || !bucket) return null;
+
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    return null;
+  }
+
+  const inBucket = url.hostname === 'firebasestorage.googleapis.com'
+    ? url.pathname.startsWith(`/v0/b/${bucket}/`)
+    : url.pathname.startsWith(`/${bucket}/`);
+  return url.protocol === 'https:' && !url.port && !url.username && STORAGE_HOSTS.includes(url.hostname) && inBucket
+    ? url
+    : null;
+}
 
 export class AgentController {
+  private imageValidationService = new ImageValidationService();
+  private coffeeShopService = new CoffeeShopService();
+  private placesService = new GooglePlacesService();
+  private storageService = new StorageService();
+  private snapQuotaService = snapQuotaService;
+  private snapRewardService = snapRewardService;
+
   /**
-   * AI-powered coffee snap validation with automatic reward distribution
+   * Validate a coffee snap (base64 imageData, or an imageUrl in our storage bucket) and
+   * credit the policy-computed reward.
+   * The agent only explains the breakdown; it never picks or transfers the amount.
    */
-  async validateAndReward(req: Request, res: Response) {
+  async validateAndReward(req: AuthenticatedRequest, res: Response) {
+    let reservationId: string | undefined;
+    let heldImageHash: string | undefined; // Reserved by validation until the snap is saved
+
     try {
       const {
+        imageData,
         imageUrl,
-        userAddress,
         venueName,
+        venueId,
         city,
         state,
         coffeeType,
-        userStreak = 0,
-        isNewVenue = false
+        userId,
+        timezone
       } = req.body;
 
       // Validation
-      if (!imageUrl || !userAddress || !venueName || !city || !state || !coffeeType) {
+      if ((!imageData && !imageUrl) || !venueName || !venueId || !city || !state || !coffeeType || !userId) {
         const response: ApiResponse = {
           success: false,
           error: 'Validation Error',
-          message: 'Missing required fields: imageUrl, userAddress, venueName, city, state, coffeeType'
+          message: 'Missing required fields: imageData or imageUrl, venueName, venueId, city, state, coffeeType, userId'
         };
         return res.status(400).json(response);
       }
 
-      // Use CDP Agent Kit for autonomous validation and reward distribution
-      const result = await coffeeRewardAgent.validateAndReward({
-        imageUrl,
-        userAddress,
-        venueName,
-        city,
-        state,
-        coffeeType,
-        userStreak,
-        isNewVenue
-      });
+      // The fid and wallet come from the Farcaster sign-in, never from the body
+      const session = req.session!;
+      const fid = session.fid;
+      const userAddress = session.walletAddress;
+      const user = await snapRepository.getUser(userId);
+      if (fid === null || (user && !isSessionUser(session, user))) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Forbidden',
+          message: fid === null ? 'Sign in with Farcaster to submit snaps' : 'You can only submit snaps as yourself'
+        };
+        return res.status(403).json(response);
+      }
 
-      if (result.success) {
+      const sourceUrl = imageData ? null : storageImageUrl(imageUrl);
+      if (!imageData && !sourceUrl) {
         const response: ApiResponse = {
-          success: true,
+          success: false,
+          error: 'Validation Error',
+          message: 'imageUrl must be an https URL in the Snap Coffee storage bucket; send imageData instead'
+        };
+        return res.status(400).json(response);
+      }
+
+      // Quotas key on the signed-in fid and wallet and the Places venue ID, like the coffee endpoints
+      const quota = await this.snapQuotaService.reserve({ fid, walletAddress: userAddress, venueId });
+      if (!quota.allowed) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Snap Quota Exceeded',
+          message: quota.message,
           data: {
-            validation: result.validation,
-            timestamp: result.timestamp,
-            agent: 'CDP Agent Kit',
-            autonomous: true
-          },
-          message: 'Coffee snap validated and rewards distributed by AI agent'
+            reason: quota.reason,
+            resetAt: quota.resetAt.toISOString(),
+            retryAfterSeconds: quota.retryAfterSeconds
+          }
         };
-        return res.json(response);
+        res.setHeader('Retry-After', quota.retryAfterSeconds.toString());
+        return res.status(429).json(response);
+      }
+      reservationId = quota.reservationId;
+
+      let imageBuffer: Buffer;
+      let contentType: unknown;
+      if (sourceUrl) {
+        const image = await axios.get<ArrayBuffer>(sourceUrl.toString(), {
+          responseType: 'arraybuffer',
+          timeout: IMAGE_FETCH_TIMEOUT_MS,
+          maxContentLength: MAX_IMAGE_BYTES,
+          maxRedirects: 0
+        });
+        imageBuffer = Buffer.from(image.data);
+        contentType = image.headers['content-type'];
       } else {
+        imageBuffer = Buffer.from(String(imageData).replace(/^data:image\/[a-z]+;base64,/, ''), 'base64');
+        if (imageBuffer.length > MAX_IMAGE_BYTES) {
+          await this.snapQuotaService.release(reservationId!);
+          const response: ApiResponse = {
+            success: false,
+            error: 'Validation Error',
+            message: 'imageData is larger than 10MB'
+          };
+          return res.status(400).json(response);
+        }
+      }
+      const mimeType = await this.detectImageType(imageBuffer, contentType);
+      if (!mimeType) {
+        await this.snapQuotaService.release(reservationId!);
         const response: ApiResponse = {
           success: false,
-          error: 'Agent Error',
-          message: result.error || 'AI agent validation failed'
+          error: 'Validation Error',
+          message: 'The submitted file is not an image'
         };
-        return res.status(500).json(response);
+        return res.status(400).json(response);
       }
 
+      // The Places venue's coordinates, for the photo GPS check
+      const venueCoordinates = typeof venueId === 'string'
+        ? (await this.placesService.getPlaceDetails(venueId))?.location
+        : undefined;
+      const validation = await this.imageValidationService.validateCoffeeImage(imageBuffer, mimeType, { userId, venueCoordinates });
+      if (!validation.isValidCoffee) {
+        await this.snapQuotaService.release(reservationId!);
+        const isDuplicate = !!validation.metadata.duplicateOf;
+        const failedProvenance = !isDuplicate && !validation.metadata.locationValid && !!validation.metadata.provenance;
+        const response: ApiResponse = {
+          success: false,
+          error: isDuplicate ? 'Duplicate Image' : failedProvenance ? 'Photo Provenance Error' : 'Invalid Coffee Image',
+          message: isDuplicate
+            ? 'This photo was already submitted recently'
+            : failedProvenance
+              ? 'Please snap a fresh photo at the venue'
+              : 'Image does not appear to contain coffee',
+          data: { validation }
+        };
+        return res.status(400).json(response);
+      }
+      heldImageHash = validation.metadata.perceptualHash;
+
+      const storedImageUrl = sourceUrl
+        ? sourceUrl.toString()
+        : await this.storageService.uploadImage(imageBuffer, `snaps/${userId}/${Date.now()}.jpg`);
+
+      const shopId = this.coffeeShopService.generateShopId(venueName, city, state);
+      const snap: CoffeeSnap = {
+        id: `snap_${Date.now()}_${Math.random().toString(36).substring(2)}`,
+        userId,
+        fid,
+        imageUrl: storedImageUrl,
+        imageHash: createHash('sha256').update(imageBuffer).digest('hex'),
+        location: {
+          venueId: shopId,
+          venueName,
+          latitude: venueCoordinates?.lat,
+          longitude: venueCoordinates?.lng,
+          city,
+          state
+        },
+        coffeeType,
+        timestamp: new Date(),
+        validated: true,
+        rewardAmount: '0'
+      };
+
+      // Reward comes from the RewardPolicy only
+      await this.snapRewardService.assess(snap, validation.confidence, timezone);
+      await snapRepository.saveSnap(snap, { walletAddress: userAddress });
+      await this.imageValidationService.recordImageHash(validation.metadata.perceptualHash, userId, snap.id);
+      heldImageHash = undefined;
+      const { entry, breakdown, streak } = await this.snapRewardService.credit(snap, timezone);
+
+      let milestones: MilestoneAward[] = [];
+      try {
+        milestones = await milestoneService.evaluate(userId, snap.id);
+      } catch (error) {
+        console.error('Milestone evaluation failed:', error);
+      }
+
+      // The explanation is best-effort; the reward is already credited
+      const explanation = await coffeeRewardAgent.explainReward({
+        venueName,
+        city,
+        state,
+        coffeeType,
+        confidence: validation.confidence,
+        breakdown
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          snap,
+          validation,
+          reward: breakdown,
+          rewardEntryId: entry.id,
+          streak,
+          milestones,
+          explanation: explanation.success ? explanation.explanation : null,
+          timestamp: new Date().toISOString(),
+          agent: 'CDP Agent Kit'
+        },
+        message: 'Coffee snap validated and reward credited'
+      };
+      return res.json(response);
+
     } catch (error) {
       console.error('Agent validate and reward error:', error);
+      if (reservationId) {
+        await this.snapQuotaService.release(reservationId);
+      }
+      await this.imageValidationService.releaseImageHash(heldImageHash);
       const response: ApiResponse = {
         success: false,
         error: 'Server Error',
@@ -78,7 +267,7 @@ export class AgentController {
    */
   async setupCoffeeShop(req: Request, res: Response) {
     try {
-      const { venueName, city, state, placeId } = req.body;
+      const { venueName, city, state, placeId, dryRun } = req.body;
 
       if (!venueName || !city || !state || !placeId) {
         const response: ApiResponse = {
@@ -94,13 +283,19 @@ export class AgentController {
         city,
         state,
         placeId
-      });
+      }, { dryRun: dryRun === true || undefined });
+
+      if (this.sendRejectedActions(res, result.actions)) {
+        return;
+      }
 
       if (result.success) {
         const response: ApiResponse = {
           success: true,
           data: {
             setup: result.setup,
+            dryRun: result.dryRun,
+            actions: result.actions, // Proposed wallet actions and the guard's decision on each
             timestamp: result.timestamp,
             agent: 'CDP Agent Kit',
             autonomous: true
@@ -133,7 +328,7 @@ export class AgentController {
    */
   async validateCouponRedemption(req: Request, res: Response) {
     try {
-      const { userAddress, couponTokenId, venueName, redemptionCode } = req.body;
+      const { userAddress, couponTokenId, venueName, redemptionCode, dryRun } = req.body;
 
       if (!userAddress || !couponTokenId || !venueName || !redemptionCode) {
         const response: ApiResponse = {
@@ -149,13 +344,19 @@ export class AgentController {
         couponTokenId,
         venueName,
         redemptionCode
-      });
+      }, { dryRun: dryRun === true || undefined });
+
+      if (this.sendRejectedActions(res, result.actions)) {
+        return;
+      }
 
       if (result.success) {
         const response: ApiResponse = {
           success: true,
           data: {
             redemption: result.redemption,
+            dryRun: result.dryRun,
+            actions: result.actions, // Proposed wallet actions and the guard's decision on each
             timestamp: result.timestamp,
             agent: 'CDP Agent Kit',
             autonomous: true
@@ -188,7 +389,7 @@ export class AgentController {
    */
   async optimizeTipping(req: Request, res: Response) {
     try {
-      const { fromUser, toCreator, creatorEngagement, suggestedAmount } = req.body;
+      const { fromUser, toCreator, creatorEngagement, suggestedAmount, dryRun } = req.body;
 
       if (!fromUser || !toCreator || creatorEngagement === undefined || !suggestedAmount) {
         const response: ApiResponse = {
@@ -204,13 +405,19 @@ export class AgentController {
         toCreator,
         creatorEngagement,
         suggestedAmount
-      });
+      }, { dryRun: dryRun === true || undefined });
+
+      if (this.sendRejectedActions(res, result.actions)) {
+        return;
+      }
 
       if (result.success) {
         const response: ApiResponse = {
           success: true,
           data: {
             optimization: result.optimization,
+            dryRun: result.dryRun,
+            actions: result.actions, // Proposed wallet actions and the guard's decision on each
             timestamp: result.timestamp,
             agent: 'CDP Agent Kit',
             autonomous: true
@@ -243,7 +450,7 @@ export class AgentController {
    */
   async mintCoupon(req: Request, res: Response) {
     try {
-      const { userAddress, storeId, storeName, reason } = req.body;
+      const { userAddress, storeId, storeName, reason, coffeeShopsEarned, dryRun } = req.body;
 
       if (!userAddress || !storeId || !storeName || !reason) {
         const response: ApiResponse = {
@@ -254,29 +461,39 @@ export class AgentController {
         return res.status(400).json(response);
       }
 
-      // Use server wallet service to mint coupon
-      const { cdpServerWalletService } = await import('@/services/cdp-server-wallet');
-      
-      const result = await cdpServerWalletService.distributeReward({
+      const result = await coffeeRewardAgent.mintCoupon({
         userAddress,
-        amount: 1, // 1 NFT
-        rewardType: 'NFT_COUPON',
         storeId,
-        reason
-      });
+        coffeeShopsEarned: coffeeShopsEarned !== undefined ? Number(coffeeShopsEarned) : undefined
+      }, { dryRun: dryRun === true || undefined });
+
+      if (!result.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Agent Error',
+          message: result.error || 'Coupon mint failed'
+        };
+        return res.status(500).json(response);
+      }
+
+      if (this.sendRejectedActions(res, result.actions)) {
+        return;
+      }
 
       const response: ApiResponse = {
         success: true,
         data: {
-          tokenId: result.transactionHash, // Use transaction hash as reference
+          tokenId: result.tokenId, // From the CouponMinted event; null when it couldn't be read
           transactionHash: result.transactionHash,
-          contractAddress: result.tokenAddress,
+          contractAddress: config.CONTRACTS.COUPON_NFT,
           storeId,
           storeName,
           reason,
-          timestamp: new Date().toISOString()
+          dryRun: result.dryRun,
+          actions: result.actions,
+          timestamp: result.timestamp
         },
-        message: `NFT coupon minted for ${storeName}`
+        message: result.transactionHash ? `NFT coupon minted for ${storeName}` : result.result
       };
       
       return res.json(response);
@@ -291,4 +508,42 @@ export class AgentController {
       res.status(500).json(response);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Respond 403 when the tool guard rejected any action the agent proposed, so a
+   * blocked transfer or mint is never reported as a success; returns false otherwise
+   */
+  private sendRejectedActions(res: Response, actions: AgentActionRecord[] = []): boolean {
+    const rejected = actions.filter(action => action.status === 'rejected');
+    if (rejected.length === 0) {
+      return false;
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Agent Action Rejected',
+      message: rejected.map(action => `${action.action}: ${action.reason}`).join('; '),
+      data: { actions }
+    };
+    res.status(403).json(response);
+    return true;
+  }
+
+  /**
+   * Image MIME type from the response header, or sniffed from the bytes when there is
+   * none (imageData); null if it isn't an image
+   */
+  private async detectImageType(buffer: Buffer, contentType: unknown): Promise<string | null> {
+    const declared = String(contentType || '').split(';')[0]!.trim();
+    if (declared) {
+      return declared.startsWith('image/') ? declared : null;
+    }
+
+    try {
+      const { format } = await sharp(buffer).metadata();
+      return format ? `image/${format}` : null;
+    } catch {
+      return null;
+    }
+  }
+}
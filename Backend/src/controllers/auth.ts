@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { ApiClient, ApiScope, NotFoundError, UnauthorizedError, ValidationError } from '@/types';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { ApiKeyService, apiKeyService } from '@/services/api-keys';
+import { AuthSessionService, authSessionService } from '@/services/auth-sessions';
+
+/**
+ * API client as shown to admins (without the key hash)
+ */
+const toPublicClient = ({ keyHash, ...client }: ApiClient) => client;
+
+export class AuthController {
+  private apiKeys: ApiKeyService = apiKeyService;
+  private sessions: AuthSessionService = authSessionService;
+
+  /**
+   * GET /api/auth/nonce
+   * Single-use nonce for a SIWF/SIWE message
+   */
+  async getNonce(req: Request, res: Response): Promise<void> {
+    try {
+      const nonce = await this.sessions.createNonce();
+      res.json({
+        success: true,
+        data: { nonce: nonce.id, expiresAt: nonce.expiresAt.toISOString() }
+      });
+    } catch (error) {
+      this.sendAuthError(res, error);
+    }
+  }
+
+  /**
+   * POST /api/auth/session
+   * Exchange a signed SIWF/SIWE message for a session token
+   */
+  async createSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { message, signature } = req.body;
+      const { token, session } = await this.sessions.signIn(message, signature);
+
+      res.json({
+        success: true,
+        data: {
+          token,
+          expiresAt: new Date(session.exp * 1000).toISOString(),
+          session
+        }
+      });
+    } catch (error) {
+      this.sendAuthError(res, error);
+    }
+  }
+
+  /**
+   * GET /api/auth/session
+   * The caller's session
+   */
+  async getSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    res.json({ success: true, data: req.session });
+  }
+
+  /**
+   * POST /api/auth/clients
+   * Create an API client; the key is only returned here
+   */
+  async createClient(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, scopes } = req.body;
+      const { client, apiKey } = await this.apiKeys.createClient(name, scopes as ApiScope[]);
+
+      res.status(201).json({
+        success: true,
+        data: { client: toPublicClient(client), apiKey },
+        message: 'Store this API key now; it cannot be shown again'
+      });
+    } catch (error) {
+      this.sendAuthError(res, error);
+    }
+  }
+
+  /**
+   * GET /api/auth/clients
+   */
+  async listClients(req: Request, res: Response): Promise<void> {
+    try {
+      const clients = await this.apiKeys.listClients();
+      res.json({ success: true, data: clients.map(toPublicClient) });
+    } catch (error) {
+      this.sendAuthError(res, error);
+    }
+  }
+
+  /**
+   * DELETE /api/auth/clients/:clientId
+   */
+  async revokeClient(req: Request, res: Response): Promise<void> {
+    try {
+      const client = await this.apiKeys.revokeClient(req.params.clientId!);
+      res.json({ success: true, data: toPublicClient(client) });
+    } catch (error) {
+      this.sendAuthError(res, error);
+    }
+  }
+
+  private sendAuthError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ success: false, error: error.message, field: error.field });
+      return;
+    }
+    if (error instanceof UnauthorizedError) {
+      res.status(401).json({ success: false, error: error.message });
+      return;
+    }
+    if (error instanceof NotFoundError) {
+      res.status(404).json({ success: false, error: error.message });
+      return;
+    }
+
+    console.error('Auth error:', error);
+    res.status(500).json({ success: false, error: 'Authentication failed' });
+  }
+}
@@ -1,12 +1,18 @@
 import { Request, Response } from 'express';
-import { ApiResponse, CoffeeSnap, CoffeeSnapValidation } from '@/types';
+import { ApiResponse, CoffeeSnap, CoffeeSnapValidation, MilestoneAward, ValidationError } from '@/types';
 import { config } from '@/config';
 import { ImageValidationService } from '@/services/image-validation';
 import { StorageService } from '@/services/storage';
 import { FarcasterService } from '@/services/farcaster';
 import { CoffeeShopService } from '@/services/coffee-shop';
 import { GooglePlacesService } from '@/services/places';
+import { FeedSort, SnapRepository, snapRepository } from '@/services/snap-repository';
+import { SnapQuotaDecision, snapQuotaService } from '@/services/snap-quota';
+import { milestoneService } from '@/services/milestones';
+import { streakService } from '@/services/streaks';
+import { SnapRewardCredit, snapRewardService } from '@/services/snap-rewards';
 import { coffeeRewardAgent } from '@/agents/reward-agent';
+import { AuthenticatedRequest, isSessionUser } from '@/middleware/auth';
 
 export class CoffeeController {
   private imageValidationService = new ImageValidationService();
@@ -14,22 +20,34 @@ export class CoffeeController {
   private farcasterService = new FarcasterService();
   private coffeeShopService = new CoffeeShopService();
   private placesService = new GooglePlacesService();
+  private snapRepository: SnapRepository = snapRepository;
+  private snapQuotaService = snapQuotaService;
+  private milestoneService = milestoneService;
+  private streakService = streakService;
+  private snapRewardService = snapRewardService;
   
   /**
    * Validate and process a coffee snap with file upload
    */
-  async validateSnap(req: Request, res: Response) {
+  async validateSnap(req: AuthenticatedRequest, res: Response) {
+    let reservationId: string | undefined;
+    let heldImageHash: string | undefined; // Reserved by validation until the snap is saved
+    
     try {
       const { 
         userId, 
-        fid, 
         coffeeType, 
         coffeeName, 
         venueName, 
         city, 
         state, 
         rating,
-        description 
+        description,
+        username,
+        displayName,
+        pfpUrl,
+        venueId,
+        timezone
       } = req.body;
       const imageFile = req.file;
       
@@ -42,30 +60,56 @@ export class CoffeeController {
         return res.status(400).json(response);
       }
       
-      if (!userId || !fid || !coffeeType || !coffeeName || !venueName || !city || !state) {
+      if (!userId || !coffeeType || !coffeeName || !venueName || !venueId || !city || !state) {
         const response: ApiResponse = {
           success: false,
           error: 'Validation Error',
-          message: 'Missing required fields: userId, fid, coffeeType, coffeeName, venueName, city, state',
+          message: 'Missing required fields: userId, coffeeType, coffeeName, venueName, venueId, city, state',
         };
         return res.status(400).json(response);
       }
       
+      const author = await this.authorizeSnapAuthor(req, res, userId);
+      if (!author) return res;
+      const { fid, walletAddress } = author;
+      
+      // Enforce daily limits and venue cooldown before any upload or AI call
+      const quota = await this.snapQuotaService.reserve({
+        fid,
+        walletAddress,
+        venueId, // The Places ID, as on submit-snap, so both endpoints share one cooldown
+      });
+      if (!quota.allowed) {
+        return this.sendQuotaExceeded(res, quota);
+      }
+      reservationId = quota.reservationId;
+      
+      const venueCoordinates = await this.lookupVenueCoordinates(venueId);
+      
       // Validate image content using AI
       const validation = await this.imageValidationService.validateCoffeeImage(
         imageFile.buffer,
-        imageFile.mimetype
+        imageFile.mimetype,
+        { userId, venueCoordinates }
       );
       
       if (!validation.isValidCoffee) {
+        await this.snapQuotaService.release(reservationId!);
+        const isDuplicate = !!validation.metadata.duplicateOf;
+        const failedProvenance = !isDuplicate && !validation.metadata.locationValid && !!validation.metadata.provenance;
         const response: ApiResponse = {
           success: false,
-          error: 'Invalid Coffee Image',
-          message: 'Image does not appear to contain coffee',
+          error: isDuplicate ? 'Duplicate Image' : failedProvenance ? 'Photo Provenance Error' : 'Invalid Coffee Image',
+          message: isDuplicate
+            ? 'This photo was already submitted recently'
+            : failedProvenance
+              ? 'Please snap a fresh photo at the venue'
+              : 'Image does not appear to contain coffee',
           data: { validation },
         };
         return res.status(400).json(response);
       }
+      heldImageHash = validation.metadata.perceptualHash;
       
       // Upload image to Firebase Storage
       const imageUrl = await this.storageService.uploadImage(
@@ -85,20 +129,26 @@ export class CoffeeController {
       const coffeeSnap: CoffeeSnap = {
         id: `snap_${Date.now()}_${Math.random().toString(36).substring(2)}`,
         userId,
-        fid: parseInt(fid),
+        fid,
         imageUrl,
         imageHash: await this.storageService.generateImageHash(imageFile.buffer),
         location: {
           venueId: coffeeShop.id,
           venueName: coffeeShop.name,
+          latitude: venueCoordinates?.lat,
+          longitude: venueCoordinates?.lng,
           city: coffeeShop.city,
           state: coffeeShop.state,
         },
+        coffeeType,
+        coffeeName,
+        rating: rating ? parseInt(rating) : undefined,
         description: `${coffeeType} - ${coffeeName}${description ? ` | ${description}` : ''}`,
         timestamp: new Date(),
         validated: true,
         rewardAmount: config.REWARDS.COFFEE_SNAP_AMOUNT,
       };
+      await this.snapRewardService.assess(coffeeSnap, validation.confidence, timezone);
       
       // Create Farcaster post and share URL (dual approach like ZodiacCard)
       let farcasterCast = null;
@@ -132,6 +182,7 @@ export class CoffeeController {
         
         if (castResponse.success && castResponse.cast) {
           farcasterCast = castResponse.cast;
+          coffeeSnap.castHash = farcasterCast.hash;
           console.log('Farcaster cast created:', farcasterCast.hash);
           
           // Wait for cast verification
@@ -144,6 +195,13 @@ export class CoffeeController {
             
             if (verification.verified) {
               console.log('Farcaster cast verified, processing rewards...');
+              if (verification.cast) {
+                await this.snapRepository.updateEngagement(
+                  coffeeSnap.id,
+                  verification.cast.reactions,
+                  verification.cast.hash
+                );
+              }
               // TODO: Trigger reward distribution to user
               // TODO: Update coffee shop metadata
               await this.coffeeShopService.updateShopMetadata(
@@ -162,8 +220,12 @@ export class CoffeeController {
         // Continue with share URL - user can still post manually
       }
       
-      // TODO: Save snap to database
-      console.log('Coffee snap validated:', coffeeSnap.id);
+      await this.snapRepository.saveSnap(coffeeSnap, { username, displayName, pfpUrl, walletAddress });
+      await this.imageValidationService.recordImageHash(validation.metadata.perceptualHash, userId, coffeeSnap.id);
+      heldImageHash = undefined;
+      const { breakdown, streak } = await this.snapRewardService.credit(coffeeSnap, timezone);
+      const milestones = await this.awardMilestones(userId, coffeeSnap.id);
+      console.log('Coffee snap validated and saved:', coffeeSnap.id);
       
       const response: ApiResponse = {
         success: true,
@@ -174,6 +236,9 @@ export class CoffeeController {
           farcasterCast,
           warpcastShareUrl, // Include share URL for manual posting
           rewardEligible: true,
+          reward: breakdown,
+          streak,
+          milestones, // Newly awarded by this snap
         },
         message: 'Coffee snap validated and posted successfully!',
       };
@@ -182,6 +247,11 @@ export class CoffeeController {
     } catch (error: any) {
       console.error('Validate snap error:', error);
       
+      if (reservationId) {
+        await this.snapQuotaService.release(reservationId);
+      }
+      await this.imageValidationService.releaseImageHash(heldImageHash);
+      
       const response: ApiResponse = {
         success: false,
         error: 'Snap Validation Error',
@@ -195,11 +265,14 @@ export class CoffeeController {
   /**
    * Submit coffee snap with base64 image data
    */
-  async submitSnap(req: Request, res: Response) {
+  async submitSnap(req: AuthenticatedRequest, res: Response) {
+    let reservationId: string | undefined;
+    let heldImageHash: string | undefined; // Reserved by validation until the snap is saved
+    
     try {
-      const { userId, fid, imageData, location, description } = req.body;
+      const { userId, imageData, location, description, timezone } = req.body;
       
-      if (!userId || !fid || !imageData || !location) {
+      if (!userId || !imageData || !location) {
         const response: ApiResponse = {
           success: false,
           error: 'Validation Error',
@@ -208,14 +281,44 @@ export class CoffeeController {
         return res.status(400).json(response);
       }
       
+      const author = await this.authorizeSnapAuthor(req, res, userId);
+      if (!author) return res;
+      const { fid, walletAddress } = author;
+      
+      const snapLocation = typeof location === 'string' ? JSON.parse(location) : location;
+      if (!snapLocation?.venueId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: 'location.venueId is required',
+        };
+        return res.status(400).json(response);
+      }
+      const venueCoordinates = await this.lookupVenueCoordinates(snapLocation.venueId);
+      
+      // Enforce daily limits and venue cooldown before any upload or AI call
+      const quota = await this.snapQuotaService.reserve({
+        fid,
+        walletAddress,
+        venueId: snapLocation.venueId,
+      });
+      if (!quota.allowed) {
+        return this.sendQuotaExceeded(res, quota);
+      }
+      reservationId = quota.reservationId;
+      
       // Convert base64 to buffer
       const imageBuffer = Buffer.from(imageData.replace(/^data:image\/[a-z]+;base64,/, ''), 'base64');
       
       // Validate image
       const validation = await this.imageValidationService.validateCoffeeImage(
         imageBuffer,
-        'image/jpeg'
+        'image/jpeg',
+        { userId, venueCoordinates }
       );
+      if (validation.isValidCoffee) {
+        heldImageHash = validation.metadata.perceptualHash;
+      }
       
       // Upload and process similar to validateSnap
       const imageUrl = await this.storageService.uploadImage(
@@ -226,19 +329,40 @@ export class CoffeeController {
       const coffeeSnap: CoffeeSnap = {
         id: `snap_${Date.now()}_${Math.random().toString(36).substring(2)}`,
         userId,
-        fid: parseInt(fid),
+        fid,
         imageUrl,
         imageHash: await this.storageService.generateImageHash(imageBuffer),
-        location: typeof location === 'string' ? JSON.parse(location) : location,
+        location: { ...snapLocation, latitude: venueCoordinates?.lat, longitude: venueCoordinates?.lng },
         description,
         timestamp: new Date(),
         validated: validation.isValidCoffee,
         rewardAmount: validation.isValidCoffee ? config.REWARDS.COFFEE_SNAP_AMOUNT : '0',
       };
       
+      if (coffeeSnap.validated) {
+        await this.snapRewardService.assess(coffeeSnap, validation.confidence, timezone);
+      }
+      
+      await this.snapRepository.saveSnap(coffeeSnap, { walletAddress });
+      let credited: SnapRewardCredit | null = null;
+      if (coffeeSnap.validated) {
+        await this.imageValidationService.recordImageHash(validation.metadata.perceptualHash, userId, coffeeSnap.id);
+        heldImageHash = undefined;
+        credited = await this.snapRewardService.credit(coffeeSnap, timezone);
+      } else {
+        await this.snapQuotaService.release(reservationId!);
+      }
+      const milestones = coffeeSnap.validated ? await this.awardMilestones(userId, coffeeSnap.id) : [];
+      
       const response: ApiResponse = {
         success: true,
-        data: { snap: coffeeSnap, validation },
+        data: {
+          snap: coffeeSnap,
+          validation,
+          reward: credited?.breakdown || null,
+          streak: credited?.streak || null,
+          milestones,
+        },
         message: 'Coffee snap submitted successfully',
       };
       
@@ -246,6 +370,11 @@ export class CoffeeController {
     } catch (error: any) {
       console.error('Submit snap error:', error);
       
+      if (reservationId) {
+        await this.snapQuotaService.release(reservationId);
+      }
+      await this.imageValidationService.releaseImageHash(heldImageHash);
+      
       const response: ApiResponse = {
         success: false,
         error: 'Snap Submission Error',
@@ -257,54 +386,95 @@ export class CoffeeController {
   }
   
   /**
-   * Get paginated coffee snap feed
+   * Get cursor-paginated coffee snap feed
    */
   async getFeed(req: Request, res: Response) {
     try {
-      const { page = '1', limit = '20', userId, venueId } = req.query;
-      
-      // TODO: Implement actual database query
-      // Mock feed data for now
-      const mockSnaps: CoffeeSnap[] = Array.from({ length: parseInt(limit as string) }, (_, i) => ({
-        id: `snap_${i}`,
-        userId: `user_${i % 5}`,
-        fid: 100000 + i,
-        imageUrl: `https://picsum.photos/400/300?random=${i}`,
-        imageHash: `hash_${i}`,
-        location: {
-          venueId: `venue_${i % 10}`,
-          venueName: `Coffee Shop ${i % 10}`,
-        },
-        description: `Enjoying coffee #${i}`,
-        timestamp: new Date(Date.now() - i * 3600000),
-        validated: true,
-        rewardAmount: '10',
-      }));
+      const {
+        cursor,
+        limit = '20',
+        sort = 'recent',
+        userId,
+        venueId,
+        city,
+        state,
+        coffeeType,
+        fid,
+        following,
+        viewerFid,
+      } = req.query;
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+      
+      if (sort !== 'recent' && sort !== 'engagement') {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: 'sort must be one of: recent, engagement',
+        };
+        return res.status(400).json(response);
+      }
+      
+      const authorFid = fid ? parseInt(fid as string) : undefined;
+      if (authorFid !== undefined && isNaN(authorFid)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: 'fid must be a number',
+        };
+        return res.status(400).json(response);
+      }
+      
+      // "Following only" restricts the feed to authors the viewer follows on Farcaster
+      let authorFids: number[] | undefined;
+      if (following === 'true') {
+        const viewer = parseInt(viewerFid as string);
+        if (isNaN(viewer)) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Validation Error',
+            message: 'viewerFid is required when following=true',
+          };
+          return res.status(400).json(response);
+        }
+        authorFids = await this.farcasterService.getFollowingFids(viewer);
+      }
+      
+      const { snaps, nextCursor, hasMore } = await this.snapRepository.queryFeed({
+        userId: userId as string | undefined,
+        venueId: venueId as string | undefined,
+        city: city as string | undefined,
+        state: state as string | undefined,
+        coffeeType: coffeeType as string | undefined,
+        authorFid,
+        authorFids,
+        sort: sort as FeedSort,
+        cursor: cursor as string | undefined,
+        limit: limitNum,
+      });
       
       const response: ApiResponse = {
         success: true,
         data: {
-          snaps: mockSnaps,
+          snaps,
           pagination: {
-            page: parseInt(page as string),
-            limit: parseInt(limit as string),
-            total: 1000,
-            pages: Math.ceil(1000 / parseInt(limit as string)),
+            limit: limitNum,
+            nextCursor,
+            hasMore,
           },
         },
       };
       
-      res.json(response);
+      return res.json(response);
     } catch (error: any) {
       console.error('Get feed error:', error);
       
       const response: ApiResponse = {
         success: false,
-        error: 'Feed Error',
+        error: error instanceof ValidationError ? 'Validation Error' : 'Feed Error',
         message: error.message,
       };
       
-      res.status(500).json(response);
+      return res.status(error instanceof ValidationError ? 400 : 500).json(response);
     }
   }
   
@@ -315,37 +485,44 @@ export class CoffeeController {
     try {
       const { userId } = req.params;
       const { page = '1', limit = '20' } = req.query;
-      
-      // TODO: Implement actual database query
-      const mockSnaps: CoffeeSnap[] = Array.from({ length: 5 }, (_, i) => ({
-        id: `snap_${userId}_${i}`,
-        userId,
-        fid: 123456,
-        imageUrl: `https://picsum.photos/400/300?random=${userId}_${i}`,
-        imageHash: `hash_${userId}_${i}`,
-        location: {
-          venueId: `venue_${i}`,
-          venueName: `Coffee Shop ${i}`,
-        },
-        description: `My coffee #${i}`,
-        timestamp: new Date(Date.now() - i * 86400000),
-        validated: true,
-        rewardAmount: '10',
-      }));
+      const pageNum = Math.max(1, parseInt(page as string) || 1);
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+
+      if (!userId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Validation Error',
+          message: 'User ID is required',
+        };
+        return res.status(400).json(response);
+      }
+
+      const [{ snaps, total }, stats, streak] = await Promise.all([
+        this.snapRepository.listSnaps({
+          userId,
+          offset: (pageNum - 1) * limitNum,
+          limit: limitNum,
+        }),
+        this.snapRepository.getUserStats(userId),
+        this.streakService.getStreak(userId),
+      ]);
       
       const response: ApiResponse = {
         success: true,
         data: {
-          snaps: mockSnaps,
-          stats: {
-            totalSnaps: mockSnaps.length,
-            totalRewards: (mockSnaps.length * 10).toString(),
-            avgPerDay: '2.5',
+          snaps,
+          stats: { ...stats, currentStreak: streak.currentStreak, longestStreak: streak.longestStreak },
+          streak,
+          pagination: {
+            page: pageNum,
+            limit: limitNum,
+            total,
+            pages: Math.ceil(total / limitNum),
           },
         },
       };
       
-      res.json(response);
+      return res.json(response);
     } catch (error: any) {
       console.error('Get user snaps error:', error);
       
@@ -355,7 +532,7 @@ export class CoffeeController {
         message: error.message,
       };
       
-      res.status(500).json(response);
+      return res.status(500).json(response);
     }
   }
   
@@ -396,6 +573,7 @@ export class CoffeeController {
         name: shop.name,
         address: shop.address,
         distance: shop.distance,
+        coordinates: shop.location,
         rating: shop.rating,
         openNow: shop.openNow,
         priceLevel: shop.priceLevel,
@@ -511,22 +689,18 @@ export class CoffeeController {
   async getLeaderboard(req: Request, res: Response) {
     try {
       const { timeframe = 'week', limit = '10' } = req.query;
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 10));
       
-      // TODO: Implement actual database query
-      const mockLeaderboard = Array.from({ length: parseInt(limit as string) }, (_, i) => ({
-        rank: i + 1,
-        userId: `user_${i}`,
-        username: `coffee_user_${i}`,
-        fid: 100000 + i,
-        snapCount: 50 - i * 3,
-        totalRewards: ((50 - i * 3) * 10).toString(),
-        pfpUrl: `https://via.placeholder.com/150?text=User${i}`,
-      }));
+      const timeframeDays: Record<string, number> = { day: 1, week: 7, month: 30 };
+      const days = timeframeDays[timeframe as string];
+      const since = days ? new Date(Date.now() - days * 86400000) : null; // 'all' or unknown = all time
+      
+      const leaderboard = await this.snapRepository.getLeaderboard(since, limitNum);
       
       const response: ApiResponse = {
         success: true,
         data: {
-          leaderboard: mockLeaderboard,
+          leaderboard,
           timeframe,
           lastUpdated: new Date().toISOString(),
         },
@@ -545,4 +719,72 @@ export class CoffeeController {
       res.status(500).json(response);
     }
   }
+  
+  /**
+   * Award any milestones reached by a validated snap; never fails the snap itself
+   */
+  private async awardMilestones(userId: string, snapId: string): Promise<MilestoneAward[]> {
+    try {
+      return await this.milestoneService.evaluate(userId, snapId);
+    } catch (error) {
+      console.error('Milestone evaluation failed:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * The snap author's fid and wallet, taken from the Farcaster sign-in and never from the body;
+   * responds 403 and returns null when the session may not post as userId
+   */
+  private async authorizeSnapAuthor(
+    req: AuthenticatedRequest,
+    res: Response,
+    userId: string
+  ): Promise<{ fid: number; walletAddress: string } | null> {
+    const session = req.session!;
+    const user = await this.snapRepository.getUser(userId);
+    if (session.fid === null || (user && !isSessionUser(session, user))) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Forbidden',
+        message: session.fid === null ? 'Sign in with Farcaster to submit snaps' : 'You can only submit snaps as yourself',
+      };
+      res.status(403).json(response);
+      return null;
+    }
+    return { fid: session.fid, walletAddress: session.walletAddress };
+  }
+  
+  /**
+   * Venue coordinates for the photo GPS check, looked up by Places ID so clients can't move
+   * the venue to where the photo was taken; undefined when the venue can't be resolved,
+   * which fails the check for any photo that carries GPS
+   */
+  private async lookupVenueCoordinates(venueId: unknown): Promise<{ lat: number; lng: number } | undefined> {
+    if (typeof venueId !== 'string' || !venueId) return undefined;
+    const place = await this.placesService.getPlaceDetails(venueId);
+    return place?.location;
+  }
+  
+  /**
+   * Structured 429 for snap quota violations
+   */
+  private sendQuotaExceeded(res: Response, quota: SnapQuotaDecision) {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Snap Quota Exceeded',
+      message: quota.message,
+      data: {
+        reason: quota.reason,
+        limit: quota.limit,
+        used: quota.used,
+        remaining: quota.remaining,
+        resetAt: quota.resetAt.toISOString(),
+        retryAfterSeconds: quota.retryAfterSeconds,
+      },
+    };
+    
+    res.setHeader('Retry-After', quota.retryAfterSeconds.toString());
+    return res.status(429).json(response);
+  }
 }
\ No newline at end of file
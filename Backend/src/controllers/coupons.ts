@@ -1,5 +1,137 @@
 import { Request, Response } from 'express';
+import { isAddress } from 'viem';
 import config from '@/config';
+import {
+  BlockchainEvent,
+  CONTRACT_ERROR_STATUS,
+  ContractError,
+  CouponError,
+  CouponErrorCode,
+  CouponStatus,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/types';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { couponNftService, OnchainCoupon, onchainCouponStatus, toCouponError } from '@/services/coupon-nft';
+import { couponPresentationService } from '@/services/coupon-presentations';
+import { couponLifecycleService } from '@/services/coupon-lifecycle';
+import { CouponImageFormat, couponMetadataService } from '@/services/coupon-metadata';
+import { chainIndexer } from '@/services/chain-indexer';
+import { snapRepository } from '@/services/snap-repository';
+
+const COUPON_ERROR_STATUS: Record<CouponErrorCode, number> = {
+  COUPON_NOT_FOUND: 404,
+  COUPON_ALREADY_REDEEMED: 409,
+  COUPON_EXPIRED: 410,
+  WRONG_VENUE: 422,
+  REDEEMER_NOT_AUTHORIZED: 503,
+  CONTRACT_PAUSED: 503,
+};
+
+// Accepts either a token ID or the API's coupon_<tokenId> form
+const toTokenId = (couponId: unknown): string => String(couponId).replace(/^coupon_/, '');
+
+/**
+ * Coupon terms as stored on-chain
+ */
+const serializeTerms = (coupon: OnchainCoupon | null) => ({
+  discountPercent: coupon?.discountPercent ?? null,
+  discount: coupon ? `${coupon.discountPercent}%` : null,
+  expiryTimestamp: coupon?.expiryTimestamp ?? null,
+  validUntil: coupon ? new Date(coupon.expiryTimestamp * 1000).toISOString() : null,
+  couponVenueId: coupon?.venueId || null, // null when valid at any venue
+  owner: coupon?.owner ?? null
+});
+
+const COUPON_STATUSES: CouponStatus[] = ['active', 'redeemed', 'expired'];
+const COUPON_IMAGE_FORMATS: CouponImageFormat[] = ['svg', 'png'];
+
+/**
+ * Lowercased wallet for a user ID that is either an address or a user with a wallet on file
+ */
+const resolveWallet = async (userId: string): Promise<string | null> => {
+  if (isAddress(userId)) return userId.toLowerCase();
+  const user = await snapRepository.getUser(userId);
+  return user?.walletAddress ? user.walletAddress.toLowerCase() : null;
+};
+
+/**
+ * Coupons built from indexed CouponMinted events (newest first), with later redemptions and expiry extensions
+ */
+const loadIndexedCoupons = async (match: (minted: BlockchainEvent['args']) => boolean, now: Date = new Date()) => {
+  const [minted, redeemed, extended] = await Promise.all([
+    chainIndexer.findEvents({ contract: 'CouponNFT', eventName: 'CouponMinted', match }),
+    chainIndexer.findEvents({ contract: 'CouponNFT', eventName: 'CouponRedeemed' }),
+    chainIndexer.findEvents({ contract: 'CouponNFT', eventName: 'CouponExpiryExtended' })
+  ]);
+  const redemptions = new Map(redeemed.map(event => [String(event.args.tokenId), event]));
+
+  // Events come newest first, so the first extension seen per token is the current expiry
+  const extensions = new Map<string, number>();
+  for (const event of extended) {
+    const tokenId = String(event.args.tokenId);
+    if (!extensions.has(tokenId)) extensions.set(tokenId, Number(event.args.newExpiryTimestamp));
+  }
+
+  return minted.map(event => {
+    const tokenId = String(event.args.tokenId);
+    const redemption = redemptions.get(tokenId);
+    const expiryTimestamp = extensions.get(tokenId) ?? Number(event.args.expiryTimestamp);
+    const status: CouponStatus = redemption
+      ? 'redeemed'
+      : expiryTimestamp * 1000 <= now.getTime() ? 'expired' : 'active';
+
+    return {
+      couponId: `coupon_${tokenId}`,
+      tokenId,
+      mintedTo: event.args.to as string,
+      discountPercent: Number(event.args.discountPercent),
+      discount: `${event.args.discountPercent}%`,
+      coffeeShopsEarned: Number(event.args.coffeeShopsEarned),
+      status,
+      validUntil: new Date(expiryTimestamp * 1000).toISOString(),
+      venueRestriction: (event.args.venueId as string) || null,
+      mintedAt: event.timestamp,
+      mintTransactionHash: event.transactionHash,
+      redeemedAt: redemption ? new Date(Number(redemption.args.timestamp) * 1000).toISOString() : null,
+      redeemedVenueId: redemption ? redemption.args.venueId as string : null,
+      redeemTransactionHash: redemption?.transactionHash ?? null
+    };
+  });
+};
+
+const sendCouponError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ValidationError) {
+    res.status(400).json({ success: false, error: error.message, field: error.field });
+    return;
+  }
+  if (error instanceof CouponError) {
+    res.status(COUPON_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+    return;
+  }
+  if (error instanceof UnauthorizedError) {
+    res.status(403).json({ success: false, error: error.message });
+    return;
+  }
+  if (error instanceof NotFoundError) {
+    res.status(404).json({ success: false, error: error.message });
+    return;
+  }
+  if (error instanceof ContractError) {
+    console.error('Coupon contract error:', error.code, error.message);
+    res.status(CONTRACT_ERROR_STATUS[error.code]).json({
+      success: false,
+      error: error.revertReason || error.message,
+      code: error.code,
+      transactionHash: error.transactionHash
+    });
+    return;
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
 
 export class CouponsController {
   /**
@@ -52,12 +184,14 @@ export class CouponsController {
 
   /**
    * GET /api/coupons/user/:userId
-   * Get user's NFT coupons
+   * Get the NFT coupons minted to a user's wallet, from indexed CouponNFT events
    */
   async getUserCoupons(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
       const { status = 'all', page = '1', limit = '10' } = req.query;
+      const pageNum = Math.max(1, parseInt(page as string) || 1);
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 10));
       
       if (!userId) {
         res.status(400).json({
@@ -67,29 +201,32 @@ export class CouponsController {
         return;
       }
 
-      // TODO: Implement actual coupon retrieval from smart contract
-      // For now, return mock coupons
-      const mockCoupons = Array.from({ length: parseInt(limit as string) }, (_, i) => ({
-        couponId: `coupon_${i + 1}`,
-        tokenId: 1000 + i,
-        userId,
-        discount: ['20%', '15%', '25%', '10%'][i % 4],
-        status: ['active', 'redeemed', 'expired'][i % 3],
-        validUntil: new Date(Date.now() + (30 - i * 5) * 24 * 60 * 60 * 1000).toISOString(),
-        venueRestriction: i % 2 === 0 ? null : `venue_${i}`,
-        mintedAt: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString(),
-        redeemedAt: i % 3 === 1 ? new Date(Date.now() - (i * 12) * 60 * 60 * 1000).toISOString() : null
-      })).filter(coupon => status === 'all' || coupon.status === status);
+      if (status !== 'all' && !COUPON_STATUSES.includes(status as CouponStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: all, ${COUPON_STATUSES.join(', ')}`
+        });
+        return;
+      }
+
+      const walletAddress = await resolveWallet(userId);
+      const coupons = walletAddress ? await loadIndexedCoupons(minted =>
+        String(minted.to).toLowerCase() === walletAddress
+      ) : [];
+      const filtered = coupons
+        .map(coupon => ({ ...coupon, userId }))
+        .filter(coupon => status === 'all' || coupon.status === status);
       
       res.json({
         success: true,
         data: {
-          coupons: mockCoupons,
+          walletAddress,
+          coupons: filtered.slice((pageNum - 1) * limitNum, pageNum * limitNum),
           pagination: {
-            page: parseInt(page as string),
-            limit: parseInt(limit as string),
-            total: 25,
-            totalPages: 3
+            page: pageNum,
+            limit: limitNum,
+            total: filtered.length,
+            totalPages: Math.ceil(filtered.length / limitNum)
           }
         }
       });
@@ -103,13 +240,14 @@ export class CouponsController {
     }
   }
 
+
   /**
    * POST /api/coupons/redeem
-   * Redeem NFT coupon
+   * Redeem NFT coupon on CouponNFT through the REDEEMER_ROLE signer
    */
   async redeemCoupon(req: Request, res: Response): Promise<void> {
     try {
-      const { couponId, venueId, redeemCode } = req.body;
+      const { couponId, venueId, originalValue } = req.body;
       
       if (!couponId || !venueId) {
         res.status(400).json({
@@ -119,38 +257,44 @@ export class CouponsController {
         return;
       }
 
-      // TODO: Validate coupon exists and is not expired
-      // TODO: Check venue restriction if applicable
-      // TODO: Implement smart contract redemption
-      // For now, return mock response
-      
-      const mockTxHash = `0x${Math.random().toString(16).substring(2, 66)}`;
+      const tokenId = toTokenId(couponId);
+      const check = await couponNftService.checkRedemption(tokenId, venueId);
+      if (!check.isValid) {
+        throw toCouponError(check.issues[0]!) || new ValidationError(check.issues[0]!, 'couponId');
+      }
+
+      // Venues redeem with an API key; a signed-in user can only redeem their own coupon
+      const { apiClient, session } = req as AuthenticatedRequest;
+      if (!apiClient && session && session.walletAddress.toLowerCase() !== check.coupon!.owner.toLowerCase()) {
+        throw new UnauthorizedError('Only the coupon holder can redeem this coupon');
+      }
+
+      const redemption = await couponNftService.redeemCoupon(tokenId, venueId);
+      const coupon = check.coupon!;
+      const price = parseFloat(originalValue);
       
       res.json({
         success: true,
         data: {
-          couponId,
+          couponId: `coupon_${redemption.tokenId}`,
+          tokenId: redemption.tokenId,
           venueId,
-          transactionHash: mockTxHash,
-          redeemedAt: new Date().toISOString(),
-          discount: '20%',
-          originalValue: '5.00',
-          discountedValue: '4.00'
+          transactionHash: redemption.transactionHash,
+          redeemedAt: redemption.redeemedAt.toISOString(),
+          ...serializeTerms(coupon),
+          originalValue: isNaN(price) ? null : price.toFixed(2),
+          discountedValue: isNaN(price) ? null : (price * (100 - coupon.discountPercent) / 100).toFixed(2)
         }
       });
 
     } catch (error) {
-      console.error('Error redeeming coupon:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to redeem coupon'
-      });
+      sendCouponError(res, error, 'Failed to redeem coupon');
     }
   }
 
   /**
    * GET /api/coupons/:couponId
-   * Get coupon details
+   * Get coupon details from CouponNFT state, with the local record's lifecycle fields
    */
   async getCouponDetails(req: Request, res: Response): Promise<void> {
     try {
@@ -164,47 +308,49 @@ export class CouponsController {
         return;
       }
 
-      // TODO: Implement actual coupon retrieval from smart contract
-      // For now, return mock coupon details
-      const mockCoupon = {
-        couponId,
-        tokenId: Math.floor(Math.random() * 10000),
-        userId: `user_${Math.floor(Math.random() * 1000)}`,
-        discount: '20%',
-        status: 'active',
-        validUntil: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString(),
-        venueRestriction: null,
-        mintedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-        redeemedAt: null,
-        metadata: {
-          coffeeShopsEarned: 10,
-          description: 'Congratulations on your 10th coffee snap! Enjoy 20% off your next coffee.',
-          image: 'https://snapcoffee.xyz/nft-coupon.jpg',
-          attributes: [
-            { trait_type: 'Discount', value: '20%' },
-            { trait_type: 'Type', value: 'General Coupon' },
-            { trait_type: 'Earned From', value: '10 Coffee Snaps' }
-          ]
-        }
-      };
+      const tokenId = toTokenId(couponId);
+      const onchain = await couponNftService.readCoupon(tokenId);
+      if (!onchain) {
+        throw new CouponError('Coupon does not exist', 'COUPON_NOT_FOUND');
+      }
+      const local = await couponNftService.getCoupon(tokenId);
+
+      const now = Date.now();
+      const expiresAt = onchain.expiryTimestamp * 1000;
+      const status = onchainCouponStatus(onchain, new Date(now));
       
       res.json({
         success: true,
-        data: mockCoupon
+        data: {
+          couponId: `coupon_${tokenId}`,
+          tokenId,
+          userId: local?.userId ?? null,
+          status,
+          expiringSoon: status === 'active' && expiresAt - now <= config.COUPONS.REMINDER_HOURS * 60 * 60 * 1000,
+          ...serializeTerms(onchain),
+          venueRestriction: onchain.venueId || null,
+          redeemedAt: onchain.redeemedAt ? new Date(onchain.redeemedAt * 1000).toISOString() : null,
+          redeemedBy: onchain.redeemedBy,
+          expiryRecorded: !!local?.expiryRecordedTransactionHash,
+          reissuedFrom: local?.reissuedFrom ?? null,
+          reissuedAs: local?.reissuedAs ?? null,
+          metadata: local ? {
+            ...local.metadata,
+            coffeeShopsEarned: onchain.coffeeShopsEarned
+          } : null,
+          mintTransactionHash: local?.mintTransactionHash ?? null
+        }
       });
 
     } catch (error) {
-      console.error('Error getting coupon details:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get coupon details'
-      });
+      sendCouponError(res, error, 'Failed to get coupon details');
     }
   }
 
+
   /**
    * POST /api/coupons/validate-redemption
-   * Validate coupon for redemption (for venues)
+   * Validate coupon for redemption (for venues) against CouponNFT state
    */
   async validateRedemption(req: Request, res: Response): Promise<void> {
     try {
@@ -218,54 +364,37 @@ export class CouponsController {
         return;
       }
 
-      // TODO: Implement actual validation logic
-      // Check if coupon exists, is not expired, not already redeemed
-      // Check venue restrictions if applicable
-      // For now, return mock validation
-      
-      const isValid = Math.random() > 0.2; // 80% validation success rate
-      const issues = [];
-      
-      if (!isValid) {
-        const possibleIssues = [
-          'Coupon has already been redeemed',
-          'Coupon has expired',
-          'Coupon is not valid at this venue',
-          'Coupon not found'
-        ];
-        issues.push(possibleIssues[Math.floor(Math.random() * possibleIssues.length)]);
-      }
+      const check = await couponNftService.checkRedemption(toTokenId(couponId), venueId);
       
       res.json({
         success: true,
         data: {
-          couponId,
+          couponId: `coupon_${check.tokenId}`,
+          tokenId: check.tokenId,
           venueId,
-          isValid,
-          discount: isValid ? '20%' : null,
-          validUntil: isValid ? new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString() : null,
-          issues,
+          isValid: check.isValid,
+          errorCode: check.errorCode,
+          issues: check.issues,
+          ...serializeTerms(check.coupon),
           checkedAt: new Date().toISOString()
         }
       });
 
     } catch (error) {
-      console.error('Error validating redemption:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to validate coupon redemption'
-      });
+      sendCouponError(res, error, 'Failed to validate coupon redemption');
     }
   }
 
   /**
    * GET /api/coupons/venue/:venueId/redeemed
-   * Get redeemed coupons for a venue
+   * Get coupons redeemed at a venue, from indexed CouponNFT events
    */
   async getVenueRedemptions(req: Request, res: Response): Promise<void> {
     try {
       const { venueId } = req.params;
       const { page = '1', limit = '10' } = req.query;
+      const pageNum = Math.max(1, parseInt(page as string) || 1);
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 10));
       
       if (!venueId) {
         res.status(400).json({
@@ -275,38 +404,53 @@ export class CouponsController {
         return;
       }
 
-      // TODO: Implement actual venue redemption history
-      // For now, return mock redemptions
-      const mockRedemptions = Array.from({ length: parseInt(limit as string) }, (_, i) => ({
-        couponId: `coupon_${i + 1}`,
-        tokenId: 1000 + i,
-        userId: `user_${Math.floor(Math.random() * 1000)}`,
-        discount: ['20%', '15%', '25%'][i % 3],
-        originalValue: (Math.random() * 10 + 5).toFixed(2),
-        discountedValue: (Math.random() * 8 + 4).toFixed(2),
-        redeemedAt: new Date(Date.now() - i * 60 * 60 * 1000).toISOString(),
-        transactionHash: `0x${Math.random().toString(16).substring(2, 66)}`
-      }));
-      
-      const totalSavings = mockRedemptions.reduce((sum, redemption) => {
-        return sum + (parseFloat(redemption.originalValue) - parseFloat(redemption.discountedValue));
-      }, 0);
+      const [redeemed, minted] = await Promise.all([
+        chainIndexer.findEvents({
+          contract: 'CouponNFT',
+          eventName: 'CouponRedeemed',
+          match: args => args.venueId === venueId
+        }),
+        chainIndexer.findEvents({ contract: 'CouponNFT', eventName: 'CouponMinted' })
+      ]);
+      const mintedByToken = new Map(minted.map(event => [String(event.args.tokenId), event]));
+
+      const redemptions = redeemed.map(event => {
+        const mint = mintedByToken.get(String(event.args.tokenId));
+        const discountPercent = mint ? Number(mint.args.discountPercent) : null;
+        return {
+          couponId: `coupon_${event.args.tokenId}`,
+          tokenId: String(event.args.tokenId),
+          mintedTo: mint ? mint.args.to : null,
+          redeemedBy: event.args.redeemedBy,
+          discountPercent,
+          discount: discountPercent !== null ? `${discountPercent}%` : null,
+          redeemedAt: new Date(Number(event.args.timestamp) * 1000).toISOString(),
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber
+        };
+      });
+
+      const discounts = redemptions
+        .map(redemption => redemption.discountPercent)
+        .filter((discount): discount is number => discount !== null);
+      const averageDiscount = discounts.length > 0
+        ? discounts.reduce((sum, discount) => sum + discount, 0) / discounts.length
+        : null;
       
       res.json({
         success: true,
         data: {
           venueId,
-          redemptions: mockRedemptions,
+          redemptions: redemptions.slice((pageNum - 1) * limitNum, pageNum * limitNum),
           summary: {
-            totalRedemptions: 150,
-            totalSavingsProvided: totalSavings.toFixed(2),
-            averageDiscount: '18.5%'
+            totalRedemptions: redemptions.length,
+            averageDiscount: averageDiscount !== null ? `${averageDiscount.toFixed(1)}%` : null
           },
           pagination: {
-            page: parseInt(page as string),
-            limit: parseInt(limit as string),
-            total: 150,
-            totalPages: 15
+            page: pageNum,
+            limit: limitNum,
+            total: redemptions.length,
+            totalPages: Math.ceil(redemptions.length / limitNum)
           }
         }
       });
@@ -319,4 +463,183 @@ export class CouponsController {
       });
     }
   }
-}
\ No newline at end of file
+
+
+  /**
+   * POST /api/coupons/:tokenId/presentation
+   * Typed data for the holder's wallet to sign into a short-lived coupon QR code
+   */
+  async createPresentation(req: Request, res: Response): Promise<void> {
+    try {
+      const { session } = req as AuthenticatedRequest;
+      const request = await couponPresentationService.createRequest(req.params.tokenId!, session!.walletAddress);
+
+      res.json({
+        success: true,
+        data: {
+          typedData: request,
+          holder: session!.walletAddress,
+          expiresAt: new Date(Number(request.message.expiry) * 1000).toISOString()
+        }
+      });
+
+    } catch (error) {
+      sendCouponError(res, error, 'Failed to create coupon code');
+    }
+  }
+
+  /**
+   * POST /api/coupons/scan
+   * Verify a scanned coupon QR code and redeem the coupon at the venue
+   */
+  async redeemScannedCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const { qr, venueId } = req.body;
+
+      if (!qr || !venueId) {
+        res.status(400).json({
+          success: false,
+          error: 'Coupon code (qr) and venue ID are required'
+        });
+        return;
+      }
+
+      const { presentation, redemption } = await couponPresentationService.redeem(qr, venueId);
+
+      res.json({
+        success: true,
+        data: {
+          tokenId: redemption.tokenId,
+          venueId: redemption.venueId,
+          holder: presentation.holder,
+          transactionHash: redemption.transactionHash,
+          redeemedAt: redemption.redeemedAt.toISOString()
+        }
+      });
+
+    } catch (error) {
+      sendCouponError(res, error, 'Failed to redeem coupon');
+    }
+  }
+
+  /**
+   * POST /api/coupons/:tokenId/extend
+   * Push back an unredeemed coupon's expiry on-chain and notify the holder (admin)
+   */
+  async extendCouponExpiry(req: Request, res: Response): Promise<void> {
+    try {
+      const tokenId = toTokenId(req.params.tokenId);
+      const extension = await couponNftService.extendExpiry(tokenId, Number(req.body.additionalDays));
+
+      const coupon = await couponNftService.getCoupon(tokenId);
+      if (coupon) {
+        await couponLifecycleService.notifyExtended(coupon, extension);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          tokenId,
+          previousValidUntil: extension.previousExpiryDate.toISOString(),
+          validUntil: extension.expiryDate.toISOString(),
+          transactionHash: extension.transactionHash
+        }
+      });
+
+    } catch (error) {
+      sendCouponError(res, error, 'Failed to extend coupon expiry');
+    }
+  }
+
+  /**
+   * POST /api/coupons/:tokenId/reissue
+   * Replace an expired, unredeemed coupon with a new one on the same terms (admin)
+   */
+  async reissueCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const tokenId = toTokenId(req.params.tokenId);
+      const { expiryDays } = req.body;
+      const replacement = await couponNftService.reissueCoupon(
+        tokenId,
+        expiryDays !== undefined ? Number(expiryDays) : undefined
+      );
+      await couponLifecycleService.notifyReissued(replacement);
+
+      res.json({
+        success: true,
+        data: {
+          reissuedFrom: tokenId,
+          couponId: replacement.id,
+          tokenId: replacement.tokenId,
+          validUntil: replacement.metadata.expiryDate?.toISOString() ?? null,
+          transactionHash: replacement.mintTransactionHash
+        }
+      });
+
+    } catch (error) {
+      sendCouponError(res, error, 'Failed to reissue coupon');
+    }
+  }
+
+  /**
+   * POST /api/coupons/expiry-sweep
+   * Run the coupon lifecycle sweep now instead of waiting for the scheduler (admin)
+   */
+  async runExpirySweep(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await couponLifecycleService.sweep();
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      sendCouponError(res, error, 'Failed to run coupon expiry sweep');
+    }
+  }
+
+  /**
+   * GET /api/coupons/metadata/:tokenId
+   * ERC-721 metadata JSON for CouponNFT.tokenURI, from current couponData
+   */
+  async getTokenMetadata(req: Request, res: Response): Promise<void> {
+    try {
+      const tokenId = toTokenId(req.params.tokenId).replace(/\.json$/, '');
+      const metadata = await couponMetadataService.getMetadata(tokenId);
+
+      // Short cache: redemption and expiry change what the metadata says
+      res.setHeader('Cache-Control', 'public, max-age=60');
+      res.json(metadata);
+
+    } catch (error) {
+      sendCouponError(res, error, 'Failed to get coupon metadata');
+    }
+  }
+
+  /**
+   * GET /api/coupons/metadata/:tokenId/image.:format
+   * Rendered coupon image (svg or png) with REDEEMED / EXPIRED overlays
+   */
+  async getTokenImage(req: Request, res: Response): Promise<void> {
+    try {
+      const { format } = req.params;
+      if (!COUPON_IMAGE_FORMATS.includes(format as CouponImageFormat)) {
+        res.status(400).json({
+          success: false,
+          error: `format must be one of: ${COUPON_IMAGE_FORMATS.join(', ')}`
+        });
+        return;
+      }
+
+      const tokenId = toTokenId(req.params.tokenId);
+      const image = await couponMetadataService.renderImage(tokenId, format as CouponImageFormat);
+
+      res.setHeader('Cache-Control', 'public, max-age=60');
+      res.type(format === 'png' ? 'image/png' : 'image/svg+xml').send(image);
+
+    } catch (error) {
+      sendCouponError(res, error, 'Failed to render coupon image');
+    }
+  }
+}
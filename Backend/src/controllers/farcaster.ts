@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { ApiResponse, FarcasterWebhookPayload, FarcasterUser } from '@/types';
+import { FarcasterWebhookRequest } from '@/middleware';
 import { logUserConnectionToFirebase } from '@/services/firebase';
+import { streakService } from '@/services/streaks';
 
 export class FarcasterController {
   
@@ -10,11 +12,14 @@ export class FarcasterController {
   async handleWebhook(req: Request, res: Response) {
     try {
       const payload: FarcasterWebhookPayload = req.body;
+      const { farcasterMessage } = req as FarcasterWebhookRequest;
       
       console.log('Farcaster webhook received:', {
         fid: payload.untrustedData.fid,
         url: payload.untrustedData.url,
         timestamp: payload.untrustedData.timestamp,
+        verified: !!farcasterMessage,
+        messageHash: farcasterMessage?.hash,
       });
       
       // Process webhook based on the action
@@ -58,9 +63,16 @@ export class FarcasterController {
         connectedAddress: '0x1234567890abcdef1234567890abcdef12345678',
       };
       
+      const streak = await streakService.getStreakByFid(Number(fid));
+      
       const response: ApiResponse = {
         success: true,
-        data: userProfile,
+        data: {
+          ...userProfile,
+          currentStreak: streak.currentStreak,
+          longestStreak: streak.longestStreak,
+          streak,
+        },
       };
       
       res.json(response);
@@ -0,0 +1,64 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { NotificationService, notificationService } from '@/services/notifications';
+
+export class NotificationsController {
+  private notifications: NotificationService = notificationService;
+
+  /**
+   * GET /api/notifications
+   * The signed-in user's notifications, newest first
+   */
+  async listNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { unread, limit = '50' } = req.query;
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 50));
+
+      const [notifications, unreadCount] = await Promise.all([
+        this.notifications.listForSession(req.session!, { unreadOnly: unread === 'true', limit: limitNum }),
+        this.notifications.countUnread(req.session!)
+      ]);
+
+      res.json({
+        success: true,
+        data: { notifications, unreadCount }
+      });
+    } catch (error) {
+      console.error('Error listing notifications:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list notifications'
+      });
+    }
+  }
+
+  /**
+   * POST /api/notifications/read
+   * Mark notifications read (all of them when no ids are given)
+   */
+  async markRead(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { ids } = req.body;
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+        res.status(400).json({
+          success: false,
+          error: 'ids must be a list of notification IDs'
+        });
+        return;
+      }
+
+      const updated = await this.notifications.markRead(req.session!, ids);
+
+      res.json({
+        success: true,
+        data: { updated }
+      });
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to mark notifications read'
+      });
+    }
+  }
+}
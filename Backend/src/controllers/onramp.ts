@@ -1,7 +1,45 @@
 import { Request, Response } from 'express';
 import config from '@/config';
+import { OnrampSession, OnrampSessionStatus, ValidationError } from '@/types';
+import { AuthenticatedRequest, isSessionUser } from '@/middleware/auth';
+import { OnrampSessionService, onrampSessionService } from '@/services/onramp-sessions';
+import { snapRepository } from '@/services/snap-repository';
+
+const SESSION_STATUSES: OnrampSessionStatus[] = ['pending', 'completed', 'failed', 'expired'];
+
+const serializeSession = (session: OnrampSession) => ({
+  sessionId: session.sessionId,
+  onrampUrl: session.onrampUrl || null,
+  userId: session.userId,
+  amount: session.amount,
+  currency: session.currency,
+  destinationWallet: session.destinationWallet,
+  status: session.status,
+  transactionHash: session.transactionHash || null,
+  creditedAmount: session.creditedAmount || null,
+  failureReason: session.failureReason || null,
+  createdAt: session.createdAt.toISOString(),
+  completedAt: session.completedAt?.toISOString() || null,
+  expiresAt: session.expiresAt.toISOString()
+});
 
 export class OnrampController {
+  private sessions: OnrampSessionService = onrampSessionService;
+  private snapRepository = snapRepository;
+
+  /**
+   * Admin API keys may read any user's onramp sessions; signed-in users only their own
+   */
+  private async canAccessUser(req: Request, userId: string): Promise<boolean> {
+    const { session, apiClient } = req as AuthenticatedRequest;
+    if (apiClient) {
+      return true;
+    }
+
+    const user = await this.snapRepository.getUser(userId);
+    return !!session && !!user && isSessionUser(session, user);
+  }
+
   /**
    * POST /api/onramp/create-session
    * Create CDP Onramp session for fiat-to-crypto conversion
@@ -18,24 +56,17 @@ export class OnrampController {
         return;
       }
 
-      // TODO: Implement actual CDP Onramp session creation
-      // For now, return mock session
-      const mockSessionId = `session_${Math.random().toString(36).substring(2, 15)}`;
-      const mockOnrampUrl = `https://pay.coinbase.com/buy/input?sessionId=${mockSessionId}`;
+      // Persisted so webhook events can move it through pending -> completed | failed | expired
+      const session = await this.sessions.createSession({
+        userId,
+        amount: String(amount),
+        currency,
+        destinationWallet,
+      });
       
       res.json({
         success: true,
-        data: {
-          sessionId: mockSessionId,
-          onrampUrl: mockOnrampUrl,
-          userId,
-          amount,
-          currency,
-          destinationWallet,
-          status: 'created',
-          expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // 1 hour
-          createdAt: new Date().toISOString()
-        }
+        data: serializeSession(session)
       });
 
     } catch (error) {
@@ -63,28 +94,27 @@ export class OnrampController {
         return;
       }
 
-      // TODO: Implement actual session status check with CDP
-      // For now, return mock status
-      const statuses = ['created', 'pending', 'completed', 'failed', 'expired'];
-      const mockStatus = statuses[Math.floor(Math.random() * statuses.length)];
-      
-      const sessionData = {
-        sessionId,
-        status: mockStatus,
-        amount: '50.00',
-        currency: 'USD',
-        cryptoAmount: '0.0012',
-        cryptoCurrency: 'ETH',
-        destinationWallet: '0x1234567890123456789012345678901234567890',
-        transactionHash: mockStatus === 'completed' ? `0x${Math.random().toString(16).substring(2, 66)}` : null,
-        createdAt: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
-        completedAt: mockStatus === 'completed' ? new Date().toISOString() : null,
-        expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString()
-      };
+      // Reflects webhook updates and expiry; clients poll this until the status leaves pending
+      const session = await this.sessions.getSession(sessionId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Onramp session not found'
+        });
+        return;
+      }
+
+      if (!(await this.canAccessUser(req, session.userId))) {
+        res.status(403).json({
+          success: false,
+          error: 'You can only view your own onramp sessions'
+        });
+        return;
+      }
       
       res.json({
         success: true,
-        data: sessionData
+        data: serializeSession(session)
       });
 
     } catch (error) {
@@ -102,25 +132,47 @@ export class OnrampController {
    */
   async handleWebhook(req: Request, res: Response): Promise<void> {
     try {
-      const webhookData = req.body;
-      const signature = req.headers['x-cc-webhook-signature'] as string;
-      
-      // TODO: Verify webhook signature
-      // TODO: Process webhook event (payment completed, failed, etc.)
+      // Signature was verified and the raw body parsed by validateOnrampWebhook
+      const result = await this.sessions.handleWebhookEvent(req.body);
       
       console.log('Received onramp webhook:', {
-        eventType: webhookData.event?.type,
-        sessionId: webhookData.event?.data?.id,
-        status: webhookData.event?.data?.timeline?.status
+        eventId: result.eventId,
+        duplicate: result.duplicate,
+        outcome: result.outcome,
+        sessionId: result.session?.sessionId,
+        status: result.session?.status
       });
 
-      // For now, just acknowledge receipt
+      // Not acknowledged, so the provider redelivers it once the session exists
+      if (result.outcome === 'unknown_session') {
+        res.status(404).json({
+          success: false,
+          error: 'Onramp session not found'
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
-        message: 'Webhook received and processed'
+        data: {
+          eventId: result.eventId,
+          duplicate: result.duplicate,
+          outcome: result.outcome,
+          sessionId: result.session?.sessionId || null,
+          status: result.session?.status || null
+        },
+        message: result.duplicate ? 'Webhook already processed' : 'Webhook received and processed'
       });
 
     } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
       console.error('Error handling onramp webhook:', error);
       res.status(500).json({
         success: false,
@@ -146,45 +198,41 @@ export class OnrampController {
         return;
       }
 
-      // TODO: Implement actual user session history retrieval
-      // For now, return mock sessions
-      const statuses = ['created', 'pending', 'completed', 'failed', 'expired'];
-      
-      const mockSessions = Array.from({ length: parseInt(limit as string) }, (_, i) => {
-        const sessionStatus = status || statuses[i % statuses.length];
-        return {
-          sessionId: `session_${i + 1}_${Math.random().toString(36).substring(2, 8)}`,
-          userId,
-          amount: (Math.random() * 100 + 10).toFixed(2),
-          currency: 'USD',
-          cryptoAmount: (Math.random() * 0.01).toFixed(4),
-          cryptoCurrency: 'ETH',
-          status: sessionStatus,
-          transactionHash: sessionStatus === 'completed' ? `0x${Math.random().toString(16).substring(2, 66)}` : null,
-          createdAt: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString(),
-          completedAt: sessionStatus === 'completed' ? new Date(Date.now() - i * 20 * 60 * 60 * 1000).toISOString() : null
-        };
-      });
+      if (!(await this.canAccessUser(req, userId))) {
+        res.status(403).json({
+          success: false,
+          error: 'You can only view your own onramp sessions'
+        });
+        return;
+      }
+
+      const statusFilter = typeof status === 'string' && SESSION_STATUSES.includes(status as OnrampSessionStatus)
+        ? status as OnrampSessionStatus
+        : undefined;
+      const pageNum = Math.max(1, parseInt(page as string) || 1);
+      const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 10));
       
-      const totalAmount = mockSessions
-        .filter(s => s.status === 'completed')
-        .reduce((sum, session) => sum + parseFloat(session.amount), 0);
+      const sessions = await this.sessions.listUserSessions(userId, statusFilter);
+      const completed = sessions.filter(s => s.status === 'completed');
+      const totalAmount = completed.reduce((sum, session) => sum + parseFloat(session.amount), 0);
       
       res.json({
         success: true,
         data: {
-          sessions: mockSessions,
+          sessions: sessions
+            .slice((pageNum - 1) * limitNum, pageNum * limitNum)
+            .map(serializeSession),
           summary: {
-            totalSessions: mockSessions.length,
-            completedSessions: mockSessions.filter(s => s.status === 'completed').length,
+            totalSessions: sessions.length,
+            completedSessions: completed.length,
             totalAmountSpent: totalAmount.toFixed(2),
             currency: 'USD'
           },
           pagination: {
-            page: parseInt(page as string),
-            limit: parseInt(limit as string),
-            total: 25,
-            totalPages: 3
+            page: pageNum,
+            limit: limitNum,
+            total: sessions.length,
+            totalPages: Math.ceil(sessions.length / limitNum)
           }
         }
       });
@@ -200,7 +248,7 @@ export class OnrampController {
 
   /**
    * POST /api/onramp/tip
-   * Process tip transaction via onramp
+   * Create an onramp session that funds the tipper's wallet for a tip
    */
   async processTip(req: Request, res: Response): Promise<void> {
     try {
@@ -214,27 +262,24 @@ export class OnrampController {
         return;
       }
 
-      // TODO: Create onramp session for tip amount
-      // TODO: Handle successful payment and transfer to recipient
-      // For now, return mock tip processing
-      
-      const mockSessionId = `tip_session_${Math.random().toString(36).substring(2, 15)}`;
-      const mockOnrampUrl = `https://pay.coinbase.com/buy/input?sessionId=${mockSessionId}&amount=${amount}&preset=tip`;
-      
+      // The purchase funds the tipper's own wallet; once the session completes the tip
+      // is sent through POST /api/users/tips/send and shows up in both users' tip history
+      const { session } = req as AuthenticatedRequest;
+      const onrampSession = await this.sessions.createSession({
+        userId: String(fromUserId),
+        amount: String(amount),
+        currency,
+        destinationWallet: session!.walletAddress,
+      });
+
       res.json({
         success: true,
         data: {
-          tipId: `tip_${Math.random().toString(36).substring(2, 15)}`,
-          sessionId: mockSessionId,
-          onrampUrl: mockOnrampUrl,
+          ...serializeSession(onrampSession),
           fromUserId,
           toUserId,
-          amount,
-          currency,
-          status: 'created',
           message: `Tip of ${currency} ${amount} from user ${fromUserId} to user ${toUserId}`,
-          expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // 1 hour
-          createdAt: new Date().toISOString()
+          next: 'When this session completes, send the tip with POST /api/users/tips/send'
         }
       });
 
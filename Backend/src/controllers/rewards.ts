@@ -1,41 +1,156 @@
 import { Request, Response } from 'express';
 import { ethers } from 'ethers';
-import config from '@/config';
+import { formatUnits, parseUnits } from 'viem';
+import {
+  CONTRACT_ERROR_STATUS,
+  ContractError,
+  MintRewardRequest,
+  RewardEntryStatus,
+  RewardLedgerEntry,
+  RewardReason,
+  ValidationError,
+} from '@/types';
+import { AuthenticatedRequest, isSessionUser } from '@/middleware/auth';
+import { beanMintService } from '@/services/bean-minter';
+import { chainIndexer } from '@/services/chain-indexer';
+import { milestoneService } from '@/services/milestones';
+import { rewardLedger } from '@/services/reward-ledger';
+import { snapRepository } from '@/services/snap-repository';
+
+const REWARD_REASONS: RewardReason[] = ['coffee_snap', 'milestone', 'bonus', 'claim', 'tip'];
+const REWARD_STATUSES: RewardEntryStatus[] = ['pending', 'claiming', 'settled', 'failed'];
+const MINT_REASONS: MintRewardRequest['reason'][] = ['coffee_snap', 'milestone', 'bonus'];
+const ONCHAIN_REWARD_EVENTS = ['TokensMinted', 'SnapRecorded', 'RewardDistributed', 'CoffeeVerified', 'FraudDetected'];
+
+interface MintRecipient {
+  userId: string;
+  amount: string;
+  walletAddress?: string;
+}
 
 export class RewardsController {
+  private rewardLedger = rewardLedger;
+  private snapRepository = snapRepository;
+  private beanMintService = beanMintService;
+  private milestoneService = milestoneService;
+  private chainIndexer = chainIndexer;
+
   /**
    * POST /api/rewards/mint
-   * Mint $BEAN tokens as rewards
+   * Mint $BEAN tokens as rewards (LoyaltyToken.mint, or batchMint for recipients[])
    */
   async mintRewards(req: Request, res: Response): Promise<void> {
     try {
-      const { userId, amount, reason, metadata } = req.body;
+      const { reason, metadata } = req.body;
+      const recipients: MintRecipient[] = Array.isArray(req.body.recipients)
+        ? req.body.recipients
+        : [{ userId: req.body.userId, amount: req.body.amount, walletAddress: req.body.walletAddress }];
       
-      if (!userId || !amount || !reason) {
+      if (!reason || recipients.length === 0 || recipients.some(r => !r?.userId || !r?.amount)) {
+        res.status(400).json({
+          success: false,
+          error: 'Missing required fields: userId, amount, reason (or recipients[] with userId and amount)'
+        });
+        return;
+      }
+
+      if (!MINT_REASONS.includes(reason)) {
         res.status(400).json({
           success: false,
-          error: 'Missing required fields: userId, amount, reason'
+          error: `reason must be one of: ${MINT_REASONS.join(', ')}`
         });
         return;
       }
 
-      // TODO: Implement CDP wallet integration
-      // For now, return mock response
-      const mockTxHash = `0x${Math.random().toString(16).substring(2, 66)}`;
+      // Snap ID, milestone key... ties the mint to its ledger credit
+      const referenceId: string | undefined = metadata?.referenceId || metadata?.snapId;
+
+      const wallets: string[] = [];
+      for (const recipient of recipients) {
+        const walletAddress = recipient.walletAddress
+          || (await this.snapRepository.getUser(recipient.userId))?.walletAddress;
+        if (!walletAddress) {
+          res.status(400).json({
+            success: false,
+            error: `No wallet address on file for user ${recipient.userId}`
+          });
+          return;
+        }
+        wallets.push(walletAddress);
+      }
+
+      // Record the credits first (an existing credit for the reference is reused, not duplicated),
+      // then reserve them so a concurrent mint with the same referenceId can't mint them again
+      const entries: RewardLedgerEntry[] = [];
+      const createdIds: string[] = [];
+      for (const recipient of recipients) {
+        const existing = referenceId
+          ? await this.rewardLedger.findByReference(recipient.userId, reason, referenceId)
+          : null;
+        const entry = existing || await this.rewardLedger.append({
+          userId: recipient.userId,
+          reason,
+          amount: String(recipient.amount),
+          referenceId,
+          metadata,
+        });
+        entries.push(entry);
+        if (!existing) createdIds.push(entry.id);
+      }
+
+      const reserved: string[] = [];
+      for (const entry of entries) {
+        const [claimed] = await this.rewardLedger.reserve(entry.userId, [entry.id]);
+        if (!claimed) {
+          await this.rewardLedger.release(reserved);
+          const current = await this.rewardLedger.getEntry(entry.id);
+          res.status(409).json({
+            success: false,
+            error: `Reward ${entry.id} is already ${current?.status ?? 'claimed'}`
+          });
+          return;
+        }
+        reserved.push(claimed.id);
+      }
+
+      let result;
+      try {
+        result = await this.beanMintService.mintBatch(
+          entries.map((entry, index) => ({ to: wallets[index]!, amount: entry.amount })),
+          reason
+        );
+      } catch (error) {
+        await this.releaseAfterFailedMint(error, reserved, createdIds);
+        throw error;
+      }
+
+      await this.rewardLedger.settle(entries.map(entry => entry.id), result.transactionHash);
       
       res.json({
         success: true,
         data: {
-          transactionHash: mockTxHash,
-          userId,
-          amount,
+          transactionHash: result.transactionHash,
+          blockNumber: result.blockNumber,
+          signer: result.signer,
+          userId: recipients.length === 1 ? recipients[0]!.userId : undefined,
+          amount: result.totalAmount,
           reason,
+          recipients: entries.map((entry, index) => ({
+            userId: entry.userId,
+            walletAddress: wallets[index],
+            amount: entry.amount,
+            rewardId: entry.id,
+          })),
+          remainingDailyMint: result.remainingDailyMint,
           metadata,
           timestamp: new Date().toISOString()
         }
       });
 
     } catch (error) {
+      if (this.sendMintError(res, error)) {
+        return;
+      }
       console.error('Error minting rewards:', error);
       res.status(500).json({
         success: false,
@@ -51,6 +166,7 @@ export class RewardsController {
   async getUserBalance(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
+      const { address } = req.query;
       
       if (!userId) {
         res.status(400).json({
@@ -60,15 +176,17 @@ export class RewardsController {
         return;
       }
 
-      // TODO: Implement actual balance checking from smart contract
-      // For now, return mock balance
-      const mockBalance = Math.floor(Math.random() * 1000).toString();
+      // Reconcile against the wallet on file unless one is given explicitly
+      const user = await this.snapRepository.getUser(userId);
+      const walletAddress = (address as string | undefined) || user?.walletAddress;
+      
+      const balance = await this.rewardLedger.getBalance(userId, walletAddress);
       
       res.json({
         success: true,
         data: {
-          userId,
-          balance: mockBalance,
+          ...balance,
+          balance: balance.total,
           symbol: 'BEAN',
           decimals: 18,
           lastUpdated: new Date().toISOString()
@@ -91,7 +209,9 @@ export class RewardsController {
   async getRewardHistory(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
-      const { page = '1', limit = '10' } = req.query;
+      const { page = '1', limit = '10', reason, status } = req.query;
+      const pageNum = Math.max(1, parseInt(page as string) || 1);
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 10));
       
       if (!userId) {
         res.status(400).json({
@@ -101,27 +221,38 @@ export class RewardsController {
         return;
       }
 
-      // TODO: Implement actual reward history from database/blockchain
-      // For now, return mock history
-      const mockHistory = Array.from({ length: parseInt(limit as string) }, (_, i) => ({
-        id: `reward_${i + 1}`,
-        userId,
-        amount: (Math.random() * 50).toFixed(0),
-        reason: ['Coffee snap reward', 'Milestone bonus', 'Daily streak'][i % 3],
-        transactionHash: `0x${Math.random().toString(16).substring(2, 66)}`,
-        timestamp: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'completed'
-      }));
+      if (reason && !REWARD_REASONS.includes(reason as RewardReason)) {
+        res.status(400).json({
+          success: false,
+          error: `reason must be one of: ${REWARD_REASONS.join(', ')}`
+        });
+        return;
+      }
+
+      if (status && !REWARD_STATUSES.includes(status as RewardEntryStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${REWARD_STATUSES.join(', ')}`
+        });
+        return;
+      }
+
+      const { entries, total } = await this.rewardLedger.getHistory(userId, {
+        reason: reason as RewardReason | undefined,
+        status: status as RewardEntryStatus | undefined,
+        offset: (pageNum - 1) * limitNum,
+        limit: limitNum,
+      });
       
       res.json({
         success: true,
         data: {
-          rewards: mockHistory,
+          rewards: entries,
           pagination: {
-            page: parseInt(page as string),
-            limit: parseInt(limit as string),
-            total: 50,
-            totalPages: 5
+            page: pageNum,
+            limit: limitNum,
+            total,
+            totalPages: Math.ceil(total / limitNum)
           }
         }
       });
@@ -134,10 +265,84 @@ export class RewardsController {
       });
     }
   }
+  /**
+   * GET /api/rewards/user/:userId/onchain
+   * Get indexed on-chain reward events for the user's wallet
+   */
+  async getOnchainHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { page = '1', limit = '10', address } = req.query;
+      const pageNum = Math.max(1, parseInt(page as string) || 1);
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 10));
+      
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: 'User ID is required'
+        });
+        return;
+      }
+
+      const user = await this.snapRepository.getUser(userId);
+      const walletAddress = ((address as string | undefined) || user?.walletAddress || '').toLowerCase();
+      if (!walletAddress) {
+        res.status(404).json({
+          success: false,
+          error: 'No wallet address on file for this user'
+        });
+        return;
+      }
+
+      const events = await this.chainIndexer.findEvents({
+        match: args => [args.to, args.user].some(value => String(value).toLowerCase() === walletAddress)
+      });
+      const rewardEvents = events
+        .filter(event => ONCHAIN_REWARD_EVENTS.includes(event.eventName))
+        .map(event => ({
+          id: event.id,
+          contract: event.contract,
+          eventName: event.eventName,
+          amount: event.args.amount ?? event.args.rewardAmount ?? null,
+          formattedAmount: (event.args.amount ?? event.args.rewardAmount) !== undefined
+            ? formatUnits(BigInt(event.args.amount ?? event.args.rewardAmount), 18)
+            : null,
+          reason: event.args.reason ?? null,
+          locationId: event.args.locationId ?? event.args.venueId ?? null,
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          timestamp: event.timestamp
+        }));
+      const checkpoint = await this.chainIndexer.getCheckpoint();
+      
+      res.json({
+        success: true,
+        data: {
+          walletAddress,
+          events: rewardEvents.slice((pageNum - 1) * limitNum, pageNum * limitNum),
+          indexedThroughBlock: checkpoint?.blockNumber ?? null,
+          pagination: {
+            page: pageNum,
+            limit: limitNum,
+            total: rewardEvents.length,
+            totalPages: Math.ceil(rewardEvents.length / limitNum)
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Error getting on-chain reward history:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get on-chain reward history'
+      });
+    }
+  }
+
 
   /**
    * POST /api/rewards/claim
-   * Claim pending rewards
+   * Claim pending rewards by minting their total in one transaction
    */
   async claimRewards(req: Request, res: Response): Promise<void> {
     try {
@@ -151,22 +356,79 @@ export class RewardsController {
         return;
       }
 
-      // TODO: Implement actual reward claiming logic
-      // For now, return mock response
-      const mockTxHash = `0x${Math.random().toString(16).substring(2, 66)}`;
+      // Signed-in users may only claim their own rewards, to their own wallet
+      const { session, apiClient } = req as AuthenticatedRequest;
+      const user = await this.snapRepository.getUser(userId);
+      if (session && !apiClient && (!user || !isSessionUser(session, user))) {
+        res.status(403).json({
+          success: false,
+          error: 'You can only claim your own rewards'
+        });
+        return;
+      }
+
+      const destination = apiClient
+        ? req.body.walletAddress || user?.walletAddress
+        : user?.walletAddress || session?.walletAddress;
+      if (!destination) {
+        res.status(400).json({
+          success: false,
+          error: `No wallet address on file for user ${userId}`
+        });
+        return;
+      }
+
+      // Reserve the entries first; a concurrent claim for the same rewards finds nothing pending
+      const claimed = await this.rewardLedger.reserve(userId, rewardIds);
+      const claimedRewards = claimed.map(entry => entry.id);
+      const totalWei = claimed.reduce((sum, entry) => sum + parseUnits(entry.amount, 18), 0n);
+      
+      if (claimed.length === 0 || totalWei <= 0n) {
+        await this.rewardLedger.release(claimedRewards);
+        res.status(400).json({
+          success: false,
+          error: 'No pending rewards to claim'
+        });
+        return;
+      }
+
+      const totalAmount = formatUnits(totalWei, 18);
+      let result;
+      try {
+        result = await this.beanMintService.mint(destination, totalAmount, 'claim');
+      } catch (error) {
+        await this.releaseAfterFailedMint(error, claimedRewards);
+        throw error;
+      }
+
+      await this.rewardLedger.settle(claimedRewards, result.transactionHash);
+      await this.rewardLedger.append({
+        userId,
+        reason: 'claim',
+        amount: totalAmount,
+        referenceId: result.transactionHash,
+        status: 'settled',
+        transactionHash: result.transactionHash,
+        metadata: { rewardIds: claimedRewards, walletAddress: destination },
+      });
       
       res.json({
         success: true,
         data: {
-          transactionHash: mockTxHash,
+          transactionHash: result.transactionHash,
+          blockNumber: result.blockNumber,
           userId,
-          claimedRewards: rewardIds,
-          totalAmount: (rewardIds.length * 10).toString(),
+          claimedRewards,
+          skippedRewards: rewardIds.filter((id: string) => !claimedRewards.includes(id)),
+          totalAmount,
           timestamp: new Date().toISOString()
         }
       });
 
     } catch (error) {
+      if (this.sendMintError(res, error)) {
+        return;
+      }
       console.error('Error claiming rewards:', error);
       res.status(500).json({
         success: false,
@@ -177,7 +439,7 @@ export class RewardsController {
 
   /**
    * GET /api/rewards/milestones/:userId
-   * Get user's milestone progress
+   * Get user's milestone progress and awards
    */
   async getMilestones(req: Request, res: Response): Promise<void> {
     try {
@@ -191,24 +453,14 @@ export class RewardsController {
         return;
       }
 
-      // TODO: Implement actual milestone tracking
-      // For now, return mock milestones based on config
-      const currentSnaps = Math.floor(Math.random() * 150);
-      
-      const milestones = Object.entries(config.REWARDS.MILESTONE_AMOUNTS).map(([threshold, amount]) => ({
-        threshold: parseInt(threshold),
-        reward: amount,
-        completed: currentSnaps >= parseInt(threshold),
-        progress: Math.min(currentSnaps / parseInt(threshold), 1)
-      }));
+      const progress = await this.milestoneService.getProgress(userId);
       
       res.json({
         success: true,
         data: {
           userId,
-          currentSnaps,
-          milestones,
-          nextMilestone: milestones.find(m => !m.completed) || null
+          ...progress,
+          awards: await this.milestoneService.getAwards(userId)
         }
       });
 
@@ -227,23 +479,19 @@ export class RewardsController {
    */
   async getRewardStats(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Implement actual statistics from database/blockchain
-      // For now, return mock stats
+      const ledgerStats = await this.rewardLedger.getStats();
+      const totalEarned = parseFloat(ledgerStats.totalDistributed) + parseFloat(ledgerStats.totalPending);
+      
       const stats = {
-        totalRewardsDistributed: (Math.random() * 1000000).toFixed(0),
-        totalUsers: Math.floor(Math.random() * 5000),
-        totalTransactions: Math.floor(Math.random() * 50000),
-        averageRewardPerUser: (Math.random() * 200).toFixed(2),
-        topRewardReasons: [
-          { reason: 'Coffee snap reward', count: Math.floor(Math.random() * 10000) },
-          { reason: 'Milestone bonus', count: Math.floor(Math.random() * 5000) },
-          { reason: 'Daily streak', count: Math.floor(Math.random() * 3000) }
-        ],
-        recentActivity: {
-          last24h: Math.floor(Math.random() * 1000),
-          last7d: Math.floor(Math.random() * 5000),
-          last30d: Math.floor(Math.random() * 20000)
-        }
+        totalRewardsDistributed: ledgerStats.totalDistributed,
+        totalRewardsPending: ledgerStats.totalPending,
+        totalUsers: ledgerStats.totalUsers,
+        totalTransactions: ledgerStats.totalEntries,
+        averageRewardPerUser: ledgerStats.totalUsers
+          ? (totalEarned / ledgerStats.totalUsers).toFixed(2)
+          : '0.00',
+        topRewardReasons: ledgerStats.byReason,
+        recentActivity: ledgerStats.recentActivity
       };
       
       res.json({
@@ -259,4 +507,48 @@ export class RewardsController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Undo a reservation after its mint threw: entries go back to pending (new mint credits are
+   * marked failed instead), unless the transaction was broadcast and may still land, in which
+   * case they stay claiming so they can't be minted twice
+   */
+  private async releaseAfterFailedMint(error: unknown, reservedIds: string[], createdIds: string[] = []): Promise<void> {
+    if (error instanceof ContractError && error.code === 'TRANSACTION_FAILED' && error.transactionHash) {
+      console.error('Mint outcome unknown; rewards left claiming:', error.transactionHash, reservedIds);
+      return;
+    }
+
+    const reason = error instanceof Error ? error.message : 'Mint failed';
+    await this.rewardLedger.fail(createdIds, reason);
+    await this.rewardLedger.release(reservedIds.filter(id => !createdIds.includes(id)));
+  }
+
+  /**
+   * Map validation and contract errors to responses; returns false for anything else
+   */
+  private sendMintError(res: Response, error: unknown): boolean {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        field: error.field
+      });
+      return true;
+    }
+
+    if (error instanceof ContractError) {
+      console.error('BEAN mint failed:', error.code, error.message);
+      res.status(CONTRACT_ERROR_STATUS[error.code]).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        revertReason: error.revertReason,
+        transactionHash: error.transactionHash
+      });
+      return true;
+    }
+
+    return false;
+  }
+}
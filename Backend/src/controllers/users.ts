@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { config } from '@/config';
+import { CONTRACT_ERROR_STATUS, ContractError, NotFoundError, TipRecord, TipStatus, ValidationError } from '@/types';
+import { AuthenticatedRequest } from '@/middleware/auth';
 import { CDPWalletService } from '@/services/cdp-wallet';
+import { streakService } from '@/services/streaks';
+import { EARNINGS_WINDOWS, EarningsWindow, TipDirection, TipUpdate, tipService } from '@/services/tips';
+import { usdcBalanceService } from '@/services/usdc-balances';
 import { validateAddress } from '@/utils/validation';
 
 // Mock users database - in production, use a real database
@@ -197,9 +202,16 @@ export const getUserByFid = async (req: Request, res: Response) => {
       });
     }
 
+    const streak = await streakService.getStreakByFid(fidNum);
+
     res.json({
       success: true,
-      data: user
+      data: {
+        ...user,
+        currentStreak: streak.currentStreak,
+        longestStreak: streak.longestStreak,
+        streak
+      }
     });
 
   } catch (error) {
@@ -242,7 +254,8 @@ export const getUserBalance = async (req: Request, res: Response) => {
 
     // Find user by address (in production, this would be a database query)
     const user = mockUsers.find(u => u.address.toLowerCase() === address.toLowerCase());
-    const balance = user?.usdcBalance || 0;
+    // Plus USDC credited by completed onramp sessions (applied from the signed webhook)
+    const balance = (user?.usdcBalance || 0) + await usdcBalanceService.getCredited(address);
 
     // In production, you would query the actual USDC balance on Base
     // using Web3 or the CDP SDK
@@ -269,12 +282,128 @@ export const getUserBalance = async (req: Request, res: Response) => {
   }
 };
 
+const TIP_STATUSES: TipStatus[] = ['pending', 'confirmed', 'failed'];
+
+/**
+ * Tip as returned by the API (without relay internals), with its shareable receipt
+ */
+const serializeTip = (tip: TipRecord) => ({
+  tipId: tip.id,
+  status: tip.status,
+  settlement: tip.settlement,
+  from: tip.fromAddress,
+  toUserId: tip.toUserId,
+  to: tip.toAddress,
+  amount: tip.amount,
+  currency: 'USDC',
+  network: 'base',
+  transactionHash: tip.transactionHash || null,
+  blockNumber: tip.blockNumber || null,
+  failureReason: tip.failureReason || null,
+  createdAt: tip.createdAt.toISOString(),
+  confirmedAt: tip.confirmedAt?.toISOString() || null,
+  receipt: tipService.buildReceipt(tip, mockUsers.find(u => u.fid === tip.toUserId)?.displayName || null)
+});
+
 /**
- * Send tip between users
+ * Parse the :fid route param, or respond 400
+ */
+const parseFidParam = (req: Request, res: Response): number | null => {
+  const fid = parseInt(req.params.fid || '');
+  if (!fid || fid < 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid FID',
+      message: 'FID must be a valid number'
+    });
+    return null;
+  }
+  return fid;
+};
+
+/**
+ * Credit a creator's tip totals once the transfer is verified on-chain
+ */
+const creditConfirmedTip = (tip: TipRecord) => {
+  const recipient = mockUsers.find(u => u.fid === tip.toUserId);
+  if (!recipient) return;
+
+  const amount = parseFloat(tip.amount);
+  recipient.totalTips += amount;
+  recipient.recentTips += amount;
+};
+
+const sendTipError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof ValidationError) {
+    return res.status(400).json({ success: false, error: error.message, field: error.field });
+  }
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({ success: false, error: error.message });
+  }
+  if (error instanceof ContractError) {
+    console.error('Tip settlement error:', error.code, error.message);
+    return res.status(CONTRACT_ERROR_STATUS[error.code]).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      transactionHash: error.transactionHash
+    });
+  }
+
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: fallback,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+};
+
+/**
+ * Respond with a tip's state after a confirm/relay attempt
+ */
+const sendTipUpdate = (res: Response, { tip, changed }: TipUpdate) => {
+  if (changed && tip.status === 'confirmed') {
+    creditConfirmedTip(tip);
+  }
+
+  const status = tip.status === 'pending' ? 202 : tip.status === 'failed' ? 422 : 200;
+  return res.status(status).json({
+    success: tip.status !== 'failed',
+    data: serializeTip(tip),
+    ...(tip.status === 'failed' && { error: tip.failureReason }),
+    message: {
+      pending: 'Waiting for the transaction to be mined',
+      confirmed: `Tip of ${tip.amount} USDC confirmed`,
+      failed: 'Tip failed'
+    }[tip.status]
+  });
+};
+
+/**
+ * Load a tip the signed-in user sent, or respond 403/404
+ */
+const loadOwnTip = async (req: Request, res: Response): Promise<TipRecord | null> => {
+  const tip = await tipService.getTip(req.params.tipId!);
+  const { session } = req as AuthenticatedRequest;
+  if (session && session.walletAddress.toLowerCase() !== tip.fromAddress.toLowerCase()) {
+    res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'Only the sender can settle this tip'
+    });
+    return null;
+  }
+  return tip;
+};
+
+/**
+ * Prepare a USDC tip between users
+ * Records a pending tip and returns the USDC transfer to submit (settlement: client)
+ * or the EIP-3009 authorization to sign for the backend to relay (settlement: relay)
  */
 export const sendTip = async (req: Request, res: Response) => {
   try {
-    const { toUserId, amount, fromAddress } = req.body;
+    const { toUserId, amount, fromAddress, settlement = 'client' } = req.body;
 
     // Validation
     if (!toUserId || !amount || !fromAddress) {
@@ -293,27 +422,25 @@ export const sendTip = async (req: Request, res: Response) => {
       });
     }
 
-    const tipAmount = parseFloat(amount);
-    if (isNaN(tipAmount) || tipAmount <= 0) {
+    if (settlement !== 'client' && settlement !== 'relay') {
       return res.status(400).json({
         success: false,
-        error: 'Invalid amount',
-        message: 'Amount must be a positive number'
+        error: 'Invalid settlement',
+        message: 'settlement must be client or relay'
       });
     }
 
-    // Find sender and recipient
-    const sender = mockUsers.find(u => u.address.toLowerCase() === fromAddress.toLowerCase());
-    const recipient = mockUsers.find(u => u.fid === parseInt(toUserId));
-
-    if (!sender) {
-      return res.status(404).json({
+    // Signed-in users can only send from their own wallet
+    const { session } = req as AuthenticatedRequest;
+    if (session && session.walletAddress.toLowerCase() !== fromAddress.toLowerCase()) {
+      return res.status(403).json({
         success: false,
-        error: 'Sender not found',
-        message: 'Sender address not found in our system'
+        error: 'Forbidden',
+        message: 'fromAddress must be the signed-in wallet'
       });
     }
 
+    const recipient = mockUsers.find(u => u.fid === parseInt(toUserId));
     if (!recipient) {
       return res.status(404).json({
         success: false,
@@ -322,117 +449,234 @@ export const sendTip = async (req: Request, res: Response) => {
       });
     }
 
-    // Check balance
-    if (sender.usdcBalance < tipAmount) {
-      return res.status(400).json({
-        success: false,
-        error: 'Insufficient balance',
-        message: `Insufficient USDC balance. Available: ${sender.usdcBalance}, Required: ${tipAmount}`
-      });
-    }
-
-    // In production, this would:
-    // 1. Create and execute USDC transfer transaction on Base
-    // 2. Update both users' balances in the database
-    // 3. Record the tip transaction for analytics
-    // 4. Send notifications
-
-    // For demo, update mock balances
-    sender.usdcBalance -= tipAmount;
-    recipient.usdcBalance += tipAmount;
-    recipient.totalTips += tipAmount;
-    recipient.recentTips += tipAmount;
+    const { tip, transfer, authorization } = await tipService.prepare({
+      fromAddress,
+      fromFid: session?.fid ?? null,
+      toUserId: recipient.fid,
+      toAddress: recipient.address,
+      amount: String(amount),
+      settlement
+    });
 
-    res.json({
+    res.status(201).json({
       success: true,
       data: {
-        transactionId: `tip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        from: sender.address,
-        to: recipient.address,
-        amount: tipAmount,
-        currency: 'USDC',
-        network: 'base',
-        timestamp: new Date().toISOString(),
-        newBalance: sender.usdcBalance
+        tip: serializeTip(tip),
+        transfer,
+        ...(authorization && { authorization })
       },
-      message: `Successfully sent ${tipAmount} USDC to ${recipient.displayName}`
+      message: settlement === 'relay'
+        ? 'Sign the authorization and POST it to /api/users/tips/:tipId/relay'
+        : 'Send the USDC transfer and POST its hash to /api/users/tips/:tipId/confirm'
     });
 
   } catch (error) {
-    console.error('Send tip error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to send tip',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
+    sendTipError(res, error, 'Failed to send tip');
   }
 };
 
 /**
- * Update user balance after onramp
+ * Verify the sender's USDC transfer and confirm the tip
  */
-export const updateBalanceAfterOnramp = async (req: Request, res: Response) => {
+export const confirmTip = async (req: Request, res: Response) => {
   try {
-    const { address, amount, transactionId } = req.body;
-
-    if (!address || !amount || !transactionId) {
+    const { transactionHash } = req.body;
+    if (!transactionHash || typeof transactionHash !== 'string') {
       return res.status(400).json({
         success: false,
         error: 'Missing required fields',
-        message: 'address, amount, and transactionId are required'
+        message: 'transactionHash is required'
       });
     }
 
-    if (!validateAddress(address)) {
+    const tip = await loadOwnTip(req, res);
+    if (!tip) return res;
+
+    return sendTipUpdate(res, await tipService.confirm(tip.id, transactionHash));
+  } catch (error) {
+    return sendTipError(res, error, 'Failed to confirm tip');
+  }
+};
+
+/**
+ * Relay the sender's signed transfer authorization and confirm the tip
+ */
+export const relayTip = async (req: Request, res: Response) => {
+  try {
+    const { signature } = req.body;
+    if (!signature || typeof signature !== 'string') {
       return res.status(400).json({
         success: false,
-        error: 'Invalid address',
-        message: 'Please provide a valid Ethereum address'
+        error: 'Missing required fields',
+        message: 'signature is required'
       });
     }
 
-    const addAmount = parseFloat(amount);
-    if (isNaN(addAmount) || addAmount <= 0) {
+    const tip = await loadOwnTip(req, res);
+    if (!tip) return res;
+
+    return sendTipUpdate(res, await tipService.relay(tip.id, signature));
+  } catch (error) {
+    return sendTipError(res, error, 'Failed to relay tip');
+  }
+};
+
+/**
+ * Get a tip's settlement status
+ */
+export const getTip = async (req: Request, res: Response) => {
+  try {
+    const tip = await tipService.getTip(req.params.tipId!);
+    res.json({ success: true, data: serializeTip(tip) });
+  } catch (error) {
+    sendTipError(res, error, 'Failed to fetch tip');
+  }
+};
+
+/**
+ * Page through a user's sent or received tips
+ */
+const sendTipHistory = async (req: Request, res: Response, direction: TipDirection) => {
+  try {
+    const fid = parseFidParam(req, res);
+    if (!fid) return res;
+
+    const { cursor, limit = '20', status } = req.query;
+    if (status !== undefined && !TIP_STATUSES.includes(status as TipStatus)) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid amount',
-        message: 'Amount must be a positive number'
+        error: 'Invalid status',
+        message: `status must be one of ${TIP_STATUSES.join(', ')}`
       });
     }
 
-    // Find user by address
-    const user = mockUsers.find(u => u.address.toLowerCase() === address.toLowerCase());
+    const pageSize = Math.min(50, Math.max(1, parseInt(limit as string) || 20));
+    const page = await tipService.listHistory({
+      direction,
+      fid,
+      address: mockUsers.find(u => u.fid === fid)?.address,
+      status: status as TipStatus | undefined,
+      cursor: typeof cursor === 'string' && cursor ? cursor : undefined,
+      limit: pageSize
+    });
 
-    if (!user) {
+    return res.json({
+      success: true,
+      data: {
+        tips: page.tips.map(serializeTip),
+        pagination: {
+          limit: pageSize,
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore
+        }
+      }
+    });
+  } catch (error) {
+    return sendTipError(res, error, `Failed to fetch ${direction} tips`);
+  }
+};
+
+/**
+ * Get tips a user has sent, newest first
+ */
+export const getSentTips = (req: Request, res: Response) => sendTipHistory(req, res, 'sent');
+
+/**
+ * Get tips a user has received, newest first
+ */
+export const getReceivedTips = (req: Request, res: Response) => sendTipHistory(req, res, 'received');
+
+/**
+ * Get a creator's confirmed tip earnings over 7 days, 30 days and all time
+ */
+export const getCreatorEarnings = async (req: Request, res: Response) => {
+  try {
+    const fid = parseFidParam(req, res);
+    if (!fid) return res;
+
+    if (!mockUsers.some(u => u.fid === fid)) {
       return res.status(404).json({
         success: false,
         error: 'User not found',
-        message: 'User address not found in our system'
+        message: `No user found with FID ${fid}`
       });
     }
 
-    // Update balance
-    user.usdcBalance += addAmount;
+    const earnings = await tipService.getEarnings(fid);
+    return res.json({
+      success: true,
+      data: {
+        ...earnings,
+        currency: 'USDC'
+      }
+    });
+  } catch (error) {
+    return sendTipError(res, error, 'Failed to fetch earnings');
+  }
+};
 
-    res.json({
+/**
+ * Get a creator's top supporters by confirmed tip total
+ */
+export const getTopSupporters = async (req: Request, res: Response) => {
+  try {
+    const fid = parseFidParam(req, res);
+    if (!fid) return res;
+
+    const { window = 'all', limit = '10' } = req.query;
+    if (!EARNINGS_WINDOWS.includes(window as EarningsWindow)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid window',
+        message: `window must be one of ${EARNINGS_WINDOWS.join(', ')}`
+      });
+    }
+
+    if (!mockUsers.some(u => u.fid === fid)) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+        message: `No user found with FID ${fid}`
+      });
+    }
+
+    const supporterLimit = Math.min(50, Math.max(1, parseInt(limit as string) || 10));
+    const supporters = await tipService.getTopSupporters(fid, window as EarningsWindow, supporterLimit);
+
+    return res.json({
       success: true,
       data: {
-        address,
-        previousBalance: user.usdcBalance - addAmount,
-        newBalance: user.usdcBalance,
-        amountAdded: addAmount,
-        transactionId,
-        timestamp: new Date().toISOString()
-      },
-      message: `Successfully added ${addAmount} USDC to wallet`
+        fid,
+        window,
+        supporters: supporters.map((supporter, index) => {
+          const profile = supporter.fromFid !== null ? mockUsers.find(u => u.fid === supporter.fromFid) : undefined;
+          return {
+            rank: index + 1,
+            fid: supporter.fromFid,
+            address: supporter.fromAddress,
+            username: profile?.username || null,
+            displayName: profile?.displayName || null,
+            pfpUrl: profile?.pfpUrl || null,
+            total: supporter.total,
+            count: supporter.count,
+            lastTipAt: supporter.lastTipAt.toISOString()
+          };
+        })
+      }
     });
+  } catch (error) {
+    return sendTipError(res, error, 'Failed to fetch supporters');
+  }
+};
 
+/**
+ * Get a tip's shareable receipt
+ */
+export const getTipReceipt = async (req: Request, res: Response) => {
+  try {
+    const tip = await tipService.getTip(req.params.tipId!);
+    res.json({ success: true, data: serializeTip(tip).receipt });
   } catch (error) {
-    console.error('Update balance error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to update balance',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
+    sendTipError(res, error, 'Failed to fetch tip receipt');
   }
-};
\ No newline at end of file
+};
@@ -19,6 +19,11 @@ import couponsRoutes from '@/routes/coupons';
 import onrampRoutes from '@/routes/onramp';
 import usersRoutes from '@/routes/users';
 import agentsRoutes from '@/routes/agents';
+import authRoutes from '@/routes/auth';
+import notificationsRoutes from '@/routes/notifications';
+import { onrampSessionService } from '@/services/onramp-sessions';
+import { chainIndexer } from '@/services/chain-indexer';
+import { couponLifecycleService } from '@/services/coupon-lifecycle';
 
 const app = express();
 
@@ -32,6 +37,7 @@ app.use(securityMiddleware);
 app.use(loggingMiddleware);
 
 // Body parsing
+app.use('/api/onramp/webhook', express.raw({ type: '*/*', limit: '1mb' })); // Signature covers the raw body
 app.use(express.json({ limit: '10mb' })); // For base64 images
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -49,6 +55,8 @@ app.use('/api/coupons', couponsRoutes);
 app.use('/api/onramp', onrampRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/agents', agentsRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/notifications', notificationsRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -67,6 +75,8 @@ app.get('/', (req, res) => {
       onramp: '/api/onramp',
       users: '/api/users',
       agents: '/api/agents',
+      auth: '/api/auth',
+      notifications: '/api/notifications',
     },
   });
 });
@@ -78,6 +88,9 @@ app.use(errorMiddleware);
 // Graceful shutdown handler
 const gracefulShutdown = (signal: string) => {
   console.log(`Received ${signal}, shutting down gracefully...`);
+  stopOnrampSweeper();
+  stopChainIndexer();
+  stopCouponLifecycle();
   
   server.close(() => {
     console.log('HTTP server closed');
@@ -111,9 +124,20 @@ const server = app.listen(config.PORT, config.HOST, () => {
    - POST /api/rewards/mint
    - POST /api/coupons/mint
    - POST /api/onramp/create-session
+   - GET  /api/onramp/session/:sessionId
+   - POST /api/auth/session
   `);
 });
 
+// Expire stale onramp sessions in the background
+const stopOnrampSweeper = onrampSessionService.startSweeper();
+
+// Follow contract events in-process when enabled (otherwise run `npm run indexer` separately)
+const stopChainIndexer = config.INDEXER.ENABLED ? chainIndexer.start() : () => undefined;
+
+// Coupon expiring-soon reminders and expiry recording, when enabled
+const stopCouponLifecycle = config.COUPONS.SWEEP_ENABLED ? couponLifecycleService.start() : () => undefined;
+
 // Handle graceful shutdown
 process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 process.on('SIGINT', () => gracefulShutdown('SIGINT'));
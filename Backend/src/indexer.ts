@@ -0,0 +1,43 @@
+import { config } from '@/config';
+import { database } from '@/services/database';
+import { chainIndexer } from '@/services/chain-indexer';
+
+/**
+ * Standalone chain indexer: `npm run indexer` follows contract events until stopped,
+ * `npm run indexer -- --once` catches up to the confirmed head and exits.
+ * Point it at a local Hardhat node with SIGNER=local (LOCAL_RPC_URL) or INDEXER_RPC_URL.
+ * Needs a database the API server shares; with the file and memory drivers, index
+ * inside the API server (INDEXER_ENABLED=true) instead.
+ */
+async function main(): Promise<void> {
+  // File and memory collections are loaded once and cached per process, so the API
+  // server would never see events written here, and both processes would rewrite the files
+  const { driver } = database.getDriver();
+  if (driver === 'file' || driver === 'memory') {
+    throw new Error(`The ${driver} database driver is per-process; set INDEXER_ENABLED=true to run the indexer inside the API server`);
+  }
+
+  if (process.argv.includes('--once')) {
+    const run = await chainIndexer.runOnce();
+    console.log(run ? 'Chain indexer run:' : 'No indexed contracts are configured', run ?? '');
+    return;
+  }
+
+  console.log(`Chain indexer polling every ${config.INDEXER.POLL_INTERVAL_MS}ms`);
+  const stop = chainIndexer.start();
+
+  // The poll timer is unref'd, so keep the process alive until a signal arrives
+  const keepAlive = setInterval(() => undefined, 1 << 30);
+  const shutdown = (signal: string) => {
+    console.log(`Received ${signal}, stopping chain indexer`);
+    stop();
+    clearInterval(keepAlive);
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+main().catch(error => {
+  console.error('Chain indexer failed:', error);
+  process.exit(1);
+});
@@ -1,58 +1,132 @@
 import { Request, Response, NextFunction } from 'express';
-import config from '@/config';
+import { ApiClient, ApiScope, UnauthorizedError, User, UserSession } from '@/types';
+import { apiKeyService, hasScope } from '@/services/api-keys';
+import { authSessionService } from '@/services/auth-sessions';
 
 export interface AuthenticatedRequest extends Request {
   isAuthenticated?: boolean;
+  apiClient?: ApiClient; // Server-to-server caller (x-api-key)
+  session?: UserSession; // Signed-in user (Authorization: Bearer <session token>)
 }
 
 /**
- * Simple API Key Authentication
- * Validates API key from Authorization header or x-api-key header
+ * Whether a session belongs to a user record (same fid, or same wallet for SIWE sessions)
  */
-export const authenticateApiKey = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    // Get API key from headers
-    const apiKey = req.headers['x-api-key'] || req.headers['authorization']?.replace('Bearer ', '');
-
-    if (!apiKey) {
-      res.status(401).json({
-        success: false,
-        error: 'API key required'
-      });
-      return;
+export const isSessionUser = (session: UserSession, user: Pick<User, 'fid' | 'walletAddress'>): boolean =>
+  session.fid !== null
+    ? user.fid === session.fid
+    : !!user.walletAddress && user.walletAddress.toLowerCase() === session.walletAddress.toLowerCase();
+
+/**
+ * API key from x-api-key, or from a Bearer header carrying an sck_ key
+ */
+const readApiKey = (req: Request): string | undefined => {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+  const bearer = req.headers['authorization']?.replace('Bearer ', '');
+  return bearer?.startsWith('sck_') ? bearer : undefined;
+};
+
+const readSessionToken = (req: Request): string | undefined => {
+  const bearer = req.headers['authorization']?.replace('Bearer ', '');
+  return bearer && !bearer.startsWith('sck_') ? bearer : undefined;
+};
+
+/**
+ * Resolve whichever credentials the request carries onto it; invalid ones are ignored here
+ */
+async function resolveCredentials(req: AuthenticatedRequest): Promise<void> {
+  const apiKey = readApiKey(req);
+  if (apiKey) {
+    req.apiClient = (await apiKeyService.authenticate(apiKey)) || undefined;
+  }
+
+  const token = readSessionToken(req);
+  if (token) {
+    try {
+      req.session = authSessionService.verifyToken(token);
+    } catch {
+      req.session = undefined;
     }
+  }
+
+  req.isAuthenticated = !!(req.apiClient || req.session);
+}
+
+const deny = (res: Response, status: 401 | 403, error: string) => {
+  res.status(status).json({ success: false, error });
+};
+
+const authFailed = (res: Response, error: unknown) => {
+  console.error('Authentication error:', error);
+  res.status(500).json({ success: false, error: 'Authentication failed' });
+};
 
-    // Compare with configured secret
-    if (apiKey !== config.JWT_SECRET) {
-      res.status(403).json({
-        success: false,
-        error: 'Invalid API key'
-      });
-      return;
+/**
+ * Require a per-client API key with the given scope
+ */
+export const requireApiKey = (scope: ApiScope) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!readApiKey(req)) return deny(res, 401, 'API key required');
+
+      await resolveCredentials(req);
+      if (!req.apiClient) return deny(res, 403, 'Invalid API key');
+      if (!hasScope(req.apiClient, scope)) return deny(res, 403, `API key lacks the ${scope} scope`);
+
+      next();
+    } catch (error) {
+      authFailed(res, error);
     }
+  };
 
-    // Mark request as authenticated
+/**
+ * Require a signed-in user session (SIWF/SIWE)
+ */
+export const requireSession = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const token = readSessionToken(req);
+    if (!token) return deny(res, 401, 'Sign in required');
+
+    req.session = authSessionService.verifyToken(token);
     req.isAuthenticated = true;
     next();
   } catch (error) {
-    console.error('API key validation error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Authentication failed'
-    });
+    if (error instanceof UnauthorizedError) return deny(res, 401, error.message);
+    authFailed(res, error);
   }
 };
 
+/**
+ * Accept either a signed-in user or an API key with the given scope
+ * (e.g. a user redeeming their own coupon, or a venue's server redeeming for them)
+ */
+export const requireSessionOrApiKey = (scope: ApiScope) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      await resolveCredentials(req);
+      const scoped = !!req.apiClient && hasScope(req.apiClient, scope);
+      if (scoped || req.session) {
+        if (!scoped) req.apiClient = undefined; // Controllers treat the caller as the signed-in user
+        return next();
+      }
+
+      if (req.apiClient) return deny(res, 403, `API key lacks the ${scope} scope`);
+      deny(res, 401, 'Sign in or an API key is required');
+    } catch (error) {
+      authFailed(res, error);
+    }
+  };
+
 /**
  * Optional Authentication
- * Validates API key if present, but doesn't require it
+ * Attaches a valid API client or session if present, but doesn't require one
  */
-export const optionalAuth = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const apiKey = req.headers['x-api-key'] || req.headers['authorization']?.replace('Bearer ', '');
-  
-  if (apiKey && apiKey === config.JWT_SECRET) {
-    req.isAuthenticated = true;
+export const optionalAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await resolveCredentials(req);
+    next();
+  } catch (error) {
+    authFailed(res, error);
   }
-  
-  next();
-};
\ No newline at end of file
+};
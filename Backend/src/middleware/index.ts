@@ -3,7 +3,9 @@ import helmet from 'helmet';
 import cors from 'cors';
 import morgan from 'morgan';
 import { config } from '@/config';
-import { ApiResponse, ValidationError, NotFoundError, UnauthorizedError } from '@/types';
+import { ApiResponse, ValidationError, NotFoundError, UnauthorizedError, VerifiedFarcasterMessage } from '@/types';
+import { farcasterMessageVerifier } from '@/services/farcaster-messages';
+import { verifyOnrampSignature } from '@/services/onramp-sessions';
 
 // CORS Configuration
 export const corsMiddleware = cors({
@@ -116,20 +118,69 @@ export const rateLimitMiddleware = (
 };
 
 // Farcaster Webhook Validation
-export const validateFarcasterWebhook = (req: Request, res: Response, next: NextFunction) => {
-  const signature = req.headers['x-farcaster-signature'] as string;
+export interface FarcasterWebhookRequest extends Request {
+  farcasterMessage?: VerifiedFarcasterMessage; // Set once trustedData.messageBytes is verified
+}
+
+export const validateFarcasterWebhook = async (req: FarcasterWebhookRequest, res: Response, next: NextFunction) => {
+  const messageBytes = req.body?.trustedData?.messageBytes;
+  
+  // Unsigned webhooks are only accepted outside production (local frame debugging)
+  if (!messageBytes && config.NODE_ENV !== 'production') {
+    console.warn('Farcaster webhook without trustedData.messageBytes accepted in', config.NODE_ENV);
+    return next();
+  }
   
-  if (!signature && config.NODE_ENV === 'production') {
+  try {
+    req.farcasterMessage = await farcasterMessageVerifier.verify(req.body);
+    next();
+  } catch (error: unknown) {
+    if (!(error instanceof UnauthorizedError || error instanceof ValidationError)) {
+      console.error('Farcaster webhook verification error:', error);
+    }
+    
     const response: ApiResponse = {
       success: false,
       error: 'Unauthorized',
-      message: 'Missing Farcaster signature',
+      message: error instanceof UnauthorizedError || error instanceof ValidationError
+        ? error.message
+        : 'Could not verify Farcaster message',
+    };
+    res.status(401).json(response);
+  }
+};
+
+// CDP Onramp Webhook Validation (HMAC over the raw body; see the express.raw mount in index.ts)
+export const validateOnrampWebhook = (req: Request, res: Response, next: NextFunction) => {
+  const reject = (status: number, message: string) => {
+    const response: ApiResponse = {
+      success: false,
+      error: status === 401 ? 'Unauthorized' : 'Validation Error',
+      message,
     };
-    return res.status(401).json(response);
+    res.status(status).json(response);
+  };
+  
+  if (!Buffer.isBuffer(req.body)) {
+    return reject(400, 'Webhook body must be sent as JSON');
   }
   
-  // TODO: Implement proper signature validation
-  // For now, just continue in development
+  const secret = config.ONRAMP_WEBHOOK_SECRET;
+  const signature = req.headers['x-cc-webhook-signature'] as string | undefined;
+  if (!secret) {
+    if (config.NODE_ENV === 'production') {
+      return reject(401, 'Onramp webhook secret is not configured');
+    }
+    console.warn('ONRAMP_WEBHOOK_SECRET not set; accepting unsigned onramp webhook in', config.NODE_ENV);
+  } else if (!verifyOnrampSignature(req.body, signature, secret)) {
+    return reject(401, 'Invalid onramp webhook signature');
+  }
+  
+  try {
+    req.body = JSON.parse(req.body.toString('utf8'));
+  } catch {
+    return reject(400, 'Webhook body is not valid JSON');
+  }
   next();
 };
 
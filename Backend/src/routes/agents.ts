@@ -1,47 +1,52 @@
 import { Router } from 'express';
 import { AgentController } from '@/controllers/agent';
+import { requireApiKey, requireSession } from '@/middleware/auth';
 
 const router = Router();
 const agentController = new AgentController();
 
+// Agent tasks: `dryRun: true` plans wallet actions without signing them; when omitted, AGENT_DRY_RUN
+// decides. A task whose proposed actions the tool guard rejected responds 403 with the actions.
+
 /**
  * @route   POST /api/agents/validate-snap
- * @desc    AI-powered coffee snap validation with automatic rewards
- * @body    { imageUrl, userAddress, venueName, city, state, coffeeType, userStreak?, isNewVenue? }
- * @access  Public (in production, should be authenticated)
+ * @desc    Validate a coffee snap; the reward is computed by the RewardPolicy and explained by the agent
+ * @body    { imageData (base64) | imageUrl (https, our storage bucket only), venueName, venueId, city, state, coffeeType, userId, timezone? }
+ *          venueId is the Places ID; its coordinates are looked up for the photo GPS check
+ * @access  Farcaster session; the snap's fid and wallet are the session's
  */
-router.post('/validate-snap', agentController.validateAndReward.bind(agentController));
+router.post('/validate-snap', requireSession, agentController.validateAndReward.bind(agentController));
 
 /**
  * @route   POST /api/agents/setup-coffee-shop
  * @desc    Autonomous coffee shop wallet and contract setup
- * @body    { venueName, city, state, placeId }
- * @access  Admin only (in production)
+ * @body    { venueName, city, state, placeId, dryRun? }
+ * @access  Admin API key
  */
-router.post('/setup-coffee-shop', agentController.setupCoffeeShop.bind(agentController));
+router.post('/setup-coffee-shop', requireApiKey('admin'), agentController.setupCoffeeShop.bind(agentController));
 
 /**
  * @route   POST /api/agents/validate-coupon-redemption
  * @desc    Validate and process NFT coupon redemption
- * @body    { userAddress, couponTokenId, venueName, redemptionCode }
- * @access  Public (in production, should be authenticated)
+ * @body    { userAddress, couponTokenId, venueName, redemptionCode, dryRun? }
+ * @access  API key with the redeem scope
  */
-router.post('/validate-coupon-redemption', agentController.validateCouponRedemption.bind(agentController));
+router.post('/validate-coupon-redemption', requireApiKey('redeem'), agentController.validateCouponRedemption.bind(agentController));
 
 /**
  * @route   POST /api/agents/optimize-tip
  * @desc    Get AI-optimized tip amount suggestion
- * @body    { fromUser, toCreator, creatorEngagement, suggestedAmount }
+ * @body    { fromUser, toCreator, creatorEngagement, suggestedAmount, dryRun? }
  * @access  Public (in production, should be authenticated)
  */
 router.post('/optimize-tip', agentController.optimizeTipping.bind(agentController));
 
 /**
  * @route   POST /api/agents/mint-coupon
- * @desc    Mint NFT coupon for user via server wallet
- * @body    { userAddress, storeId, storeName, reason }
- * @access  Public (in production, should be authenticated)
+ * @desc    Mint a CouponNFT for a user from the agent wallet
+ * @body    { userAddress, storeId, storeName, reason, coffeeShopsEarned?, dryRun? }
+ * @access  API key with the mint scope
  */
-router.post('/mint-coupon', agentController.mintCoupon.bind(agentController));
+router.post('/mint-coupon', requireApiKey('mint'), agentController.mintCoupon.bind(agentController));
 
 export default router;
\ No newline at end of file
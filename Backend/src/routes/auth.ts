@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { AuthController } from '@/controllers/auth';
+import { requireApiKey, requireSession } from '@/middleware/auth';
+
+const router = Router();
+const authController = new AuthController();
+
+/**
+ * GET /api/auth/nonce
+ * Nonce to put in a Sign-In With Farcaster / SIWE message (single use, 10 minutes)
+ */
+router.get('/nonce', authController.getNonce.bind(authController));
+
+/**
+ * POST /api/auth/session
+ * Verify a signed SIWF/SIWE message and issue a session token (send as Authorization: Bearer <token>)
+ * Body: { message, signature }
+ * SIWF messages carry a farcaster://fid/<fid> resource and must be signed by that fid's custody address
+ */
+router.post('/session', authController.createSession.bind(authController));
+
+/**
+ * GET /api/auth/session
+ * Current user session (fid, wallet)
+ */
+router.get('/session', requireSession, authController.getSession.bind(authController));
+
+/**
+ * POST /api/auth/clients
+ * Create a server-to-server API client (admin)
+ * Body: { name, scopes: ('mint' | 'redeem' | 'admin')[] }
+ */
+router.post('/clients', requireApiKey('admin'), authController.createClient.bind(authController));
+
+/**
+ * GET /api/auth/clients
+ * List API clients (admin)
+ */
+router.get('/clients', requireApiKey('admin'), authController.listClients.bind(authController));
+
+/**
+ * DELETE /api/auth/clients/:clientId
+ * Revoke an API client's key (admin)
+ */
+router.delete('/clients/:clientId', requireApiKey('admin'), authController.revokeClient.bind(authController));
+
+export default router;
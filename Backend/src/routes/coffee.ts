@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { CoffeeController } from '@/controllers/coffee';
+import { requireSession } from '@/middleware/auth';
 
 const router = Router();
 const coffeeController = new CoffeeController();
@@ -23,53 +24,59 @@ const upload = multer({
 /**
  * POST /api/coffee/validate-snap
  * Validate and process a coffee snap
- * Body: { userId, fid, location, description }
+ * Body: { userId, coffeeType, coffeeName, venueName, venueId, city, state, rating?, description?, timezone? }
+ * venueId is the Places ID from /venues/nearby; its coordinates are looked up for the photo GPS check
  * File: image upload
+ * Auth: Farcaster session; the snap's fid and wallet are the session's
  */
 router.post('/validate-snap', 
+  requireSession,
   upload.single('image'),
-  coffeeController.validateSnap
+  coffeeController.validateSnap.bind(coffeeController)
 );
 
 /**
  * POST /api/coffee/submit-snap
  * Submit a validated coffee snap (with base64 image)
- * Body: { userId, fid, imageData, location, description }
+ * Body: { userId, imageData, location: { venueId, venueName, ... }, description, timezone? }
+ * Auth: Farcaster session; the snap's fid and wallet are the session's
  */
-router.post('/submit-snap', coffeeController.submitSnap);
+router.post('/submit-snap', requireSession, coffeeController.submitSnap.bind(coffeeController));
 
 /**
  * GET /api/coffee/feed
- * Get paginated coffee snap feed
- * Query: { page?, limit?, userId?, venueId? }
+ * Get cursor-paginated coffee snap feed (validated snaps only)
+ * Query: { cursor?, limit?, sort? (recent|engagement), userId?, venueId?, city?, state?,
+ *          coffeeType?, fid?, following? (true), viewerFid? (required with following) }
+ * Response pagination: { limit, nextCursor, hasMore }
  */
-router.get('/feed', coffeeController.getFeed);
+router.get('/feed', coffeeController.getFeed.bind(coffeeController));
 
 /**
  * GET /api/coffee/user/:userId/snaps
- * Get user's coffee snaps
+ * Get user's coffee snaps, stats and current/longest streak
  * Query: { page?, limit? }
  */
-router.get('/user/:userId/snaps', coffeeController.getUserSnaps);
+router.get('/user/:userId/snaps', coffeeController.getUserSnaps.bind(coffeeController));
 
 /**
  * GET /api/coffee/venues/nearby
  * Get nearby coffee venues
  * Query: { lat, lng, radius? }
  */
-router.get('/venues/nearby', coffeeController.getNearbyVenues);
+router.get('/venues/nearby', coffeeController.getNearbyVenues.bind(coffeeController));
 
 /**
  * GET /api/coffee/venues/:venueId/stats
  * Get venue statistics
  */
-router.get('/venues/:venueId/stats', coffeeController.getVenueStats);
+router.get('/venues/:venueId/stats', coffeeController.getVenueStats.bind(coffeeController));
 
 /**
  * GET /api/coffee/leaderboard
  * Get coffee snap leaderboard
- * Query: { timeframe?, limit? }
+ * Query: { timeframe? (day|week|month|all), limit? }
  */
-router.get('/leaderboard', coffeeController.getLeaderboard);
+router.get('/leaderboard', coffeeController.getLeaderboard.bind(coffeeController));
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { CouponsController } from '@/controllers/coupons';
-import { authenticateApiKey, optionalAuth } from '@/middleware/auth';
+import { optionalAuth, requireApiKey, requireSession, requireSessionOrApiKey } from '@/middleware/auth';
 
 const router = Router();
 const couponsController = new CouponsController();
@@ -9,26 +9,79 @@ const couponsController = new CouponsController();
  * POST /api/coupons/mint
  * Mint NFT coupon for eligible user
  * Body: { userId, metadata }
+ * Auth: API key with the mint scope
  */
-router.post('/mint', authenticateApiKey, couponsController.mintCoupon);
+router.post('/mint', requireApiKey('mint'), couponsController.mintCoupon);
 
 /**
  * GET /api/coupons/user/:userId
- * Get user's NFT coupons
- * Query: { status?, page?, limit? }
+ * Get coupons minted to the user's wallet (userId may be a wallet address), from the chain indexer
+ * Query: { status? (all|active|redeemed|expired), page?, limit? }
  */
 router.get('/user/:userId', couponsController.getUserCoupons);
 
 /**
  * POST /api/coupons/redeem
- * Redeem NFT coupon
- * Body: { couponId, venueId, redeemCode }
+ * Redeem NFT coupon on-chain
+ * Body: { couponId, venueId, originalValue? }
+ * Auth: the coupon holder's session or an API key with the redeem scope
  */
-router.post('/redeem', authenticateApiKey, couponsController.redeemCoupon);
+router.post('/redeem', requireSessionOrApiKey('redeem'), couponsController.redeemCoupon);
+
+/**
+ * POST /api/coupons/scan
+ * Redeem a coupon from a scanned, holder-signed QR code
+ * Body: { qr, venueId }
+ * Auth: API key with the redeem scope (issued to the venue; a user session can't name a venue)
+ */
+router.post('/scan', requireApiKey('redeem'), couponsController.redeemScannedCoupon);
+
+/**
+ * POST /api/coupons/:tokenId/presentation
+ * Get EIP-712 typed data to sign into a short-lived coupon QR code
+ * Auth: the coupon holder's session
+ */
+router.post('/:tokenId/presentation', requireSession, couponsController.createPresentation);
+
+/**
+ * GET /api/coupons/metadata/:tokenId
+ * ERC-721 metadata JSON served as CouponNFT.tokenURI (also accepts <tokenId>.json)
+ * Point the contract's base URI at <API_BASE_URL>/api/coupons/metadata/ (setBaseURI)
+ */
+router.get('/metadata/:tokenId', couponsController.getTokenMetadata);
+
+/**
+ * GET /api/coupons/metadata/:tokenId/image.:format
+ * Coupon image as svg or png, stamped REDEEMED or EXPIRED when it can no longer be used
+ */
+router.get('/metadata/:tokenId/image.:format', couponsController.getTokenImage);
+
+/**
+ * POST /api/coupons/expiry-sweep
+ * Run the coupon lifecycle sweep now: expiring-soon reminders, expired marking, CouponExpired recording
+ * Auth: API key with the admin scope
+ */
+router.post('/expiry-sweep', requireApiKey('admin'), couponsController.runExpirySweep);
+
+/**
+ * POST /api/coupons/:tokenId/extend
+ * Extend an unredeemed coupon's expiry (CouponNFT.extendExpiry) and notify the holder
+ * Body: { additionalDays } (1-365, added to the later of the current expiry and now)
+ * Auth: API key with the admin scope
+ */
+router.post('/:tokenId/extend', requireApiKey('admin'), couponsController.extendCouponExpiry);
+
+/**
+ * POST /api/coupons/:tokenId/reissue
+ * Replace an expired, unredeemed coupon with a new one on the same terms, minted to its owner
+ * Body: { expiryDays? }
+ * Auth: API key with the admin scope
+ */
+router.post('/:tokenId/reissue', requireApiKey('admin'), couponsController.reissueCoupon);
 
 /**
  * GET /api/coupons/:couponId
- * Get coupon details
+ * Get coupon details; status is active, redeemed or expired
  */
 router.get('/:couponId', optionalAuth, couponsController.getCouponDetails);
 
@@ -36,12 +89,13 @@ router.get('/:couponId', optionalAuth, couponsController.getCouponDetails);
  * POST /api/coupons/validate-redemption
  * Validate coupon for redemption (for venues)
  * Body: { couponId, venueId }
+ * Auth: API key with the redeem scope
  */
-router.post('/validate-redemption', authenticateApiKey, couponsController.validateRedemption);
+router.post('/validate-redemption', requireApiKey('redeem'), couponsController.validateRedemption);
 
 /**
  * GET /api/coupons/venue/:venueId/redeemed
- * Get redeemed coupons for a venue
+ * Get coupons redeemed at a venue, from the chain indexer
  * Query: { page?, limit? }
  */
 router.get('/venue/:venueId/redeemed', couponsController.getVenueRedemptions);
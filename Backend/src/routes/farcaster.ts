@@ -8,6 +8,9 @@ const farcasterController = new FarcasterController();
 /**
  * POST /api/farcaster/webhook
  * Handle Farcaster Mini App webhooks
+ * Body: { untrustedData, trustedData: { messageBytes } }
+ * trustedData.messageBytes must be a signed frame action from an active app key
+ * for untrustedData.fid; each message is accepted once within FARCASTER_WEBHOOK_MAX_AGE_SECONDS
  */
 router.post('/webhook', 
   validateFarcasterWebhook,
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { NotificationsController } from '@/controllers/notifications';
+import { requireSession } from '@/middleware/auth';
+
+const router = Router();
+const notificationsController = new NotificationsController();
+
+/**
+ * GET /api/notifications
+ * The signed-in user's in-app notifications (coupon reminders, expiries, extensions, reissues)
+ * Query: { unread? (true), limit? }
+ * Auth: the user's session
+ */
+router.get('/', requireSession, notificationsController.listNotifications.bind(notificationsController));
+
+/**
+ * POST /api/notifications/read
+ * Mark notifications read
+ * Body: { ids? } (all unread notifications when omitted)
+ * Auth: the user's session
+ */
+router.post('/read', requireSession, notificationsController.markRead.bind(notificationsController));
+
+export default router;
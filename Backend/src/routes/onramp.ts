@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { OnrampController } from '@/controllers/onramp';
-import { authenticateApiKey, optionalAuth } from '@/middleware/auth';
+import { validateOnrampWebhook } from '@/middleware';
+import { requireSession, requireSessionOrApiKey } from '@/middleware/auth';
 
 const router = Router();
 const onrampController = new OnrampController();
@@ -9,33 +10,40 @@ const onrampController = new OnrampController();
  * POST /api/onramp/create-session
  * Create CDP Onramp session for fiat-to-crypto conversion
  * Body: { userId, amount, currency, destinationWallet }
+ * Auth: the user's session or an admin API key
  */
-router.post('/create-session', authenticateApiKey, onrampController.createSession);
+router.post('/create-session', requireSessionOrApiKey('admin'), onrampController.createSession.bind(onrampController));
 
 /**
  * GET /api/onramp/session/:sessionId
- * Get onramp session status
+ * Get onramp session status (pending until a webhook completes or fails it, or it expires)
+ * Auth: the session owner's sign-in or an admin API key
  */
-router.get('/session/:sessionId', onrampController.getSessionStatus);
+router.get('/session/:sessionId', requireSessionOrApiKey('admin'), onrampController.getSessionStatus.bind(onrampController));
 
 /**
  * POST /api/onramp/webhook
  * Handle CDP Onramp webhooks
+ * Auth: x-cc-webhook-signature (HMAC-SHA256 of the raw body with ONRAMP_WEBHOOK_SECRET)
+ * Events are applied once per event id; a completed session credits the destination wallet
+ * Events for an unknown session get 404 and are not recorded, so a redelivery can apply them
  */
-router.post('/webhook', onrampController.handleWebhook);
+router.post('/webhook', validateOnrampWebhook, onrampController.handleWebhook.bind(onrampController));
 
 /**
  * GET /api/onramp/user/:userId/sessions
  * Get user's onramp sessions
- * Query: { page?, limit?, status? }
+ * Query: { page?, limit? (max 50), status? }
+ * Auth: the user's session or an admin API key
  */
-router.get('/user/:userId/sessions', onrampController.getUserSessions);
+router.get('/user/:userId/sessions', requireSessionOrApiKey('admin'), onrampController.getUserSessions.bind(onrampController));
 
 /**
  * POST /api/onramp/tip
- * Process tip transaction via onramp
+ * Fund a tip via onramp (creates a session paying into the tipper's wallet)
  * Body: { fromUserId, toUserId, amount, currency }
+ * Auth: the tipping user's session
  */
-router.post('/tip', authenticateApiKey, onrampController.processTip);
+router.post('/tip', requireSession, onrampController.processTip.bind(onrampController));
 
 export default router;
\ No newline at end of file
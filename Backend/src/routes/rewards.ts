@@ -1,47 +1,61 @@
 import { Router } from 'express';
 import { RewardsController } from '@/controllers/rewards';
-import { authenticateApiKey, optionalAuth } from '@/middleware/auth';
+import { optionalAuth, requireApiKey, requireSessionOrApiKey } from '@/middleware/auth';
 
 const router = Router();
 const rewardsController = new RewardsController();
 
 /**
  * POST /api/rewards/mint
- * Mint $BEAN tokens as rewards
- * Body: { userId, amount, reason, metadata? }
+ * Mint $BEAN on-chain via LoyaltyToken.mint (batchMint for recipients[])
+ * Body: { userId, amount, reason, walletAddress?, metadata? { referenceId? } }
+ *    or { recipients: [{ userId, amount, walletAddress? }], reason, metadata? }
+ * Errors: 429 daily mint limit, 422 revert (with revertReason), 502/503 signer or RPC
+ * Auth: API key with the mint scope
  */
-router.post('/mint', authenticateApiKey, rewardsController.mintRewards);
+router.post('/mint', requireApiKey('mint'), rewardsController.mintRewards.bind(rewardsController));
 
 /**
  * GET /api/rewards/user/:userId/balance
- * Get user's $BEAN token balance
+ * Get user's $BEAN balance derived from the reward ledger (pending + settled),
+ * reconciled against LoyaltyToken when an RPC and wallet are available
+ * Query: { address? }
  */
-router.get('/user/:userId/balance', rewardsController.getUserBalance);
+router.get('/user/:userId/balance', rewardsController.getUserBalance.bind(rewardsController));
 
 /**
  * GET /api/rewards/user/:userId/history
- * Get user's reward history
- * Query: { page?, limit? }
+ * Get user's reward ledger entries, newest first
+ * Query: { page?, limit?, reason? (coffee_snap|milestone|bonus|claim|tip), status? (pending|claiming|settled|failed) }
  */
-router.get('/user/:userId/history', rewardsController.getRewardHistory);
+router.get('/user/:userId/history', rewardsController.getRewardHistory.bind(rewardsController));
+
+/**
+ * GET /api/rewards/user/:userId/onchain
+ * Get indexed LoyaltyToken, SnapRegistry and RewardsController events for the user's wallet, newest first
+ * Query: { page?, limit?, address? }
+ */
+router.get('/user/:userId/onchain', rewardsController.getOnchainHistory.bind(rewardsController));
 
 /**
  * POST /api/rewards/claim
- * Claim pending rewards
- * Body: { userId, rewardIds[] }
+ * Claim pending rewards: reserves the ledger entries, mints their total and settles them
+ * Body: { userId, rewardIds[], walletAddress? (API keys only) }
+ * Auth: the user's session (own rewards, minted to the wallet on file or the session wallet)
+ * or an API key with the mint scope
  */
-router.post('/claim', authenticateApiKey, rewardsController.claimRewards);
+router.post('/claim', requireSessionOrApiKey('mint'), rewardsController.claimRewards.bind(rewardsController));
 
 /**
  * GET /api/rewards/milestones/:userId
- * Get user's milestone progress
+ * Get user's milestone progress from recorded awards (BEAN credit + coupon mint status)
  */
-router.get('/milestones/:userId', optionalAuth, rewardsController.getMilestones);
+router.get('/milestones/:userId', optionalAuth, rewardsController.getMilestones.bind(rewardsController));
 
 /**
  * GET /api/rewards/stats
  * Get global reward statistics (public)
  */
-router.get('/stats', rewardsController.getRewardStats);
+router.get('/stats', rewardsController.getRewardStats.bind(rewardsController));
 
 export default router;
\ No newline at end of file
@@ -4,9 +4,16 @@ import {
   getUserByFid,
   getUserBalance,
   sendTip,
-  updateBalanceAfterOnramp
+  confirmTip,
+  relayTip,
+  getTip,
+  getTipReceipt,
+  getSentTips,
+  getReceivedTips,
+  getCreatorEarnings,
+  getTopSupporters
 } from '@/controllers/users';
-import { authMiddleware } from '@/middleware/auth';
+import { requireSession } from '@/middleware/auth';
 
 const router = Router();
 
@@ -36,18 +43,78 @@ router.get('/balance', getUserBalance);
 
 /**
  * @route   POST /api/users/tips/send
- * @desc    Send USDC tip to another user
- * @body    { toUserId, amount, fromAddress }
- * @access  Public (in production, should be authenticated)
+ * @desc    Prepare a USDC tip on Base (recorded as pending)
+ * @body    { toUserId, amount, fromAddress, settlement?: 'client' | 'relay' } (fromAddress must be the session wallet)
+ * @returns { tip, transfer } plus an EIP-3009 authorization to sign when settlement is relay
+ * @access  Signed-in user (session token)
+ */
+router.post('/tips/send', requireSession, sendTip);
+
+/**
+ * @route   POST /api/users/tips/:tipId/confirm
+ * @desc    Report the hash of the sender's USDC transfer; confirmed once the receipt matches
+ * @body    { transactionHash }
+ * @returns 200 confirmed, 202 still pending, 422 failed
+ * @access  Signed-in sender
+ */
+router.post('/tips/:tipId/confirm', requireSession, confirmTip);
+
+/**
+ * @route   POST /api/users/tips/:tipId/relay
+ * @desc    Relay a signed TransferWithAuthorization through the backend signer
+ * @body    { signature }
+ * @returns 200 confirmed, 422 failed
+ * @access  Signed-in sender
+ */
+router.post('/tips/:tipId/relay', requireSession, relayTip);
+
+/**
+ * @route   GET /api/users/tips/:tipId
+ * @desc    Tip settlement status (pending, confirmed, failed)
+ * @access  Public
+ */
+router.get('/tips/:tipId', getTip);
+
+/**
+ * @route   GET /api/users/tips/:tipId/receipt
+ * @desc    Shareable tip receipt (amount, parties, transaction and explorer link, share text)
+ * @access  Public
  */
-router.post('/tips/send', sendTip);
+router.get('/tips/:tipId/receipt', getTipReceipt);
 
 /**
- * @route   POST /api/users/balance/onramp
- * @desc    Update user balance after successful onramp
- * @body    { address, amount, transactionId }
- * @access  Public (in production, should be authenticated and verify transaction)
+ * @route   GET /api/users/:fid/tips/sent
+ * @desc    Tips a user has sent, newest first, each with its receipt
+ * @param   fid - Farcaster ID
+ * @query   cursor, limit (max 50), status
+ * @access  Public
+ */
+router.get('/:fid/tips/sent', getSentTips);
+
+/**
+ * @route   GET /api/users/:fid/tips/received
+ * @desc    Tips a user has received, newest first, each with its receipt
+ * @param   fid - Farcaster ID
+ * @query   cursor, limit (max 50), status
+ * @access  Public
+ */
+router.get('/:fid/tips/received', getReceivedTips);
+
+/**
+ * @route   GET /api/users/:fid/earnings
+ * @desc    Confirmed tip earnings over 7d, 30d and all time, plus a 30-day daily series
+ * @param   fid - Farcaster ID of the creator
+ * @access  Public
+ */
+router.get('/:fid/earnings', getCreatorEarnings);
+
+/**
+ * @route   GET /api/users/:fid/supporters
+ * @desc    Top supporters of a creator by confirmed tip total
+ * @param   fid - Farcaster ID of the creator
+ * @query   window (7d | 30d | all), limit (max 50)
+ * @access  Public
  */
-router.post('/balance/onramp', updateBalanceAfterOnramp);
+router.get('/:fid/supporters', getTopSupporters);
 
 export default router;
\ No newline at end of file
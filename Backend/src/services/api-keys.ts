@@ -0,0 +1,103 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '@/config';
+import { ApiClient, ApiScope, NotFoundError, ValidationError } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+
+export const API_SCOPES: readonly ApiScope[] = ['mint', 'redeem', 'admin'];
+
+// Keys look like sck_<client id>_<secret>; the id locates the client, the hash checks the secret
+const KEY_PATTERN = /^sck_([a-f0-9]{12})_[A-Za-z0-9_-]{43}$/;
+
+const hashKey = (apiKey: string): Buffer => createHash('sha256').update(apiKey).digest();
+
+const BOOTSTRAP_CLIENT: Omit<ApiClient, 'keyHash'> = {
+  id: 'bootstrap',
+  name: 'Bootstrap admin (BOOTSTRAP_ADMIN_KEY)',
+  scopes: ['admin'],
+  createdAt: new Date(0),
+};
+
+/**
+ * Check whether a client may act with a scope (admin may do anything)
+ */
+export function hasScope(client: Pick<ApiClient, 'scopes'>, scope: ApiScope): boolean {
+  return client.scopes.includes('admin') || client.scopes.includes(scope);
+}
+
+/**
+ * Per-client API keys for server-to-server callers (venues, workers, admin tools).
+ * Only a SHA-256 of each key is stored; the key is shown once, when the client is created.
+ */
+export class ApiKeyService {
+  private clients: Collection<ApiClient>;
+
+  constructor(
+    db: Database = database,
+    private readonly bootstrapKey: string | undefined = config.AUTH.BOOTSTRAP_ADMIN_KEY
+  ) {
+    this.clients = db.collection<ApiClient>('api_clients');
+  }
+
+  async createClient(name: string, scopes: ApiScope[]): Promise<{ client: ApiClient; apiKey: string }> {
+    if (!name?.trim()) {
+      throw new ValidationError('Client name is required', 'name');
+    }
+    if (!scopes?.length || scopes.some(scope => !API_SCOPES.includes(scope))) {
+      throw new ValidationError(`scopes must be a non-empty list of: ${API_SCOPES.join(', ')}`, 'scopes');
+    }
+
+    const id = randomBytes(6).toString('hex');
+    const apiKey = `sck_${id}_${randomBytes(32).toString('base64url')}`;
+    const client = await this.clients.insert({
+      id,
+      name: name.trim(),
+      keyHash: hashKey(apiKey).toString('hex'),
+      scopes: Array.from(new Set(scopes)),
+      createdAt: new Date(),
+    });
+
+    console.log('API client created:', { id, name: client.name, scopes: client.scopes });
+    return { client, apiKey };
+  }
+
+  /**
+   * Resolve the active client for a key, or null if the key is unknown or revoked
+   */
+  async authenticate(apiKey: string): Promise<ApiClient | null> {
+    if (this.bootstrapKey && this.matches(apiKey, hashKey(this.bootstrapKey))) {
+      return { ...BOOTSTRAP_CLIENT, keyHash: '' };
+    }
+
+    const match = KEY_PATTERN.exec(apiKey);
+    if (!match) return null;
+
+    const client = await this.clients.get(match[1]!);
+    if (!client || client.revokedAt || !this.matches(apiKey, Buffer.from(client.keyHash, 'hex'))) {
+      return null;
+    }
+
+    return (await this.clients.update(client.id, { lastUsedAt: new Date() })) || client;
+  }
+
+  async listClients(): Promise<ApiClient[]> {
+    const clients = await this.clients.find();
+    return clients.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async revokeClient(id: string): Promise<ApiClient> {
+    const client = await this.clients.update(id, current => ({ ...current, revokedAt: current.revokedAt || new Date() }));
+    if (!client) {
+      throw new NotFoundError(`API client ${id} not found`);
+    }
+    console.log('API client revoked:', { id });
+    return client;
+  }
+
+  private matches(apiKey: string, expectedHash: Buffer): boolean {
+    const actual = hashKey(apiKey);
+    return actual.length === expectedHash.length && timingSafeEqual(actual, expectedHash);
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,198 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Address, createPublicClient, Hex, http, isAddress, parseAbi, verifyMessage } from 'viem';
+import { optimism } from 'viem/chains';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { config } from '@/config';
+import { AuthNonce, UnauthorizedError, UserSession, ValidationError } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { getPublicClient } from '@/services/chain';
+
+// Farcaster IdRegistry on OP Mainnet: idOf(custody address) => fid
+const ID_REGISTRY_ADDRESS = '0x00000000Fc6c5F01Fc30151999387Bb99A9f489b';
+const idRegistryAbi = parseAbi(['function idOf(address owner) view returns (uint256)']);
+
+const FID_RESOURCE = /^farcaster:\/\/fid\/(\d+)$/;
+
+export type FidResolver = (custodyAddress: Address) => Promise<number>; // 0 when the address owns no fid
+
+/**
+ * fid owned by a custody address, read from the IdRegistry
+ */
+export const idRegistryFidOf: FidResolver = async (custodyAddress) => {
+  const client = createPublicClient({ chain: optimism, transport: http(config.AUTH.OPTIMISM_RPC_URL) });
+  const fid = await client.readContract({
+    address: ID_REGISTRY_ADDRESS,
+    abi: idRegistryAbi,
+    functionName: 'idOf',
+    args: [custodyAddress],
+  });
+  return Number(fid);
+};
+
+/**
+ * Session lifetime in seconds from a duration like 7d, 12h, 30m or 3600
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  const unit = { '': 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2] as '' | 's' | 'm' | 'h' | 'd'];
+  return parseInt(match[1]!, 10) * unit;
+}
+
+const base64url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+/**
+ * Issues HS256 JWT sessions for end users after Sign-In-With-Farcaster or SIWE.
+ * Nonces are single-use and short-lived; a SIWF message (one with a
+ * farcaster://fid/<fid> resource) must be signed by that fid's custody address.
+ */
+export class AuthSessionService {
+  private nonces: Collection<AuthNonce>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    db: Database = database,
+    private readonly secret: string = config.JWT_SECRET,
+    private readonly fidOf: FidResolver = idRegistryFidOf
+  ) {
+    this.nonces = db.collection<AuthNonce>('auth_nonces');
+  }
+
+  async createNonce(now: Date = new Date()): Promise<AuthNonce> {
+    return this.nonces.insert({
+      id: generateSiweNonce(),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + config.AUTH.NONCE_TTL_MINUTES * 60 * 1000),
+    });
+  }
+
+  /**
+   * Verify a signed SIWE/SIWF message and issue a session token
+   */
+  async signIn(message: string, signature: string, now: Date = new Date()): Promise<{ token: string; session: UserSession }> {
+    if (typeof message !== 'string' || typeof signature !== 'string' || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+      throw new ValidationError('message and a hex signature are required', 'signature');
+    }
+
+    const parsed = parseSiweMessage(message);
+    if (!parsed.address || !parsed.domain || !parsed.nonce) {
+      throw new ValidationError('Not a valid Sign-In With Ethereum message', 'message');
+    }
+    if (!config.AUTH.DOMAINS.includes(parsed.domain)) {
+      throw new UnauthorizedError(`Sign-in message is for ${parsed.domain}, not this app`);
+    }
+    if (!validateSiweMessage({ message: parsed, time: now })) {
+      throw new UnauthorizedError('Sign-in message is expired or not yet valid');
+    }
+
+    // Consume the nonce before the (slower) signature check so it can't be replayed concurrently
+    await this.consumeNonce(parsed.nonce, now);
+
+    const verified = await this.verifySignature(parsed.address, message, signature as Hex);
+    if (!verified) {
+      throw new UnauthorizedError('Invalid signature');
+    }
+
+    const fidResource = parsed.resources?.map(resource => FID_RESOURCE.exec(resource)).find(Boolean);
+    let fid: number | null = null;
+    if (fidResource) {
+      fid = parseInt(fidResource[1]!, 10);
+      const custodyFid = await this.fidOf(parsed.address);
+      if (custodyFid !== fid) {
+        throw new UnauthorizedError(`Signer is not the custody address of fid ${fid}`);
+      }
+    }
+
+    const issuedAt = Math.floor(now.getTime() / 1000);
+    const session: UserSession = {
+      sub: fid !== null ? `fid:${fid}` : parsed.address.toLowerCase(),
+      fid,
+      walletAddress: parsed.address,
+      method: fid !== null ? 'siwf' : 'siwe',
+      iat: issuedAt,
+      exp: issuedAt + parseDuration(config.JWT_EXPIRES_IN),
+    };
+
+    console.log('User session issued:', { sub: session.sub, method: session.method });
+    return { token: this.sign(session), session };
+  }
+
+  /**
+   * Decode a session token; throws UnauthorizedError if it is forged or expired
+   */
+  verifyToken(token: string, now: Date = new Date()): UserSession {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      throw new UnauthorizedError('Malformed session token');
+    }
+
+    const expected = Buffer.from(this.hmac(`${header}.${payload}`), 'base64url');
+    const actual = Buffer.from(signature, 'base64url');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new UnauthorizedError('Invalid session token');
+    }
+
+    let session: UserSession;
+    try {
+      session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new UnauthorizedError('Malformed session token');
+    }
+
+    if (typeof session.exp !== 'number' || session.exp <= Math.floor(now.getTime() / 1000)) {
+      throw new UnauthorizedError('Session expired');
+    }
+    return session;
+  }
+
+  private sign(session: UserSession): string {
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify(session));
+    return `${header}.${payload}.${this.hmac(`${header}.${payload}`)}`;
+  }
+
+  private hmac(data: string): string {
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  private async consumeNonce(nonce: string, now: Date): Promise<void> {
+    const run = this.queue.then(async () => {
+      const record = await this.nonces.get(nonce);
+      if (!record) {
+        throw new UnauthorizedError('Unknown or already used nonce');
+      }
+      await this.nonces.delete(nonce);
+      if (record.expiresAt.getTime() <= now.getTime()) {
+        throw new UnauthorizedError('Nonce expired');
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * EOA signatures are recovered locally; smart wallets (ERC-1271/6492) are checked on Base
+   */
+  private async verifySignature(address: Address, message: string, signature: Hex): Promise<boolean> {
+    if (!isAddress(address)) return false;
+
+    try {
+      if (await verifyMessage({ address, message, signature })) return true;
+    } catch {
+      // Not an EOA signature; fall through to the contract check
+    }
+
+    const client = getPublicClient();
+    if (!client) return false;
+    try {
+      return await client.verifyMessage({ address, message, signature });
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const authSessionService = new AuthSessionService();
@@ -0,0 +1,158 @@
+import { formatUnits, isAddress, parseUnits } from 'viem';
+import { config } from '@/config';
+import { ContractError, ValidationError } from '@/types';
+import { decodeRevertReason, isContractConfigured, loyaltyTokenAbi } from '@/services/chain';
+import { createSigner, describeError, executeContractWrite, TransactionSigner } from '@/services/signer';
+
+const BEAN_DECIMALS = 18;
+const MAX_BATCH_RECIPIENTS = 100; // LoyaltyToken.batchMint limit
+
+export interface BeanMint {
+  to: string;
+  amount: string; // $BEAN, decimal string
+}
+
+export interface BeanMintResult {
+  transactionHash: `0x${string}`;
+  blockNumber: string;
+  signer: string; // cdp | local
+  minter: `0x${string}`;
+  mints: BeanMint[];
+  totalAmount: string;
+  remainingDailyMint: string; // After this transaction
+}
+
+/**
+ * Mints $BEAN through LoyaltyToken with the configured signer.
+ * Each mint is checked against the minter's remaining daily allowance first.
+ */
+export class BeanMintService {
+  private signer: TransactionSigner | null = null;
+
+  constructor(private readonly signerFactory: () => TransactionSigner = createSigner) {}
+
+  async mint(to: string, amount: string, reason: string): Promise<BeanMintResult> {
+    return this.mintBatch([{ to, amount }], reason);
+  }
+
+  /**
+   * Mint to one or more recipients (mint for one, batchMint for several)
+   */
+  async mintBatch(mints: BeanMint[], reason: string): Promise<BeanMintResult> {
+    if (mints.length === 0 || mints.length > MAX_BATCH_RECIPIENTS) {
+      throw new ValidationError(`Between 1 and ${MAX_BATCH_RECIPIENTS} recipients are required`, 'recipients');
+    }
+
+    const recipients = mints.map(({ to }) => {
+      if (!isAddress(to)) {
+        throw new ValidationError(`Invalid recipient address: ${to}`, 'walletAddress');
+      }
+      return to;
+    });
+    const amounts = mints.map(({ amount }) => this.toWei(amount));
+    const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+
+    const token = this.getTokenAddress();
+    const signer = this.getSigner();
+    const minter = await this.call(() => signer.getAddress(), 'Signer unavailable');
+
+    const remaining = await this.readRemainingDailyMint(minter);
+    if (total > remaining) {
+      throw new ContractError(
+        `Daily mint limit exceeded: ${formatUnits(remaining, BEAN_DECIMALS)} BEAN remaining today`,
+        'DAILY_LIMIT_EXCEEDED',
+        'Daily mint limit exceeded'
+      );
+    }
+
+    const request = recipients.length === 1
+      ? { address: token, abi: loyaltyTokenAbi, functionName: 'mint', args: [recipients[0], amounts[0], reason] as const }
+      : { address: token, abi: loyaltyTokenAbi, functionName: 'batchMint', args: [recipients, amounts, reason] as const };
+
+    const receipt = await executeContractWrite(signer, request, 'Mint');
+    const transactionHash = receipt.transactionHash;
+
+    console.log('BEAN mint confirmed:', { transactionHash, recipients: recipients.length, reason });
+
+    return {
+      transactionHash,
+      blockNumber: receipt.blockNumber.toString(),
+      signer: signer.name,
+      minter,
+      mints,
+      totalAmount: formatUnits(total, BEAN_DECIMALS),
+      remainingDailyMint: formatUnits(remaining - total, BEAN_DECIMALS),
+    };
+  }
+
+  /**
+   * Remaining daily allowance of the backend minter, in $BEAN
+   */
+  async getRemainingDailyMint(): Promise<string> {
+    const minter = await this.call(() => this.getSigner().getAddress(), 'Signer unavailable');
+    return formatUnits(await this.readRemainingDailyMint(minter), BEAN_DECIMALS);
+  }
+
+  private async readRemainingDailyMint(minter: `0x${string}`): Promise<bigint> {
+    return this.call(
+      () => this.getSigner().publicClient.readContract({
+        address: this.getTokenAddress(),
+        abi: loyaltyTokenAbi,
+        functionName: 'getRemainingDailyMint',
+        args: [minter],
+      }),
+      'Failed to read remaining daily mint'
+    );
+  }
+
+  private getTokenAddress(): `0x${string}` {
+    const token = config.CONTRACTS.LOYALTY_TOKEN;
+    if (!isContractConfigured(token)) {
+      throw new ContractError('LOYALTY_TOKEN_ADDRESS is not configured', 'NOT_CONFIGURED');
+    }
+    return token;
+  }
+
+  private getSigner(): TransactionSigner {
+    if (!this.signer) {
+      try {
+        this.signer = this.signerFactory();
+      } catch (error) {
+        throw new ContractError(describeError(error), 'NOT_CONFIGURED');
+      }
+    }
+    return this.signer;
+  }
+
+  private toWei(amount: string): bigint {
+    if (!/^\d+(\.\d{1,18})?$/.test(String(amount))) {
+      throw new ValidationError(`Invalid mint amount: ${amount}`, 'amount');
+    }
+    const wei = parseUnits(String(amount), BEAN_DECIMALS);
+    if (wei === 0n) {
+      throw new ValidationError('Mint amount must be greater than zero', 'amount');
+    }
+    return wei;
+  }
+
+  /**
+   * Run a signer/RPC call, mapping failures to ContractError with any revert reason
+   */
+  private async call<T>(fn: () => Promise<T>, message: string): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof ContractError) throw error;
+
+      const revertReason = decodeRevertReason(error);
+      throw new ContractError(
+        `${message}: ${revertReason || describeError(error)}`,
+        revertReason ? 'REVERTED' : 'TRANSACTION_FAILED',
+        revertReason
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const beanMintService = new BeanMintService();
@@ -1,5 +1,6 @@
 import { Coinbase, Wallet, WalletData } from '@coinbase/coinbase-sdk';
 import { config } from '@/config';
+import { loyaltyTokenAbi } from '@/services/chain';
 
 export class CDPWalletService {
   private coinbase: Coinbase;
@@ -66,40 +67,55 @@ export class CDPWalletService {
     }
   }
   
+  /**
+   * Invoke a state-changing contract method and wait for it to be mined
+   * Args are keyed by the ABI input names, with numbers passed as decimal strings.
+   */
+  async invokeContract(
+    contractAddress: string,
+    method: string,
+    args: Record<string, any>,
+    abi: readonly unknown[]
+  ): Promise<string> {
+    const wallet = await this.initializeWallet();
+    const address = await wallet.getDefaultAddress();
+
+    const transaction = await address.invokeContract({
+      contractAddress,
+      method,
+      args,
+      abi,
+    });
+
+    // Wait for transaction confirmation
+    const result = await transaction.wait();
+
+    console.log('Contract call successful:', {
+      transactionHash: result.getTransactionHash(),
+      contractAddress,
+      method,
+    });
+
+    return result.getTransactionHash();
+  }
+
   /**
    * Mint ERC20 tokens (for $BEAN rewards)
+   * Amount is in wei; see BeanMintService for cap and daily limit checks.
    */
   async mintTokens(
     tokenContractAddress: string,
     recipientAddress: string,
-    amount: string
+    amount: string,
+    reason: string = 'reward'
   ): Promise<string> {
     try {
-      const wallet = await this.initializeWallet();
-      const address = await wallet.getDefaultAddress();
-      
-      // Prepare mint transaction
-      const mintData = this.encodeMintFunction(recipientAddress, amount);
-      
-      const transaction = await address.invokeContract({
-        contractAddress: tokenContractAddress,
-        method: 'mint',
-        args: {
-          to: recipientAddress,
-          amount: amount,
-        },
-      });
-      
-      // Wait for transaction confirmation
-      const result = await transaction.wait();
-      
-      console.log('Token mint successful:', {
-        transactionHash: result.getTransactionHash(),
-        recipient: recipientAddress,
-        amount,
-      });
-      
-      return result.getTransactionHash();
+      return await this.invokeContract(
+        tokenContractAddress,
+        'mint',
+        { to: recipientAddress, amount, reason },
+        loyaltyTokenAbi
+      );
     } catch (error) {
       console.error('Token mint failed:', error);
       throw new Error('Token mint failed');
@@ -249,15 +265,6 @@ export class CDPWalletService {
     }
   }
   
-  /**
-   * Helper: Encode mint function for ERC20
-   */
-  private encodeMintFunction(to: string, amount: string): string {
-    // This would typically use ethers.js or web3 to encode the function call
-    // For now, return placeholder
-    return `mint(${to}, ${amount})`;
-  }
-  
   /**
    * Check if wallet is initialized
    */
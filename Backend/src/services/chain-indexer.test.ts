@@ -0,0 +1,131 @@
+import { BlockNotFoundError, PublicClient } from 'viem';
+import { config } from '@/config';
+import { ChainIndexer } from '@/services/chain-indexer';
+import { Database } from '@/services/database';
+
+interface FakeBlock {
+  hash: string;
+  mints: number[]; // Token IDs minted in the block
+}
+
+const blockHash = (fork: string, number: number) => `0x${fork}${number.toString(16).padStart(63, '0')}`;
+
+/**
+ * Just enough of a PublicClient for the indexer: a chain of blocks whose
+ * CouponMinted logs can be replaced to simulate a reorg
+ */
+class FakeChain {
+  blocks: FakeBlock[] = [];
+  failing = false;
+
+  constructor(length: number) {
+    this.extend(length);
+  }
+
+  extend(count: number, fork = 'a'): void {
+    for (let i = 0; i < count; i++) {
+      this.blocks.push({ hash: blockHash(fork, this.blocks.length), mints: [] });
+    }
+  }
+
+  // Replace every block from `from` on, as a reorg would
+  reorg(from: number, fork: string): void {
+    const length = this.blocks.length;
+    this.blocks = this.blocks.slice(0, from);
+    this.extend(length - from, fork);
+  }
+
+  client(): PublicClient {
+    const fake = {
+      getBlockNumber: async () => {
+        this.assertUp();
+        return BigInt(this.blocks.length - 1);
+      },
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+        this.assertUp();
+        const block = this.blocks[Number(blockNumber)];
+        if (!block) throw new BlockNotFoundError({ blockNumber });
+        return { hash: block.hash, number: blockNumber, timestamp: 1_700_000_000n + blockNumber * 2n };
+      },
+      getLogs: async ({ address, fromBlock, toBlock }: { address: string; fromBlock: bigint; toBlock: bigint }) => {
+        this.assertUp();
+        if (address.toLowerCase() !== config.CONTRACTS.COUPON_NFT.toLowerCase()) return [];
+
+        return this.blocks.slice(Number(fromBlock), Number(toBlock) + 1).flatMap((block, offset) =>
+          block.mints.map((tokenId, logIndex) => ({
+            address,
+            eventName: 'CouponMinted',
+            args: { to: '0x000000000000000000000000000000000000dEaD', tokenId: BigInt(tokenId) },
+            blockNumber: fromBlock + BigInt(offset),
+            blockHash: block.hash,
+            transactionHash: `0x${tokenId.toString(16).padStart(60, '0')}${block.hash.slice(2, 6)}`,
+            logIndex,
+          }))
+        );
+      },
+    };
+    return fake as unknown as PublicClient;
+  }
+
+  private assertUp(): void {
+    if (this.failing) throw new Error('RPC unavailable');
+  }
+}
+
+const options = { startBlock: 0, confirmations: 2, batchSize: 4 };
+
+describe('ChainIndexer', () => {
+  let chain: FakeChain;
+  let indexer: ChainIndexer;
+
+  beforeEach(() => {
+    chain = new FakeChain(10);
+    indexer = new ChainIndexer(new Database({ driver: 'memory' }), () => chain.client(), options);
+  });
+
+  const mintedTokenIds = async () =>
+    (await indexer.findEvents({ eventName: 'CouponMinted' })).map(event => event.args.tokenId).sort();
+
+  it('indexes only blocks the confirmation depth behind the head', async () => {
+    chain.blocks[3]!.mints.push(1);
+    chain.blocks[8]!.mints.push(2); // Head is 9, so block 8 is not confirmed yet
+
+    const run = await indexer.runOnce();
+
+    expect(run).toEqual({ fromBlock: 0, toBlock: 7, indexed: 1, rewoundTo: null });
+    expect(await mintedTokenIds()).toEqual(['1']);
+    expect((await indexer.getCheckpoint())?.blockHash).toBe(chain.blocks[7]!.hash);
+
+    chain.extend(2);
+    const next = await indexer.runOnce();
+
+    expect(next).toMatchObject({ fromBlock: 8, toBlock: 9, indexed: 1 });
+    expect(await mintedTokenIds()).toEqual(['1', '2']);
+  });
+
+  it('rewinds to the last canonical checkpoint after a reorg', async () => {
+    chain.blocks[2]!.mints.push(1);
+    chain.blocks[6]!.mints.push(2);
+    await indexer.runOnce(); // Checkpoints at blocks 3 and 7
+
+    chain.reorg(5, 'b');
+    chain.blocks[6]!.mints.push(3);
+    const run = await indexer.runOnce();
+
+    expect(run?.rewoundTo).toBe(3);
+    expect(await mintedTokenIds()).toEqual(['1', '3']);
+    expect((await indexer.getCheckpoint())?.blockHash).toBe(chain.blocks[7]!.hash);
+  });
+
+  it('aborts without rewinding when the RPC fails', async () => {
+    chain.blocks[6]!.mints.push(1);
+    await indexer.runOnce();
+    const checkpoint = await indexer.getCheckpoint();
+
+    chain.failing = true;
+    await expect(indexer.runOnce()).rejects.toThrow('RPC unavailable');
+
+    expect(await mintedTokenIds()).toEqual(['1']);
+    expect(await indexer.getCheckpoint()).toEqual(checkpoint);
+  });
+});
@@ -0,0 +1,312 @@
+import { Abi, AbiEvent, BlockNotFoundError, createPublicClient, http, PublicClient } from 'viem';
+import { config } from '@/config';
+import { BlockchainEvent, ContractError, IndexedContract, IndexerCheckpoint } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import {
+  couponNftAbi,
+  getPublicClient,
+  isContractConfigured,
+  loyaltyTokenAbi,
+  rewardsControllerAbi,
+  snapRegistryAbi,
+} from '@/services/chain';
+
+const CHECKPOINT_ID = 'chain';
+const RECENT_CHECKPOINTS = 32; // Batch ends kept for finding a common ancestor after a reorg
+
+interface EventSource {
+  contract: IndexedContract;
+  address: () => string;
+  abi: Abi;
+  eventNames: string[];
+}
+
+// Contracts and events the indexer follows; contracts without a configured address are skipped
+const SOURCES: EventSource[] = [
+  {
+    contract: 'CouponNFT',
+    address: () => config.CONTRACTS.COUPON_NFT,
+    abi: couponNftAbi,
+    eventNames: ['CouponMinted', 'CouponRedeemed', 'CouponExpired', 'CouponExpiryExtended'],
+  },
+  {
+    contract: 'LoyaltyToken',
+    address: () => config.CONTRACTS.LOYALTY_TOKEN,
+    abi: loyaltyTokenAbi,
+    eventNames: ['TokensMinted'],
+  },
+  {
+    contract: 'SnapRegistry',
+    address: () => config.CONTRACTS.SNAP_REGISTRY,
+    abi: snapRegistryAbi,
+    eventNames: ['SnapRecorded', 'RewardDistributed'],
+  },
+  {
+    contract: 'RewardsController',
+    address: () => config.CONTRACTS.REWARDS_CONTROLLER,
+    abi: rewardsControllerAbi,
+    eventNames: ['RewardDistributed', 'CoffeeVerified', 'FraudDetected'],
+  },
+];
+
+export interface IndexerOptions {
+  startBlock: number;
+  confirmations: number;
+  batchSize: number;
+}
+
+export interface IndexerRun {
+  fromBlock: number;
+  toBlock: number; // Last block indexed (fromBlock - 1 when already caught up)
+  indexed: number; // Events stored in this run
+  rewoundTo: number | null; // Set when a reorg rolled the checkpoint back
+}
+
+export interface EventQuery {
+  contract?: IndexedContract;
+  eventName?: string;
+  match?: (args: Record<string, any>) => boolean;
+}
+
+/**
+ * RPC client for indexing: INDEXER_RPC_URL, else the local node with SIGNER=local, else Base
+ */
+export function getIndexerClient(): PublicClient | null {
+  const rpcUrl = config.INDEXER.RPC_URL || (config.SIGNER === 'local' ? config.LOCAL_RPC_URL : undefined);
+  if (!rpcUrl) {
+    return getPublicClient();
+  }
+  return createPublicClient({ transport: http(rpcUrl) }) as PublicClient;
+}
+
+// Stored args are JSON-friendly: uint values become decimal strings
+const toStoredArgs = (args: unknown): Record<string, any> =>
+  Object.fromEntries(
+    Object.entries((args || {}) as Record<string, unknown>).map(([key, value]) => [
+      key,
+      typeof value === 'bigint' ? value.toString() : value,
+    ])
+  );
+
+/**
+ * Follows Snap Coffee contract events into the chain_events collection.
+ * Only blocks at least INDEXER.CONFIRMATIONS behind the head are indexed; if a
+ * deeper reorg replaces the checkpointed block, the indexer rewinds to the newest
+ * recent checkpoint still on the canonical chain and re-indexes from there.
+ * Rows are keyed by transaction hash and log index, so re-indexing is idempotent.
+ */
+export class ChainIndexer {
+  private events: Collection<BlockchainEvent>;
+  private checkpoints: Collection<IndexerCheckpoint>;
+  private running: Promise<IndexerRun | null> | null = null;
+
+  constructor(
+    db: Database = database,
+    private readonly clientFactory: () => PublicClient | null = getIndexerClient,
+    private readonly options: IndexerOptions = {
+      startBlock: config.INDEXER.START_BLOCK,
+      confirmations: config.INDEXER.CONFIRMATIONS,
+      batchSize: config.INDEXER.BATCH_SIZE,
+    }
+  ) {
+    this.events = db.collection<BlockchainEvent>('chain_events');
+    this.checkpoints = db.collection<IndexerCheckpoint>('indexer_checkpoints');
+  }
+
+  /**
+   * Index everything up to the confirmed head; returns null when no contract is configured.
+   * Concurrent calls share the run in progress.
+   */
+  async runOnce(): Promise<IndexerRun | null> {
+    if (!this.running) {
+      this.running = this.index().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Run the indexer on an interval; returns a function that stops it
+   */
+  start(intervalMs: number = config.INDEXER.POLL_INTERVAL_MS): () => void {
+    const tick = () => {
+      this.runOnce()
+        .then(run => {
+          if (run && (run.indexed > 0 || run.rewoundTo !== null)) {
+            console.log('Chain indexer:', run);
+          }
+        })
+        .catch(error => console.error('Chain indexer run failed:', error));
+    };
+
+    tick();
+    const timer = setInterval(tick, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    return this.checkpoints.get(CHECKPOINT_ID);
+  }
+
+  /**
+   * Indexed events, newest first
+   */
+  async findEvents(query: EventQuery = {}): Promise<BlockchainEvent[]> {
+    const events = await this.events.find(event =>
+      (!query.contract || event.contract === query.contract) &&
+      (!query.eventName || event.eventName === query.eventName) &&
+      (!query.match || query.match(event.args))
+    );
+    return events.sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+  }
+
+  private async index(): Promise<IndexerRun | null> {
+    const sources = SOURCES.filter(source => isContractConfigured(source.address()));
+    if (sources.length === 0) {
+      return null;
+    }
+
+    const client = this.clientFactory();
+    if (!client) {
+      throw new ContractError('Chain indexer requires INDEXER_RPC_URL or BASE_RPC_URL', 'NOT_CONFIGURED');
+    }
+
+    const rewoundTo = await this.rewindOnReorg(client);
+    const checkpoint = await this.getCheckpoint();
+    const head = Number(await client.getBlockNumber());
+    const confirmedHead = head - this.options.confirmations;
+
+    const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : this.options.startBlock;
+    let next = fromBlock;
+    let indexed = 0;
+
+    while (next <= confirmedHead) {
+      const toBlock = Math.min(next + this.options.batchSize - 1, confirmedHead);
+      indexed += await this.indexRange(client, sources, next, toBlock);
+
+      const block = await client.getBlock({ blockNumber: BigInt(toBlock) });
+      await this.saveCheckpoint(toBlock, block.hash);
+      next = toBlock + 1;
+    }
+
+    return { fromBlock, toBlock: next - 1, indexed, rewoundTo };
+  }
+
+  private async indexRange(client: PublicClient, sources: EventSource[], fromBlock: number, toBlock: number): Promise<number> {
+    const timestamps = new Map<bigint, Date>();
+    let stored = 0;
+
+    for (const source of sources) {
+      const events = source.abi.filter(
+        (item): item is AbiEvent => item.type === 'event' && source.eventNames.includes(item.name)
+      );
+      const logs = await client.getLogs({
+        address: source.address() as `0x${string}`,
+        events,
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+      });
+
+      for (const log of logs) {
+        if (log.blockNumber === null || log.transactionHash === null || log.logIndex === null) continue;
+
+        let timestamp = timestamps.get(log.blockNumber);
+        if (!timestamp) {
+          const block = await client.getBlock({ blockNumber: log.blockNumber });
+          timestamp = new Date(Number(block.timestamp) * 1000);
+          timestamps.set(log.blockNumber, timestamp);
+        }
+
+        await this.events.upsert({
+          id: `${log.transactionHash}:${log.logIndex}`,
+          contract: source.contract,
+          address: log.address,
+          eventName: log.eventName,
+          transactionHash: log.transactionHash,
+          blockNumber: Number(log.blockNumber),
+          blockHash: log.blockHash!,
+          logIndex: log.logIndex,
+          args: toStoredArgs(log.args),
+          timestamp,
+        });
+        stored++;
+      }
+    }
+
+    return stored;
+  }
+
+  /**
+   * If the checkpointed block is no longer canonical, drop events past the newest
+   * recent checkpoint that still is (or everything, if none are); returns the block rewound to.
+   * Only a block the node returns with a different hash (or no longer has) counts as a reorg;
+   * any other RPC error aborts the run with the checkpoint untouched.
+   */
+  private async rewindOnReorg(client: PublicClient): Promise<number | null> {
+    const checkpoint = await this.getCheckpoint();
+    if (!checkpoint) return null;
+
+    const canonicalHash = async (blockNumber: number): Promise<string | null> => {
+      try {
+        return (await client.getBlock({ blockNumber: BigInt(blockNumber) })).hash;
+      } catch (error) {
+        if (error instanceof BlockNotFoundError) return null;
+        throw error;
+      }
+    };
+
+    if ((await canonicalHash(checkpoint.blockNumber)) === checkpoint.blockHash) {
+      return null;
+    }
+
+    let ancestor: { blockNumber: number; blockHash: string } | null = null;
+    for (const candidate of [...checkpoint.recent].reverse()) {
+      if ((await canonicalHash(candidate.blockNumber)) === candidate.blockHash) {
+        ancestor = candidate;
+        break;
+      }
+    }
+
+    const rewindTo = ancestor ? ancestor.blockNumber : this.options.startBlock - 1;
+    const stale = await this.events.find(event => event.blockNumber > rewindTo);
+    await Promise.all(stale.map(event => this.events.delete(event.id)));
+
+    if (ancestor) {
+      await this.checkpoints.upsert({
+        ...checkpoint,
+        blockNumber: ancestor.blockNumber,
+        blockHash: ancestor.blockHash,
+        recent: checkpoint.recent.filter(entry => entry.blockNumber <= ancestor!.blockNumber),
+        updatedAt: new Date(),
+      });
+    } else {
+      await this.checkpoints.delete(CHECKPOINT_ID);
+    }
+
+    if (config.NODE_ENV !== 'test') {
+      console.warn('Chain reorg past the confirmation depth; indexer rewound', {
+        checkpoint: checkpoint.blockNumber,
+        rewoundTo: rewindTo,
+        removedEvents: stale.length,
+      });
+    }
+    return rewindTo;
+  }
+
+  private async saveCheckpoint(blockNumber: number, blockHash: string): Promise<void> {
+    const current = await this.getCheckpoint();
+    const recent = [...(current?.recent || []), { blockNumber, blockHash }].slice(-RECENT_CHECKPOINTS);
+    await this.checkpoints.upsert({
+      id: CHECKPOINT_ID,
+      blockNumber,
+      blockHash,
+      recent,
+      updatedAt: new Date(),
+    });
+  }
+}
+
+// Export singleton instance
+export const chainIndexer = new ChainIndexer();
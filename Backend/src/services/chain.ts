@@ -0,0 +1,93 @@
+import { BaseError, ContractFunctionRevertedError, createPublicClient, http, parseAbi, PublicClient } from 'viem';
+import { base, baseSepolia } from 'viem/chains';
+import { config } from '@/config';
+
+/**
+ * Minimal ABIs for the Snap Coffee contracts the backend reads and writes
+ */
+export const loyaltyTokenAbi = parseAbi([
+  'function balanceOf(address account) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function mint(address to, uint256 amount, string reason)',
+  'function batchMint(address[] recipients, uint256[] amounts, string reason)',
+  'function getRemainingDailyMint(address minter) view returns (uint256)',
+  'function isMinter(address account) view returns (bool)',
+  'event TokensMinted(address indexed to, uint256 amount, string reason)',
+]);
+
+export const couponNftAbi = parseAbi([
+  'function mintCoupon(address to, uint256 coffeeShopsEarned, uint256 discountPercent, uint256 expiryDays, string venueId) returns (uint256)',
+  'function redeemCoupon(uint256 tokenId, string venueId)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function isValidForRedemption(uint256 tokenId) view returns (bool isValid, string reason)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function REDEEMER_ROLE() view returns (bytes32)',
+  'function couponData(uint256 tokenId) view returns (uint256 coffeeShopsEarned, uint256 discountPercent, uint256 expiryTimestamp, string venueId, bool isRedeemed, uint256 redeemedAt, address redeemedBy)',
+  'function recordExpired(uint256[] tokenIds) returns (uint256 recorded)',
+  'function extendExpiry(uint256 tokenId, uint256 additionalDays)',
+  'event CouponMinted(address indexed to, uint256 indexed tokenId, uint256 coffeeShopsEarned, uint256 discountPercent, uint256 expiryTimestamp, string venueId)',
+  'event CouponRedeemed(uint256 indexed tokenId, address indexed redeemedBy, string venueId, uint256 timestamp)',
+  'event CouponExpired(uint256 indexed tokenId)',
+  'event CouponExpiryExtended(uint256 indexed tokenId, uint256 oldExpiryTimestamp, uint256 newExpiryTimestamp)',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+  'error EnforcedPause()',
+  'error ERC721NonexistentToken(uint256 tokenId)',
+]);
+
+export const snapRegistryAbi = parseAbi([
+  'event SnapRecorded(uint256 indexed snapId, address indexed user, uint256 indexed fid, string venueId, bool validated, uint256 rewardAmount)',
+  'event RewardDistributed(address indexed user, uint256 amount, string reason, uint256 snapId)',
+]);
+
+export const rewardsControllerAbi = parseAbi([
+  'event CoffeeVerified(bytes32 indexed rewardId, address indexed user, address indexed merchant, string locationId, uint256 rewardAmount, uint256 timestamp)',
+  'event RewardDistributed(address indexed user, uint256 amount, string locationId, bytes32 rewardId)',
+  'event FraudDetected(address indexed user, string locationId, string reason, bytes32 rewardId)',
+]);
+
+export const usdcAbi = parseAbi([
+  'function balanceOf(address account) view returns (uint256)',
+  'function transfer(address to, uint256 value) returns (bool)',
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+export const chain = config.CHAIN_ID === base.id ? base : baseSepolia;
+
+let publicClient: PublicClient | null = null;
+
+/**
+ * Shared read-only client for the configured Base network (null without an RPC URL)
+ */
+export function getPublicClient(): PublicClient | null {
+  const rpcUrl = config.CHAIN_ID === base.id ? config.BASE_RPC_URL : config.BASE_SEPOLIA_RPC_URL || config.BASE_RPC_URL;
+  if (!rpcUrl) {
+    return null;
+  }
+
+  if (!publicClient) {
+    publicClient = createPublicClient({ chain, transport: http(rpcUrl) }) as PublicClient;
+  }
+  return publicClient;
+}
+
+/**
+ * Check whether a contract address is configured
+ */
+export const isContractConfigured = (address: string): address is `0x${string}` =>
+  /^0x[a-fA-F0-9]{40}$/.test(address);
+
+/**
+ * Extract the revert reason (require message or custom error name) from a viem error
+ */
+export function decodeRevertReason(error: unknown): string | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+
+  const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    return reverted.reason || reverted.data?.errorName || reverted.shortMessage;
+  }
+  return undefined;
+}
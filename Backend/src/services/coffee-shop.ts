@@ -247,7 +247,7 @@ export class CoffeeShopService {
   /**
    * Generate consistent shop ID from location data
    */
-  private generateShopId(name: string, city: string, state: string): string {
+  generateShopId(name: string, city: string, state: string): string {
     const normalized = `${name.toLowerCase()}-${city.toLowerCase()}-${state.toLowerCase()}`
       .replace(/[^a-z0-9\-]/g, '-')
       .replace(/-+/g, '-')
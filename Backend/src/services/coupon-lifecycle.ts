@@ -0,0 +1,195 @@
+import { config } from '@/config';
+import { NFTCoupon, NotificationType } from '@/types';
+import { CouponExpiryExtension, CouponNFTService, couponNftService } from '@/services/coupon-nft';
+import { NotificationService, notificationService } from '@/services/notifications';
+import { SnapRepository, snapRepository } from '@/services/snap-repository';
+import { describeError } from '@/services/signer';
+
+export interface CouponSweepResult {
+  reminded: string[]; // Token IDs that got an expiring-soon notice
+  expired: string[]; // Token IDs newly found lapsed
+  recorded: string[]; // Token IDs CouponNFT emitted CouponExpired for
+  errors: string[];
+}
+
+const couponUrl = (tokenId: string) => `${config.APP_URL}/coupon?tokenId=${tokenId}`;
+
+const formatExpiry = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Coupon expiry lifecycle for coupons this backend minted:
+ * - COUPONS.REMINDER_HOURS before metadata.expiryDate the holder gets an expiring-soon notice
+ * - once it lapses unredeemed the coupon is marked expired, the holder is told, and
+ *   CouponNFT.recordExpired emits CouponExpired (retried on later sweeps if it fails)
+ * Each candidate's expiry and redemption are re-read from the contract first, so
+ * metadata.expiryDate follows extensions made elsewhere.
+ */
+export class CouponLifecycleService {
+  private running: Promise<CouponSweepResult> | null = null;
+
+  constructor(
+    private readonly coupons: CouponNFTService = couponNftService,
+    private readonly notifications: NotificationService = notificationService,
+    private readonly snaps: SnapRepository = snapRepository
+  ) {}
+
+  /**
+   * One pass over unredeemed coupons; concurrent calls share the pass in progress
+   */
+  async sweep(now: Date = new Date()): Promise<CouponSweepResult> {
+    if (!this.running) {
+      this.running = this.runSweep(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Run sweep on an interval; returns a function that stops it
+   */
+  start(intervalMs: number = config.COUPONS.SWEEP_INTERVAL_MS): () => void {
+    const timer = setInterval(() => {
+      this.sweep()
+        .then(result => {
+          if (result.reminded.length || result.expired.length || result.recorded.length) {
+            console.log('Coupon lifecycle sweep:', result);
+          }
+        })
+        .catch(error => console.error('Coupon lifecycle sweep failed:', error));
+    }, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Tell the holder about an admin expiry extension
+   */
+  async notifyExtended(coupon: NFTCoupon, extension: CouponExpiryExtension): Promise<void> {
+    const extended = { ...coupon, metadata: { ...coupon.metadata, expiryDate: extension.expiryDate } };
+    await this.notify(extended, 'coupon_extended', `${coupon.tokenId}:${extension.expiryDate.getTime()}`, {
+      title: 'Coupon extended',
+      body: `Your ${coupon.metadata.discountPercent}% coffee coupon is now valid until ${formatExpiry(extension.expiryDate)}.`,
+      targetUrl: couponUrl(coupon.tokenId),
+    });
+  }
+
+  /**
+   * Tell the holder an expired coupon was replaced
+   */
+  async notifyReissued(replacement: NFTCoupon): Promise<void> {
+    await this.notify(replacement, 'coupon_reissued', replacement.tokenId, {
+      title: 'Coupon reissued',
+      body: `Your expired coupon was replaced with a new ${replacement.metadata.discountPercent}% coupon, valid until ${formatExpiry(replacement.metadata.expiryDate!)}.`,
+      targetUrl: couponUrl(replacement.tokenId),
+    });
+  }
+
+  private async runSweep(now: Date): Promise<CouponSweepResult> {
+    const result: CouponSweepResult = { reminded: [], expired: [], recorded: [], errors: [] };
+    const reminderCutoff = now.getTime() + config.COUPONS.REMINDER_HOURS * 60 * 60 * 1000;
+
+    const candidates = await this.coupons.findCoupons(coupon =>
+      !coupon.redeemed &&
+      !coupon.reissuedAs &&
+      !!coupon.metadata.expiryDate &&
+      coupon.metadata.expiryDate.getTime() <= reminderCutoff &&
+      !(coupon.expiredAt && coupon.expiryRecordedTransactionHash)
+    );
+
+    const toRecord: string[] = [];
+    for (const candidate of candidates) {
+      try {
+        const coupon = await this.syncWithContract(candidate);
+        if (!coupon || coupon.redeemed) continue;
+
+        const expiry = coupon.metadata.expiryDate!;
+        if (expiry.getTime() <= now.getTime()) {
+          if (!coupon.expiredAt) {
+            await this.coupons.updateCoupon(coupon.tokenId, current => ({ ...current, expiredAt: now }));
+            await this.notify(coupon, 'coupon_expired', `${coupon.tokenId}:${expiry.getTime()}`, {
+              title: 'Coupon expired',
+              body: `Your ${coupon.metadata.discountPercent}% coffee coupon expired on ${formatExpiry(expiry)}.`,
+              targetUrl: couponUrl(coupon.tokenId),
+            });
+            result.expired.push(coupon.tokenId);
+          }
+          if (!coupon.expiryRecordedTransactionHash) {
+            toRecord.push(coupon.tokenId);
+          }
+        } else if (expiry.getTime() <= reminderCutoff && !coupon.expiryReminderSentAt) {
+          await this.notify(coupon, 'coupon_expiring', `${coupon.tokenId}:${expiry.getTime()}`, {
+            title: 'Coupon expiring soon',
+            body: `Your ${coupon.metadata.discountPercent}% coffee coupon expires ${formatExpiry(expiry)}. Use it before then!`,
+            targetUrl: couponUrl(coupon.tokenId),
+          });
+          await this.coupons.updateCoupon(coupon.tokenId, current => ({ ...current, expiryReminderSentAt: now }));
+          result.reminded.push(coupon.tokenId);
+        }
+      } catch (error) {
+        result.errors.push(`coupon ${candidate.tokenId}: ${describeError(error)}`);
+      }
+    }
+
+    for (let i = 0; i < toRecord.length; i += config.COUPONS.EXPIRY_BATCH_SIZE) {
+      const batch = toRecord.slice(i, i + config.COUPONS.EXPIRY_BATCH_SIZE);
+      try {
+        const { recorded } = await this.coupons.recordExpired(batch);
+        result.recorded.push(...recorded);
+      } catch (error) {
+        result.errors.push(`recordExpired [${batch.join(', ')}]: ${describeError(error)}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Mirror the contract's redemption and expiry onto the local record; null if the token is gone
+   */
+  private async syncWithContract(coupon: NFTCoupon): Promise<NFTCoupon | null> {
+    const onchain = await this.coupons.readCoupon(coupon.tokenId);
+    if (!onchain) return null;
+
+    const expiryDate = new Date(onchain.expiryTimestamp * 1000);
+    const expiryChanged = coupon.metadata.expiryDate?.getTime() !== expiryDate.getTime();
+    if (!expiryChanged && onchain.isRedeemed === coupon.redeemed) {
+      return coupon;
+    }
+
+    return this.coupons.updateCoupon(coupon.tokenId, current => ({
+      ...current,
+      redeemed: onchain.isRedeemed,
+      redeemedAt: onchain.redeemedAt ? new Date(onchain.redeemedAt * 1000) : current.redeemedAt,
+      metadata: { ...current.metadata, expiryDate },
+      // A new expiry gets its own reminder and expiry notices
+      ...(expiryChanged && {
+        expiryReminderSentAt: undefined,
+        expiredAt: undefined,
+        expiryRecordedTransactionHash: undefined,
+      }),
+    }));
+  }
+
+  private async notify(
+    coupon: NFTCoupon,
+    type: NotificationType,
+    reference: string,
+    message: { title: string; body: string; targetUrl: string }
+  ): Promise<void> {
+    const user = await this.snaps.getUser(coupon.userId);
+    await this.notifications.notify({
+      type,
+      reference,
+      userId: coupon.userId,
+      fid: coupon.fid || user?.fid || null,
+      walletAddress: user?.walletAddress || null,
+      ...message,
+      data: { tokenId: coupon.tokenId, expiryDate: coupon.metadata.expiryDate },
+    });
+  }
+}
+
+// Export singleton instance
+export const couponLifecycleService = new CouponLifecycleService();
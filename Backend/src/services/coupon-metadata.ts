@@ -0,0 +1,146 @@
+import sharp from 'sharp';
+import { config } from '@/config';
+import { CouponError, CouponStatus } from '@/types';
+import { CouponNFTService, couponNftService, OnchainCoupon, onchainCouponStatus } from '@/services/coupon-nft';
+
+export type CouponImageFormat = 'svg' | 'png';
+
+export interface CouponTokenAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'date' | 'number' | 'boost_percentage';
+}
+
+// ERC-721 metadata JSON (OpenSea conventions for attributes)
+export interface CouponTokenMetadata {
+  name: string;
+  description: string;
+  image: string;
+  external_url: string;
+  attributes: CouponTokenAttribute[];
+}
+
+const STATUS_LABELS: Record<CouponStatus, string> = {
+  active: 'Active',
+  redeemed: 'Redeemed',
+  expired: 'Expired',
+};
+
+const PNG_CACHE_SIZE = 500; // Rendered PNGs kept in memory, oldest dropped first
+
+const XML_ENTITIES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' };
+
+const escapeXml = (text: string) => text.replace(/[<>&'"]/g, char => XML_ENTITIES[char]!);
+
+const formatDate = (unixSeconds: number) =>
+  new Date(unixSeconds * 1000).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * Coupon artwork as SVG; redeemed and expired coupons are dimmed and stamped
+ */
+export function renderCouponSvg(coupon: OnchainCoupon, status: CouponStatus): string {
+  const venue = coupon.venueId ? escapeXml(coupon.venueId.slice(0, 32)) : 'Any participating café';
+  const stamp = status === 'active' ? '' : `
+  <rect width="500" height="500" fill="#ffffff" opacity="0.55"/>
+  <g transform="rotate(-20 250 250)">
+    <rect x="70" y="200" width="360" height="100" rx="12" fill="none" stroke="${status === 'redeemed' ? '#15803d' : '#b91c1c'}" stroke-width="8"/>
+    <text x="250" y="272" text-anchor="middle" font-size="60" font-weight="700" fill="${status === 'redeemed' ? '#15803d' : '#b91c1c'}">${status.toUpperCase()}</text>
+  </g>`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="500" height="500" viewBox="0 0 500 500" font-family="Helvetica, Arial, sans-serif">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#6f4e37"/>
+      <stop offset="1" stop-color="#3b2a1e"/>
+    </linearGradient>
+  </defs>
+  <rect width="500" height="500" rx="32" fill="url(#bg)"/>
+  <rect x="24" y="24" width="452" height="452" rx="24" fill="none" stroke="#f5e6d3" stroke-width="2" stroke-dasharray="10 8"/>
+  <text x="250" y="96" text-anchor="middle" font-size="26" font-weight="700" letter-spacing="6" fill="#f5e6d3">SNAP COFFEE</text>
+  <text x="250" y="128" text-anchor="middle" font-size="16" fill="#e0c9a6">Coffee Coupon #${coupon.tokenId}</text>
+  <text x="250" y="262" text-anchor="middle" font-size="112" font-weight="700" fill="#ffffff">${coupon.discountPercent}%</text>
+  <text x="250" y="312" text-anchor="middle" font-size="32" font-weight="700" letter-spacing="8" fill="#f5e6d3">OFF</text>
+  <text x="250" y="386" text-anchor="middle" font-size="18" fill="#f5e6d3">${venue}</text>
+  <text x="250" y="420" text-anchor="middle" font-size="16" fill="#e0c9a6">${status === 'redeemed' && coupon.redeemedAt
+    ? `Redeemed ${formatDate(coupon.redeemedAt)}`
+    : `Valid until ${formatDate(coupon.expiryTimestamp)}`}</text>${stamp}
+</svg>`;
+}
+
+/**
+ * tokenURI metadata and artwork for CouponNFT, always rendered from current contract state
+ * so wallets and marketplaces show whether a coupon is still usable
+ */
+export class CouponMetadataService {
+  private pngCache = new Map<string, Buffer>();
+
+  constructor(private readonly coupons: CouponNFTService = couponNftService) {}
+
+  async getMetadata(tokenId: string, now: Date = new Date()): Promise<CouponTokenMetadata> {
+    const coupon = await this.readCoupon(tokenId);
+    const status = onchainCouponStatus(coupon, now);
+
+    const attributes: CouponTokenAttribute[] = [
+      { trait_type: 'Discount', value: coupon.discountPercent, display_type: 'boost_percentage' },
+      { trait_type: 'Venue', value: coupon.venueId || 'Any' },
+      { trait_type: 'Expiry', value: coupon.expiryTimestamp, display_type: 'date' },
+      { trait_type: 'Status', value: STATUS_LABELS[status] },
+      { trait_type: 'Redeemed', value: coupon.isRedeemed ? 'Yes' : 'No' },
+      { trait_type: 'Coffee Snaps Earned', value: coupon.coffeeShopsEarned, display_type: 'number' },
+    ];
+    if (coupon.redeemedAt) {
+      attributes.push({ trait_type: 'Redeemed At', value: coupon.redeemedAt, display_type: 'date' });
+    }
+
+    const where = coupon.venueId ? `at ${coupon.venueId}` : 'at any participating café';
+    return {
+      name: `Snap Coffee Coupon #${coupon.tokenId}`,
+      description: `${coupon.discountPercent}% off a coffee ${where}, earned after ${coupon.coffeeShopsEarned} coffee snaps. ` +
+        (status === 'active'
+          ? `Valid until ${formatDate(coupon.expiryTimestamp)}.`
+          : status === 'redeemed' ? 'This coupon has been redeemed.' : 'This coupon has expired.'),
+      image: `${config.API_BASE_URL}/api/coupons/metadata/${coupon.tokenId}/image.svg`,
+      external_url: `${config.APP_URL}/coupon?tokenId=${coupon.tokenId}`,
+      attributes,
+    };
+  }
+
+  async renderImage(tokenId: string, format: CouponImageFormat, now: Date = new Date()): Promise<Buffer> {
+    const coupon = await this.readCoupon(tokenId);
+    const status = onchainCouponStatus(coupon, now);
+    const svg = renderCouponSvg(coupon, status);
+    if (format === 'svg') {
+      return Buffer.from(svg);
+    }
+
+    // The artwork only changes with status and expiry, so rasterize each version once
+    const key = `${coupon.tokenId}:${status}:${coupon.expiryTimestamp}`;
+    const cached = this.pngCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const png = await sharp(Buffer.from(svg)).png().toBuffer();
+    if (this.pngCache.size >= PNG_CACHE_SIZE) {
+      this.pngCache.delete(this.pngCache.keys().next().value!);
+    }
+    this.pngCache.set(key, png);
+    return png;
+  }
+
+  private async readCoupon(tokenId: string): Promise<OnchainCoupon> {
+    const coupon = await this.coupons.readCoupon(tokenId);
+    if (!coupon) {
+      throw new CouponError('Coupon does not exist', 'COUPON_NOT_FOUND');
+    }
+    return coupon;
+  }
+}
+
+// Export singleton instance
+export const couponMetadataService = new CouponMetadataService();
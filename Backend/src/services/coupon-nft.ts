@@ -0,0 +1,612 @@
+import {
+  isAddress,
+  parseEventLogs,
+  PublicClient,
+  TransactionNotFoundError,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
+  zeroAddress,
+} from 'viem';
+import { config } from '@/config';
+import { ContractError, CouponError, CouponErrorCode, CouponStatus, NFTCoupon, ValidationError } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { couponNftAbi, decodeRevertReason, isContractConfigured } from '@/services/chain';
+import { createSigner, describeError, executeContractWrite, TransactionSigner } from '@/services/signer';
+
+export interface CouponMintRequest {
+  userId: string;
+  fid: number;
+  walletAddress: string;
+  coffeeShopsEarned: number;
+  discountPercent?: number;
+  expiryDays?: number;
+  venueId?: string; // Empty for coupons valid at any venue
+}
+
+// What became of a mint whose receipt was never seen
+export type CouponMintRecovery =
+  | { status: 'minted'; coupon: NFTCoupon }
+  | { status: 'pending' } // Known to the node but not mined yet
+  | { status: 'failed'; reason: string }; // Reverted or dropped; minting again is safe
+
+// CouponNFT.couponData plus the current owner
+export interface OnchainCoupon {
+  tokenId: string;
+  owner: string;
+  coffeeShopsEarned: number;
+  discountPercent: number;
+  expiryTimestamp: number; // Unix seconds
+  venueId: string; // Empty for coupons valid at any venue
+  isRedeemed: boolean;
+  redeemedAt: number | null; // Unix seconds
+  redeemedBy: string | null;
+}
+
+export interface CouponRedemptionCheck {
+  tokenId: string;
+  coupon: OnchainCoupon | null;
+  isValid: boolean;
+  issues: string[]; // Contract reasons, in the wording CouponNFT uses
+  errorCode: CouponErrorCode | null; // Code for the first issue
+}
+
+export interface CouponExpiryExtension {
+  tokenId: string;
+  previousExpiryDate: Date;
+  expiryDate: Date;
+  transactionHash: string;
+}
+
+export interface CouponRedemption {
+  tokenId: string;
+  venueId: string;
+  transactionHash: string;
+  redeemedAt: Date;
+}
+
+// CouponNFT require() messages and OpenZeppelin custom errors, by API error code
+const REVERT_CODES: Array<[RegExp, CouponErrorCode]> = [
+  [/does not exist|nonexistent/i, 'COUPON_NOT_FOUND'],
+  [/already redeemed/i, 'COUPON_ALREADY_REDEEMED'],
+  [/expired/i, 'COUPON_EXPIRED'],
+  [/specific venue/i, 'WRONG_VENUE'],
+  [/AccessControlUnauthorizedAccount/i, 'REDEEMER_NOT_AUTHORIZED'],
+  [/EnforcedPause/i, 'CONTRACT_PAUSED'],
+];
+
+const WRONG_VENUE_REASON = 'Coupon can only be redeemed at specific venue';
+
+/**
+ * Coupon status from contract state (expired once past expiryTimestamp, as isValidForRedemption)
+ */
+export function onchainCouponStatus(coupon: OnchainCoupon, now: Date = new Date()): CouponStatus {
+  if (coupon.isRedeemed) return 'redeemed';
+  return coupon.expiryTimestamp * 1000 < now.getTime() ? 'expired' : 'active';
+}
+
+/**
+ * Typed error for a CouponNFT revert reason, or null if the reason isn't a known coupon failure
+ */
+export function toCouponError(revertReason: string): CouponError | null {
+  const match = REVERT_CODES.find(([pattern]) => pattern.test(revertReason));
+  return match ? new CouponError(revertReason, match[1], revertReason) : null;
+}
+
+/**
+ * Mints and redeems CouponNFT coupons with the configured signer and keeps a local record of each.
+ * Redemption state always comes from the contract; the local record mirrors it.
+ */
+export class CouponNFTService {
+  private coupons: Collection<NFTCoupon>;
+  private signer: TransactionSigner | null = null;
+  private redeemerConfirmed = false; // Checked once; a later revoke still surfaces as a mapped revert
+
+  constructor(
+    db: Database = database,
+    private readonly signerFactory: () => TransactionSigner = createSigner
+  ) {
+    this.coupons = db.collection<NFTCoupon>('coupons');
+  }
+
+  /**
+   * Mint a coupon and record it once the receipt is in.
+   * onSent gets the transaction hash as soon as it is broadcast, so a caller that
+   * loses the receipt (timeout, restart) can settle it later with recoverMint.
+   */
+  async mintCoupon(
+    request: CouponMintRequest,
+    options: { onSent?: (hash: `0x${string}`) => Promise<void> } = {}
+  ): Promise<NFTCoupon> {
+    if (!isAddress(request.walletAddress)) {
+      throw new ValidationError(`Invalid recipient address: ${request.walletAddress}`, 'walletAddress');
+    }
+
+    const contractAddress = this.getContractAddress();
+
+    const discountPercent = request.discountPercent ?? config.REWARDS.COUPON_DISCOUNT_PERCENT;
+    const expiryDays = request.expiryDays ?? config.REWARDS.COUPON_EXPIRY_DAYS;
+    const venueId = request.venueId || '';
+
+    const receipt = await executeContractWrite(
+      this.getSigner(),
+      {
+        address: contractAddress,
+        abi: couponNftAbi,
+        functionName: 'mintCoupon',
+        args: [
+          request.walletAddress,
+          BigInt(request.coffeeShopsEarned),
+          BigInt(discountPercent),
+          BigInt(expiryDays),
+          venueId,
+        ],
+      },
+      'Coupon mint',
+      options.onSent
+    );
+
+    return this.recordMint(request, receipt);
+  }
+
+  /**
+   * Settle a mint sent earlier by mintCoupon from its transaction hash, without minting again
+   */
+  async recoverMint(request: CouponMintRequest, transactionHash: `0x${string}`): Promise<CouponMintRecovery> {
+    const existing = await this.coupons.find(coupon => coupon.mintTransactionHash === transactionHash);
+    if (existing[0]) {
+      return { status: 'minted', coupon: existing[0] };
+    }
+
+    const client = this.getReadClient();
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await client.getTransactionReceipt({ hash: transactionHash });
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) {
+        throw new ContractError(`Coupon mint receipt unavailable: ${describeError(error)}`, 'TRANSACTION_FAILED', undefined, transactionHash);
+      }
+      try {
+        await client.getTransaction({ hash: transactionHash });
+        return { status: 'pending' };
+      } catch (lookupError) {
+        if (lookupError instanceof TransactionNotFoundError) {
+          return { status: 'failed', reason: 'Coupon mint transaction was dropped' };
+        }
+        throw new ContractError(`Coupon mint transaction unavailable: ${describeError(lookupError)}`, 'TRANSACTION_FAILED', undefined, transactionHash);
+      }
+    }
+
+    if (receipt.status === 'reverted') {
+      return { status: 'failed', reason: 'Coupon mint transaction reverted' };
+    }
+    return { status: 'minted', coupon: await this.recordMint(request, receipt) };
+  }
+
+  /**
+   * Current on-chain state of a coupon; null if the token was never minted (or was burned)
+   */
+  async readCoupon(tokenId: string): Promise<OnchainCoupon | null> {
+    const id = this.toTokenId(tokenId);
+    const address = this.getContractAddress();
+    const client = this.getReadClient();
+
+    // ownerOf reverts for tokens that don't exist
+    let owner: `0x${string}`;
+    try {
+      owner = await client.readContract({ address, abi: couponNftAbi, functionName: 'ownerOf', args: [id] });
+    } catch (error) {
+      if (decodeRevertReason(error)) return null;
+      throw new ContractError(`Failed to read coupon owner: ${describeError(error)}`, 'TRANSACTION_FAILED');
+    }
+
+    const [coffeeShopsEarned, discountPercent, expiryTimestamp, venueId, isRedeemed, redeemedAt, redeemedBy] =
+      await this.call(
+        () => client.readContract({ address, abi: couponNftAbi, functionName: 'couponData', args: [id] }),
+        'Failed to read coupon data'
+      );
+
+    return {
+      tokenId: id.toString(),
+      owner,
+      coffeeShopsEarned: Number(coffeeShopsEarned),
+      discountPercent: Number(discountPercent),
+      expiryTimestamp: Number(expiryTimestamp),
+      venueId,
+      isRedeemed,
+      redeemedAt: redeemedAt > 0n ? Number(redeemedAt) : null,
+      redeemedBy: redeemedBy !== zeroAddress ? redeemedBy : null,
+    };
+  }
+
+  /**
+   * Whether a coupon can be redeemed at a venue right now.
+   * isValidForRedemption covers existence, redemption and expiry; the venue
+   * restriction is only enforced by redeemCoupon, so it is checked from couponData.
+   */
+  async checkRedemption(tokenId: string, venueId: string): Promise<CouponRedemptionCheck> {
+    const id = this.toTokenId(tokenId);
+    const [valid, reason] = await this.call(
+      () => this.getReadClient().readContract({
+        address: this.getContractAddress(),
+        abi: couponNftAbi,
+        functionName: 'isValidForRedemption',
+        args: [id],
+      }),
+      'Failed to check coupon'
+    );
+
+    const coupon = await this.readCoupon(tokenId);
+    const issues = valid ? [] : [reason];
+    if (coupon?.venueId && coupon.venueId !== venueId) {
+      issues.push(WRONG_VENUE_REASON);
+    }
+
+    return {
+      tokenId: id.toString(),
+      coupon,
+      isValid: issues.length === 0,
+      issues,
+      errorCode: issues.length > 0 ? toCouponError(issues[0]!)?.code ?? null : null,
+    };
+  }
+
+  /**
+   * Redeem a coupon on-chain with the backend signer (which must hold REDEEMER_ROLE).
+   * Known revert reasons are raised as CouponError.
+   */
+  async redeemCoupon(tokenId: string, venueId: string): Promise<CouponRedemption> {
+    const id = this.toTokenId(tokenId);
+    await this.ensureRedeemer();
+
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await executeContractWrite(
+        this.getSigner(),
+        {
+          address: this.getContractAddress(),
+          abi: couponNftAbi,
+          functionName: 'redeemCoupon',
+          args: [id, venueId],
+        },
+        'Coupon redemption'
+      );
+    } catch (error) {
+      const couponError = error instanceof ContractError && error.revertReason
+        ? toCouponError(error.revertReason)
+        : null;
+      throw couponError || error;
+    }
+
+    const [redeemed] = parseEventLogs({ abi: couponNftAbi, eventName: 'CouponRedeemed', logs: receipt.logs });
+    const redeemedAt = redeemed ? new Date(Number(redeemed.args.timestamp) * 1000) : new Date();
+
+    await this.coupons.update(`coupon_${id}`, coupon => ({
+      ...coupon,
+      redeemed: true,
+      redeemedAt,
+      redeemedTransactionHash: receipt.transactionHash,
+      metadata: { ...coupon.metadata, usedCount: coupon.metadata.usedCount + 1 },
+    }));
+    console.log('Coupon redeemed:', { tokenId: id.toString(), venueId, transactionHash: receipt.transactionHash });
+
+    return { tokenId: id.toString(), venueId, transactionHash: receipt.transactionHash, redeemedAt };
+  }
+
+  /**
+   * Emit CouponExpired for lapsed coupons (CouponNFT.recordExpired skips any that aren't);
+   * returns the token IDs the contract actually recorded
+   */
+  async recordExpired(tokenIds: string[]): Promise<{ recorded: string[]; transactionHash: string }> {
+    const ids = tokenIds.map(tokenId => this.toTokenId(tokenId));
+
+    const receipt = await executeContractWrite(
+      this.getSigner(),
+      {
+        address: this.getContractAddress(),
+        abi: couponNftAbi,
+        functionName: 'recordExpired',
+        args: [ids],
+      },
+      'Coupon expiry recording'
+    );
+
+    const recorded = parseEventLogs({ abi: couponNftAbi, eventName: 'CouponExpired', logs: receipt.logs })
+      .map(log => log.args.tokenId.toString());
+    for (const tokenId of recorded) {
+      await this.coupons.update(`coupon_${tokenId}`, coupon => ({
+        ...coupon,
+        expiryRecordedTransactionHash: receipt.transactionHash,
+      }));
+    }
+
+    return { recorded, transactionHash: receipt.transactionHash };
+  }
+
+  /**
+   * Push back an unredeemed coupon's expiry on-chain (the signer needs MINTER_ROLE)
+   * and reset the local record's expiry notices
+   */
+  async extendExpiry(tokenId: string, additionalDays: number): Promise<CouponExpiryExtension> {
+    const id = this.toTokenId(tokenId);
+    if (!Number.isInteger(additionalDays) || additionalDays < 1 || additionalDays > 365) {
+      throw new ValidationError('additionalDays must be a whole number between 1 and 365', 'additionalDays');
+    }
+
+    // A reissued coupon was replaced; extending it would leave the holder two usable coupons
+    const local = await this.getCoupon(id.toString());
+    if (local?.reissuedAs || local?.reissuing) {
+      throw new ValidationError(
+        local.reissuedAs
+          ? `Coupon ${id} was reissued as ${local.reissuedAs}; extend the replacement instead`
+          : `Coupon ${id} is being reissued`,
+        'tokenId'
+      );
+    }
+
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await executeContractWrite(
+        this.getSigner(),
+        {
+          address: this.getContractAddress(),
+          abi: couponNftAbi,
+          functionName: 'extendExpiry',
+          args: [id, BigInt(additionalDays)],
+        },
+        'Coupon expiry extension'
+      );
+    } catch (error) {
+      const couponError = error instanceof ContractError && error.revertReason
+        ? toCouponError(error.revertReason)
+        : null;
+      throw couponError || error;
+    }
+
+    const [extended] = parseEventLogs({ abi: couponNftAbi, eventName: 'CouponExpiryExtended', logs: receipt.logs });
+    if (!extended) {
+      throw new ContractError(
+        'Expiry extension receipt has no CouponExpiryExtended event',
+        'TRANSACTION_FAILED',
+        undefined,
+        receipt.transactionHash
+      );
+    }
+
+    const expiryDate = new Date(Number(extended.args.newExpiryTimestamp) * 1000);
+    await this.coupons.update(`coupon_${id}`, coupon => ({
+      ...coupon,
+      metadata: { ...coupon.metadata, expiryDate },
+      expiryReminderSentAt: undefined,
+      expiredAt: undefined,
+      expiryRecordedTransactionHash: undefined,
+    }));
+    console.log('Coupon expiry extended:', { tokenId: id.toString(), expiryDate, transactionHash: receipt.transactionHash });
+
+    return {
+      tokenId: id.toString(),
+      previousExpiryDate: new Date(Number(extended.args.oldExpiryTimestamp) * 1000),
+      expiryDate,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  /**
+   * Replace an expired, unredeemed coupon with a new one on the same terms, minted to its current owner.
+   * The original is marked reissuing first; if the mint's outcome is unknown it stays marked
+   * (see reissueTransactionHash) rather than risk a second replacement.
+   */
+  async reissueCoupon(tokenId: string, expiryDays?: number): Promise<NFTCoupon> {
+    const id = this.toTokenId(tokenId).toString();
+    const original = await this.getCoupon(id);
+    if (!original) {
+      throw new CouponError(`Coupon ${id} was not issued by this service`, 'COUPON_NOT_FOUND');
+    }
+    if (original.reissuedAs) {
+      throw new ValidationError(`Coupon ${id} was already reissued as ${original.reissuedAs}`, 'tokenId');
+    }
+
+    const onchain = await this.readCoupon(id);
+    if (!onchain) {
+      throw new CouponError('Coupon does not exist', 'COUPON_NOT_FOUND');
+    }
+    if (onchain.isRedeemed) {
+      throw new CouponError('Coupon already redeemed', 'COUPON_ALREADY_REDEEMED');
+    }
+    if (onchain.expiryTimestamp * 1000 > Date.now()) {
+      throw new ValidationError('Only expired coupons can be reissued; extend the expiry instead', 'tokenId');
+    }
+
+    // Claim the original before minting, so concurrent reissues can't both mint
+    let claimed = false as boolean;
+    await this.coupons.update(original.id, coupon => {
+      if (coupon.reissuedAs || coupon.reissuing) return coupon;
+      claimed = true;
+      return { ...coupon, reissuing: true };
+    });
+    if (!claimed) {
+      throw new ValidationError(`Coupon ${id} is already being reissued`, 'tokenId');
+    }
+
+    let replacement: NFTCoupon;
+    try {
+      replacement = await this.mintCoupon(
+        {
+          userId: original.userId,
+          fid: original.fid,
+          walletAddress: onchain.owner,
+          coffeeShopsEarned: onchain.coffeeShopsEarned,
+          discountPercent: onchain.discountPercent,
+          expiryDays,
+          venueId: onchain.venueId,
+        },
+        {
+          onSent: async hash => {
+            await this.coupons.update(original.id, coupon => ({ ...coupon, reissueTransactionHash: hash }));
+          },
+        }
+      );
+    } catch (error) {
+      // A broadcast mint with no receipt may still land; keep the claim so it isn't minted twice
+      const unconfirmed = error instanceof ContractError && error.code === 'TRANSACTION_FAILED' && !!error.transactionHash;
+      if (!unconfirmed) {
+        await this.coupons.update(original.id, coupon => ({
+          ...coupon,
+          reissuing: undefined,
+          reissueTransactionHash: undefined,
+        }));
+      }
+      throw error;
+    }
+
+    await this.coupons.update(original.id, coupon => ({
+      ...coupon,
+      reissuedAs: replacement.tokenId,
+      reissuing: undefined,
+      reissueTransactionHash: undefined,
+    }));
+    const reissued = await this.coupons.update(replacement.id, coupon => ({ ...coupon, reissuedFrom: id }));
+    console.log('Coupon reissued:', { tokenId: id, replacement: replacement.tokenId });
+
+    return reissued || replacement;
+  }
+
+  /**
+   * Client for the network the coupon contract lives on (the signer's network)
+   */
+  getReadClient(): PublicClient {
+    return this.getSigner().publicClient;
+  }
+
+  async getCoupon(tokenId: string): Promise<NFTCoupon | null> {
+    return this.coupons.get(`coupon_${tokenId}`);
+  }
+
+  async getUserCoupons(userId: string): Promise<NFTCoupon[]> {
+    return this.coupons.find(coupon => coupon.userId === userId);
+  }
+
+  async findCoupons(predicate: (coupon: NFTCoupon) => boolean): Promise<NFTCoupon[]> {
+    return this.coupons.find(predicate);
+  }
+
+  async updateCoupon(tokenId: string, update: (current: NFTCoupon) => NFTCoupon): Promise<NFTCoupon | null> {
+    return this.coupons.update(`coupon_${tokenId}`, update);
+  }
+
+  /**
+   * Store the coupon a mint receipt created
+   */
+  private async recordMint(request: CouponMintRequest, receipt: TransactionReceipt): Promise<NFTCoupon> {
+    const contractAddress = this.getContractAddress();
+    const discountPercent = request.discountPercent ?? config.REWARDS.COUPON_DISCOUNT_PERCENT;
+    const venueId = request.venueId || '';
+
+    // The token ID is only known once the CouponMinted event is in a receipt
+    const [minted] = parseEventLogs({ abi: couponNftAbi, eventName: 'CouponMinted', logs: receipt.logs });
+    if (!minted) {
+      throw new ContractError(
+        'Coupon mint receipt has no CouponMinted event',
+        'TRANSACTION_FAILED',
+        undefined,
+        receipt.transactionHash
+      );
+    }
+
+    const tokenId = minted.args.tokenId.toString();
+    const coupon: NFTCoupon = {
+      id: `coupon_${tokenId}`,
+      tokenId,
+      userId: request.userId,
+      fid: request.fid,
+      contractAddress,
+      imageUrl: `${config.API_BASE_URL}/api/coupons/metadata/${tokenId}/image.svg`,
+      metadata: {
+        name: `Snap Coffee Coupon #${tokenId}`,
+        description: `${discountPercent}% off coffee, earned after ${request.coffeeShopsEarned} coffee snaps`,
+        venueId: venueId || undefined,
+        expiryDate: new Date(Number(minted.args.expiryTimestamp) * 1000),
+        discountPercent,
+        maxUses: 1,
+        usedCount: 0,
+      },
+      mintTransactionHash: receipt.transactionHash,
+      redeemed: false,
+    };
+
+    await this.coupons.upsert(coupon);
+    console.log('Coupon minted:', { tokenId, userId: request.userId, transactionHash: receipt.transactionHash });
+
+    return coupon;
+  }
+
+  /**
+   * Fail with a typed error, before spending gas, if the signer can't redeem
+   */
+  private async ensureRedeemer(): Promise<void> {
+    if (this.redeemerConfirmed) return;
+
+    const address = this.getContractAddress();
+    const client = this.getReadClient();
+    const signer = await this.call(() => this.getSigner().getAddress(), 'Signer unavailable');
+    const role = await this.call(
+      () => client.readContract({ address, abi: couponNftAbi, functionName: 'REDEEMER_ROLE' }),
+      'Failed to read REDEEMER_ROLE'
+    );
+    const hasRole = await this.call(
+      () => client.readContract({ address, abi: couponNftAbi, functionName: 'hasRole', args: [role, signer] }),
+      'Failed to check REDEEMER_ROLE'
+    );
+
+    if (!hasRole) {
+      throw new CouponError(`Signer ${signer} does not have REDEEMER_ROLE on CouponNFT`, 'REDEEMER_NOT_AUTHORIZED');
+    }
+    this.redeemerConfirmed = true;
+  }
+
+  private getContractAddress(): `0x${string}` {
+    const address = config.CONTRACTS.COUPON_NFT;
+    if (!isContractConfigured(address)) {
+      throw new ContractError('COUPON_NFT_ADDRESS is not configured', 'NOT_CONFIGURED');
+    }
+    return address;
+  }
+
+  private toTokenId(tokenId: string): bigint {
+    if (!/^\d+$/.test(String(tokenId))) {
+      throw new ValidationError(`Invalid coupon token ID: ${tokenId}`, 'tokenId');
+    }
+    return BigInt(tokenId);
+  }
+
+  /**
+   * Run a signer/RPC call, mapping failures to ContractError with any revert reason
+   */
+  private async call<T>(fn: () => Promise<T>, message: string): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof ContractError) throw error;
+
+      const revertReason = decodeRevertReason(error);
+      throw new ContractError(
+        `${message}: ${revertReason || describeError(error)}`,
+        revertReason ? 'REVERTED' : 'TRANSACTION_FAILED',
+        revertReason
+      );
+    }
+  }
+
+  private getSigner(): TransactionSigner {
+    if (!this.signer) {
+      try {
+        this.signer = this.signerFactory();
+      } catch (error) {
+        throw new ContractError(describeError(error), 'NOT_CONFIGURED');
+      }
+    }
+    return this.signer;
+  }
+}
+
+// Export singleton instance
+export const couponNftService = new CouponNFTService();
@@ -0,0 +1,245 @@
+import { randomBytes } from 'crypto';
+import { Address, Hex, isAddress, isAddressEqual, verifyTypedData } from 'viem';
+import { config } from '@/config';
+import {
+  ContractError,
+  CouponError,
+  CouponPresentation,
+  CouponPresentationReceipt,
+  UnauthorizedError,
+  ValidationError,
+} from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { CouponNFTService, CouponRedemption, couponNftService } from '@/services/coupon-nft';
+
+// QR payload: prefix + base64url(JSON presentation)
+export const COUPON_QR_PREFIX = 'snapcoffee-coupon:';
+
+const presentationTypes = {
+  CouponPresentation: [
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'venueId', type: 'string' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+// EIP-712 payload the holder's wallet signs to show a coupon
+export interface CouponPresentationRequest {
+  domain: { name: string; version: string; chainId: number; verifyingContract: Address };
+  types: typeof presentationTypes;
+  primaryType: 'CouponPresentation';
+  message: { tokenId: string; venueId: string; nonce: string; expiry: string };
+}
+
+/**
+ * Parse a scanned QR payload into a presentation (shape only; nothing is verified here)
+ */
+export function decodeCouponQr(qr: string): CouponPresentation {
+  const value = typeof qr === 'string' ? qr.trim() : '';
+  if (!value.startsWith(COUPON_QR_PREFIX)) {
+    throw new ValidationError('Not a Snap Coffee coupon code', 'qr');
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(value.slice(COUPON_QR_PREFIX.length), 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Coupon code is malformed', 'qr');
+  }
+
+  if (
+    typeof parsed?.tokenId !== 'string' || !/^\d+$/.test(parsed.tokenId) ||
+    typeof parsed.venueId !== 'string' ||
+    typeof parsed.nonce !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(parsed.nonce) ||
+    typeof parsed.expiry !== 'number' || !Number.isInteger(parsed.expiry) ||
+    typeof parsed.holder !== 'string' || !isAddress(parsed.holder) ||
+    typeof parsed.signature !== 'string' || !/^0x[0-9a-fA-F]+$/.test(parsed.signature)
+  ) {
+    throw new ValidationError('Coupon code is missing or has invalid fields', 'qr');
+  }
+
+  return {
+    tokenId: parsed.tokenId,
+    venueId: parsed.venueId,
+    nonce: parsed.nonce.toLowerCase(),
+    expiry: parsed.expiry,
+    holder: parsed.holder,
+    signature: parsed.signature,
+  };
+}
+
+/**
+ * Signed, short-lived coupon QR codes.
+ * The holder's wallet signs (tokenId, venueId, nonce, expiry); a venue scans it and
+ * the backend checks freshness, venue, signature and current ownership before
+ * redeeming on CouponNFT. Each nonce is accepted once, so a copied code can't be reused.
+ */
+export class CouponPresentationService {
+  private receipts: Collection<CouponPresentationReceipt>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    db: Database = database,
+    private readonly coupons: CouponNFTService = couponNftService,
+    private readonly ttlSeconds: number = config.COUPONS.PRESENTATION_TTL_SECONDS
+  ) {
+    this.receipts = db.collection<CouponPresentationReceipt>('coupon_presentations');
+  }
+
+  /**
+   * Typed data for the holder to sign; only the current owner of a redeemable coupon gets one
+   */
+  async createRequest(tokenId: string, holder: string, now: Date = new Date()): Promise<CouponPresentationRequest> {
+    const coupon = await this.coupons.readCoupon(tokenId);
+    if (!coupon) {
+      throw new CouponError(`Coupon ${tokenId} does not exist`, 'COUPON_NOT_FOUND');
+    }
+    if (!isAddress(holder) || !isAddressEqual(coupon.owner as Hex, holder)) {
+      throw new UnauthorizedError('Only the coupon holder can present it');
+    }
+    if (coupon.isRedeemed) {
+      throw new CouponError('Coupon already redeemed', 'COUPON_ALREADY_REDEEMED');
+    }
+
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    if (nowSeconds > coupon.expiryTimestamp) {
+      throw new CouponError('Coupon expired', 'COUPON_EXPIRED');
+    }
+
+    return {
+      domain: await this.getDomain(),
+      types: presentationTypes,
+      primaryType: 'CouponPresentation',
+      message: {
+        tokenId: coupon.tokenId,
+        venueId: coupon.venueId,
+        nonce: `0x${randomBytes(32).toString('hex')}`,
+        expiry: String(Math.min(nowSeconds + this.ttlSeconds, coupon.expiryTimestamp)),
+      },
+    };
+  }
+
+  /**
+   * Verify a scanned code and redeem the coupon at the scanning venue
+   */
+  async redeem(
+    qr: string,
+    venueId: string,
+    now: Date = new Date()
+  ): Promise<{ presentation: CouponPresentation; redemption: CouponRedemption }> {
+    if (!venueId || typeof venueId !== 'string') {
+      throw new ValidationError('venueId is required', 'venueId');
+    }
+
+    const presentation = await this.verify(decodeCouponQr(qr), venueId, now);
+    await this.recordOnce(presentation, now);
+
+    // Redeem at the scanning venue; CouponNFT re-checks expiry and any venue restriction
+    const redemption = await this.coupons.redeemCoupon(presentation.tokenId, venueId);
+    return { presentation, redemption };
+  }
+
+  private async verify(presentation: CouponPresentation, venueId: string, now: Date): Promise<CouponPresentation> {
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    if (presentation.expiry < nowSeconds) {
+      throw new UnauthorizedError('Coupon code has expired; ask the holder to refresh it');
+    }
+    if (presentation.expiry > nowSeconds + this.ttlSeconds + config.COUPONS.CLOCK_SKEW_SECONDS) {
+      throw new UnauthorizedError('Coupon code is valid for longer than allowed');
+    }
+    if (presentation.venueId && presentation.venueId !== venueId) {
+      throw new UnauthorizedError('Coupon code was signed for a different venue');
+    }
+
+    if (!(await this.verifySignature(presentation))) {
+      throw new UnauthorizedError('Invalid coupon code signature');
+    }
+
+    // Ownership is checked now, not when the code was signed: a transferred coupon's old codes stop working
+    const coupon = await this.coupons.readCoupon(presentation.tokenId);
+    if (!coupon) {
+      throw new CouponError(`Coupon ${presentation.tokenId} does not exist`, 'COUPON_NOT_FOUND');
+    }
+    if (!isAddressEqual(coupon.owner as Hex, presentation.holder as Hex)) {
+      throw new UnauthorizedError('Coupon code signer no longer holds this coupon');
+    }
+    if (presentation.venueId !== coupon.venueId) {
+      throw new UnauthorizedError('Coupon code venue does not match the coupon');
+    }
+
+    return presentation;
+  }
+
+  /**
+   * EOA signatures are checked locally; smart wallets via ERC-1271/6492 on-chain
+   */
+  private async verifySignature(presentation: CouponPresentation): Promise<boolean> {
+    const typedData = {
+      address: presentation.holder as Hex,
+      domain: await this.getDomain(),
+      types: presentationTypes,
+      primaryType: 'CouponPresentation' as const,
+      message: {
+        tokenId: BigInt(presentation.tokenId),
+        venueId: presentation.venueId,
+        nonce: presentation.nonce as Hex,
+        expiry: BigInt(presentation.expiry),
+      },
+      signature: presentation.signature as Hex,
+    };
+
+    try {
+      if (await verifyTypedData(typedData)) return true;
+    } catch {
+      // Not an EOA signature; fall through to the contract check
+    }
+
+    try {
+      return await this.coupons.getReadClient().verifyTypedData(typedData);
+    } catch {
+      return false;
+    }
+  }
+
+  private async getDomain(): Promise<CouponPresentationRequest['domain']> {
+    const verifyingContract = config.CONTRACTS.COUPON_NFT;
+    if (!isAddress(verifyingContract)) {
+      throw new ContractError('COUPON_NFT_ADDRESS is not configured', 'NOT_CONFIGURED');
+    }
+
+    return {
+      name: 'Snap Coffee Coupon',
+      version: '1',
+      chainId: await this.coupons.getReadClient().getChainId(),
+      verifyingContract,
+    };
+  }
+
+  /**
+   * Burn the nonce before redeeming; a second scan of the same code is rejected
+   */
+  private async recordOnce(presentation: CouponPresentation, now: Date): Promise<void> {
+    const run = this.queue.then(async () => {
+      const expired = await this.receipts.find(receipt => receipt.expiresAt.getTime() <= now.getTime());
+      await Promise.all(expired.map(receipt => this.receipts.delete(receipt.id)));
+
+      if (await this.receipts.get(presentation.nonce)) {
+        throw new UnauthorizedError('Coupon code has already been used');
+      }
+      await this.receipts.insert({
+        id: presentation.nonce,
+        tokenId: presentation.tokenId,
+        holder: presentation.holder.toLowerCase(),
+        venueId: presentation.venueId,
+        usedAt: now,
+        expiresAt: new Date((presentation.expiry + config.COUPONS.CLOCK_SKEW_SECONDS) * 1000),
+      });
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const couponPresentationService = new CouponPresentationService();
@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileCollection } from '@/services/database';
+
+interface Note {
+  id: string;
+  text: string;
+  createdAt: Date;
+  metadata: { label: string; expiryDate: Date };
+}
+
+describe('FileCollection', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(tmpdir(), 'collection-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('revives known date fields but leaves other ISO-looking strings alone', async () => {
+    const filePath = path.join(directory, 'notes.json');
+    const iso = '2025-06-01T12:00:00.000Z';
+    await new FileCollection<Note>(filePath).insert({
+      id: 'note_1',
+      text: iso,
+      createdAt: new Date(iso),
+      metadata: { label: iso, expiryDate: new Date(iso) },
+    });
+
+    const loaded = await new FileCollection<Note>(filePath).get('note_1');
+
+    expect(loaded?.createdAt).toEqual(new Date(iso));
+    expect(loaded?.metadata.expiryDate).toEqual(new Date(iso));
+    expect(loaded?.text).toBe(iso);
+    expect(loaded?.metadata.label).toBe(iso);
+  });
+});
@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '@/config';
+
+export interface StoredRecord {
+  id: string;
+}
+
+/**
+ * Minimal document collection used by the repositories.
+ * Drivers only need to implement this interface to plug in a different backend.
+ */
+export interface Collection<T extends StoredRecord> {
+  get(id: string): Promise<T | null>;
+  find(predicate?: (record: T) => boolean): Promise<T[]>;
+  count(predicate?: (record: T) => boolean): Promise<number>;
+  insert(record: T): Promise<T>;
+  upsert(record: T): Promise<T>;
+  update(id: string, patch: Partial<T> | ((current: T) => T)): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type DatabaseDriver =
+  | { driver: 'memory' }
+  | { driver: 'file'; directory: string };
+
+// JSON.stringify(Date) output, revived back into Date objects on load
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+// Record fields typed as Date; any other string (user text, metadata) stays a string
+const DATE_FIELDS = new Set([
+  'awardedAt', 'completedAt', 'confirmedAt', 'createdAt', 'expiredAt', 'expiresAt', 'expiryDate',
+  'expiryReminderSentAt', 'joinedAt', 'lastActiveAt', 'lastTipAt', 'lastUsedAt', 'previousExpiryDate',
+  'proposedAt', 'readAt', 'receivedAt', 'redeemedAt', 'resetAt', 'revokedAt', 'settledAt', 'timestamp',
+  'timezoneChangedAt', 'updatedAt', 'usedAt',
+]);
+
+/**
+ * In-memory collection (tests and ephemeral development)
+ */
+export class MemoryCollection<T extends StoredRecord> implements Collection<T> {
+  protected records = new Map<string, T>();
+
+  async get(id: string): Promise<T | null> {
+    await this.ready();
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  async find(predicate?: (record: T) => boolean): Promise<T[]> {
+    await this.ready();
+    const results: T[] = [];
+    for (const record of this.records.values()) {
+      if (!predicate || predicate(record)) {
+        results.push(structuredClone(record));
+      }
+    }
+    return results;
+  }
+
+  async count(predicate?: (record: T) => boolean): Promise<number> {
+    await this.ready();
+    if (!predicate) return this.records.size;
+
+    let total = 0;
+    for (const record of this.records.values()) {
+      if (predicate(record)) total++;
+    }
+    return total;
+  }
+
+  async insert(record: T): Promise<T> {
+    await this.ready();
+    if (this.records.has(record.id)) {
+      throw new Error(`Record already exists: ${record.id}`);
+    }
+    this.records.set(record.id, structuredClone(record));
+    await this.persist();
+    return structuredClone(record);
+  }
+
+  async upsert(record: T): Promise<T> {
+    await this.ready();
+    this.records.set(record.id, structuredClone(record));
+    await this.persist();
+    return structuredClone(record);
+  }
+
+  async update(id: string, patch: Partial<T> | ((current: T) => T)): Promise<T | null> {
+    await this.ready();
+    const current = this.records.get(id);
+    if (!current) return null;
+
+    const next = typeof patch === 'function'
+      ? patch(structuredClone(current))
+      : { ...current, ...patch, id };
+
+    this.records.set(id, structuredClone(next));
+    await this.persist();
+    return structuredClone(next);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ready();
+    const deleted = this.records.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  protected async ready(): Promise<void> {
+    // Nothing to load for in-memory collections
+  }
+
+  protected async persist(): Promise<void> {
+    // Nothing to persist for in-memory collections
+  }
+}
+
+/**
+ * File-backed collection (local development)
+ * Keeps the working set in memory and rewrites one JSON file per collection.
+ */
+export class FileCollection<T extends StoredRecord> extends MemoryCollection<T> {
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  protected async persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.records.values()), null, 2);
+
+    // Serialize writes so concurrent requests never interleave partial files
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const records: T[] = JSON.parse(raw, (key, value) =>
+        DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+      );
+      this.records = new Map(records.map(record => [record.id, record]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to load collection ${this.filePath}:`, error);
+        throw new Error('Database load failed');
+      }
+    }
+  }
+}
+
+/**
+ * Parse DATABASE_URL into a driver configuration
+ * Supported: `memory:` and `file:<directory>` (defaults to file:./data, memory in tests)
+ */
+export function parseDatabaseUrl(url: string | undefined): DatabaseDriver {
+  if (!url) {
+    return config.NODE_ENV === 'test'
+      ? { driver: 'memory' }
+      : { driver: 'file', directory: path.resolve(process.cwd(), 'data') };
+  }
+
+  if (url === 'memory' || url.startsWith('memory:')) {
+    return { driver: 'memory' };
+  }
+
+  if (url.startsWith('file:')) {
+    const location = url.replace(/^file:(\/\/)?/, '') || './data';
+    return { driver: 'file', directory: path.resolve(process.cwd(), location) };
+  }
+
+  throw new Error(`Unsupported DATABASE_URL scheme: ${url.split(':')[0]}`);
+}
+
+/**
+ * Database handle that hands out named collections for the configured driver
+ */
+export class Database {
+  private collections = new Map<string, Collection<any>>();
+
+  constructor(private readonly driver: DatabaseDriver) {}
+
+  collection<T extends StoredRecord>(name: string): Collection<T> {
+    let collection = this.collections.get(name);
+
+    if (!collection) {
+      collection = this.driver.driver === 'file'
+        ? new FileCollection<T>(path.join(this.driver.directory, `${name}.json`))
+        : new MemoryCollection<T>();
+      this.collections.set(name, collection);
+    }
+
+    return collection as Collection<T>;
+  }
+
+  getDriver(): DatabaseDriver {
+    return this.driver;
+  }
+}
+
+// Export singleton instance
+export const database = new Database(parseDatabaseUrl(config.DATABASE_URL));
@@ -0,0 +1,159 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { blake3 } from '@noble/hashes/blake3';
+import { FarcasterWebhookPayload } from '@/types';
+import { Database } from '@/services/database';
+import { decodeFarcasterMessage, FarcasterMessageVerifier } from '@/services/farcaster-messages';
+
+const FARCASTER_EPOCH = 1609459200;
+const FRAME_URL = 'https://snapcoffee.xyz/frame';
+const NOW = new Date('2025-06-01T12:00:00Z');
+const MAX_AGE_SECONDS = 300;
+
+// Minimal protobuf writer for the fields the decoder reads
+const varint = (value: number): Buffer => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+};
+const uintField = (field: number, value: number) => Buffer.concat([varint(field * 8), varint(value)]);
+const bytesField = (field: number, value: Buffer | string) => {
+  const bytes = Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8');
+  return Buffer.concat([varint(field * 8 + 2), varint(bytes.length), bytes]);
+};
+
+interface FixtureOptions {
+  fid?: number;
+  timestamp?: Date;
+  tamperHash?: boolean;
+}
+
+/**
+ * A signed FrameAction message and the webhook payload that carries it
+ */
+function signedFrameAction(privateKey: KeyObject, publicKey: Buffer, options: FixtureOptions = {}): FarcasterWebhookPayload {
+  const fid = options.fid ?? 1234;
+  const timestamp = Math.floor((options.timestamp ?? NOW).getTime() / 1000);
+
+  const dataBytes = Buffer.concat([
+    uintField(1, 13), // FRAME_ACTION
+    uintField(2, fid),
+    uintField(3, timestamp - FARCASTER_EPOCH),
+    uintField(4, 1), // Mainnet
+    bytesField(16, Buffer.concat([bytesField(1, FRAME_URL), uintField(2, 1)])),
+  ]);
+  const hash = Buffer.from(blake3(dataBytes, { dkLen: 20 }));
+  const signature = sign(null, hash, privateKey);
+  if (options.tamperHash) hash[0] = hash[0]! ^ 0xff;
+
+  const messageBytes = Buffer.concat([
+    bytesField(2, hash),
+    uintField(3, 1), // BLAKE3
+    bytesField(4, signature),
+    uintField(5, 1), // ED25519
+    bytesField(6, publicKey),
+    bytesField(7, dataBytes),
+  ]);
+
+  return {
+    untrustedData: {
+      fid,
+      url: FRAME_URL,
+      messageHash: `0x${hash.toString('hex')}`,
+      timestamp: timestamp * 1000,
+      network: 1,
+      buttonIndex: 1,
+    },
+    trustedData: { messageBytes: messageBytes.toString('hex') },
+  };
+}
+
+describe('decodeFarcasterMessage', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+
+  it('reads the signed data and frame action', () => {
+    const payload = signedFrameAction(privateKey, rawPublicKey, { fid: 42 });
+
+    const message = decodeFarcasterMessage(payload.trustedData.messageBytes);
+
+    expect(message).toMatchObject({
+      type: 13,
+      fid: 42,
+      timestamp: NOW.getTime() / 1000,
+      network: 1,
+      hashScheme: 1,
+      signatureScheme: 1,
+      frameAction: { url: FRAME_URL, buttonIndex: 1 },
+    });
+    expect(message.signer.equals(rawPublicKey)).toBe(true);
+  });
+
+  it('rejects bytes that are not hex or are truncated', () => {
+    const { messageBytes } = signedFrameAction(privateKey, rawPublicKey).trustedData;
+
+    expect(() => decodeFarcasterMessage('not hex')).toThrow('must be hex');
+    expect(() => decodeFarcasterMessage(messageBytes.slice(0, 40))).toThrow('Truncated');
+  });
+});
+
+describe('FarcasterMessageVerifier', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+  let verifier: FarcasterMessageVerifier;
+
+  beforeEach(() => {
+    verifier = new FarcasterMessageVerifier(new Database({ driver: 'memory' }), async () => true, MAX_AGE_SECONDS, 1);
+  });
+
+  it('accepts a valid signed message', async () => {
+    const payload = signedFrameAction(privateKey, rawPublicKey);
+
+    const verified = await verifier.verify(payload, NOW);
+
+    expect(verified).toMatchObject({
+      hash: payload.untrustedData.messageHash,
+      fid: 1234,
+      network: 1,
+      signer: `0x${rawPublicKey.toString('hex')}`,
+      frameAction: { url: FRAME_URL, buttonIndex: 1 },
+    });
+  });
+
+  it('rejects a message whose hash was tampered with', async () => {
+    const payload = signedFrameAction(privateKey, rawPublicKey, { tamperHash: true });
+
+    await expect(verifier.verify(payload, NOW)).rejects.toThrow('hash does not match');
+  });
+
+  it('rejects an untrustedData fid that differs from the signed one', async () => {
+    const payload = signedFrameAction(privateKey, rawPublicKey);
+    payload.untrustedData.fid = 9999;
+
+    await expect(verifier.verify(payload, NOW)).rejects.toThrow('untrustedData.fid does not match');
+  });
+
+  it('rejects a replayed message', async () => {
+    const payload = signedFrameAction(privateKey, rawPublicKey);
+    await verifier.verify(payload, NOW);
+
+    await expect(verifier.verify(payload, new Date(NOW.getTime() + 1000))).rejects.toThrow('already been processed');
+  });
+
+  it('rejects a message outside the time window', async () => {
+    const stale = new Date(NOW.getTime() - (MAX_AGE_SECONDS + 1) * 1000);
+    const payload = signedFrameAction(privateKey, rawPublicKey, { timestamp: stale });
+
+    await expect(verifier.verify(payload, NOW)).rejects.toThrow('outside the accepted time window');
+  });
+
+  it('rejects a signer that is not an app key for the fid', async () => {
+    verifier = new FarcasterMessageVerifier(new Database({ driver: 'memory' }), async () => false, MAX_AGE_SECONDS, 1);
+    const payload = signedFrameAction(privateKey, rawPublicKey);
+
+    await expect(verifier.verify(payload, NOW)).rejects.toThrow('not an active app key');
+  });
+});
@@ -0,0 +1,292 @@
+import { createPublicKey, verify as verifySignature } from 'crypto';
+import { blake3 } from '@noble/hashes/blake3';
+import { createPublicClient, Hex, http, parseAbi } from 'viem';
+import { optimism } from 'viem/chains';
+import { config } from '@/config';
+import {
+  FarcasterFrameAction,
+  FarcasterMessageReceipt,
+  FarcasterWebhookPayload,
+  UnauthorizedError,
+  ValidationError,
+  VerifiedFarcasterMessage,
+} from '@/types';
+import { Collection, Database, database } from '@/services/database';
+
+// Farcaster timestamps count seconds from 2021-01-01T00:00:00Z
+const FARCASTER_EPOCH = 1609459200;
+
+// Protobuf enum values from the Farcaster message schema
+const HASH_SCHEME_BLAKE3 = 1;
+const SIGNATURE_SCHEME_ED25519 = 1;
+const MESSAGE_TYPE_FRAME_ACTION = 13;
+
+// DER SubjectPublicKeyInfo header for a raw 32-byte Ed25519 key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Farcaster KeyRegistry on OP Mainnet: keyDataOf(fid, key) => (state, keyType)
+const KEY_REGISTRY_ADDRESS = '0x00000000Fc1237824fb747aBDE0FF18990E59b7e';
+const keyRegistryAbi = parseAbi([
+  'function keyDataOf(uint256 fid, bytes key) view returns ((uint8 state, uint32 keyType))',
+]);
+const KEY_STATE_ADDED = 1;
+const KEY_TYPE_ED25519 = 1;
+
+export type AppKeyResolver = (fid: number, signer: Hex) => Promise<boolean>; // true when the key is active for the fid
+
+/**
+ * Whether an Ed25519 key is currently added for a fid in the KeyRegistry
+ */
+export const keyRegistryHasAppKey: AppKeyResolver = async (fid, signer) => {
+  const client = createPublicClient({ chain: optimism, transport: http(config.AUTH.OPTIMISM_RPC_URL) });
+  const keyData = await client.readContract({
+    address: KEY_REGISTRY_ADDRESS,
+    abi: keyRegistryAbi,
+    functionName: 'keyDataOf',
+    args: [BigInt(fid), signer],
+  });
+  return keyData.state === KEY_STATE_ADDED && keyData.keyType === KEY_TYPE_ED25519;
+};
+
+type ProtoField = { field: number; value: number | Buffer };
+
+/**
+ * Split a protobuf message into its fields (varint and length-delimited only,
+ * which is all the Farcaster Message and MessageData schemas use)
+ */
+function readFields(bytes: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= bytes.length) {
+        throw new ValidationError('Truncated Farcaster message', 'messageBytes');
+      }
+      const byte = bytes[offset++]!;
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 128;
+      if (multiplier > 2 ** 63) {
+        throw new ValidationError('Malformed varint in Farcaster message', 'messageBytes');
+      }
+    }
+  };
+
+  while (offset < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    if (wireType === 0) {
+      fields.push({ field, value: readVarint() });
+    } else if (wireType === 2) {
+      const length = readVarint();
+      if (offset + length > bytes.length) {
+        throw new ValidationError('Truncated Farcaster message', 'messageBytes');
+      }
+      fields.push({ field, value: bytes.subarray(offset, offset + length) });
+      offset += length;
+    } else if (wireType === 5) {
+      offset += 4;
+    } else if (wireType === 1) {
+      offset += 8;
+    } else {
+      throw new ValidationError(`Unsupported protobuf wire type ${wireType}`, 'messageBytes');
+    }
+  }
+
+  return fields;
+}
+
+const bytesField = (fields: ProtoField[], field: number): Buffer | undefined => {
+  const value = fields.find(entry => entry.field === field)?.value;
+  return Buffer.isBuffer(value) ? value : undefined;
+};
+
+const numberField = (fields: ProtoField[], field: number): number | undefined => {
+  const value = fields.find(entry => entry.field === field)?.value;
+  return typeof value === 'number' ? value : undefined;
+};
+
+const toHex = (bytes: Buffer): Hex => `0x${bytes.toString('hex')}`;
+
+export interface DecodedFarcasterMessage {
+  dataBytes: Buffer;
+  hash: Buffer;
+  hashScheme: number;
+  signature: Buffer;
+  signatureScheme: number;
+  signer: Buffer;
+  type: number;
+  fid: number;
+  timestamp: number; // Unix seconds
+  network: number;
+  frameAction?: FarcasterFrameAction;
+}
+
+/**
+ * Decode a hex-encoded Farcaster Message protobuf (trustedData.messageBytes)
+ */
+export function decodeFarcasterMessage(messageBytes: string): DecodedFarcasterMessage {
+  const hex = messageBytes.replace(/^0x/, '');
+  if (!hex || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new ValidationError('trustedData.messageBytes must be hex', 'messageBytes');
+  }
+
+  const message = readFields(Buffer.from(hex, 'hex'));
+  // data_bytes (7) carries the exact bytes that were hashed; older messages only have data (1)
+  const dataBytes = bytesField(message, 7) || bytesField(message, 1);
+  const hash = bytesField(message, 2);
+  const signature = bytesField(message, 4);
+  const signer = bytesField(message, 6);
+  if (!dataBytes || !hash || !signature || !signer) {
+    throw new ValidationError('Farcaster message is missing data, hash, signature or signer', 'messageBytes');
+  }
+
+  const data = readFields(dataBytes);
+  const frameActionBytes = bytesField(data, 16);
+  let frameAction: FarcasterFrameAction | undefined;
+  if (frameActionBytes) {
+    const body = readFields(frameActionBytes);
+    frameAction = {
+      url: bytesField(body, 1)?.toString('utf8') || '',
+      buttonIndex: numberField(body, 2) || 0,
+      inputText: bytesField(body, 4)?.toString('utf8'),
+      state: bytesField(body, 5)?.toString('utf8'),
+    };
+  }
+
+  return {
+    dataBytes,
+    hash,
+    hashScheme: numberField(message, 3) || 0,
+    signature,
+    signatureScheme: numberField(message, 5) || 0,
+    signer,
+    type: numberField(data, 1) || 0,
+    fid: numberField(data, 2) || 0,
+    timestamp: FARCASTER_EPOCH + (numberField(data, 3) || 0),
+    network: numberField(data, 4) || 0,
+    frameAction,
+  };
+}
+
+/**
+ * Verifies signed Farcaster frame/mini app webhook messages.
+ * Checks the BLAKE3 hash, the Ed25519 signature, that the signer is an active
+ * app key for the fid, and that untrustedData agrees with the signed data.
+ * Each message hash is accepted once within the timestamp window.
+ */
+export class FarcasterMessageVerifier {
+  private receipts: Collection<FarcasterMessageReceipt>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    db: Database = database,
+    private readonly hasAppKey: AppKeyResolver = keyRegistryHasAppKey,
+    private readonly maxAgeSeconds: number = config.FARCASTER_WEBHOOK_MAX_AGE_SECONDS,
+    private readonly network: number = config.FARCASTER_NETWORK
+  ) {
+    this.receipts = db.collection<FarcasterMessageReceipt>('farcaster_webhook_messages');
+  }
+
+  async verify(payload: FarcasterWebhookPayload, now: Date = new Date()): Promise<VerifiedFarcasterMessage> {
+    const messageBytes = payload?.trustedData?.messageBytes;
+    if (typeof messageBytes !== 'string') {
+      throw new ValidationError('trustedData.messageBytes is required', 'messageBytes');
+    }
+
+    const message = decodeFarcasterMessage(messageBytes);
+    if (message.type !== MESSAGE_TYPE_FRAME_ACTION) {
+      throw new UnauthorizedError(`Unexpected Farcaster message type ${message.type}`);
+    }
+    if (message.network !== this.network) {
+      throw new UnauthorizedError(`Farcaster message is for network ${message.network}`);
+    }
+
+    if (message.hashScheme !== HASH_SCHEME_BLAKE3 || message.signatureScheme !== SIGNATURE_SCHEME_ED25519) {
+      throw new UnauthorizedError('Unsupported Farcaster hash or signature scheme');
+    }
+    const expectedHash = Buffer.from(blake3(message.dataBytes, { dkLen: 20 }));
+    if (!expectedHash.equals(message.hash)) {
+      throw new UnauthorizedError('Farcaster message hash does not match its data');
+    }
+    if (!this.verifyEd25519(message)) {
+      throw new UnauthorizedError('Invalid Farcaster message signature');
+    }
+
+    const { untrustedData } = payload;
+    if (Number(untrustedData?.fid) !== message.fid) {
+      throw new UnauthorizedError('untrustedData.fid does not match the signed message');
+    }
+    if (untrustedData.messageHash && untrustedData.messageHash.toLowerCase() !== toHex(message.hash)) {
+      throw new UnauthorizedError('untrustedData.messageHash does not match the signed message');
+    }
+    if (message.frameAction && untrustedData.url !== message.frameAction.url) {
+      throw new UnauthorizedError('untrustedData.url does not match the signed message');
+    }
+
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    if (Math.abs(nowSeconds - message.timestamp) > this.maxAgeSeconds) {
+      throw new UnauthorizedError('Farcaster message is outside the accepted time window');
+    }
+
+    if (!(await this.hasAppKey(message.fid, toHex(message.signer)))) {
+      throw new UnauthorizedError(`Signer is not an active app key for fid ${message.fid}`);
+    }
+
+    await this.recordOnce(message, now);
+
+    return {
+      hash: toHex(message.hash),
+      fid: message.fid,
+      timestamp: message.timestamp,
+      network: message.network,
+      signer: toHex(message.signer),
+      frameAction: message.frameAction,
+    };
+  }
+
+  private verifyEd25519(message: DecodedFarcasterMessage): boolean {
+    if (message.signer.length !== 32 || message.signature.length !== 64) return false;
+    try {
+      const key = createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, message.signer]),
+        format: 'der',
+        type: 'spki',
+      });
+      return verifySignature(null, message.hash, key, message.signature);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remember the message hash until it falls out of the time window; a second delivery is rejected
+   */
+  private async recordOnce(message: DecodedFarcasterMessage, now: Date): Promise<void> {
+    const id = toHex(message.hash);
+    const run = this.queue.then(async () => {
+      const expired = await this.receipts.find(receipt => receipt.expiresAt.getTime() <= now.getTime());
+      await Promise.all(expired.map(receipt => this.receipts.delete(receipt.id)));
+
+      if (await this.receipts.get(id)) {
+        throw new UnauthorizedError('Farcaster message has already been processed');
+      }
+      await this.receipts.insert({
+        id,
+        fid: message.fid,
+        receivedAt: now,
+        expiresAt: new Date((message.timestamp + this.maxAgeSeconds) * 1000),
+      });
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const farcasterMessageVerifier = new FarcasterMessageVerifier();
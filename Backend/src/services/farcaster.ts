@@ -49,6 +49,13 @@ export interface NeynarCastVerification {
   verificationTime?: string;
 }
 
+export interface MiniAppNotification {
+  uuid: string; // Idempotency key; Farcaster clients drop repeats
+  title: string; // Max 32 characters
+  body: string; // Max 128 characters
+  targetUrl: string; // Opened in the Mini App when tapped
+}
+
 export class FarcasterService {
   private readonly neynarBaseUrl = 'https://api.neynar.com';
   private readonly neynarApiKey = config.NEYNAR_API_KEY;
@@ -122,6 +129,44 @@ export class FarcasterService {
     }
   }
 
+  /**
+   * Send a Mini App notification to users who enabled notifications (tokens are managed by Neynar)
+   */
+  async sendMiniAppNotification(
+    targetFids: number[],
+    notification: MiniAppNotification
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!this.neynarApiKey) {
+        return { success: false, error: 'NEYNAR_API_KEY is required' };
+      }
+
+      await axios.post(
+        `${this.neynarBaseUrl}/v2/farcaster/frame/notifications`,
+        {
+          target_fids: targetFids,
+          notification: {
+            title: notification.title.slice(0, 32),
+            body: notification.body.slice(0, 128),
+            target_url: notification.targetUrl,
+            uuid: notification.uuid,
+          },
+        },
+        {
+          headers: {
+            'x-api-key': this.neynarApiKey,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Mini App notification error:', error.response?.data || error.message);
+      return { success: false, error: error.response?.data?.message || error.message };
+    }
+  }
+
   /**
    * Verify cast exists and get its status using Neynar
    */
@@ -248,6 +293,51 @@ export class FarcasterService {
     }
   }
 
+  /**
+   * Get FIDs of accounts a user follows (paged through Neynar, capped at maxPages)
+   */
+  async getFollowingFids(fid: number, maxPages: number = 5): Promise<number[]> {
+    try {
+      if (!this.neynarApiKey) {
+        return [];
+      }
+
+      const fids: number[] = [];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < maxPages; page++) {
+        const response = await axios.get(
+          `${this.neynarBaseUrl}/v2/farcaster/following`,
+          {
+            params: {
+              fid,
+              limit: 100,
+              cursor,
+            },
+            headers: {
+              'Authorization': `Bearer ${this.neynarApiKey}`,
+            },
+          }
+        );
+
+        for (const follow of response.data.users || []) {
+          const followedFid = follow.user?.fid ?? follow.fid;
+          if (typeof followedFid === 'number') {
+            fids.push(followedFid);
+          }
+        }
+
+        cursor = response.data.next?.cursor;
+        if (!cursor) break;
+      }
+
+      return fids;
+    } catch (error: any) {
+      console.error('Get following error:', error.response?.data || error.message);
+      return [];
+    }
+  }
+
   /**
    * Get cast reactions and engagement
    */
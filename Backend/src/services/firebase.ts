@@ -27,6 +27,18 @@ interface UserData extends UserConnectionData {
   updatedAt?: string;
 }
 
+// Firestore REST document, limited to the value types this module writes
+interface FirestoreValue {
+  stringValue?: string;
+  integerValue?: string;
+  timestampValue?: string;
+}
+
+interface FirestoreDocument {
+  name: string;
+  fields: Record<string, FirestoreValue | undefined>;
+}
+
 const FIREBASE_PROJECT_ID = 'snap-coffee';
 const FIRESTORE_BASE_URL = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents`;
 
@@ -145,14 +157,14 @@ export async function getUserFromFirebase(fid: number): Promise<UserData | null>
     const response = await fetch(`${FIRESTORE_BASE_URL}/users/${fid}`);
     
     if (response.ok) {
-      const data = await response.json();
+      const data = await response.json() as FirestoreDocument;
       // Convert Firebase REST format back to regular object
       const userData: UserData = {
-        fid: parseInt(data.fields.fid.integerValue),
+        fid: parseInt(data.fields.fid?.integerValue ?? String(fid)),
         username: data.fields.username?.stringValue,
         displayName: data.fields.displayName?.stringValue,
         walletAddress: data.fields.walletAddress?.stringValue,
-        connectionType: data.fields.connectionType?.stringValue as any,
+        connectionType: data.fields.connectionType?.stringValue as UserData['connectionType'],
         userAgent: data.fields.userAgent?.stringValue,
         ip: data.fields.ip?.stringValue,
         origin: data.fields.origin?.stringValue,
@@ -0,0 +1,136 @@
+import { Collection, Database, database } from '@/services/database';
+
+export interface ImageHashRecord {
+  id: string;
+  hash: string; // 64-bit perceptual hash as 16 hex characters
+  userId: string;
+  snapId: string; // The reservation ID while the snap is still being validated
+  reserved?: boolean; // Held by reserve until add or release
+  createdAt: Date;
+}
+
+export interface ImageHashMatch {
+  record: ImageHashRecord;
+  distance: number;
+}
+
+/**
+ * Persistent index of perceptual hashes for duplicate detection.
+ * reserve checks for a match and holds the hash in one step, so two uploads of the
+ * same photo can't both pass; the holder then records it with add or gives it back with release.
+ */
+export interface ImageHashIndex {
+  findNearest(hash: string, since: Date, maxDistance: number): Promise<ImageHashMatch | null>;
+  reserve(hash: string, userId: string, since: Date, maxDistance: number): Promise<ImageHashMatch | null>;
+  add(hash: string, userId: string, snapId: string): Promise<ImageHashRecord>;
+  release(hash: string): Promise<void>;
+}
+
+// Set bits in each nibble value, for hex-wise popcount
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+// Reservations left this long were abandoned (e.g. the process died mid-upload) and no longer match
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+const reservationId = (hash: string) => `reservation_${hash}`;
+
+/**
+ * Number of differing bits between two equal-length hex hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return Infinity;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i]!, 16) ^ parseInt(b[i]!, 16)] ?? 4;
+  }
+  return distance;
+}
+
+/**
+ * Hash index backed by the configured document database
+ */
+export class DocumentImageHashIndex implements ImageHashIndex {
+  private hashes: Collection<ImageHashRecord>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(db: Database = database) {
+    this.hashes = db.collection<ImageHashRecord>('image_hashes');
+  }
+
+  /**
+   * Closest hash recorded since the given date within maxDistance bits
+   */
+  async findNearest(hash: string, since: Date, maxDistance: number): Promise<ImageHashMatch | null> {
+    const abandoned = new Date(Date.now() - RESERVATION_TTL_MS);
+    const recent = await this.hashes.find(record =>
+      record.createdAt >= since && !(record.reserved && record.createdAt < abandoned)
+    );
+
+    let best: ImageHashMatch | null = null;
+    for (const record of recent) {
+      const distance = hammingDistance(hash, record.hash);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { record, distance };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * The closest match, or null after holding the hash for this upload.
+   * A held hash matches later checks (distance 0), so only one upload can hold it.
+   */
+  async reserve(hash: string, userId: string, since: Date, maxDistance: number): Promise<ImageHashMatch | null> {
+    return this.serialize(async () => {
+      const match = await this.findNearest(hash, since, maxDistance);
+      if (match) {
+        return match;
+      }
+
+      await this.hashes.upsert({
+        id: reservationId(hash),
+        hash,
+        userId,
+        snapId: reservationId(hash),
+        reserved: true,
+        createdAt: new Date(),
+      });
+      return null;
+    });
+  }
+
+  /**
+   * Record the hash of an accepted snap, replacing its reservation
+   */
+  async add(hash: string, userId: string, snapId: string): Promise<ImageHashRecord> {
+    return this.serialize(async () => {
+      await this.hashes.delete(reservationId(hash));
+      return this.hashes.upsert({
+        id: snapId,
+        hash,
+        userId,
+        snapId,
+        createdAt: new Date(),
+      });
+    });
+  }
+
+  /**
+   * Give back a reservation when the snap is rejected or fails
+   */
+  async release(hash: string): Promise<void> {
+    await this.serialize(() => this.hashes.delete(reservationId(hash)));
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const imageHashIndex: ImageHashIndex = new DocumentImageHashIndex();
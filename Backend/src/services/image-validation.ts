@@ -1,29 +1,139 @@
 import { CoffeeSnapValidation } from '@/types';
 import { config } from '@/config';
 import sharp from 'sharp';
+import { ImageHashIndex, imageHashIndex } from '@/services/image-hash-index';
+import { VisionProvider, createVisionProvider } from '@/services/vision';
+import { exifDateToDate, parseExif } from '@/utils/exif';
+
+export interface ImageValidationOptions {
+  userId?: string; // Enables duplicate detection
+  venueCoordinates?: { lat: number; lng: number }; // Enables EXIF GPS distance check
+}
+
+export type ProvenanceCheck = NonNullable<CoffeeSnapValidation['metadata']['provenance']> & {
+  locationValid: boolean;
+};
+
+export interface DuplicateCheckResult {
+  isDuplicate: boolean;
+  hash: string;
+  matchedSnapId?: string;
+  sameUser?: boolean;
+  distance?: number;
+}
+
+// Size of the grayscale thumbnail fed into the DCT for perceptual hashing
+const PHASH_SAMPLE_SIZE = 32;
+// Low-frequency DCT coefficients kept per axis (8x8 = 64-bit hash)
+const PHASH_HASH_SIZE = 8;
+
+// Heuristic color/sharpness analysis
+const KMEANS_SAMPLE_SIZE = 64; // Longest side of the image clustered for dominant colors
+const KMEANS_CLUSTERS = 5;
+const KMEANS_MAX_ITERATIONS = 10;
+const SHARPNESS_SAMPLE_SIZE = 512;
+const SHARPNESS_BLUR_VARIANCE = 100; // Laplacian variance at which sharpness scores 0.5
+const COFFEE_COLOR_SIMILARITY = 0.88;
+const HEURISTIC_MIN_COFFEE_SHARE = 0.15; // Share of pixels in coffee-colored clusters
+
+// EXIF times without an offset are read as UTC, so allow for any timezone
+const EXIF_TIMEZONE_SLACK_MS = 14 * 60 * 60 * 1000;
+// Common phone screen resolutions (portrait); screenshots match these exactly
+const SCREEN_RESOLUTIONS = new Set([
+  '640x1136', '750x1334', '828x1792', '1080x1920', '1080x2160', '1080x2340', '1080x2400',
+  '1125x2436', '1170x2532', '1179x2556', '1242x2208', '1242x2688', '1284x2778', '1290x2796',
+  '1440x2560', '1440x2960', '1440x3040', '1440x3120', '1440x3200',
+]);
+// EXIF Software values written by apps that re-encode or edit photos
+const REENCODING_SOFTWARE = /instagram|whatsapp|facebook|messenger|snapseed|photoshop|lightroom|gimp|canva|picsart|vsco/i;
 
 export class ImageValidationService {
+  private visionProvider: VisionProvider | null = null;
+
+  constructor(
+    private hashIndex: ImageHashIndex = imageHashIndex,
+    private readonly visionProviderFactory: () => VisionProvider = createVisionProvider
+  ) {}
   
   /**
    * Validate if image contains coffee using AI/heuristics
+   * When a userId is given, recent near-identical images are rejected before any AI call;
+   * a valid result holds metadata.perceptualHash until recordImageHash or releaseImageHash.
+   * Photos failing provenance checks (stale, far from venue, screenshots, re-encoded)
+   * are rejected with metadata.locationValid = false.
    */
   async validateCoffeeImage(
     imageBuffer: Buffer,
-    mimeType: string
+    mimeType: string,
+    options: ImageValidationOptions = {}
   ): Promise<CoffeeSnapValidation> {
+    const { userId, venueCoordinates } = options;
+    let heldHash: string | undefined;
+    
     try {
       // Basic image validation
       await this.validateImageFormat(imageBuffer, mimeType);
       
+      const provenance = await this.checkProvenance(imageBuffer, venueCoordinates);
+      const { locationValid, ...provenanceMetadata } = provenance;
+      if (!locationValid) {
+        return {
+          isValidCoffee: false,
+          confidence: 0,
+          reasons: provenance.flags,
+          metadata: {
+            hasText: false,
+            hasCoffeeItems: false,
+            locationValid: false,
+            duplicateCheck: false,
+            provenance: provenanceMetadata,
+          },
+        };
+      }
+      
+      const duplicate = userId ? await this.checkDuplicate(imageBuffer, userId) : null;
+      if (duplicate?.isDuplicate) {
+        return {
+          isValidCoffee: false,
+          confidence: 0,
+          reasons: [
+            duplicate.sameUser
+              ? 'You already submitted this photo recently'
+              : 'This photo was already submitted by another user',
+          ],
+          metadata: {
+            hasText: false,
+            hasCoffeeItems: false,
+            locationValid: false,
+            duplicateCheck: false,
+            perceptualHash: duplicate.hash,
+            duplicateOf: duplicate.matchedSnapId,
+            provenance: provenanceMetadata,
+          },
+        };
+      }
+      heldHash = duplicate?.hash || undefined;
+      
       // AI-powered validation (if enabled)
-      if (config.FEATURES.AI_VALIDATION) {
-        return await this.aiValidation(imageBuffer);
-      } else {
-        // Fallback to heuristic validation
-        return await this.heuristicValidation(imageBuffer);
+      const validation = config.FEATURES.AI_VALIDATION
+        ? await this.aiValidation(imageBuffer)
+        : await this.heuristicValidation(imageBuffer); // Fallback to heuristic validation
+      
+      if (duplicate) {
+        validation.metadata.duplicateCheck = duplicate.hash !== '';
+        validation.metadata.perceptualHash = duplicate.hash || undefined;
+      }
+      validation.metadata.locationValid = locationValid;
+      validation.metadata.provenance = provenanceMetadata;
+      validation.reasons.push(...provenance.flags);
+      
+      if (!validation.isValidCoffee) {
+        await this.releaseImageHash(heldHash);
       }
+      return validation;
     } catch (error) {
       console.error('Image validation error:', error);
+      await this.releaseImageHash(heldHash);
       return {
         isValidCoffee: false,
         confidence: 0,
@@ -68,39 +178,129 @@ export class ImageValidationService {
   }
   
   /**
-   * AI-powered coffee validation using OpenAI Vision API
+   * EXIF/provenance checks: capture age, GPS distance to the venue,
+   * screenshots and re-encoded (downloaded or edited) images.
+   * Photos without EXIF pass, since many apps strip it; only positive evidence fails,
+   * and a photo with GPS fails when the venue's coordinates are unknown.
+   */
+  async checkProvenance(
+    imageBuffer: Buffer,
+    venueCoordinates?: { lat: number; lng: number }
+  ): Promise<ProvenanceCheck> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const exif = parseExif(metadata.exif);
+    const flags: string[] = [];
+    let locationValid = true;
+    
+    // Capture time
+    const capturedAt = exifDateToDate(exif.capturedAt, exif.offsetTime);
+    if (capturedAt) {
+      const slack = exif.offsetTime ? 5 * 60 * 1000 : EXIF_TIMEZONE_SLACK_MS;
+      const ageMs = Date.now() - capturedAt.getTime();
+      
+      if (ageMs - slack > config.VALIDATION.MAX_PHOTO_AGE_HOURS * 3600000) {
+        locationValid = false;
+        flags.push(`Photo taken more than ${config.VALIDATION.MAX_PHOTO_AGE_HOURS} hours ago`);
+      } else if (ageMs + slack < 0) {
+        locationValid = false;
+        flags.push('Photo capture time is in the future');
+      }
+    }
+    
+    // Capture location
+    let distanceMeters: number | undefined;
+    if (exif.gps && venueCoordinates) {
+      distanceMeters = this.calculateDistance(exif.gps, venueCoordinates);
+      if (distanceMeters > config.VALIDATION.MAX_VENUE_DISTANCE_METERS) {
+        locationValid = false;
+        flags.push(`Photo taken ${(distanceMeters / 1000).toFixed(1)}km from the venue`);
+      }
+    } else if (exif.gps) {
+      // A GPS-tagged photo must match a venue we could locate
+      locationValid = false;
+      flags.push('Venue location could not be verified');
+    }
+    
+    // Screenshots: iOS tags them in UserComment; otherwise exact screen size without a camera
+    const dimensions = `${Math.min(metadata.width || 0, metadata.height || 0)}x${Math.max(metadata.width || 0, metadata.height || 0)}`;
+    const isScreenshot =
+      /screenshot/i.test(exif.userComment || '') ||
+      /screenshot/i.test(exif.software || '') ||
+      (!exif.make && SCREEN_RESOLUTIONS.has(dimensions));
+    if (isScreenshot) {
+      locationValid = false;
+      flags.push('Screenshots are not accepted');
+    }
+    
+    // Re-encoding: known social/editing apps, or smaller than the camera originally recorded
+    const resizedAfterCapture = !!exif.pixelWidth && !!exif.pixelHeight && !!metadata.width && !!metadata.height &&
+      Math.max(metadata.width, metadata.height) < Math.max(exif.pixelWidth, exif.pixelHeight);
+    const isReencoded = REENCODING_SOFTWARE.test(exif.software || '') || resizedAfterCapture;
+    if (isReencoded) {
+      locationValid = false;
+      flags.push(
+        resizedAfterCapture
+          ? 'Photo was resized after capture'
+          : `Photo was re-encoded by ${exif.software}`
+      );
+    }
+    
+    if (!metadata.exif) {
+      flags.push('No camera metadata available');
+    }
+    
+    return {
+      locationValid,
+      capturedAt: capturedAt?.toISOString(),
+      distanceMeters,
+      isScreenshot,
+      isReencoded,
+      flags,
+    };
+  }
+  
+  /**
+   * Calculate distance between two points in meters
+   */
+  private calculateDistance(
+    point1: { lat: number; lng: number },
+    point2: { lat: number; lng: number }
+  ): number {
+    const R = 6371e3; // Earth's radius in meters
+    const φ1 = point1.lat * Math.PI / 180;
+    const φ2 = point2.lat * Math.PI / 180;
+    const Δφ = (point2.lat - point1.lat) * Math.PI / 180;
+    const Δλ = (point2.lng - point1.lng) * Math.PI / 180;
+    
+    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+              Math.cos(φ1) * Math.cos(φ2) *
+              Math.sin(Δλ/2) * Math.sin(Δλ/2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    
+    return Math.round(R * c);
+  }
+  
+  /**
+   * AI-powered coffee validation using the configured vision provider
    */
   private async aiValidation(imageBuffer: Buffer): Promise<CoffeeSnapValidation> {
     try {
-      if (!config.OPENAI_API_KEY) {
-        console.warn('OpenAI API key not configured, falling back to heuristic validation');
-        return await this.heuristicValidation(imageBuffer);
-      }
-      
-      // Convert image to base64
-      const base64Image = imageBuffer.toString('base64');
-      const dataUrl = `data:image/jpeg;base64,${base64Image}`;
-      
-      // TODO: Implement OpenAI Vision API call
-      // For now, return mock AI validation
-      const mockAIResponse = {
-        hasCoffee: Math.random() > 0.3, // 70% chance of detecting coffee
-        confidence: Math.random() * 0.4 + 0.6, // 0.6-1.0 confidence
-        detectedItems: ['coffee cup', 'coffee beans', 'latte art'],
-        reasoning: 'Detected coffee cup and beverage in image',
-      };
+      const result = await this.getVisionProvider().analyze(imageBuffer);
+      const meetsThreshold = result.confidence >= config.VALIDATION.AI_CONFIDENCE_THRESHOLD;
       
       return {
-        isValidCoffee: mockAIResponse.hasCoffee && mockAIResponse.confidence >= config.VALIDATION.AI_CONFIDENCE_THRESHOLD,
-        confidence: mockAIResponse.confidence,
-        reasons: mockAIResponse.hasCoffee 
-          ? ['AI detected coffee-related items']
-          : ['AI did not detect coffee in image'],
+        isValidCoffee: result.hasCoffee && meetsThreshold,
+        confidence: result.confidence,
+        reasons: result.hasCoffee && !meetsThreshold
+          ? [...result.reasons, `Confidence below ${config.VALIDATION.AI_CONFIDENCE_THRESHOLD}`]
+          : result.reasons,
         metadata: {
-          hasText: false,
-          hasCoffeeItems: mockAIResponse.hasCoffee,
+          hasText: result.hasText,
+          hasCoffeeItems: result.hasCoffee,
           locationValid: true,
           duplicateCheck: true,
+          detectedItems: result.detectedItems,
+          visionProvider: result.provider,
         },
       };
     } catch (error) {
@@ -109,6 +309,17 @@ export class ImageValidationService {
     }
   }
   
+  /**
+   * Created on first use, so a misconfigured VISION_PROVIDER is logged by aiValidation
+   * and falls back to heuristics instead of throwing when the controllers load
+   */
+  private getVisionProvider(): VisionProvider {
+    if (!this.visionProvider) {
+      this.visionProvider = this.visionProviderFactory();
+    }
+    return this.visionProvider;
+  }
+  
   /**
    * Heuristic validation using image analysis
    */
@@ -116,10 +327,10 @@ export class ImageValidationService {
     try {
       const analysis = await this.analyzeImageColors(imageBuffer);
       
-      // Simple heuristic: check for brown/coffee colors
-      const hasCoffeeColors = analysis.dominantColors.some(color => 
-        this.isCoffeeColor(color)
-      );
+      // Share of the image covered by brown/coffee-colored clusters
+      const coffeeColors = analysis.dominantColors.filter(({ color }) => this.isCoffeeColor(color));
+      const coffeeShare = coffeeColors.reduce((sum, { share }) => sum + share, 0);
+      const hasCoffeeColors = coffeeShare >= HEURISTIC_MIN_COFFEE_SHARE;
       
       // Check image quality/complexity
       const hasGoodQuality = analysis.sharpness > 0.5;
@@ -131,7 +342,11 @@ export class ImageValidationService {
         confidence,
         reasons: [
           hasCoffeeColors ? 'Coffee-like colors detected' : 'No coffee colors detected',
+          `Coffee color coverage: ${Math.round(coffeeShare * 100)}% (${
+            coffeeColors.map(({ color }) => color).join(', ') || 'none'
+          })`,
           hasGoodQuality ? 'Good image quality' : 'Low image quality',
+          `Sharpness: ${analysis.sharpness.toFixed(2)} (Laplacian variance ${Math.round(analysis.laplacianVariance)})`,
         ],
         metadata: {
           hasText: false,
@@ -160,39 +375,146 @@ export class ImageValidationService {
   
   /**
    * Analyze image colors and properties
+   * Dominant colors come from k-means over a downscaled copy; sharpness is the
+   * variance of the Laplacian, mapped to 0-1 (0.5 at the usual blur cutoff).
    */
   private async analyzeImageColors(imageBuffer: Buffer): Promise<{
-    dominantColors: string[];
+    dominantColors: Array<{ color: string; share: number }>;
     brightness: number;
     sharpness: number;
+    laplacianVariance: number;
   }> {
     const image = sharp(imageBuffer);
     
     // Get image statistics
     const stats = await image.stats();
-    const metadata = await image.metadata();
     
     // Calculate brightness (simplified)
     const channels = stats.channels;
     const avgBrightness = channels.reduce((sum, channel) => sum + channel.mean, 0) / channels.length;
     const brightness = avgBrightness / 255;
     
-    // Mock dominant colors analysis (would use actual color extraction in production)
-    const mockColors = [
-      '#8B4513', // Saddle brown (coffee)
-      '#D2691E', // Chocolate
-      '#A0522D', // Sienna
-      '#FFFFFF', // White (cup/foam)
-      '#F5DEB3', // Wheat (latte)
-    ];
+    const { data: rgb, info: rgbInfo } = await sharp(imageBuffer)
+      .resize(KMEANS_SAMPLE_SIZE, KMEANS_SAMPLE_SIZE, { fit: 'inside' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    
+    const { data: gray, info: grayInfo } = await sharp(imageBuffer)
+      .resize(SHARPNESS_SAMPLE_SIZE, SHARPNESS_SAMPLE_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .grayscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    
+    const laplacianVariance = this.laplacianVariance(gray, grayInfo.width, grayInfo.height);
     
     return {
-      dominantColors: mockColors.slice(0, 3),
+      dominantColors: this.kMeansColors(rgb, rgbInfo.channels, KMEANS_CLUSTERS),
       brightness,
-      sharpness: Math.random() * 0.5 + 0.5, // Mock sharpness score
+      sharpness: laplacianVariance / (laplacianVariance + SHARPNESS_BLUR_VARIANCE),
+      laplacianVariance,
     };
   }
   
+  /**
+   * Dominant colors via k-means, largest cluster first
+   * Centroids are seeded from luminance quantiles so results are deterministic.
+   */
+  private kMeansColors(
+    pixels: Buffer,
+    channels: number,
+    k: number
+  ): Array<{ color: string; share: number }> {
+    const points: Array<[number, number, number]> = [];
+    for (let i = 0; i + 2 < pixels.length; i += channels) {
+      points.push([pixels[i]!, pixels[i + 1]!, pixels[i + 2]!]);
+    }
+    if (points.length === 0) return [];
+    
+    const luminance = (p: [number, number, number]) => 0.299 * p[0] + 0.587 * p[1] + 0.114 * p[2];
+    const byLuminance = [...points].sort((a, b) => luminance(a) - luminance(b));
+    let centroids = Array.from({ length: Math.min(k, points.length) }, (_, c) =>
+      [...byLuminance[Math.floor(((c + 0.5) / k) * byLuminance.length)]!] as [number, number, number]
+    );
+    
+    const assignments = new Array<number>(points.length).fill(0);
+    for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+      let changed = false;
+      
+      points.forEach((point, index) => {
+        let nearest = 0;
+        let nearestDistance = Infinity;
+        centroids.forEach((centroid, c) => {
+          const distance = (point[0] - centroid[0]) ** 2 + (point[1] - centroid[1]) ** 2 + (point[2] - centroid[2]) ** 2;
+          if (distance < nearestDistance) {
+            nearest = c;
+            nearestDistance = distance;
+          }
+        });
+        if (assignments[index] !== nearest) {
+          assignments[index] = nearest;
+          changed = true;
+        }
+      });
+      
+      const sums = centroids.map(() => [0, 0, 0, 0]);
+      points.forEach((point, index) => {
+        const sum = sums[assignments[index]!]!;
+        sum[0]! += point[0];
+        sum[1]! += point[1];
+        sum[2]! += point[2];
+        sum[3]! += 1;
+      });
+      centroids = centroids.map((centroid, c) => {
+        const [r, g, b, count] = sums[c]!;
+        return count ? [r! / count, g! / count, b! / count] : centroid;
+      });
+      
+      if (!changed && iteration > 0) break;
+    }
+    
+    const counts = centroids.map(() => 0);
+    assignments.forEach(c => counts[c]!++);
+    
+    return centroids
+      .map((centroid, c) => ({ color: this.rgbToHex(centroid), share: counts[c]! / points.length }))
+      .filter(({ share }) => share > 0)
+      .sort((a, b) => b.share - a.share);
+  }
+  
+  /**
+   * Variance of the 4-neighbour Laplacian over a grayscale image
+   */
+  private laplacianVariance(gray: Buffer, width: number, height: number): number {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const value = gray[i - width]! + gray[i + width]! + gray[i - 1]! + gray[i + 1]! - 4 * gray[i]!;
+        sum += value;
+        sumSquares += value * value;
+        count++;
+      }
+    }
+    
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+  
+  /**
+   * Convert RGB triple to hex color
+   */
+  private rgbToHex([r, g, b]: [number, number, number]): string {
+    return '#' + [r, g, b]
+      .map(value => Math.round(value).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+  
   /**
    * Check if color is coffee-like
    */
@@ -205,10 +527,13 @@ export class ImageValidationService {
       '#DEB887', // Burlywood
       '#F4A460', // Sandy brown
       '#D2B48C', // Tan
+      '#6F4E37', // Coffee
+      '#4B3621', // Café noir
+      '#C4A484', // Latte
     ];
     
     return coffeeColors.some(coffeeColor => 
-      this.colorSimilarity(colorHex, coffeeColor) > 0.7
+      this.colorSimilarity(colorHex, coffeeColor) > COFFEE_COLOR_SIMILARITY
     );
   }
   
@@ -248,41 +573,112 @@ export class ImageValidationService {
   
   /**
    * Check for duplicate images using perceptual hashing
+   * Matches any user's snap within DUPLICATE_DETECTION_HOURS, so reposts of the
+   * same photo are caught even after resizing or re-encoding. Without a match the
+   * hash is reserved, so a concurrent upload of the same photo is caught too.
    */
-  async checkDuplicate(imageBuffer: Buffer, userId: string): Promise<boolean> {
+  async checkDuplicate(imageBuffer: Buffer, userId: string): Promise<DuplicateCheckResult> {
     try {
       // Generate perceptual hash
       const hash = await this.generatePerceptualHash(imageBuffer);
+      if (!hash) {
+        return { isDuplicate: false, hash };
+      }
+      
+      const since = new Date(Date.now() - config.VALIDATION.DUPLICATE_DETECTION_HOURS * 3600000);
+      const match = await this.hashIndex.reserve(hash, userId, since, config.VALIDATION.DUPLICATE_HASH_DISTANCE);
       
-      // TODO: Check against stored hashes in database
-      // For now, return false (no duplicates)
-      return false;
+      if (!match) {
+        return { isDuplicate: false, hash };
+      }
+      
+      console.log(`Duplicate image from ${userId} matches snap ${match.record.snapId} (distance ${match.distance})`);
+      return {
+        isDuplicate: true,
+        hash,
+        matchedSnapId: match.record.snapId,
+        sameUser: match.record.userId === userId,
+        distance: match.distance,
+      };
     } catch (error) {
       console.error('Duplicate check error:', error);
-      return false;
+      return { isDuplicate: false, hash: '' };
+    }
+  }
+  
+  /**
+   * Record the perceptual hash of an accepted snap for future duplicate checks
+   */
+  async recordImageHash(hash: string | undefined, userId: string, snapId: string): Promise<void> {
+    if (!hash) return;
+    
+    try {
+      await this.hashIndex.add(hash, userId, snapId);
+    } catch (error) {
+      console.error('Record image hash error:', error);
+    }
+  }
+  
+  /**
+   * Give back a hash reserved by validateCoffeeImage when its snap isn't saved
+   */
+  async releaseImageHash(hash: string | undefined): Promise<void> {
+    if (!hash) return;
+    
+    try {
+      await this.hashIndex.release(hash);
+    } catch (error) {
+      console.error('Release image hash error:', error);
     }
   }
   
   /**
-   * Generate perceptual hash for duplicate detection
+   * Generate perceptual hash (DCT pHash) for duplicate detection
+   * Returns 16 hex characters, or an empty string if the image can't be decoded.
    */
   private async generatePerceptualHash(imageBuffer: Buffer): Promise<string> {
     try {
-      // Resize to 8x8 and convert to grayscale
+      // Resize to 32x32 and convert to grayscale
       const resized = await sharp(imageBuffer)
-        .resize(8, 8, { fit: 'fill' })
+        .resize(PHASH_SAMPLE_SIZE, PHASH_SAMPLE_SIZE, { fit: 'fill' })
         .grayscale()
         .raw()
         .toBuffer();
       
-      // Calculate average pixel value
-      const pixels = Array.from(resized);
-      const average = pixels.reduce((sum, pixel) => sum + pixel, 0) / pixels.length;
+      // Cosine table for the low-frequency DCT-II terms
+      const cosines: number[][] = [];
+      for (let u = 0; u < PHASH_HASH_SIZE; u++) {
+        cosines.push(Array.from({ length: PHASH_SAMPLE_SIZE }, (_, x) =>
+          Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SAMPLE_SIZE))
+        ));
+      }
+      
+      // Top-left 8x8 block of the 2D DCT
+      const coefficients: number[] = [];
+      for (let u = 0; u < PHASH_HASH_SIZE; u++) {
+        for (let v = 0; v < PHASH_HASH_SIZE; v++) {
+          let sum = 0;
+          for (let y = 0; y < PHASH_SAMPLE_SIZE; y++) {
+            for (let x = 0; x < PHASH_SAMPLE_SIZE; x++) {
+              sum += resized[y * PHASH_SAMPLE_SIZE + x]! * cosines[u]![y]! * cosines[v]![x]!;
+            }
+          }
+          coefficients.push(sum);
+        }
+      }
+      
+      // Compare against the median, ignoring the DC term which only tracks brightness
+      const sorted = coefficients.slice(1).sort((a, b) => a - b);
+      const median = sorted[Math.floor(sorted.length / 2)]!;
       
-      // Generate binary hash
+      // Pack bits into hex
       let hash = '';
-      for (const pixel of pixels) {
-        hash += pixel > average ? '1' : '0';
+      for (let i = 0; i < coefficients.length; i += 4) {
+        let nibble = 0;
+        for (let bit = 0; bit < 4; bit++) {
+          nibble = (nibble << 1) | (coefficients[i + bit]! > median ? 1 : 0);
+        }
+        hash += nibble.toString(16);
       }
       
       return hash;
@@ -0,0 +1,86 @@
+import { config } from '@/config';
+import { CoffeeSnap, NFTCoupon } from '@/types';
+import { Database } from '@/services/database';
+import { CouponNFTService } from '@/services/coupon-nft';
+import { MilestoneService } from '@/services/milestones';
+import { RewardLedgerService } from '@/services/reward-ledger';
+import { DocumentSnapRepository } from '@/services/snap-repository';
+
+// Keep the chain signer (and its CDP wallet) out of the test; minting goes through fakeCoupons
+jest.mock('@/services/coupon-nft', () => ({}));
+jest.mock('@/services/signer', () => ({ describeError: (error: unknown) => String(error) }));
+
+// CouponNFTService stand-in whose mint only completes when the test releases it
+function fakeCoupons() {
+  let release: () => void = () => undefined;
+  const minted = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const mintCoupon = jest.fn(async (_request: unknown, options: { onSent?: (hash: `0x${string}`) => Promise<void> }) => {
+    await options.onSent?.('0xabc');
+    await minted;
+    return { tokenId: '7', mintTransactionHash: '0xabc' } as NFTCoupon;
+  });
+  return { service: { mintCoupon } as unknown as CouponNFTService, mintCoupon, release };
+}
+
+describe('MilestoneService', () => {
+  let snaps: DocumentSnapRepository;
+  let ledger: RewardLedgerService;
+  let milestones: (coupons: CouponNFTService) => MilestoneService;
+
+  beforeEach(async () => {
+    const db = new Database({ driver: 'memory' });
+    snaps = new DocumentSnapRepository(db);
+    ledger = new RewardLedgerService(db);
+    milestones = (coupons: CouponNFTService) => new MilestoneService(db, snaps, ledger, coupons);
+
+    for (let i = 0; i < config.REWARDS.COUPON_THRESHOLD; i++) {
+      const snap: CoffeeSnap = {
+        id: `snap_${i}`,
+        userId: 'user_1',
+        fid: 1,
+        imageUrl: `https://example.com/${i}.jpg`,
+        imageHash: `hash_${i}`,
+        location: { venueId: 'venue_1', venueName: 'Cafe' },
+        timestamp: new Date(Date.UTC(2025, 5, 1 + i)),
+        validated: true,
+        rewardAmount: '10',
+      };
+      await snaps.saveSnap(snap, { walletAddress: '0x0000000000000000000000000000000000000001' });
+    }
+  });
+
+  const lastSnapId = () => `snap_${config.REWARDS.COUPON_THRESHOLD - 1}`;
+
+  it('records the coupon milestone without waiting for the mint', async () => {
+    const coupons = fakeCoupons();
+    const service = milestones(coupons.service);
+
+    const awarded = await service.evaluate('user_1', lastSnapId());
+
+    const coupon = awarded.find(award => award.threshold === config.REWARDS.COUPON_THRESHOLD);
+    expect(coupon?.coupon?.status).toBe('pending');
+
+    // Queued behind the mint evaluate started, so this resolves once that one settles
+    coupons.release();
+    await service.issueCoupons('user_1');
+    const issued = (await service.getAwards('user_1')).find(award => award.coupon);
+    expect(issued?.coupon).toMatchObject({ status: 'minted', tokenId: '7', attempts: 1 });
+    expect(coupons.mintCoupon).toHaveBeenCalledTimes(1);
+    expect((await snaps.getUser('user_1'))?.totalCoupons).toBe(1);
+  });
+
+  it('credits the milestone BEAN to the ledger synchronously', async () => {
+    const coupons = fakeCoupons();
+    const service = milestones(coupons.service);
+
+    const awarded = await service.evaluate('user_1', lastSnapId());
+    coupons.release();
+
+    for (const award of awarded.filter(entry => entry.rewardEntryId)) {
+      expect((await ledger.getEntry(award.rewardEntryId!))?.amount).toBe(award.beanAmount);
+    }
+    expect(awarded.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,290 @@
+import { config } from '@/config';
+import { ContractError, CouponIssueStatus, MilestoneAward } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { CouponMintRequest, CouponNFTService, couponNftService } from '@/services/coupon-nft';
+import { RewardLedgerService, rewardLedger } from '@/services/reward-ledger';
+import { SnapRepository, snapRepository } from '@/services/snap-repository';
+import { describeError } from '@/services/signer';
+
+export interface MilestoneDefinition {
+  threshold: number;
+  beanAmount: string;
+  coupon: boolean;
+}
+
+export interface MilestoneProgress extends MilestoneDefinition {
+  reward: string; // Same as beanAmount, kept for existing clients
+  completed: boolean;
+  progress: number; // 0-1
+  awardedAt: Date | null;
+  rewardEntryId: string | null;
+  couponStatus: CouponIssueStatus | null;
+  couponTokenId: string | null;
+}
+
+/**
+ * Milestones from config.REWARDS.MILESTONE_AMOUNTS plus the coupon threshold, in order
+ */
+export function getMilestoneDefinitions(): MilestoneDefinition[] {
+  const amounts: Record<string, string> = config.REWARDS.MILESTONE_AMOUNTS;
+  const thresholds = new Set([...Object.keys(amounts).map(Number), config.REWARDS.COUPON_THRESHOLD]);
+
+  return Array.from(thresholds)
+    .sort((a, b) => a - b)
+    .map(threshold => ({
+      threshold,
+      beanAmount: amounts[String(threshold)] || '0',
+      coupon: threshold === config.REWARDS.COUPON_THRESHOLD,
+    }));
+}
+
+/**
+ * Awards snap-count milestones exactly once per user and milestone.
+ * BEAN bonuses are credited to the reward ledger (claimable like snap rewards);
+ * the coupon milestone also mints a CouponNFT in the background, retried after later
+ * snaps until it succeeds. The mint's hash is stored as soon as it is broadcast; if the
+ * receipt is lost the next attempt settles that transaction instead of minting a second coupon.
+ */
+export class MilestoneService {
+  private awards: Collection<MilestoneAward>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private mintQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    db: Database = database,
+    private readonly snaps: SnapRepository = snapRepository,
+    private readonly ledger: RewardLedgerService = rewardLedger,
+    private readonly coupons: CouponNFTService = couponNftService
+  ) {
+    this.awards = db.collection<MilestoneAward>('milestones');
+  }
+
+  /**
+   * Run after a validated snap; returns milestones newly awarded by it, with any coupon
+   * still pending. Evaluations are serialized so concurrent snaps can't award the same
+   * milestone twice; coupon mints are started afterwards and not awaited.
+   */
+  async evaluate(userId: string, snapId: string): Promise<MilestoneAward[]> {
+    const run = this.queue.then(() => this.awardReached(userId, snapId));
+    this.queue = run.catch(() => undefined);
+    const awarded = await run;
+
+    this.issueCoupons(userId)
+      .catch(error => console.error('Milestone coupon issuance failed:', userId, describeError(error)));
+    return awarded;
+  }
+
+  /**
+   * Mint or settle the user's outstanding milestone coupons.
+   * Serialized process-wide so a coupon is never minted by two runs at once.
+   */
+  async issueCoupons(userId: string): Promise<MilestoneAward[]> {
+    const run = this.mintQueue.then(async () => {
+      const outstanding = (await this.getAwards(userId))
+        .filter(award => award.coupon && award.coupon.status !== 'minted');
+      const issued: MilestoneAward[] = [];
+      for (const award of outstanding) {
+        issued.push(await this.issueCoupon(award));
+      }
+      return issued;
+    });
+    this.mintQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  async getAwards(userId: string): Promise<MilestoneAward[]> {
+    const awards = await this.awards.find(award => award.userId === userId);
+    return awards.sort((a, b) => a.threshold - b.threshold);
+  }
+
+  /**
+   * Progress towards every milestone, from recorded awards and validated snaps
+   */
+  async getProgress(userId: string): Promise<{
+    currentSnaps: number;
+    milestones: MilestoneProgress[];
+    nextMilestone: MilestoneProgress | null;
+  }> {
+    const { totalSnaps } = await this.snaps.getUserStats(userId);
+    const awards = new Map((await this.getAwards(userId)).map(award => [award.threshold, award]));
+
+    const milestones = getMilestoneDefinitions().map(definition => {
+      const award = awards.get(definition.threshold);
+      return {
+        ...definition,
+        reward: definition.beanAmount,
+        completed: !!award,
+        progress: award ? 1 : Math.min(totalSnaps / definition.threshold, 1),
+        awardedAt: award?.awardedAt || null,
+        rewardEntryId: award?.rewardEntryId || null,
+        couponStatus: award?.coupon?.status || null,
+        couponTokenId: award?.coupon?.tokenId || null,
+      };
+    });
+
+    return {
+      currentSnaps: totalSnaps,
+      milestones,
+      nextMilestone: milestones.find(milestone => !milestone.completed) || null,
+    };
+  }
+
+  private async awardReached(userId: string, snapId: string): Promise<MilestoneAward[]> {
+    const { totalSnaps } = await this.snaps.getUserStats(userId);
+    const awarded: MilestoneAward[] = [];
+
+    for (const definition of getMilestoneDefinitions()) {
+      if (totalSnaps < definition.threshold) break;
+
+      if (!(await this.awards.get(`${userId}_${definition.threshold}`))) {
+        awarded.push(await this.createAward(userId, snapId, totalSnaps, definition));
+      }
+    }
+
+    return awarded;
+  }
+
+  private async createAward(
+    userId: string,
+    snapId: string,
+    snapCount: number,
+    definition: MilestoneDefinition
+  ): Promise<MilestoneAward> {
+    const hasBean = parseFloat(definition.beanAmount) > 0;
+    const entry = hasBean
+      ? await this.ledger.append({
+          userId,
+          reason: 'milestone',
+          amount: definition.beanAmount,
+          referenceId: `snaps_${definition.threshold}`,
+          metadata: { threshold: definition.threshold, snapId },
+        })
+      : null;
+
+    const award = await this.awards.insert({
+      id: `${userId}_${definition.threshold}`,
+      userId,
+      threshold: definition.threshold,
+      snapId,
+      snapCount,
+      beanAmount: definition.beanAmount,
+      rewardEntryId: entry?.id,
+      coupon: definition.coupon ? { status: 'pending', attempts: 0 } : undefined,
+      awardedAt: new Date(),
+    });
+
+    if (config.NODE_ENV !== 'test') {
+      console.log('Milestone awarded:', { userId, threshold: definition.threshold, beanAmount: definition.beanAmount });
+    }
+    return award;
+  }
+
+  private async issueCoupon(award: MilestoneAward): Promise<MilestoneAward> {
+    const user = await this.snaps.getUser(award.userId);
+    if (!user?.walletAddress) {
+      return (await this.awards.update(award.id, current => ({
+        ...current,
+        coupon: { ...current.coupon!, status: 'pending', lastError: 'No wallet address on file' },
+      }))) || award;
+    }
+
+    const request: CouponMintRequest = {
+      userId: award.userId,
+      fid: user.fid,
+      walletAddress: user.walletAddress,
+      coffeeShopsEarned: award.threshold,
+    };
+
+    if (award.coupon!.status === 'submitted' && award.coupon!.transactionHash) {
+      return this.settleSubmittedCoupon(award, request, award.coupon!.transactionHash as `0x${string}`);
+    }
+
+    try {
+      const coupon = await this.coupons.mintCoupon(request, {
+        onSent: async hash => {
+          await this.awards.update(award.id, current => ({
+            ...current,
+            coupon: { ...current.coupon!, status: 'submitted', transactionHash: hash, lastError: undefined },
+          }));
+        },
+      });
+      return this.markCouponMinted(award, coupon.tokenId, coupon.mintTransactionHash, 1);
+    } catch (error) {
+      console.error('Milestone coupon mint failed:', award.id, describeError(error));
+      return this.markCouponFailed(award, error, 1);
+    }
+  }
+
+  /**
+   * Settle a mint that was broadcast but never confirmed here; only a reverted or dropped one is retried
+   */
+  private async settleSubmittedCoupon(
+    award: MilestoneAward,
+    request: CouponMintRequest,
+    transactionHash: `0x${string}`
+  ): Promise<MilestoneAward> {
+    try {
+      const recovery = await this.coupons.recoverMint(request, transactionHash);
+      if (recovery.status === 'minted') {
+        return this.markCouponMinted(award, recovery.coupon.tokenId, recovery.coupon.mintTransactionHash, 0);
+      }
+      if (recovery.status === 'failed') {
+        return this.markCouponFailed(award, new ContractError(recovery.reason, 'REVERTED', undefined, transactionHash), 0);
+      }
+      return award;
+    } catch (error) {
+      console.error('Milestone coupon mint still unconfirmed:', award.id, describeError(error));
+      return (await this.awards.update(award.id, current => ({
+        ...current,
+        coupon: { ...current.coupon!, lastError: describeError(error) },
+      }))) || award;
+    }
+  }
+
+  // attempts counts mints sent, so settling an earlier one adds none
+  private async markCouponMinted(
+    award: MilestoneAward,
+    tokenId: string,
+    transactionHash: string | undefined,
+    attempts: number
+  ): Promise<MilestoneAward> {
+    await this.snaps.updateUser(award.userId, current => ({
+      ...current,
+      totalCoupons: current.totalCoupons + 1,
+    }));
+
+    return (await this.awards.update(award.id, current => ({
+      ...current,
+      coupon: {
+        status: 'minted',
+        tokenId,
+        transactionHash,
+        attempts: current.coupon!.attempts + attempts,
+      },
+    }))) || award;
+  }
+
+  /**
+   * A mint whose outcome is unknown (broadcast, receipt unavailable) stays submitted;
+   * anything else is failed and minted again on a later snap
+   */
+  private async markCouponFailed(award: MilestoneAward, error: unknown, attempts: number): Promise<MilestoneAward> {
+    return (await this.awards.update(award.id, current => {
+      const unconfirmed = current.coupon!.status === 'submitted' && !!current.coupon!.transactionHash &&
+        error instanceof ContractError && error.code === 'TRANSACTION_FAILED';
+      return {
+        ...current,
+        coupon: {
+          ...current.coupon!,
+          status: unconfirmed ? 'submitted' : 'failed',
+          transactionHash: unconfirmed ? current.coupon!.transactionHash : undefined,
+          attempts: current.coupon!.attempts + attempts,
+          lastError: describeError(error),
+        },
+      };
+    })) || award;
+  }
+}
+
+// Export singleton instance
+export const milestoneService = new MilestoneService();
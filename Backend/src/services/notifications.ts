@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto';
+import { NotificationType, UserNotification, UserSession } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { FarcasterService } from '@/services/farcaster';
+
+export interface NotificationRequest {
+  type: NotificationType;
+  reference: string; // What the notification is about (e.g. a token ID); one notification per type and reference
+  userId: string;
+  fid?: number | null;
+  walletAddress?: string | null;
+  title: string;
+  body: string;
+  targetUrl: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * In-app notifications, each also pushed once as a Farcaster Mini App notification.
+ * Notifications are keyed by type and reference, so repeated sweeps don't notify twice.
+ */
+export class NotificationService {
+  private notifications: Collection<UserNotification>;
+
+  constructor(
+    db: Database = database,
+    private readonly farcaster: FarcasterService = new FarcasterService()
+  ) {
+    this.notifications = db.collection<UserNotification>('notifications');
+  }
+
+  async notify(request: NotificationRequest, now: Date = new Date()): Promise<{ notification: UserNotification; created: boolean }> {
+    const id = `${request.type}:${request.reference}`;
+    const existing = await this.notifications.get(id);
+    if (existing) {
+      return { notification: existing, created: false };
+    }
+
+    const notification = await this.notifications.insert({
+      id,
+      userId: request.userId,
+      fid: request.fid || null,
+      walletAddress: request.walletAddress?.toLowerCase() || null,
+      type: request.type,
+      title: request.title,
+      body: request.body,
+      targetUrl: request.targetUrl,
+      data: request.data,
+      read: false,
+      createdAt: now,
+      farcaster: { status: 'skipped' },
+    });
+
+    if (!notification.fid) {
+      return { notification, created: true };
+    }
+
+    const result = await this.farcaster.sendMiniAppNotification([notification.fid], {
+      uuid: randomUUID(),
+      title: notification.title,
+      body: notification.body,
+      targetUrl: notification.targetUrl,
+    });
+    const delivered = await this.notifications.update(id, current => ({
+      ...current,
+      farcaster: result.success ? { status: 'sent' } : { status: 'failed', error: result.error },
+    }));
+
+    return { notification: delivered || notification, created: true };
+  }
+
+  /**
+   * A signed-in user's notifications, newest first
+   */
+  async listForSession(session: UserSession, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<UserNotification[]> {
+    const notifications = await this.notifications.find(notification =>
+      this.belongsTo(session, notification) && (!options.unreadOnly || !notification.read)
+    );
+    return notifications
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit ?? 50);
+  }
+
+  async countUnread(session: UserSession): Promise<number> {
+    return this.notifications.count(notification => !notification.read && this.belongsTo(session, notification));
+  }
+
+  /**
+   * Mark the session user's notifications read (all of them when ids is omitted); returns how many changed
+   */
+  async markRead(session: UserSession, ids?: string[], now: Date = new Date()): Promise<number> {
+    const unread = await this.notifications.find(notification =>
+      !notification.read && this.belongsTo(session, notification) && (!ids || ids.includes(notification.id))
+    );
+
+    for (const notification of unread) {
+      await this.notifications.update(notification.id, current => ({ ...current, read: true, readAt: now }));
+    }
+    return unread.length;
+  }
+
+  // Same rule as isSessionUser: the fid for Farcaster sign-ins, else the wallet
+  private belongsTo(session: UserSession, notification: UserNotification): boolean {
+    return session.fid !== null
+      ? notification.fid === session.fid
+      : notification.walletAddress === session.walletAddress.toLowerCase();
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
@@ -0,0 +1,268 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { config } from '@/config';
+import {
+  CreateOnrampRequest,
+  OnrampSession,
+  OnrampSessionStatus,
+  OnrampWebhookEvent,
+  OnrampWebhookEventData,
+  OnrampWebhookPayload,
+  ValidationError,
+} from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { UsdcBalanceService, usdcBalanceService } from '@/services/usdc-balances';
+
+type StoredOnrampSession = OnrampSession & { id: string }; // id mirrors sessionId
+
+// Allowed status moves; anything else is ignored
+const TRANSITIONS: Record<OnrampSessionStatus, OnrampSessionStatus[]> = {
+  pending: ['completed', 'failed', 'expired'],
+  expired: ['completed'], // A payment can still settle after the session lapsed
+  completed: [],
+  failed: [],
+};
+
+// Provider event types end in their outcome (e.g. charge:confirmed, onramp.transaction.success)
+const EVENT_STATUSES: Array<[RegExp, OnrampSessionStatus]> = [
+  [/(completed|success|confirmed|resolved)$/i, 'completed'],
+  [/(failed|canceled|cancelled)$/i, 'failed'],
+  [/expired$/i, 'expired'],
+  [/(pending|created|delayed)$/i, 'pending'],
+];
+
+export interface OnrampWebhookResult {
+  eventId: string;
+  duplicate: boolean;
+  outcome: OnrampWebhookEvent['outcome'] | 'unknown_session'; // unknown_session events are not recorded
+  session: OnrampSession | null;
+}
+
+/**
+ * Check an x-cc-webhook-signature header (hex HMAC-SHA256 of the raw body)
+ */
+export function verifyOnrampSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature || !/^[0-9a-fA-F]+$/.test(signature)) return false;
+
+  const expected = createHmac('sha256', secret).update(rawBody).digest();
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+const toSession = ({ id, ...session }: StoredOnrampSession): OnrampSession => session;
+
+/**
+ * Coinbase Pay URL for a session; partnerUserId carries the session id back on webhooks
+ */
+function buildOnrampUrl(sessionId: string, request: CreateOnrampRequest): string {
+  const url = new URL('https://pay.coinbase.com/buy/select-asset');
+  if (config.ONRAMP.APP_ID) {
+    url.searchParams.set('appId', config.ONRAMP.APP_ID);
+  }
+  url.searchParams.set('addresses', JSON.stringify({ [request.destinationWallet]: ['base'] }));
+  url.searchParams.set('assets', JSON.stringify(['USDC']));
+  url.searchParams.set('presetFiatAmount', request.amount);
+  url.searchParams.set('fiatCurrency', request.currency);
+  url.searchParams.set('partnerUserId', sessionId);
+  return url.toString();
+}
+
+/**
+ * Persisted CDP Onramp sessions and their webhook-driven state machine.
+ * Webhook events are applied at most once (keyed by event id); a completed
+ * session credits the destination wallet exactly once. Pending sessions
+ * expire after ONRAMP.SESSION_TTL_MINUTES (swept by startSweeper).
+ */
+export class OnrampSessionService {
+  private sessions: Collection<StoredOnrampSession>;
+  private events: Collection<OnrampWebhookEvent>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    db: Database = database,
+    private readonly balances: UsdcBalanceService = usdcBalanceService
+  ) {
+    this.sessions = db.collection<StoredOnrampSession>('onramp_sessions');
+    this.events = db.collection<OnrampWebhookEvent>('onramp_webhook_events');
+  }
+
+  async createSession(request: CreateOnrampRequest, now: Date = new Date()): Promise<OnrampSession> {
+    const sessionId = `onramp_${randomUUID()}`;
+    const session = await this.sessions.insert({
+      id: sessionId,
+      sessionId,
+      userId: request.userId,
+      amount: request.amount,
+      currency: request.currency,
+      destinationWallet: request.destinationWallet,
+      status: 'pending',
+      onrampUrl: buildOnrampUrl(sessionId, request),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + config.ONRAMP.SESSION_TTL_MINUTES * 60 * 1000),
+      updatedAt: now,
+    });
+    return toSession(session);
+  }
+
+  /**
+   * Current session state; a pending session past its expiry reads as expired even between sweeps
+   */
+  async getSession(sessionId: string, now: Date = new Date()): Promise<OnrampSession | null> {
+    const session = await this.sessions.get(sessionId);
+    if (!session) return null;
+
+    if (session.status === 'pending' && session.expiresAt.getTime() <= now.getTime()) {
+      return (await this.transition(sessionId, 'expired', {}, now))?.session || toSession(session);
+    }
+    return toSession(session);
+  }
+
+  /**
+   * A user's sessions, newest first
+   */
+  async listUserSessions(userId: string, status?: OnrampSessionStatus): Promise<OnrampSession[]> {
+    const sessions = await this.sessions.find(session =>
+      session.userId === userId && (!status || session.status === status)
+    );
+    return sessions
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(toSession);
+  }
+
+  /**
+   * Move a session to a new status if the transition is allowed; returns null if the session is unknown.
+   * The check and the write happen in one update so the sweeper and webhooks can't overwrite each other.
+   */
+  async transition(
+    sessionId: string,
+    status: OnrampSessionStatus,
+    details: Pick<OnrampSession, 'transactionHash' | 'creditedAmount' | 'failureReason'> = {},
+    now: Date = new Date()
+  ): Promise<{ session: OnrampSession; changed: boolean } | null> {
+    let from = null as OnrampSessionStatus | null; // Set by the update when the move is allowed
+    const updated = await this.sessions.update(sessionId, current => {
+      if (!TRANSITIONS[current.status].includes(status)) return current;
+      from = current.status;
+      return {
+        ...current,
+        ...details,
+        status,
+        updatedAt: now,
+        ...(status === 'completed' && { completedAt: now }),
+      };
+    });
+    if (!updated) return null;
+
+    if (from) {
+      console.log('Onramp session status:', { sessionId, from, to: status });
+    }
+    return { session: toSession(updated), changed: from !== null };
+  }
+
+  /**
+   * Expire pending sessions whose expiry has passed; returns how many were expired
+   */
+  async expireStale(now: Date = new Date()): Promise<number> {
+    const stale = await this.sessions.find(session =>
+      session.status === 'pending' && session.expiresAt.getTime() <= now.getTime()
+    );
+
+    let expired = 0;
+    for (const session of stale) {
+      const result = await this.transition(session.sessionId, 'expired', {}, now);
+      if (result?.changed) expired++;
+    }
+    return expired;
+  }
+
+  /**
+   * Run expireStale on an interval; returns a function that stops the sweeper
+   */
+  startSweeper(intervalMs: number = config.ONRAMP.SWEEP_INTERVAL_MS): () => void {
+    const timer = setInterval(() => {
+      this.expireStale()
+        .then(count => {
+          if (count > 0) console.log(`Expired ${count} stale onramp session(s)`);
+        })
+        .catch(error => console.error('Onramp session sweep failed:', error));
+    }, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Apply a verified webhook event body; redelivered events are acknowledged without effect.
+   * Events for a session we don't know yet are not recorded, so the provider's retry can apply them.
+   */
+  async handleWebhookEvent(body: OnrampWebhookPayload, now: Date = new Date()): Promise<OnrampWebhookResult> {
+    const event = body?.event ?? body;
+    const eventId = event?.id;
+    const type = event?.type;
+    if (typeof eventId !== 'string' || !eventId || typeof type !== 'string') {
+      throw new ValidationError('Webhook event id and type are required', 'event');
+    }
+
+    const run = this.queue.then(async (): Promise<OnrampWebhookResult> => {
+      const seen = await this.events.get(eventId);
+      if (seen) {
+        const session = seen.sessionId ? await this.getSession(seen.sessionId) : null;
+        return { eventId, duplicate: true, outcome: seen.outcome, session };
+      }
+
+      const data: OnrampWebhookEventData = event.data || {};
+      const sessionId: string | null = data.metadata?.sessionId || data.partnerUserId || data.sessionId || data.id || null;
+      const status = this.statusOf(type, data);
+
+      let outcome: OnrampWebhookEvent['outcome'] = 'ignored';
+      let session: OnrampSession | null = null;
+      if (sessionId && status) {
+        const current = await this.getSession(sessionId);
+        if (!current) {
+          console.warn('Onramp webhook for unknown session:', { eventId, sessionId });
+          return { eventId, duplicate: false, outcome: 'unknown_session', session: null };
+        }
+
+        const result = await this.transition(sessionId, status, {
+          transactionHash: data.transactionHash || data.txHash || undefined,
+          failureReason: status === 'failed' ? (data.failureReason || type) : undefined,
+          creditedAmount: status === 'completed'
+            ? String(data.purchaseAmount?.value || data.cryptoAmount || current.amount)
+            : undefined,
+        }, now);
+
+        if (result?.changed && result.session.status === 'completed') {
+          await this.balances.credit(
+            result.session.destinationWallet,
+            result.session.creditedAmount!,
+            'onramp',
+            result.session.sessionId
+          );
+        }
+
+        outcome = result?.changed ? 'applied' : 'ignored';
+        session = result?.session || null;
+      }
+
+      // Recorded last: if applying failed, the provider's retry gets another attempt
+      await this.events.insert({ id: eventId, type, sessionId, outcome, receivedAt: now });
+      return { eventId, duplicate: false, outcome, session };
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private statusOf(type: string, data: OnrampWebhookEventData): OnrampSessionStatus | null {
+    const timeline = Array.isArray(data.timeline) ? data.timeline : [];
+    const candidates = [type, data.status, timeline[timeline.length - 1]?.status];
+
+    for (const candidate of candidates) {
+      if (typeof candidate !== 'string') continue;
+      const match = EVENT_STATUSES.find(([pattern]) => pattern.test(candidate));
+      if (match) return match[1];
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const onrampSessionService = new OnrampSessionService();
@@ -0,0 +1,37 @@
+import { Database } from '@/services/database';
+import { RewardLedgerService } from '@/services/reward-ledger';
+
+describe('RewardLedgerService', () => {
+  let ledger: RewardLedgerService;
+
+  beforeEach(() => {
+    ledger = new RewardLedgerService(new Database({ driver: 'memory' }));
+  });
+
+  const credit = (referenceId: string) =>
+    ledger.append({ userId: 'user_1', reason: 'coffee_snap', amount: '10', referenceId });
+
+  it('settles reserved entries with the minting transaction', async () => {
+    const entries = await Promise.all([credit('snap_1'), credit('snap_2')]);
+    await ledger.reserve('user_1', entries.map(entry => entry.id));
+
+    const settled = await ledger.settle(entries.map(entry => entry.id), '0xabc');
+
+    expect(settled.map(entry => [entry.status, entry.transactionHash])).toEqual([
+      ['settled', '0xabc'],
+      ['settled', '0xabc'],
+    ]);
+    expect((await ledger.getBalance('user_1')).settled).toBe('20');
+  });
+
+  it('leaves the whole batch untouched when one entry is in the wrong state', async () => {
+    const reserved = await credit('snap_1');
+    const pending = await credit('snap_2');
+    await ledger.reserve('user_1', [reserved.id]);
+
+    await expect(ledger.settle([reserved.id, pending.id], '0xabc')).rejects.toThrow('is already pending');
+
+    expect((await ledger.getEntry(reserved.id))?.status).toBe('claiming');
+    expect((await ledger.getEntry(pending.id))?.status).toBe('pending');
+  });
+});
@@ -0,0 +1,321 @@
+import { formatUnits, parseUnits } from 'viem';
+import { config } from '@/config';
+import { RewardEntryStatus, RewardLedgerEntry, RewardReason, ValidationError } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { getPublicClient, isContractConfigured, loyaltyTokenAbi } from '@/services/chain';
+
+const BEAN_DECIMALS = 18;
+
+export interface RewardEntryInput {
+  userId: string;
+  reason: RewardReason;
+  amount: string;
+  referenceId?: string;
+  status?: RewardEntryStatus;
+  transactionHash?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface RewardHistoryQuery {
+  reason?: RewardReason;
+  status?: RewardEntryStatus;
+  offset?: number;
+  limit?: number;
+}
+
+export interface RewardBalance {
+  userId: string;
+  pending: string; // Earned but not yet on-chain
+  settled: string; // Confirmed on-chain through the ledger
+  total: string;
+  onChain: string | null; // LoyaltyToken.balanceOf, null when unavailable
+  reconciliation: {
+    checked: boolean;
+    inSync: boolean | null;
+    difference: string | null; // onChain - settled
+    reason?: string;
+  };
+}
+
+const toWei = (amount: string): bigint => parseUnits(amount, BEAN_DECIMALS);
+const fromWei = (amount: bigint): string => formatUnits(amount, BEAN_DECIMALS);
+
+// Claim entries record a settlement batch; the credits they settle already count
+const affectsBalance = (entry: RewardLedgerEntry): boolean => entry.reason !== 'claim';
+
+/**
+ * Append-only $BEAN reward ledger
+ * Entries are never deleted and only ever move pending -> claiming -> settled | failed
+ * (claiming -> pending again when a mint definitely failed).
+ * Balances and history are always derived from the entries.
+ */
+export class RewardLedgerService {
+  private entries: Collection<RewardLedgerEntry>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(db: Database = database) {
+    this.entries = db.collection<RewardLedgerEntry>('reward_ledger');
+  }
+
+  /**
+   * Append an entry; entries with a referenceId are idempotent per reason
+   */
+  async append(input: RewardEntryInput): Promise<RewardLedgerEntry> {
+    if (!/^-?\d+(\.\d+)?$/.test(input.amount)) {
+      throw new ValidationError(`Invalid reward amount: ${input.amount}`, 'amount');
+    }
+
+    const id = input.referenceId
+      ? this.referenceEntryId(input.userId, input.reason, input.referenceId)
+      : `reward_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+
+    return this.serialize(async () => {
+      const existing = await this.entries.get(id);
+      if (existing) {
+        return existing;
+      }
+
+      const status = input.status || 'pending';
+      return this.entries.insert({
+        id,
+        userId: input.userId,
+        reason: input.reason,
+        amount: input.amount,
+        status,
+        referenceId: input.referenceId,
+        transactionHash: input.transactionHash,
+        metadata: input.metadata,
+        createdAt: new Date(),
+        settledAt: status === 'settled' ? new Date() : undefined,
+      });
+    });
+  }
+
+  /**
+   * Move a user's pending entries to claiming before minting them, so a concurrent
+   * claim can't mint the same credits; returns only the entries this call reserved
+   */
+  async reserve(userId: string, entryIds: string[]): Promise<RewardLedgerEntry[]> {
+    return this.serialize(async () => {
+      const pending = await this.getPendingEntries(userId, entryIds);
+      const reserved: RewardLedgerEntry[] = [];
+      for (const entry of pending) {
+        const updated = await this.entries.update(entry.id, current => ({ ...current, status: 'claiming' }));
+        if (updated) reserved.push(updated);
+      }
+      return reserved;
+    });
+  }
+
+  /**
+   * Return reserved entries to pending after their mint definitely failed
+   */
+  async release(entryIds: string[]): Promise<RewardLedgerEntry[]> {
+    return this.transition(entryIds, ['claiming'], 'pending');
+  }
+
+  /**
+   * Mark reserved entries settled by the on-chain transaction that minted them
+   */
+  async settle(entryIds: string[], transactionHash: string): Promise<RewardLedgerEntry[]> {
+    return this.transition(entryIds, ['claiming'], 'settled', transactionHash);
+  }
+
+  /**
+   * Mark pending or reserved entries failed (e.g. the settling transaction reverted)
+   */
+  async fail(entryIds: string[], reason: string): Promise<RewardLedgerEntry[]> {
+    return this.transition(entryIds, ['pending', 'claiming'], 'failed', undefined, reason);
+  }
+
+  async getEntry(entryId: string): Promise<RewardLedgerEntry | null> {
+    return this.entries.get(entryId);
+  }
+
+  async findByReference(userId: string, reason: RewardReason, referenceId: string): Promise<RewardLedgerEntry | null> {
+    return this.entries.get(this.referenceEntryId(userId, reason, referenceId));
+  }
+
+  async getPendingEntries(userId: string, entryIds?: string[]): Promise<RewardLedgerEntry[]> {
+    const ids = entryIds ? new Set(entryIds) : null;
+    return this.entries.find(entry =>
+      entry.userId === userId &&
+      entry.status === 'pending' &&
+      affectsBalance(entry) &&
+      (!ids || ids.has(entry.id))
+    );
+  }
+
+  /**
+   * Ledger entries for a user, newest first
+   */
+  async getHistory(
+    userId: string,
+    query: RewardHistoryQuery = {}
+  ): Promise<{ entries: RewardLedgerEntry[]; total: number }> {
+    const { reason, status, offset = 0, limit = 10 } = query;
+
+    const matches = await this.entries.find(entry =>
+      entry.userId === userId &&
+      (!reason || entry.reason === reason) &&
+      (!status || entry.status === status)
+    );
+
+    matches.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return {
+      entries: matches.slice(offset, offset + limit),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Derive a user's balance from the ledger, reconciled against LoyaltyToken when possible
+   */
+  async getBalance(userId: string, walletAddress?: string): Promise<RewardBalance> {
+    const entries = await this.entries.find(entry => entry.userId === userId && affectsBalance(entry));
+
+    let pending = 0n;
+    let settled = 0n;
+    for (const entry of entries) {
+      if (entry.status === 'pending' || entry.status === 'claiming') pending += toWei(entry.amount);
+      if (entry.status === 'settled') settled += toWei(entry.amount);
+    }
+
+    const onChain = await this.getOnChainBalance(walletAddress);
+
+    return {
+      userId,
+      pending: fromWei(pending),
+      settled: fromWei(settled),
+      total: fromWei(pending + settled),
+      onChain: onChain.balance === null ? null : fromWei(onChain.balance),
+      reconciliation: onChain.balance === null
+        ? { checked: false, inSync: null, difference: null, reason: onChain.reason }
+        : {
+            checked: true,
+            inSync: onChain.balance === settled,
+            difference: fromWei(onChain.balance - settled),
+          },
+    };
+  }
+
+  /**
+   * Aggregate totals across all users
+   */
+  async getStats(): Promise<{
+    totalDistributed: string;
+    totalPending: string;
+    totalUsers: number;
+    totalEntries: number;
+    byReason: Array<{ reason: RewardReason; count: number; amount: string }>;
+    recentActivity: { last24h: number; last7d: number; last30d: number };
+  }> {
+    const entries = await this.entries.find(entry => affectsBalance(entry) && entry.status !== 'failed');
+    const now = Date.now();
+    const since = (days: number) => entries.filter(entry => now - entry.createdAt.getTime() <= days * 86400000).length;
+
+    const byReason = new Map<RewardReason, { count: number; amount: bigint }>();
+    let distributed = 0n;
+    let pending = 0n;
+
+    for (const entry of entries) {
+      const amount = toWei(entry.amount);
+      if (entry.status === 'settled') distributed += amount;
+      if (entry.status === 'pending' || entry.status === 'claiming') pending += amount;
+
+      const totals = byReason.get(entry.reason) || { count: 0, amount: 0n };
+      totals.count += 1;
+      totals.amount += amount;
+      byReason.set(entry.reason, totals);
+    }
+
+    return {
+      totalDistributed: fromWei(distributed),
+      totalPending: fromWei(pending),
+      totalUsers: new Set(entries.map(entry => entry.userId)).size,
+      totalEntries: entries.length,
+      byReason: Array.from(byReason.entries())
+        .map(([reason, totals]) => ({ reason, count: totals.count, amount: fromWei(totals.amount) }))
+        .sort((a, b) => b.count - a.count),
+      recentActivity: { last24h: since(1), last7d: since(7), last30d: since(30) },
+    };
+  }
+
+  private referenceEntryId(userId: string, reason: RewardReason, referenceId: string): string {
+    return `reward_${reason}_${userId}_${referenceId}`;
+  }
+
+  /**
+   * Move every entry from one of `from` to `status`; all entries are checked before any
+   * is written, so one entry in the wrong state leaves the whole batch untouched
+   */
+  private async transition(
+    entryIds: string[],
+    from: RewardEntryStatus[],
+    status: RewardEntryStatus,
+    transactionHash?: string,
+    failureReason?: string
+  ): Promise<RewardLedgerEntry[]> {
+    return this.serialize(async () => {
+      const entries = (await Promise.all(entryIds.map(entryId => this.entries.get(entryId))))
+        .filter((entry): entry is RewardLedgerEntry => entry !== null);
+
+      for (const entry of entries) {
+        if (!from.includes(entry.status)) {
+          throw new ValidationError(`Reward ${entry.id} is already ${entry.status}`, 'rewardIds');
+        }
+      }
+
+      const updated: RewardLedgerEntry[] = [];
+      for (const entry of entries) {
+        const next = await this.entries.update(entry.id, current => ({
+          ...current,
+          status,
+          transactionHash: transactionHash || current.transactionHash,
+          settledAt: status === 'settled' ? new Date() : current.settledAt,
+          metadata: failureReason ? { ...current.metadata, failureReason } : current.metadata,
+        }));
+
+        if (next) updated.push(next);
+      }
+
+      return updated;
+    });
+  }
+
+  // Ledger writes run one at a time so check-then-write steps can't interleave
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async getOnChainBalance(walletAddress?: string): Promise<{ balance: bigint | null; reason?: string }> {
+    const client = getPublicClient();
+    const tokenAddress = config.CONTRACTS.LOYALTY_TOKEN;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return { balance: null, reason: 'No wallet address on file' };
+    }
+    if (!client || !isContractConfigured(tokenAddress)) {
+      return { balance: null, reason: 'LoyaltyToken RPC not configured' };
+    }
+
+    try {
+      const balance = await client.readContract({
+        address: tokenAddress,
+        abi: loyaltyTokenAbi,
+        functionName: 'balanceOf',
+        args: [walletAddress as `0x${string}`],
+      });
+      return { balance };
+    } catch (error: any) {
+      console.error('LoyaltyToken balance read failed:', error.shortMessage || error.message);
+      return { balance: null, reason: 'LoyaltyToken balance read failed' };
+    }
+  }
+}
+
+// Export singleton instance
+export const rewardLedger = new RewardLedgerService();
@@ -0,0 +1,68 @@
+import { calculateReward, calculateStreakBonus, RewardInput, RewardPolicy } from '@/services/reward-policy';
+
+const policy: RewardPolicy = {
+  baseAmount: '10',
+  qualityBonus: '5',
+  qualityConfidence: 0.9,
+  newVenueBonus: '10',
+  streakBonusPerDay: '2',
+  streakMaxDays: 14,
+};
+
+const input = (overrides: Partial<RewardInput> = {}): RewardInput => ({
+  confidence: 0.5,
+  isNewVenue: false,
+  streakDays: 1,
+  streakExtended: true,
+  ...overrides,
+});
+
+const amounts = (overrides: Partial<RewardInput>) =>
+  Object.fromEntries(calculateReward(input(overrides), policy).items.map(item => [item.component, item.amount]));
+
+describe('calculateReward', () => {
+  it('pays only the base amount for a plain snap', () => {
+    const breakdown = calculateReward(input(), policy);
+
+    expect(breakdown.total).toBe('10');
+    expect(amounts({})).toEqual({ base: '10', quality: '0', new_venue: '0', streak: '0' });
+    expect(breakdown.inputs).toEqual(input());
+  });
+
+  it('adds the quality bonus from the confidence threshold up', () => {
+    expect(amounts({ confidence: 0.89 }).quality).toBe('0');
+    expect(amounts({ confidence: 0.9 }).quality).toBe('5');
+  });
+
+  it('adds the new venue bonus', () => {
+    expect(amounts({ isNewVenue: true }).new_venue).toBe('10');
+  });
+
+  it('adds the streak bonus only when the snap extends the streak', () => {
+    expect(amounts({ streakDays: 3 }).streak).toBe('6');
+    expect(amounts({ streakDays: 3, streakExtended: false }).streak).toBe('0');
+  });
+
+  it('sums every component into the total', () => {
+    const breakdown = calculateReward(input({ confidence: 0.95, isNewVenue: true, streakDays: 5 }), policy);
+
+    expect(breakdown.total).toBe('35');
+  });
+});
+
+describe('calculateStreakBonus', () => {
+  it('starts on the second consecutive day', () => {
+    expect(calculateStreakBonus(0, policy)).toBe('0');
+    expect(calculateStreakBonus(1, policy)).toBe('0');
+    expect(calculateStreakBonus(2, policy)).toBe('4');
+  });
+
+  it('stops growing at streakMaxDays', () => {
+    expect(calculateStreakBonus(14, policy)).toBe('28');
+    expect(calculateStreakBonus(40, policy)).toBe('28');
+  });
+
+  it('keeps fractional per-day amounts exact', () => {
+    expect(calculateStreakBonus(3, { ...policy, streakBonusPerDay: '0.1' })).toBe('0.3');
+  });
+});
@@ -0,0 +1,84 @@
+import { formatUnits, parseUnits } from 'viem';
+import { config } from '@/config';
+import { RewardBreakdown, RewardLineItem } from '@/types';
+
+const BEAN_DECIMALS = 18;
+
+/**
+ * Reward parameters; amounts in $BEAN
+ */
+export interface RewardPolicy {
+  baseAmount: string;
+  qualityBonus: string;
+  qualityConfidence: number; // Minimum validation confidence for the quality bonus
+  newVenueBonus: string;
+  streakBonusPerDay: string;
+  streakMaxDays: number;
+}
+
+export type RewardInput = RewardBreakdown['inputs'];
+
+export const DEFAULT_REWARD_POLICY: RewardPolicy = {
+  baseAmount: config.REWARDS.COFFEE_SNAP_AMOUNT,
+  qualityBonus: config.REWARDS.QUALITY_BONUS_AMOUNT,
+  qualityConfidence: config.REWARDS.QUALITY_BONUS_CONFIDENCE,
+  newVenueBonus: config.REWARDS.NEW_VENUE_BONUS_AMOUNT,
+  streakBonusPerDay: String(config.STREAKS.BONUS_PER_DAY),
+  streakMaxDays: config.STREAKS.MAX_BONUS_DAYS,
+};
+
+const toWei = (amount: string): bigint => parseUnits(amount, BEAN_DECIMALS);
+const fromWei = (amount: bigint): string => formatUnits(amount, BEAN_DECIMALS);
+
+/**
+ * Streak bonus: streakBonusPerDay for each day in the current streak,
+ * from the second consecutive day and capped at streakMaxDays
+ */
+export function calculateStreakBonus(streakDays: number, policy: RewardPolicy = DEFAULT_REWARD_POLICY): string {
+  if (streakDays < 2) return '0';
+  return fromWei(toWei(policy.streakBonusPerDay) * BigInt(Math.min(streakDays, policy.streakMaxDays)));
+}
+
+/**
+ * Compute a snap reward from explicit inputs.
+ * Pure: the same inputs and policy always give the same itemized breakdown.
+ */
+export function calculateReward(input: RewardInput, policy: RewardPolicy = DEFAULT_REWARD_POLICY): RewardBreakdown {
+  const exceptional = input.confidence >= policy.qualityConfidence;
+  const streakBonus = input.streakExtended ? calculateStreakBonus(input.streakDays, policy) : '0';
+
+  const items: RewardLineItem[] = [
+    {
+      component: 'base',
+      amount: policy.baseAmount,
+      reason: 'Validated coffee snap',
+    },
+    {
+      component: 'quality',
+      amount: exceptional ? policy.qualityBonus : '0',
+      reason: exceptional
+        ? `Exceptional photo (confidence ${Math.round(input.confidence * 100)}%)`
+        : `Confidence ${Math.round(input.confidence * 100)}% is below ${Math.round(policy.qualityConfidence * 100)}%`,
+    },
+    {
+      component: 'new_venue',
+      amount: input.isNewVenue ? policy.newVenueBonus : '0',
+      reason: input.isNewVenue ? 'First snap at this venue' : 'Venue already has snaps',
+    },
+    {
+      component: 'streak',
+      amount: streakBonus,
+      reason: !input.streakExtended
+        ? 'Streak bonus already paid today'
+        : input.streakDays < 2
+          ? 'Streak bonus starts on the second consecutive day'
+          : `${Math.min(input.streakDays, policy.streakMaxDays)}-day streak`,
+    },
+  ];
+
+  return {
+    items,
+    total: fromWei(items.reduce((sum, item) => sum + toWei(item.amount), 0n)),
+    inputs: { ...input },
+  };
+}
@@ -0,0 +1,194 @@
+import {
+  Abi,
+  AbiFunction,
+  createPublicClient,
+  createWalletClient,
+  http,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { hardhat } from 'viem/chains';
+import { config } from '@/config';
+import { ContractError } from '@/types';
+import { CDPWalletService } from '@/services/cdp-wallet';
+import { decodeRevertReason, getPublicClient } from '@/services/chain';
+
+// Hardhat's well-known account #0, only ever used against a local node
+const HARDHAT_DEFAULT_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const RECEIPT_TIMEOUT_MS = 120000;
+
+export interface ContractWrite {
+  address: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+/**
+ * Sends contract transactions on behalf of the backend
+ * publicClient points at the same network, for reads, simulation and receipts.
+ */
+export interface TransactionSigner {
+  readonly name: SignerName;
+  readonly publicClient: PublicClient;
+  getAddress(): Promise<`0x${string}`>;
+  writeContract(request: ContractWrite): Promise<`0x${string}`>;
+}
+
+export type SignerName = 'cdp' | 'local';
+
+/**
+ * Coinbase Developer Platform server wallet (production)
+ */
+export class CdpSigner implements TransactionSigner {
+  readonly name = 'cdp';
+
+  constructor(
+    readonly publicClient: PublicClient,
+    private readonly wallet: CDPWalletService = new CDPWalletService()
+  ) {}
+
+  async getAddress(): Promise<`0x${string}`> {
+    return (await this.wallet.getWalletAddress()) as `0x${string}`;
+  }
+
+  async writeContract(request: ContractWrite): Promise<`0x${string}`> {
+    const hash = await this.wallet.invokeContract(
+      request.address,
+      request.functionName,
+      toNamedArgs(request),
+      request.abi
+    );
+    return hash as `0x${string}`;
+  }
+}
+
+/**
+ * Private key signer for a local Hardhat node (development)
+ */
+export class LocalSigner implements TransactionSigner {
+  readonly name = 'local';
+  readonly publicClient: PublicClient;
+  private readonly walletClient: WalletClient;
+
+  constructor(rpcUrl: string, privateKey: `0x${string}`) {
+    const account = privateKeyToAccount(privateKey);
+    this.publicClient = createPublicClient({ chain: hardhat, transport: http(rpcUrl) }) as PublicClient;
+    this.walletClient = createWalletClient({ account, chain: hardhat, transport: http(rpcUrl) });
+  }
+
+  async getAddress(): Promise<`0x${string}`> {
+    return this.walletClient.account!.address;
+  }
+
+  async writeContract(request: ContractWrite): Promise<`0x${string}`> {
+    return this.walletClient.writeContract({
+      ...request,
+      account: this.walletClient.account!,
+      chain: hardhat,
+    });
+  }
+}
+
+/**
+ * Simulate, send and confirm a contract write.
+ * Simulating first surfaces revert reasons before any gas is spent;
+ * failures are raised as ContractError. onSent runs once the transaction is
+ * broadcast, before waiting, so callers can persist the hash.
+ */
+export async function executeContractWrite(
+  signer: TransactionSigner,
+  request: ContractWrite,
+  label: string,
+  onSent?: (hash: `0x${string}`) => Promise<void>
+): Promise<TransactionReceipt> {
+  const account = await signer.getAddress().catch(error => {
+    throw new ContractError(`Signer unavailable: ${describeError(error)}`, 'TRANSACTION_FAILED');
+  });
+
+  try {
+    await signer.publicClient.simulateContract({ ...request, account } as any);
+  } catch (error) {
+    const revertReason = decodeRevertReason(error);
+    if (revertReason) {
+      throw new ContractError(`${label} would revert: ${revertReason}`, 'REVERTED', revertReason);
+    }
+    throw new ContractError(`${label} simulation failed: ${describeError(error)}`, 'TRANSACTION_FAILED');
+  }
+
+  let hash: `0x${string}`;
+  try {
+    hash = await signer.writeContract(request);
+  } catch (error) {
+    const revertReason = decodeRevertReason(error);
+    throw new ContractError(
+      `${label} transaction failed: ${revertReason || describeError(error)}`,
+      revertReason ? 'REVERTED' : 'TRANSACTION_FAILED',
+      revertReason
+    );
+  }
+
+  await onSent?.(hash);
+
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await signer.publicClient.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS });
+  } catch (error) {
+    throw new ContractError(`${label} receipt unavailable: ${describeError(error)}`, 'TRANSACTION_FAILED', undefined, hash);
+  }
+
+  if (receipt.status === 'reverted') {
+    throw new ContractError(`${label} transaction reverted`, 'REVERTED', undefined, hash);
+  }
+  return receipt;
+}
+
+export function describeError(error: unknown): string {
+  const err = error as { shortMessage?: string; message?: string };
+  return err?.shortMessage || err?.message || 'Unknown error';
+}
+
+/**
+ * CDP's invokeContract takes args keyed by ABI input name, numbers as strings
+ */
+function toNamedArgs(request: ContractWrite): Record<string, any> {
+  const fn = request.abi.find(
+    (item): item is AbiFunction => item.type === 'function' && item.name === request.functionName
+  );
+  if (!fn) {
+    throw new Error(`Function ${request.functionName} not found in ABI`);
+  }
+
+  const stringify = (value: unknown): any =>
+    Array.isArray(value) ? value.map(stringify) : typeof value === 'bigint' ? value.toString() : value;
+
+  return Object.fromEntries(
+    fn.inputs.map((input, index) => [input.name || `arg${index}`, stringify(request.args[index])])
+  );
+}
+
+/**
+ * Pick the transaction signer from SIGNER (cdp in production, local otherwise)
+ */
+export function createSigner(name: string = config.SIGNER): TransactionSigner {
+  switch (name as SignerName) {
+    case 'cdp': {
+      const publicClient = getPublicClient();
+      if (!publicClient) {
+        throw new Error('SIGNER=cdp requires BASE_RPC_URL');
+      }
+      return new CdpSigner(publicClient);
+    }
+    case 'local': {
+      if (config.NODE_ENV === 'production' && !config.LOCAL_SIGNER_PRIVATE_KEY) {
+        throw new Error('SIGNER=local requires LOCAL_SIGNER_PRIVATE_KEY in production');
+      }
+      const privateKey = (config.LOCAL_SIGNER_PRIVATE_KEY || HARDHAT_DEFAULT_PRIVATE_KEY) as `0x${string}`;
+      return new LocalSigner(config.LOCAL_RPC_URL, privateKey);
+    }
+    default:
+      throw new Error(`Unsupported SIGNER: ${name}`);
+  }
+}
@@ -0,0 +1,151 @@
+import { config } from '@/config';
+import { Collection, Database, database } from '@/services/database';
+
+export interface SnapQuotaSubject {
+  fid: number;
+  walletAddress?: string;
+  venueId?: string;
+}
+
+export type SnapQuotaViolation = 'daily_fid_limit' | 'daily_wallet_limit' | 'venue_cooldown';
+
+export interface SnapQuotaDecision {
+  allowed: boolean;
+  reason?: SnapQuotaViolation;
+  message?: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date; // Next UTC day for daily limits, end of cooldown for venue limits
+  retryAfterSeconds: number;
+  reservationId?: string;
+}
+
+interface SnapQuotaRecord {
+  id: string;
+  fid: number;
+  walletAddress?: string;
+  venueId?: string;
+  createdAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Server-side snap limits, mirroring RewardsController on-chain checks:
+ * MAX_SNAPS_PER_DAY per fid and per wallet (UTC days, like `block.timestamp / 1 days`)
+ * and a per-venue cooldown matching `canUserClaimAt`.
+ */
+export class SnapQuotaService {
+  private records: Collection<SnapQuotaRecord>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(db: Database = database) {
+    this.records = db.collection<SnapQuotaRecord>('snap_quota');
+  }
+
+  /**
+   * Check limits without consuming quota
+   */
+  async check(subject: SnapQuotaSubject, now: Date = new Date()): Promise<SnapQuotaDecision> {
+    const dayStart = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+    const nextDay = new Date(dayStart + DAY_MS);
+    const limit = config.VALIDATION.MAX_SNAPS_PER_DAY;
+    const wallet = subject.walletAddress?.toLowerCase();
+
+    const recent = await this.records.find(record =>
+      record.createdAt.getTime() >= Math.min(dayStart, now.getTime() - this.cooldownMs()) &&
+      (record.fid === subject.fid || (!!wallet && record.walletAddress === wallet))
+    );
+    const today = recent.filter(record => record.createdAt.getTime() >= dayStart);
+
+    const fidUsed = today.filter(record => record.fid === subject.fid).length;
+    const walletUsed = wallet ? today.filter(record => record.walletAddress === wallet).length : 0;
+    const used = Math.max(fidUsed, walletUsed);
+
+    const decision = (
+      reason: SnapQuotaViolation | undefined,
+      resetAt: Date,
+      message?: string
+    ): SnapQuotaDecision => ({
+      allowed: !reason,
+      reason,
+      message,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetAt,
+      retryAfterSeconds: reason ? Math.max(0, Math.ceil((resetAt.getTime() - now.getTime()) / 1000)) : 0,
+    });
+
+    if (fidUsed >= limit) {
+      return decision('daily_fid_limit', nextDay, `Daily limit of ${limit} snaps reached`);
+    }
+
+    if (walletUsed >= limit) {
+      return decision('daily_wallet_limit', nextDay, `Daily limit of ${limit} snaps reached for this wallet`);
+    }
+
+    if (subject.venueId) {
+      const lastAtVenue = recent
+        .filter(record => record.venueId === subject.venueId)
+        .reduce((latest, record) => Math.max(latest, record.createdAt.getTime()), 0);
+      const cooldownEnds = lastAtVenue + this.cooldownMs();
+
+      if (lastAtVenue > 0 && now.getTime() < cooldownEnds) {
+        return decision(
+          'venue_cooldown',
+          new Date(cooldownEnds),
+          `Please wait ${config.VALIDATION.VENUE_COOLDOWN_MINUTES} minutes between snaps at the same venue`
+        );
+      }
+    }
+
+    return decision(undefined, nextDay);
+  }
+
+  /**
+   * Check limits and, if allowed, consume one snap of quota.
+   * Reservations are serialized so concurrent uploads can't both slip under the limit.
+   */
+  async reserve(subject: SnapQuotaSubject, now: Date = new Date()): Promise<SnapQuotaDecision> {
+    const run = this.queue.then(async () => {
+      const decision = await this.check(subject, now);
+      if (!decision.allowed) {
+        return decision;
+      }
+
+      const record = await this.records.insert({
+        id: `quota_${now.getTime()}_${Math.random().toString(36).substring(2)}`,
+        fid: subject.fid,
+        walletAddress: subject.walletAddress?.toLowerCase() || undefined,
+        venueId: subject.venueId,
+        createdAt: now,
+      });
+
+      return {
+        ...decision,
+        used: decision.used + 1,
+        remaining: Math.max(0, decision.remaining - 1),
+        reservationId: record.id,
+      };
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Give back a reservation when the snap is rejected or fails
+   */
+  async release(reservationId: string): Promise<void> {
+    await this.records.delete(reservationId);
+  }
+
+  private cooldownMs(): number {
+    return config.VALIDATION.VENUE_COOLDOWN_MINUTES * 60 * 1000;
+  }
+}
+
+// Export singleton instance
+export const snapQuotaService = new SnapQuotaService();
@@ -0,0 +1,368 @@
+import { CoffeeSnap, RewardBreakdown, SnapEngagement, User, ValidationError } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+
+export interface SnapListQuery {
+  userId?: string;
+  venueId?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface SnapListResult {
+  snaps: CoffeeSnap[];
+  total: number;
+}
+
+export type FeedSort = 'recent' | 'engagement';
+
+export interface FeedQuery {
+  userId?: string;
+  venueId?: string;
+  city?: string;
+  state?: string;
+  coffeeType?: string;
+  authorFid?: number;
+  authorFids?: number[]; // Restrict to these authors (e.g. accounts the viewer follows)
+  sort?: FeedSort;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface FeedPage {
+  snaps: CoffeeSnap[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface UserSnapStats {
+  totalSnaps: number;
+  totalRewards: string;
+  avgPerDay: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  fid: number;
+  snapCount: number;
+  totalRewards: string;
+  pfpUrl?: string;
+}
+
+export type SnapAuthorProfile = Partial<Pick<User, 'username' | 'displayName' | 'pfpUrl' | 'walletAddress'>>;
+
+/**
+ * Persistence contract for coffee snaps and their authors
+ */
+export interface SnapRepository {
+  saveSnap(snap: CoffeeSnap, author?: SnapAuthorProfile): Promise<CoffeeSnap>;
+  getSnap(snapId: string): Promise<CoffeeSnap | null>;
+  listSnaps(query?: SnapListQuery): Promise<SnapListResult>;
+  queryFeed(query?: FeedQuery): Promise<FeedPage>;
+  updateEngagement(snapId: string, engagement: Partial<SnapEngagement>, castHash?: string): Promise<CoffeeSnap | null>;
+  updateReward(snapId: string, breakdown: RewardBreakdown): Promise<CoffeeSnap | null>;
+  getUserStats(userId: string): Promise<UserSnapStats>;
+  getLeaderboard(since: Date | null, limit: number): Promise<LeaderboardEntry[]>;
+  getUser(userId: string): Promise<User | null>;
+  updateUser(userId: string, update: (user: User) => User): Promise<User | null>;
+}
+
+const addAmounts = (a: string | undefined, b: string | undefined): string =>
+  (parseFloat(a || '0') + parseFloat(b || '0')).toString();
+
+// Weights for ordering the feed by engagement
+const ENGAGEMENT_WEIGHTS: SnapEngagement = {
+  likes: 1,
+  recasts: 2,
+  replies: 2,
+  tips: 3,
+};
+
+const EMPTY_ENGAGEMENT: SnapEngagement = { likes: 0, recasts: 0, replies: 0, tips: 0 };
+
+interface FeedCursor {
+  sort: FeedSort;
+  score: number;
+  timestamp: number;
+  id: string;
+}
+
+const engagementScore = (snap: CoffeeSnap): number => {
+  const engagement = snap.engagement || EMPTY_ENGAGEMENT;
+  return engagement.likes * ENGAGEMENT_WEIGHTS.likes +
+    engagement.recasts * ENGAGEMENT_WEIGHTS.recasts +
+    engagement.replies * ENGAGEMENT_WEIGHTS.replies +
+    engagement.tips * ENGAGEMENT_WEIGHTS.tips;
+};
+
+const feedKey = (snap: CoffeeSnap, sort: FeedSort): FeedCursor => ({
+  sort,
+  score: sort === 'engagement' ? engagementScore(snap) : 0,
+  timestamp: snap.timestamp.getTime(),
+  id: snap.id,
+});
+
+/**
+ * Order feed keys descending by score, then recency, then ID as a stable tiebreaker
+ */
+const compareFeedKeys = (a: FeedCursor, b: FeedCursor): number =>
+  b.score - a.score ||
+  b.timestamp - a.timestamp ||
+  (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const encodeCursor = (cursor: FeedCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string, sort: FeedSort): FeedCursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      cursor.sort === sort &&
+      typeof cursor.score === 'number' &&
+      typeof cursor.timestamp === 'number' &&
+      typeof cursor.id === 'string'
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the validation error below
+  }
+  throw new ValidationError('Invalid or mismatched feed cursor', 'cursor');
+};
+
+const sameText = (a: string | undefined, b: string | undefined): boolean =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Snap repository backed by the configured document database
+ */
+export class DocumentSnapRepository implements SnapRepository {
+  private snaps: Collection<CoffeeSnap>;
+  private users: Collection<User>;
+
+  constructor(db: Database = database) {
+    this.snaps = db.collection<CoffeeSnap>('snaps');
+    this.users = db.collection<User>('users');
+  }
+
+  /**
+   * Persist a snap and roll its reward into the author's totals
+   */
+  async saveSnap(snap: CoffeeSnap, author: SnapAuthorProfile = {}): Promise<CoffeeSnap> {
+    const saved = await this.snaps.insert(snap);
+    const now = new Date();
+    const existing = await this.users.get(snap.userId);
+
+    const user: User = existing
+      ? {
+          ...existing,
+          ...this.definedFields(author),
+          // Snap input only fills in a missing wallet; rewards and coupons pay out to the one on file
+          walletAddress: existing.walletAddress || author.walletAddress || '',
+          lastActiveAt: now,
+        }
+      : {
+          id: snap.userId,
+          fid: snap.fid,
+          username: author.username || `user${snap.fid}`,
+          displayName: author.displayName,
+          pfpUrl: author.pfpUrl,
+          walletAddress: author.walletAddress || '',
+          totalSnaps: 0,
+          totalTokens: '0',
+          totalCoupons: 0,
+          joinedAt: now,
+          lastActiveAt: now,
+        };
+
+    if (snap.validated) {
+      user.totalSnaps += 1;
+      user.totalTokens = addAmounts(user.totalTokens, snap.rewardAmount);
+    }
+
+    await this.users.upsert(user);
+    return saved;
+  }
+
+  /**
+   * Get a single snap by ID
+   */
+  async getSnap(snapId: string): Promise<CoffeeSnap | null> {
+    return this.snaps.get(snapId);
+  }
+
+  /**
+   * List snaps newest first with optional user/venue filters
+   */
+  async listSnaps(query: SnapListQuery = {}): Promise<SnapListResult> {
+    const { userId, venueId, offset = 0, limit = 20 } = query;
+
+    const matches = await this.snaps.find(snap =>
+      (!userId || snap.userId === userId) &&
+      (!venueId || snap.location.venueId === venueId)
+    );
+
+    matches.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return {
+      snaps: matches.slice(offset, offset + limit),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Keyset-paginated feed of validated snaps
+   * Cursors encode the last returned sort key, so pages never overlap or skip
+   * snaps inserted while a client is scrolling.
+   */
+  async queryFeed(query: FeedQuery = {}): Promise<FeedPage> {
+    const sort = query.sort || 'recent';
+    const limit = query.limit || 20;
+    const after = query.cursor ? decodeCursor(query.cursor, sort) : null;
+    const authorFids = query.authorFids ? new Set(query.authorFids) : null;
+
+    const matches = await this.snaps.find(snap =>
+      snap.validated &&
+      (!query.userId || snap.userId === query.userId) &&
+      (!query.venueId || snap.location.venueId === query.venueId) &&
+      (!query.city || sameText(snap.location.city, query.city)) &&
+      (!query.state || sameText(snap.location.state, query.state)) &&
+      (!query.coffeeType || sameText(snap.coffeeType, query.coffeeType)) &&
+      (query.authorFid === undefined || snap.fid === query.authorFid) &&
+      (!authorFids || authorFids.has(snap.fid))
+    );
+
+    const ordered = matches
+      .map(snap => ({ snap, key: feedKey(snap, sort) }))
+      .filter(({ key }) => !after || compareFeedKeys(after, key) > 0)
+      .sort((a, b) => compareFeedKeys(a.key, b.key));
+
+    const page = ordered.slice(0, limit);
+    const hasMore = ordered.length > limit;
+    const last = page[page.length - 1];
+
+    return {
+      snaps: page.map(({ snap }) => snap),
+      nextCursor: hasMore && last ? encodeCursor(last.key) : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Merge Farcaster engagement counts into a snap
+   */
+  async updateEngagement(
+    snapId: string,
+    engagement: Partial<SnapEngagement>,
+    castHash?: string
+  ): Promise<CoffeeSnap | null> {
+    return this.snaps.update(snapId, snap => ({
+      ...snap,
+      castHash: castHash || snap.castHash,
+      engagement: { ...EMPTY_ENGAGEMENT, ...snap.engagement, ...engagement },
+    }));
+  }
+
+  /**
+   * Re-price a saved snap and move the difference into the author's token total
+   */
+  async updateReward(snapId: string, breakdown: RewardBreakdown): Promise<CoffeeSnap | null> {
+    const existing = await this.snaps.get(snapId);
+    if (!existing) return null;
+
+    const updated = await this.snaps.update(snapId, {
+      rewardAmount: breakdown.total,
+      rewardBreakdown: breakdown,
+    });
+    if (existing.validated) {
+      await this.users.update(existing.userId, user => ({
+        ...user,
+        totalTokens: (
+          parseFloat(addAmounts(user.totalTokens, breakdown.total)) - parseFloat(existing.rewardAmount || '0')
+        ).toString(),
+      }));
+    }
+    return updated;
+  }
+
+  /**
+   * Aggregate snap statistics for a user
+   */
+  async getUserStats(userId: string): Promise<UserSnapStats> {
+    const snaps = await this.snaps.find(snap => snap.userId === userId && snap.validated);
+
+    if (snaps.length === 0) {
+      return { totalSnaps: 0, totalRewards: '0', avgPerDay: '0' };
+    }
+
+    const firstSnapAt = Math.min(...snaps.map(snap => snap.timestamp.getTime()));
+    const activeDays = Math.max(1, Math.ceil((Date.now() - firstSnapAt) / 86400000));
+    const totalRewards = snaps.reduce((sum, snap) => addAmounts(sum, snap.rewardAmount), '0');
+
+    return {
+      totalSnaps: snaps.length,
+      totalRewards,
+      avgPerDay: (snaps.length / activeDays).toFixed(1),
+    };
+  }
+
+  /**
+   * Rank users by validated snaps since the given date (all time when null)
+   */
+  async getLeaderboard(since: Date | null, limit: number): Promise<LeaderboardEntry[]> {
+    const snaps = await this.snaps.find(snap =>
+      snap.validated && (!since || snap.timestamp >= since)
+    );
+
+    const totals = new Map<string, { fid: number; snapCount: number; totalRewards: string }>();
+    for (const snap of snaps) {
+      const entry = totals.get(snap.userId) || { fid: snap.fid, snapCount: 0, totalRewards: '0' };
+      entry.snapCount += 1;
+      entry.totalRewards = addAmounts(entry.totalRewards, snap.rewardAmount);
+      totals.set(snap.userId, entry);
+    }
+
+    const ranked = Array.from(totals.entries())
+      .sort(([, a], [, b]) =>
+        b.snapCount - a.snapCount || parseFloat(b.totalRewards) - parseFloat(a.totalRewards)
+      )
+      .slice(0, limit);
+
+    return Promise.all(ranked.map(async ([userId, entry], index) => {
+      const user = await this.users.get(userId);
+      return {
+        rank: index + 1,
+        userId,
+        username: user?.username || `user${entry.fid}`,
+        fid: entry.fid,
+        snapCount: entry.snapCount,
+        totalRewards: entry.totalRewards,
+        pfpUrl: user?.pfpUrl,
+      };
+    }));
+  }
+
+  /**
+   * Get a user record by ID
+   */
+  async getUser(userId: string): Promise<User | null> {
+    return this.users.get(userId);
+  }
+
+  /**
+   * Apply an update to an existing user record
+   */
+  async updateUser(userId: string, update: (user: User) => User): Promise<User | null> {
+    return this.users.update(userId, update);
+  }
+
+  private definedFields(author: SnapAuthorProfile): SnapAuthorProfile {
+    return Object.fromEntries(
+      Object.entries(author).filter(([, value]) => value !== undefined && value !== '')
+    ) as SnapAuthorProfile;
+  }
+}
+
+// Export singleton instance
+export const snapRepository: SnapRepository = new DocumentSnapRepository();
@@ -0,0 +1,82 @@
+import { CoffeeSnap } from '@/types';
+import { Database } from '@/services/database';
+import { RewardPolicy } from '@/services/reward-policy';
+import { RewardLedgerService } from '@/services/reward-ledger';
+import { DocumentSnapRepository } from '@/services/snap-repository';
+import { SnapRewardService } from '@/services/snap-rewards';
+import { StreakService } from '@/services/streaks';
+
+const policy: RewardPolicy = {
+  baseAmount: '10',
+  qualityBonus: '5',
+  qualityConfidence: 0.9,
+  newVenueBonus: '10',
+  streakBonusPerDay: '2',
+  streakMaxDays: 14,
+};
+
+describe('SnapRewardService', () => {
+  let snaps: DocumentSnapRepository;
+  let streaks: StreakService;
+  let ledger: RewardLedgerService;
+  let rewards: SnapRewardService;
+
+  beforeEach(() => {
+    const db = new Database({ driver: 'memory' });
+    snaps = new DocumentSnapRepository(db);
+    streaks = new StreakService(db);
+    ledger = new RewardLedgerService(db);
+    rewards = new SnapRewardService(snaps, streaks, ledger, policy);
+  });
+
+  const snap = (id: string, timestamp: string): CoffeeSnap => ({
+    id,
+    userId: 'user_1',
+    fid: 1,
+    imageUrl: `https://example.com/${id}.jpg`,
+    imageHash: id,
+    location: { venueId: 'venue_1', venueName: 'Cafe' },
+    timestamp: new Date(timestamp),
+    validated: true,
+  });
+
+  it('does not record the streak day until the snap is credited', async () => {
+    const first = snap('snap_1', '2025-06-01T12:00:00Z');
+
+    await rewards.assess(first, 0.5, 'UTC');
+    expect((await streaks.getStreak('user_1', first.timestamp)).currentStreak).toBe(0);
+
+    await snaps.saveSnap(first);
+    const { streak } = await rewards.credit(first, 'UTC');
+    expect(streak.currentStreak).toBe(1);
+    expect((await streaks.getStreak('user_1', first.timestamp)).snappedToday).toBe(true);
+  });
+
+  it('re-prices a snap whose streak day was recorded by another snap first', async () => {
+    const seed = snap('snap_0', '2025-06-01T12:00:00Z');
+    await rewards.assess(seed, 0.5, 'UTC');
+    await snaps.saveSnap(seed);
+    await rewards.credit(seed, 'UTC');
+
+    // Both snaps are assessed as extending the streak to day 2
+    const first = snap('snap_1', '2025-06-02T09:00:00Z');
+    const second = snap('snap_2', '2025-06-02T09:05:00Z');
+    await rewards.assess(first, 0.5, 'UTC');
+    await rewards.assess(second, 0.5, 'UTC');
+    expect(second.rewardAmount).toBe('14');
+
+    await snaps.saveSnap(first);
+    await snaps.saveSnap(second);
+    await rewards.credit(first, 'UTC');
+    const credited = await rewards.credit(second, 'UTC');
+
+    expect(credited.breakdown.total).toBe('10');
+    expect(credited.entry.amount).toBe('10');
+    expect((await snaps.getSnap('snap_2'))?.rewardAmount).toBe('10');
+    expect((await snaps.getUser('user_1'))?.totalTokens).toBe('44');
+  });
+
+  it('refuses to credit a snap that was never assessed', async () => {
+    await expect(rewards.credit(snap('snap_1', '2025-06-01T12:00:00Z'))).rejects.toThrow('must be assessed');
+  });
+});
@@ -0,0 +1,85 @@
+import { CoffeeSnap, RewardBreakdown, RewardLedgerEntry } from '@/types';
+import { calculateReward, DEFAULT_REWARD_POLICY, RewardPolicy } from '@/services/reward-policy';
+import { RewardLedgerService, rewardLedger } from '@/services/reward-ledger';
+import { SnapRepository, snapRepository } from '@/services/snap-repository';
+import { StreakService, StreakUpdate, streakService } from '@/services/streaks';
+
+export interface SnapRewardAssessment {
+  breakdown: RewardBreakdown;
+  streak: StreakUpdate;
+}
+
+export interface SnapRewardCredit extends SnapRewardAssessment {
+  entry: RewardLedgerEntry;
+}
+
+/**
+ * Gathers the RewardPolicy inputs for a validated snap and credits the result.
+ * Amounts come only from the policy; nothing here is negotiable by clients or agents.
+ */
+export class SnapRewardService {
+  constructor(
+    private readonly snaps: SnapRepository = snapRepository,
+    private readonly streaks: StreakService = streakService,
+    private readonly ledger: RewardLedgerService = rewardLedger,
+    private readonly policy: RewardPolicy = DEFAULT_REWARD_POLICY
+  ) {}
+
+  /**
+   * Price the snap and set rewardAmount/rewardBreakdown, using a preview of its streak day.
+   * Call before the snap is saved so the venue check doesn't see the snap itself;
+   * nothing is recorded until credit.
+   */
+  async assess(snap: CoffeeSnap, confidence: number, timezone?: string): Promise<SnapRewardAssessment> {
+    const { snaps: venueSnaps } = await this.snaps.queryFeed({ venueId: snap.location.venueId, limit: 1 });
+    const streak = await this.streaks.previewSnap(snap.userId, snap.fid, snap.timestamp, timezone);
+    return { breakdown: this.price(snap, confidence, venueSnaps.length === 0, streak), streak };
+  }
+
+  /**
+   * Record the saved snap's streak day and credit it to the reward ledger (idempotent per snap).
+   * If a concurrent snap recorded the day first, the streak bonus is re-priced from what was recorded.
+   */
+  async credit(snap: CoffeeSnap, timezone?: string): Promise<SnapRewardCredit> {
+    const assessed = snap.rewardBreakdown;
+    if (!assessed) {
+      throw new Error(`Snap ${snap.id} must be assessed before it is credited`);
+    }
+
+    const streak = await this.streaks.recordSnap(snap.userId, snap.fid, snap.timestamp, timezone);
+    const { inputs } = assessed;
+    let breakdown = assessed;
+    if (inputs.streakDays !== streak.currentStreak || inputs.streakExtended !== streak.extended) {
+      breakdown = this.price(snap, inputs.confidence, inputs.isNewVenue, streak);
+      await this.snaps.updateReward(snap.id, breakdown);
+    }
+
+    const entry = await this.ledger.append({
+      userId: snap.userId,
+      reason: 'coffee_snap',
+      amount: breakdown.total,
+      referenceId: snap.id,
+      metadata: { breakdown: breakdown.items },
+    });
+    return { entry, breakdown, streak };
+  }
+
+  private price(snap: CoffeeSnap, confidence: number, isNewVenue: boolean, streak: StreakUpdate): RewardBreakdown {
+    const breakdown = calculateReward(
+      {
+        confidence,
+        isNewVenue,
+        streakDays: streak.currentStreak,
+        streakExtended: streak.extended,
+      },
+      this.policy
+    );
+
+    snap.rewardAmount = breakdown.total;
+    snap.rewardBreakdown = breakdown;
+    return breakdown;
+  }
+}
+
+// Export singleton instance
+export const snapRewardService = new SnapRewardService();
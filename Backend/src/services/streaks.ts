@@ -0,0 +1,196 @@
+import { config } from '@/config';
+import { UserStreak } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakSummary {
+  currentStreak: number; // 0 once the grace period has passed without a snap
+  longestStreak: number;
+  lastSnapDay: string | null;
+  snappedToday: boolean;
+  keepAliveUntil: string | null; // Last local day a snap still extends the streak
+  timezone: string;
+}
+
+export interface StreakUpdate extends StreakSummary {
+  extended: boolean; // First snap of a new local day (the streak bonus applies, see RewardPolicy)
+}
+
+/**
+ * Check that a string is an IANA timezone Intl understands
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) of an instant in a timezone
+ */
+export function localDay(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const addDays = (day: string, days: number): string =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().substring(0, 10);
+
+/**
+ * Tracks consecutive snap days per user.
+ * Days are bucketed in the user's timezone; up to GRACE_DAYS missed days
+ * between snap days keep the streak alive (missed days don't count towards it).
+ * The timezone is taken from the first snap and can then change at most once per
+ * TIMEZONE_CHANGE_DAYS; otherwise the client's value is ignored.
+ */
+export class StreakService {
+  private streaks: Collection<UserStreak>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(db: Database = database) {
+    this.streaks = db.collection<UserStreak>('streaks');
+  }
+
+  /**
+   * Record a validated snap; serialized so same-day snaps can't double-extend
+   */
+  async recordSnap(userId: string, fid: number, timestamp: Date, timezone?: string): Promise<StreakUpdate> {
+    const run = this.queue.then(() => this.applySnap(userId, fid, timestamp, timezone));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * What recordSnap would return for a snap, without recording it
+   */
+  async previewSnap(userId: string, fid: number, timestamp: Date, timezone?: string): Promise<StreakUpdate> {
+    const { record, extended } = this.nextRecord(await this.streaks.get(userId), userId, fid, timestamp, timezone);
+    return { ...this.summarize(record, timestamp), extended };
+  }
+
+  async getStreak(userId: string, now: Date = new Date()): Promise<StreakSummary> {
+    return this.summarize(await this.streaks.get(userId), now);
+  }
+
+  async getStreakByFid(fid: number, now: Date = new Date()): Promise<StreakSummary> {
+    const [record] = await this.streaks.find(streak => streak.fid === fid);
+    return this.summarize(record || null, now);
+  }
+
+  private async applySnap(userId: string, fid: number, timestamp: Date, timezone?: string): Promise<StreakUpdate> {
+    const { record, extended } = this.nextRecord(await this.streaks.get(userId), userId, fid, timestamp, timezone);
+    await this.streaks.upsert(record);
+    return { ...this.summarize(record, timestamp), extended };
+  }
+
+  private nextRecord(
+    existing: UserStreak | null,
+    userId: string,
+    fid: number,
+    timestamp: Date,
+    timezone?: string
+  ): { record: UserStreak; extended: boolean } {
+    const zone = this.resolveTimezone(timezone, existing, timestamp);
+    const timezoneChangedAt = existing && zone !== existing.timezone ? timestamp : existing?.timezoneChangedAt;
+    const day = localDay(timestamp, zone);
+
+    let record: UserStreak;
+    let extended = true;
+
+    if (!existing) {
+      record = {
+        id: userId,
+        userId,
+        fid,
+        timezone: zone,
+        currentStreak: 1,
+        longestStreak: 1,
+        lastSnapDay: day,
+        streakStartDay: day,
+        updatedAt: timestamp,
+      };
+    } else {
+      const gap = daysBetween(existing.lastSnapDay, day);
+
+      if (gap <= 0) {
+        // Same day (or a late, out-of-order snap): nothing to extend
+        extended = false;
+        record = { ...existing, timezone: zone, timezoneChangedAt, updatedAt: timestamp };
+      } else if (gap <= 1 + config.STREAKS.GRACE_DAYS) {
+        const currentStreak = existing.currentStreak + 1;
+        record = {
+          ...existing,
+          timezone: zone,
+          timezoneChangedAt,
+          currentStreak,
+          longestStreak: Math.max(existing.longestStreak, currentStreak),
+          lastSnapDay: day,
+          updatedAt: timestamp,
+        };
+      } else {
+        record = {
+          ...existing,
+          timezone: zone,
+          timezoneChangedAt,
+          currentStreak: 1,
+          lastSnapDay: day,
+          streakStartDay: day,
+          updatedAt: timestamp,
+        };
+      }
+    }
+
+    return { record, extended };
+  }
+
+  private summarize(record: UserStreak | null, now: Date): StreakSummary {
+    if (!record) {
+      return {
+        currentStreak: 0,
+        longestStreak: 0,
+        lastSnapDay: null,
+        snappedToday: false,
+        keepAliveUntil: null,
+        timezone: config.STREAKS.DEFAULT_TIMEZONE,
+      };
+    }
+
+    const today = localDay(now, record.timezone);
+    const keepAliveUntil = addDays(record.lastSnapDay, 1 + config.STREAKS.GRACE_DAYS);
+    const alive = daysBetween(today, keepAliveUntil) >= 0;
+
+    return {
+      currentStreak: alive ? record.currentStreak : 0,
+      longestStreak: record.longestStreak,
+      lastSnapDay: record.lastSnapDay,
+      snappedToday: record.lastSnapDay === today,
+      keepAliveUntil: alive ? keepAliveUntil : null,
+      timezone: record.timezone,
+    };
+  }
+
+  private resolveTimezone(requested: string | undefined, existing: UserStreak | null, now: Date): string {
+    const valid = requested && isValidTimezone(requested) ? requested : undefined;
+    if (!existing) return valid || config.STREAKS.DEFAULT_TIMEZONE;
+    if (!valid || valid === existing.timezone) return existing.timezone;
+
+    const lastChange = existing.timezoneChangedAt?.getTime();
+    const canChange = lastChange === undefined || now.getTime() - lastChange >= config.STREAKS.TIMEZONE_CHANGE_DAYS * DAY_MS;
+    return canChange ? valid : existing.timezone;
+  }
+}
+
+// Export singleton instance
+export const streakService = new StreakService();
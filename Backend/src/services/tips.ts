@@ -0,0 +1,628 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  encodeFunctionData,
+  formatUnits,
+  Hex,
+  isAddress,
+  isAddressEqual,
+  parseEventLogs,
+  parseSignature,
+  parseUnits,
+  PublicClient,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
+} from 'viem';
+import { config } from '@/config';
+import { ContractError, NotFoundError, TipRecord, TipStatus, ValidationError } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+import { chain, getPublicClient, isContractConfigured, usdcAbi } from '@/services/chain';
+import { createSigner, describeError, executeContractWrite, TransactionSigner } from '@/services/signer';
+
+const USDC_DECIMALS = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAILY_SERIES_DAYS = 30;
+
+export type TipDirection = 'sent' | 'received';
+export type EarningsWindow = '7d' | '30d' | 'all';
+
+export const EARNINGS_WINDOWS: EarningsWindow[] = ['7d', '30d', 'all'];
+
+const WINDOW_DAYS: Record<EarningsWindow, number | null> = { '7d': 7, '30d': 30, all: null };
+
+export interface PrepareTipInput {
+  fromAddress: string;
+  fromFid: number | null;
+  toUserId: number;
+  toAddress: string;
+  amount: string;
+  settlement: TipRecord['settlement'];
+}
+
+// What the sender's wallet submits for a client-settled tip
+export interface TipTransfer {
+  chainId: number;
+  tokenAddress: string;
+  to: string;
+  amount: string;
+  amountUnits: string; // USDC base units (6 decimals)
+  data: Hex; // Encoded USDC transfer(to, value)
+}
+
+// EIP-712 TransferWithAuthorization the sender signs for a relayed tip
+export interface TipAuthorization {
+  domain: { name: string; version: string; chainId: number; verifyingContract: string };
+  types: { TransferWithAuthorization: Array<{ name: string; type: string }> };
+  primaryType: 'TransferWithAuthorization';
+  message: { from: string; to: string; value: string; validAfter: string; validBefore: string; nonce: string };
+}
+
+export interface TipHistoryQuery {
+  direction: TipDirection;
+  fid: number;
+  address?: string; // The user's wallet; sent tips made without a Farcaster sign-in match on it
+  status?: TipStatus;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TipHistoryPage {
+  tips: TipRecord[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface EarningsSummary {
+  total: string; // USDC, decimal string
+  count: number;
+  supporters: number; // Distinct senders
+}
+
+export interface CreatorEarnings {
+  fid: number;
+  windows: Record<EarningsWindow, EarningsSummary>;
+  daily: Array<{ date: string; total: string; count: number }>; // Last 30 UTC days, oldest first
+}
+
+export interface TipSupporter {
+  fromFid: number | null;
+  fromAddress: string;
+  total: string;
+  count: number;
+  lastTipAt: Date;
+}
+
+// Shareable proof of a tip; everything in it can be checked against the explorer link
+export interface TipReceipt {
+  receiptId: string;
+  tipId: string;
+  status: TipStatus;
+  amount: string;
+  currency: 'USDC';
+  chainId: number;
+  network: string;
+  tokenAddress: string;
+  from: { address: string; fid: number | null };
+  to: { address: string; fid: number; name: string | null };
+  transactionHash: string | null;
+  blockNumber: string | null;
+  explorerUrl: string | null;
+  shareUrl: string;
+  shareText: string | null; // Only for confirmed tips
+  createdAt: string;
+  confirmedAt: string | null;
+}
+
+export interface TipUpdate {
+  tip: TipRecord;
+  changed: boolean; // Whether this call moved the tip out of pending
+}
+
+interface TipHistoryCursor {
+  direction: TipDirection;
+  timestamp: number;
+  id: string;
+}
+
+const historyKey = (tip: TipRecord, direction: TipDirection): TipHistoryCursor => ({
+  direction,
+  timestamp: tip.createdAt.getTime(),
+  id: tip.id,
+});
+
+/**
+ * Order history keys newest first, with the ID as a stable tiebreaker
+ */
+const compareHistoryKeys = (a: TipHistoryCursor, b: TipHistoryCursor): number =>
+  b.timestamp - a.timestamp ||
+  (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const encodeCursor = (cursor: TipHistoryCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string, direction: TipDirection): TipHistoryCursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursor.direction === direction && typeof cursor.timestamp === 'number' && typeof cursor.id === 'string') {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the validation error below
+  }
+  throw new ValidationError('Invalid or mismatched tip history cursor', 'cursor');
+};
+
+const tipUnits = (tip: TipRecord): bigint => parseUnits(tip.amount, USDC_DECIMALS);
+
+// Tips count toward earnings from the moment they were confirmed
+const earnedAt = (tip: TipRecord): Date => tip.confirmedAt || tip.createdAt;
+
+// Senders are grouped by fid when they tipped signed in with Farcaster, otherwise by wallet
+const supporterKey = (tip: TipRecord): string =>
+  tip.fromFid !== null ? `fid:${tip.fromFid}` : tip.fromAddress.toLowerCase();
+
+/**
+ * USDC tips settled on Base.
+ * A tip starts pending and is only confirmed once a receipt shows the exact
+ * USDC Transfer (sender -> recipient, amount); a reverted or mismatched
+ * transaction fails it. Senders either submit the transfer themselves and
+ * report the hash, or sign an EIP-3009 authorization that the backend relays.
+ */
+export class TipService {
+  private tips: Collection<TipRecord>;
+  private signer: TransactionSigner | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    db: Database = database,
+    private readonly signerFactory: () => TransactionSigner = createSigner,
+    private readonly clientFactory: () => PublicClient | null = getPublicClient
+  ) {
+    this.tips = db.collection<TipRecord>('tips');
+  }
+
+  async getTip(tipId: string): Promise<TipRecord> {
+    const tip = await this.tips.get(tipId);
+    if (!tip) {
+      throw new NotFoundError(`Tip ${tipId} not found`);
+    }
+    return tip;
+  }
+
+  /**
+   * A user's sent or received tips, newest first.
+   * Cursors encode the last returned tip, so pages stay stable while new tips arrive.
+   */
+  async listHistory(query: TipHistoryQuery): Promise<TipHistoryPage> {
+    const limit = query.limit || 20;
+    const after = query.cursor ? decodeCursor(query.cursor, query.direction) : null;
+    const address = query.address?.toLowerCase();
+
+    const matches = await this.tips.find(tip =>
+      (query.direction === 'received'
+        ? tip.toUserId === query.fid
+        : tip.fromFid === query.fid || (!!address && tip.fromAddress.toLowerCase() === address)) &&
+      (!query.status || tip.status === query.status)
+    );
+
+    const page = matches
+      .filter(tip => !after || compareHistoryKeys(after, historyKey(tip, query.direction)) < 0)
+      .sort((a, b) => compareHistoryKeys(historyKey(a, query.direction), historyKey(b, query.direction)))
+      .slice(0, limit + 1);
+
+    const hasMore = page.length > limit;
+    const tips = page.slice(0, limit);
+    const last = tips[tips.length - 1];
+    return {
+      tips,
+      nextCursor: hasMore && last ? encodeCursor(historyKey(last, query.direction)) : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Confirmed tips a creator received over 7 days, 30 days and all time, plus a daily series
+   */
+  async getEarnings(fid: number, now: Date = new Date()): Promise<CreatorEarnings> {
+    const received = await this.tips.find(tip => tip.toUserId === fid && tip.status === 'confirmed');
+
+    const windows = {} as Record<EarningsWindow, EarningsSummary>;
+    for (const window of EARNINGS_WINDOWS) {
+      const tips = received.filter(tip => this.inWindow(tip, window, now));
+      windows[window] = {
+        total: formatUnits(tips.reduce((sum, tip) => sum + tipUnits(tip), 0n), USDC_DECIMALS),
+        count: tips.length,
+        supporters: new Set(tips.map(supporterKey)).size,
+      };
+    }
+
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const daily = Array.from({ length: DAILY_SERIES_DAYS }, (_, index) => {
+      const start = today - (DAILY_SERIES_DAYS - 1 - index) * DAY_MS;
+      const tips = received.filter(tip => {
+        const time = earnedAt(tip).getTime();
+        return time >= start && time < start + DAY_MS;
+      });
+      return {
+        date: new Date(start).toISOString().slice(0, 10),
+        total: formatUnits(tips.reduce((sum, tip) => sum + tipUnits(tip), 0n), USDC_DECIMALS),
+        count: tips.length,
+      };
+    });
+
+    return { fid, windows, daily };
+  }
+
+  /**
+   * A creator's biggest supporters by confirmed tip total within the window
+   */
+  async getTopSupporters(
+    fid: number,
+    window: EarningsWindow = 'all',
+    limit: number = 10,
+    now: Date = new Date()
+  ): Promise<TipSupporter[]> {
+    const received = await this.tips.find(tip =>
+      tip.toUserId === fid && tip.status === 'confirmed' && this.inWindow(tip, window, now)
+    );
+
+    const supporters = new Map<string, { fromFid: number | null; fromAddress: string; units: bigint; count: number; lastTipAt: Date }>();
+    for (const tip of received) {
+      const key = supporterKey(tip);
+      const entry = supporters.get(key) || {
+        fromFid: tip.fromFid,
+        fromAddress: tip.fromAddress,
+        units: 0n,
+        count: 0,
+        lastTipAt: earnedAt(tip),
+      };
+      entry.units += tipUnits(tip);
+      entry.count++;
+      if (earnedAt(tip) >= entry.lastTipAt) {
+        entry.lastTipAt = earnedAt(tip);
+        entry.fromAddress = tip.fromAddress; // Most recent wallet for fid-grouped senders
+      }
+      supporters.set(key, entry);
+    }
+
+    return [...supporters.values()]
+      .sort((a, b) => (a.units === b.units ? b.lastTipAt.getTime() - a.lastTipAt.getTime() : a.units > b.units ? -1 : 1))
+      .slice(0, limit)
+      .map(({ units, ...supporter }) => ({ ...supporter, total: formatUnits(units, USDC_DECIMALS) }));
+  }
+
+  /**
+   * Shareable receipt for a tip; recipientName is used in the share text when known
+   */
+  buildReceipt(tip: TipRecord, recipientName: string | null = null): TipReceipt {
+    const explorer = chain.blockExplorers?.default.url;
+    const recipient = recipientName || `fid ${tip.toUserId}`;
+
+    return {
+      receiptId: `receipt_${tip.id.replace(/^tip_/, '')}`,
+      tipId: tip.id,
+      status: tip.status,
+      amount: tip.amount,
+      currency: 'USDC',
+      chainId: chain.id,
+      network: chain.name,
+      tokenAddress: config.USDC.TOKEN_ADDRESS,
+      from: { address: tip.fromAddress, fid: tip.fromFid },
+      to: { address: tip.toAddress, fid: tip.toUserId, name: recipientName },
+      transactionHash: tip.transactionHash || null,
+      blockNumber: tip.blockNumber || null,
+      explorerUrl: explorer && tip.transactionHash ? `${explorer}/tx/${tip.transactionHash}` : null,
+      shareUrl: `${config.APP_URL}/profile/${tip.toUserId}?tip=${encodeURIComponent(tip.id)}`,
+      shareText: tip.status === 'confirmed'
+        ? `I just tipped ${tip.amount} USDC to ${recipient} on Snap Coffee ☕`
+        : null,
+      createdAt: tip.createdAt.toISOString(),
+      confirmedAt: tip.confirmedAt?.toISOString() || null,
+    };
+  }
+
+  /**
+   * Record a pending tip and return what the sender needs to settle it
+   */
+  async prepare(
+    input: PrepareTipInput,
+    now: Date = new Date()
+  ): Promise<{ tip: TipRecord; transfer: TipTransfer; authorization?: TipAuthorization }> {
+    if (!isAddress(input.fromAddress)) {
+      throw new ValidationError('Invalid sender address', 'fromAddress');
+    }
+    if (!isAddress(input.toAddress)) {
+      throw new ValidationError('Recipient has no valid wallet address', 'toUserId');
+    }
+    if (isAddressEqual(input.fromAddress, input.toAddress)) {
+      throw new ValidationError('You cannot tip yourself', 'toUserId');
+    }
+
+    const value = this.toUnits(input.amount);
+    const token = this.getTokenAddress();
+
+    // Best-effort balance check; the transfer itself is the real guard
+    const client = this.clientFactory();
+    if (client) {
+      const balance = await client
+        .readContract({ address: token, abi: usdcAbi, functionName: 'balanceOf', args: [input.fromAddress] })
+        .catch(() => null);
+      if (balance !== null && balance < value) {
+        throw new ValidationError(
+          `Insufficient USDC balance. Available: ${formatUnits(balance, USDC_DECIMALS)}, Required: ${input.amount}`,
+          'amount'
+        );
+      }
+    }
+
+    const validBefore = Math.floor(now.getTime() / 1000) + config.USDC.AUTHORIZATION_TTL_MINUTES * 60;
+    const tip = await this.tips.insert({
+      id: `tip_${randomUUID()}`,
+      fromAddress: input.fromAddress,
+      fromFid: input.fromFid,
+      toUserId: input.toUserId,
+      toAddress: input.toAddress,
+      amount: formatUnits(value, USDC_DECIMALS),
+      status: 'pending',
+      settlement: input.settlement,
+      ...(input.settlement === 'relay' && {
+        authorizationNonce: `0x${randomBytes(32).toString('hex')}`,
+        authorizationValidBefore: validBefore,
+      }),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const transfer: TipTransfer = {
+      chainId: chain.id,
+      tokenAddress: token,
+      to: tip.toAddress,
+      amount: tip.amount,
+      amountUnits: value.toString(),
+      data: encodeFunctionData({ abi: usdcAbi, functionName: 'transfer', args: [tip.toAddress as Hex, value] }),
+    };
+
+    console.log('Tip prepared:', { tipId: tip.id, from: tip.fromAddress, toUserId: tip.toUserId, amount: tip.amount });
+    return {
+      tip,
+      transfer,
+      ...(tip.settlement === 'relay' && { authorization: this.buildAuthorization(tip, value) }),
+    };
+  }
+
+  /**
+   * Verify a sender-submitted transaction; stays pending until the receipt exists.
+   * The reuse check and the write that claims the hash are serialized, so two tips
+   * can't be confirmed by one transaction.
+   */
+  async confirm(tipId: string, transactionHash: string, now: Date = new Date()): Promise<TipUpdate> {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(transactionHash)) {
+      throw new ValidationError('transactionHash must be a 32-byte hex hash', 'transactionHash');
+    }
+
+    const tip = await this.getTip(tipId);
+    if (tip.status !== 'pending') {
+      return { tip, changed: false };
+    }
+
+    const hash = transactionHash.toLowerCase() as Hex;
+    await this.assertUnusedHash(tip.id, hash);
+
+    const client = this.clientFactory();
+    if (!client) {
+      throw new ContractError('Tip verification requires BASE_RPC_URL', 'NOT_CONFIGURED');
+    }
+
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await client.getTransactionReceipt({ hash });
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) {
+        throw new ContractError(`Receipt lookup failed: ${describeError(error)}`, 'TRANSACTION_FAILED', undefined, hash);
+      }
+      receipt = null;
+    }
+
+    return this.serialize(async () => {
+      await this.assertUnusedHash(tip.id, hash);
+      if (!receipt) {
+        const pending = await this.tips.update(tip.id, { transactionHash: hash, updatedAt: now });
+        return { tip: pending || tip, changed: false };
+      }
+      return this.settle(tip.id, receipt, now);
+    });
+  }
+
+  /**
+   * Submit a signed TransferWithAuthorization from the backend signer
+   */
+  async relay(tipId: string, signature: string, now: Date = new Date()): Promise<TipUpdate> {
+    const tip = await this.getTip(tipId);
+    if (tip.status !== 'pending') {
+      return { tip, changed: false };
+    }
+    if (tip.settlement !== 'relay' || !tip.authorizationNonce || !tip.authorizationValidBefore) {
+      throw new ValidationError('This tip is settled from the sender wallet, not relayed', 'tipId');
+    }
+    if (tip.authorizationValidBefore <= Math.floor(now.getTime() / 1000)) {
+      return this.fail(tip.id, 'Authorization expired', now);
+    }
+
+    let parsed: ReturnType<typeof parseSignature>;
+    try {
+      parsed = parseSignature(signature as Hex);
+    } catch {
+      throw new ValidationError('signature must be a 65-byte hex signature', 'signature');
+    }
+    const v = Number(parsed.v ?? BigInt(27 + (parsed.yParity ?? 0)));
+
+    const signer = this.getSigner();
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await executeContractWrite(signer, {
+        address: this.getTokenAddress(),
+        abi: usdcAbi,
+        functionName: 'transferWithAuthorization',
+        args: [
+          tip.fromAddress,
+          tip.toAddress,
+          this.toUnits(tip.amount),
+          0n,
+          BigInt(tip.authorizationValidBefore),
+          tip.authorizationNonce,
+          v,
+          parsed.r,
+          parsed.s,
+        ],
+      }, 'Tip relay');
+    } catch (error) {
+      // A revert (bad signature, used nonce, insufficient funds) is final; other failures may be retried
+      if (error instanceof ContractError && error.code === 'REVERTED') {
+        return this.fail(tip.id, error.revertReason || error.message, now, error.transactionHash);
+      }
+      throw error;
+    }
+
+    return this.settle(tip.id, receipt, now);
+  }
+
+  private async settle(tipId: string, receipt: TransactionReceipt, now: Date): Promise<TipUpdate> {
+    const tip = await this.getTip(tipId);
+    const hash = receipt.transactionHash.toLowerCase();
+
+    if (receipt.status === 'reverted') {
+      return this.fail(tipId, 'Transaction reverted', now, hash);
+    }
+
+    const token = this.getTokenAddress();
+    const value = this.toUnits(tip.amount);
+    const matched = parseEventLogs({ abi: usdcAbi, eventName: 'Transfer', logs: receipt.logs }).some(log =>
+      isAddressEqual(log.address, token) &&
+      isAddressEqual(log.args.from, tip.fromAddress as Hex) &&
+      isAddressEqual(log.args.to, tip.toAddress as Hex) &&
+      log.args.value === value
+    );
+    if (!matched) {
+      return this.fail(tipId, 'Transaction has no matching USDC transfer', now, hash);
+    }
+
+    let changed = false as boolean; // Set by the update when the tip was still pending
+    const updated = await this.tips.update(tipId, current => {
+      if (current.status !== 'pending') return current;
+      changed = true;
+      return {
+        ...current,
+        status: 'confirmed',
+        transactionHash: hash,
+        blockNumber: receipt.blockNumber.toString(),
+        confirmedAt: now,
+        updatedAt: now,
+      };
+    });
+
+    if (changed) {
+      console.log('Tip confirmed:', { tipId, transactionHash: hash, amount: tip.amount });
+    }
+    return { tip: updated || tip, changed };
+  }
+
+  private async assertUnusedHash(tipId: string, hash: string): Promise<void> {
+    const reused = await this.tips.count(other => other.id !== tipId && other.transactionHash === hash);
+    if (reused > 0) {
+      throw new ValidationError('This transaction is already recorded for another tip', 'transactionHash');
+    }
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async fail(tipId: string, reason: string, now: Date, transactionHash?: string): Promise<TipUpdate> {
+    let changed = false as boolean; // Set by the update when the tip was still pending
+    const updated = await this.tips.update(tipId, current => {
+      if (current.status !== 'pending') return current;
+      changed = true;
+      return {
+        ...current,
+        status: 'failed',
+        failureReason: reason,
+        ...(transactionHash && { transactionHash }),
+        updatedAt: now,
+      };
+    });
+
+    if (changed) {
+      console.warn('Tip failed:', { tipId, reason, transactionHash });
+    }
+    return { tip: updated || (await this.getTip(tipId)), changed };
+  }
+
+  private buildAuthorization(tip: TipRecord, value: bigint): TipAuthorization {
+    return {
+      domain: {
+        name: config.USDC.EIP712_NAME,
+        version: config.USDC.EIP712_VERSION,
+        chainId: chain.id,
+        verifyingContract: this.getTokenAddress(),
+      },
+      types: {
+        TransferWithAuthorization: [
+          { name: 'from', type: 'address' },
+          { name: 'to', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'validAfter', type: 'uint256' },
+          { name: 'validBefore', type: 'uint256' },
+          { name: 'nonce', type: 'bytes32' },
+        ],
+      },
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: tip.fromAddress,
+        to: tip.toAddress,
+        value: value.toString(),
+        validAfter: '0',
+        validBefore: String(tip.authorizationValidBefore),
+        nonce: tip.authorizationNonce!,
+      },
+    };
+  }
+
+  private inWindow(tip: TipRecord, window: EarningsWindow, now: Date): boolean {
+    const days = WINDOW_DAYS[window];
+    return days === null || earnedAt(tip).getTime() > now.getTime() - days * DAY_MS;
+  }
+
+  private toUnits(amount: string): bigint {
+    if (!/^\d+(\.\d{1,6})?$/.test(String(amount).trim())) {
+      throw new ValidationError(`Amount must be a positive number with at most ${USDC_DECIMALS} decimals`, 'amount');
+    }
+    const value = parseUnits(String(amount).trim(), USDC_DECIMALS);
+    if (value <= 0n) {
+      throw new ValidationError('Amount must be a positive number', 'amount');
+    }
+    return value;
+  }
+
+  private getTokenAddress(): `0x${string}` {
+    const address = config.USDC.TOKEN_ADDRESS;
+    if (!isContractConfigured(address)) {
+      throw new ContractError('USDC_TOKEN_ADDRESS is not configured', 'NOT_CONFIGURED');
+    }
+    return address;
+  }
+
+  private getSigner(): TransactionSigner {
+    if (!this.signer) {
+      try {
+        this.signer = this.signerFactory();
+      } catch (error) {
+        throw new ContractError(describeError(error), 'NOT_CONFIGURED');
+      }
+    }
+    return this.signer;
+  }
+}
+
+// Export singleton instance
+export const tipService = new TipService();
@@ -0,0 +1,55 @@
+import { UsdcBalanceCredit, ValidationError } from '@/types';
+import { Collection, Database, database } from '@/services/database';
+
+/**
+ * Server-side USDC credits (e.g. completed onramp purchases).
+ * Each credit is keyed by its source and reference, so applying it twice is a no-op.
+ */
+export class UsdcBalanceService {
+  private credits: Collection<UsdcBalanceCredit>;
+
+  constructor(db: Database = database) {
+    this.credits = db.collection<UsdcBalanceCredit>('usdc_balance_credits');
+  }
+
+  async credit(
+    address: string,
+    amount: string,
+    source: UsdcBalanceCredit['source'],
+    reference: string
+  ): Promise<{ credit: UsdcBalanceCredit; applied: boolean }> {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      throw new ValidationError('Credit amount must be a positive number', 'amount');
+    }
+
+    const id = `${source}:${reference}`;
+    const existing = await this.credits.get(id);
+    if (existing) {
+      return { credit: existing, applied: false };
+    }
+
+    const credit = await this.credits.insert({
+      id,
+      address: address.toLowerCase(),
+      amount,
+      source,
+      reference,
+      createdAt: new Date(),
+    });
+
+    console.log('USDC balance credited:', { address: credit.address, amount, source, reference });
+    return { credit, applied: true };
+  }
+
+  /**
+   * Total USDC credited to an address
+   */
+  async getCredited(address: string): Promise<number> {
+    const credits = await this.credits.find(credit => credit.address === address.toLowerCase());
+    return credits.reduce((sum, credit) => sum + parseFloat(credit.amount), 0);
+  }
+}
+
+// Export singleton instance
+export const usdcBalanceService = new UsdcBalanceService();
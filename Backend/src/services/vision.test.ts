@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { createVisionProvider, LocalVisionProvider } from '@/services/vision';
+
+const COFFEE_BROWN = { r: 111, g: 78, b: 55 };
+const CREMA_WHITE = { r: 245, g: 240, b: 232 };
+const SKY_BLUE = { r: 70, g: 130, b: 200 };
+
+const solidImage = (background: { r: number; g: number; b: number }, size = 64) =>
+  sharp({ create: { width: size, height: size, channels: 3, background } }).jpeg().toBuffer();
+
+// Coffee-brown disc on a crema-white cup, roughly a top-down latte
+async function coffeeImage(): Promise<Buffer> {
+  const disc = await sharp({ create: { width: 40, height: 40, channels: 3, background: COFFEE_BROWN } }).png().toBuffer();
+  return sharp({ create: { width: 64, height: 64, channels: 3, background: CREMA_WHITE } })
+    .composite([{ input: disc, left: 12, top: 12 }])
+    .jpeg()
+    .toBuffer();
+}
+
+describe('LocalVisionProvider', () => {
+  const provider = new LocalVisionProvider();
+
+  it('accepts an image that is mostly coffee-brown with a cup', async () => {
+    const result = await provider.analyze(await coffeeImage());
+
+    expect(result).toMatchObject({ provider: 'local', hasCoffee: true, hasText: false });
+    expect(result.detectedItems).toEqual(['coffee', 'cup or foam']);
+    expect(result.confidence).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('rejects an image without coffee-brown pixels', async () => {
+    const result = await provider.analyze(await solidImage(SKY_BLUE));
+
+    expect(result).toMatchObject({ provider: 'local', hasCoffee: false, detectedItems: [] });
+    expect(result.confidence).toBe(0);
+  });
+
+  describe('with fixtures', () => {
+    let fixturesPath: string;
+
+    beforeEach(async () => {
+      fixturesPath = path.join(await fs.mkdtemp(path.join(tmpdir(), 'vision-')), 'fixtures.json');
+    });
+
+    afterEach(async () => {
+      await fs.rm(path.dirname(fixturesPath), { recursive: true, force: true });
+    });
+
+    it('uses the fixture for a known image over the pixel rules', async () => {
+      const image = await coffeeImage();
+      const digest = createHash('sha256').update(image).digest('hex');
+      await fs.writeFile(fixturesPath, JSON.stringify({ [digest]: { hasCoffee: false, confidence: 0.2, reasons: ['Staged photo'] } }));
+
+      const result = await new LocalVisionProvider(fixturesPath).analyze(image);
+
+      expect(result).toEqual({
+        provider: 'local',
+        hasCoffee: false,
+        confidence: 0.2,
+        detectedItems: [],
+        reasons: ['Staged photo'],
+        hasText: false,
+      });
+    });
+
+    it('falls back to the pixel rules when the fixtures file is missing', async () => {
+      const result = await new LocalVisionProvider(fixturesPath).analyze(await coffeeImage());
+
+      expect(result.hasCoffee).toBe(true);
+    });
+  });
+});
+
+describe('createVisionProvider', () => {
+  it('creates the local provider by name', () => {
+    expect(createVisionProvider('local')).toBeInstanceOf(LocalVisionProvider);
+  });
+
+  it('rejects an unknown provider name', () => {
+    expect(() => createVisionProvider('bing')).toThrow('Unsupported VISION_PROVIDER: bing');
+  });
+});
@@ -32,6 +32,30 @@ export interface FarcasterWebhookPayload {
   };
 }
 
+export interface FarcasterFrameAction {
+  url: string;
+  buttonIndex: number;
+  inputText?: string;
+  state?: string;
+}
+
+// Decoded from trustedData.messageBytes after hash, signature and app key checks
+export interface VerifiedFarcasterMessage {
+  hash: string; // 0x-prefixed BLAKE3 hash of the message data
+  fid: number;
+  timestamp: number; // Unix seconds
+  network: number; // 1 mainnet, 2 testnet, 3 devnet
+  signer: string; // 0x-prefixed Ed25519 app key
+  frameAction?: FarcasterFrameAction;
+}
+
+export interface FarcasterMessageReceipt {
+  id: string; // Message hash, so a replayed message collides
+  fid: number;
+  receivedAt: Date;
+  expiresAt: Date;
+}
+
 // Coffee Snap Types
 export interface CoffeeSnap {
   id: string;
@@ -42,14 +66,29 @@ export interface CoffeeSnap {
   location: {
     venueId: string; // Hashed PlaceID for privacy
     venueName: string;
+    city?: string;
+    state?: string;
     latitude?: number; // Optional for privacy
     longitude?: number; // Optional for privacy
   };
+  coffeeType?: string;
+  coffeeName?: string;
+  rating?: number;
   description?: string;
   timestamp: Date;
   validated: boolean;
   rewardAmount?: string; // $BEAN tokens earned
+  rewardBreakdown?: RewardBreakdown; // How rewardAmount was computed
   transactionHash?: string; // Mint transaction
+  castHash?: string; // Farcaster cast for this snap
+  engagement?: SnapEngagement;
+}
+
+export interface SnapEngagement {
+  likes: number;
+  recasts: number;
+  replies: number;
+  tips: number;
 }
 
 export interface CoffeeSnapValidation {
@@ -60,7 +99,18 @@ export interface CoffeeSnapValidation {
     hasText: boolean;
     hasCoffeeItems: boolean;
     locationValid: boolean;
-    duplicateCheck: boolean;
+    duplicateCheck: boolean; // true when no recent near-identical image was found
+    perceptualHash?: string;
+    duplicateOf?: string; // Snap ID of the matched image
+    detectedItems?: string[];
+    visionProvider?: string; // openai | google | local
+    provenance?: {
+      capturedAt?: string; // ISO capture time from EXIF
+      distanceMeters?: number; // EXIF GPS to venue
+      isScreenshot: boolean;
+      isReencoded: boolean;
+      flags: string[];
+    };
   };
 }
 
@@ -85,18 +135,118 @@ export interface NFTCoupon {
   redeemed: boolean;
   redeemedAt?: Date;
   redeemedTransactionHash?: string;
+  expiryReminderSentAt?: Date; // Expiring-soon notice for the current expiryDate
+  expiredAt?: Date; // When the lifecycle sweep found the coupon lapsed unredeemed
+  expiryRecordedTransactionHash?: string; // CouponNFT.recordExpired (CouponExpired event)
+  reissuedFrom?: string; // Token ID this coupon replaced
+  reissuedAs?: string; // Token ID of the replacement
+  reissuing?: boolean; // Set while a replacement is being minted, so only one reissue runs
+  reissueTransactionHash?: string; // That mint; left set with reissuing when its receipt never arrived
+}
+
+export type CouponStatus = 'active' | 'redeemed' | 'expired';
+
+// Signed coupon QR codes: the holder's wallet signs one of these (EIP-712) for a venue to scan
+export interface CouponPresentation {
+  tokenId: string;
+  venueId: string; // Empty for coupons valid at any venue
+  nonce: string; // bytes32 hex, single use
+  expiry: number; // Unix seconds
+  holder: string; // Wallet that signed; must own the token
+  signature: string;
+}
+
+// A presentation nonce that has been used, kept until the presentation would have expired
+export interface CouponPresentationReceipt {
+  id: string; // Nonce
+  tokenId: string;
+  holder: string;
+  venueId: string;
+  usedAt: Date;
+  expiresAt: Date;
 }
 
 // CDP Onramp Types
+export type OnrampSessionStatus = 'pending' | 'completed' | 'failed' | 'expired';
+
 export interface OnrampSession {
   sessionId: string;
   userId: string;
   amount: string;
   currency: string;
   destinationWallet: string;
-  status: 'pending' | 'completed' | 'failed' | 'expired';
+  status: OnrampSessionStatus;
+  onrampUrl?: string;
   createdAt: Date;
+  expiresAt: Date; // Pending sessions past this are swept to expired
+  updatedAt?: Date;
   completedAt?: Date;
+  transactionHash?: string;
+  creditedAmount?: string; // USDC credited to the destination wallet on completion
+  failureReason?: string;
+}
+
+export interface OnrampWebhookEvent {
+  id: string; // Provider event id, so a redelivered event is skipped
+  type: string;
+  sessionId: string | null;
+  outcome: 'applied' | 'ignored';
+  receivedAt: Date;
+}
+
+// Onramp webhook event data; fields differ between providers, so all are optional
+export interface OnrampWebhookEventData {
+  id?: string;
+  sessionId?: string;
+  partnerUserId?: string; // Set to our session id in the onramp URL
+  metadata?: { sessionId?: string };
+  status?: string;
+  timeline?: Array<{ status?: string }>;
+  transactionHash?: string;
+  txHash?: string;
+  failureReason?: string;
+  purchaseAmount?: { value?: string | number };
+  cryptoAmount?: string | number;
+}
+
+export interface OnrampWebhookEventBody {
+  id?: string;
+  type?: string;
+  data?: OnrampWebhookEventData;
+}
+
+// Events arrive either wrapped ({ event: { id, type, data } }) or bare
+export type OnrampWebhookPayload = OnrampWebhookEventBody & { event?: OnrampWebhookEventBody };
+
+export interface UsdcBalanceCredit {
+  id: string; // <source>:<reference>, so each credit applies once
+  address: string; // Lowercased wallet address
+  amount: string;
+  source: 'onramp';
+  reference: string;
+  createdAt: Date;
+}
+
+// Tip Types
+export type TipStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TipRecord {
+  id: string;
+  fromAddress: string;
+  fromFid: number | null; // Sender's fid when signed in with Farcaster
+  toUserId: number; // Recipient fid
+  toAddress: string;
+  amount: string; // USDC, decimal string
+  status: TipStatus;
+  settlement: 'client' | 'relay'; // Sent from the sender's wallet, or relayed from a signed EIP-3009 authorization
+  authorizationNonce?: string; // Relayed tips only
+  authorizationValidBefore?: number; // Unix seconds
+  transactionHash?: string;
+  blockNumber?: string;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  confirmedAt?: Date;
 }
 
 // Venue Types
@@ -124,6 +274,7 @@ export interface ContractAddresses {
   LOYALTY_TOKEN: string; // ERC20 $BEAN
   COUPON_NFT: string;    // ERC721 Coupons
   SNAP_REGISTRY: string; // Event logging
+  REWARDS_CONTROLLER: string; // Verified coffee rewards
 }
 
 // Blockchain Types
@@ -135,15 +286,31 @@ export interface TransactionRequest {
   gasPrice?: string;
 }
 
+export type IndexedContract = 'CouponNFT' | 'LoyaltyToken' | 'SnapRegistry' | 'RewardsController';
+
 export interface BlockchainEvent {
+  id: string; // transactionHash:logIndex
+  contract: IndexedContract;
+  address: string;
   eventName: string;
   transactionHash: string;
   blockNumber: number;
-  args: Record<string, any>;
+  blockHash: string;
+  logIndex: number;
+  args: Record<string, any>; // uint values as decimal strings
   timestamp: Date;
 }
 
-// Database Types (for future implementation)
+// How far the chain indexer has got; recent keeps earlier batch ends for reorg recovery
+export interface IndexerCheckpoint {
+  id: string;
+  blockNumber: number;
+  blockHash: string;
+  recent: Array<{ blockNumber: number; blockHash: string }>;
+  updatedAt: Date;
+}
+
+// Database Types
 export interface User {
   id: string;
   fid: number;
@@ -179,6 +346,143 @@ export interface MintRewardRequest {
   metadata?: Record<string, any>;
 }
 
+// Reward Policy Types
+export type RewardComponent = 'base' | 'quality' | 'new_venue' | 'streak';
+
+export interface RewardLineItem {
+  component: RewardComponent;
+  amount: string; // $BEAN, '0' when the component doesn't apply
+  reason: string;
+}
+
+export interface RewardBreakdown {
+  items: RewardLineItem[];
+  total: string;
+  inputs: {
+    confidence: number; // Validation confidence 0-1
+    isNewVenue: boolean; // No earlier snaps at the venue
+    streakDays: number;
+    streakExtended: boolean; // First snap of the day in the streak
+  };
+}
+
+// Reward Ledger Types
+export type RewardReason = MintRewardRequest['reason'] | 'claim' | 'tip';
+
+export type RewardEntryStatus = 'pending' | 'claiming' | 'settled' | 'failed';
+
+export interface RewardLedgerEntry {
+  id: string;
+  userId: string;
+  reason: RewardReason;
+  amount: string; // $BEAN, negative for debits (e.g. tips sent)
+  status: RewardEntryStatus; // pending until reflected on-chain; claiming while a mint for it is in flight
+  referenceId?: string; // Snap ID, milestone key, tip ID... (one entry per reason + reference)
+  transactionHash?: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  settledAt?: Date;
+}
+
+// Milestone Types
+export type CouponIssueStatus = 'pending' | 'submitted' | 'minted' | 'failed';
+
+export interface MilestoneAward {
+  id: string; // `${userId}_${threshold}`, one award per user and milestone
+  userId: string;
+  threshold: number; // Validated snaps required
+  snapId: string; // Snap that crossed the threshold
+  snapCount: number;
+  beanAmount: string; // From config.REWARDS.MILESTONE_AMOUNTS, '0' for coupon-only milestones
+  rewardEntryId?: string; // Reward ledger credit
+  coupon?: {
+    status: CouponIssueStatus; // pending until a wallet is on file, submitted once broadcast, failed after a mint error (retried)
+    tokenId?: string;
+    transactionHash?: string; // Set when the mint is broadcast; a submitted mint is settled from it, never re-sent
+    attempts: number;
+    lastError?: string;
+  };
+  awardedAt: Date;
+}
+
+// Streak Types
+export interface UserStreak {
+  id: string; // userId
+  userId: string;
+  fid: number;
+  timezone: string; // IANA zone used to bucket snaps into days; set on the first snap
+  timezoneChangedAt?: Date; // Last accepted change, see STREAKS.TIMEZONE_CHANGE_DAYS
+  currentStreak: number; // Snap days in the unbroken run ending at lastSnapDay
+  longestStreak: number;
+  lastSnapDay: string; // YYYY-MM-DD in timezone
+  streakStartDay: string;
+  updatedAt: Date;
+}
+
+// Agent Types
+export type AgentActionStatus = 'rejected' | 'planned' | 'approved' | 'executed' | 'failed';
+
+export interface AgentActionRecord {
+  id: string;
+  sessionId: string;
+  task: string; // CoffeeRewardAgent method that proposed the action
+  action: string; // CDP Agentkit action name
+  args: Record<string, unknown>;
+  spend?: { assetId: string; amount: string };
+  status: AgentActionStatus; // planned = dry run, never signed
+  reason?: string; // Why it was rejected or failed
+  result?: string;
+  proposedAt: Date;
+  completedAt?: Date;
+}
+
+// Auth Types
+export type ApiScope = 'mint' | 'redeem' | 'admin'; // admin satisfies every scope
+
+export interface ApiClient {
+  id: string; // Also the public prefix of the client's key
+  name: string;
+  keyHash: string; // SHA-256 of the full key; the key itself is never stored
+  scopes: ApiScope[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface AuthNonce {
+  id: string; // The nonce
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type NotificationType = 'coupon_expiring' | 'coupon_expired' | 'coupon_extended' | 'coupon_reissued';
+
+// In-app notification, also pushed as a Farcaster Mini App notification when the user has an fid
+export interface UserNotification {
+  id: string; // <type>:<reference>, so each event notifies once
+  userId: string;
+  fid: number | null;
+  walletAddress: string | null;
+  type: NotificationType;
+  title: string;
+  body: string;
+  targetUrl: string;
+  data?: Record<string, any>;
+  read: boolean;
+  createdAt: Date;
+  readAt?: Date;
+  farcaster: { status: 'sent' | 'skipped' | 'failed'; error?: string };
+}
+
+export interface UserSession {
+  sub: string; // fid:<fid> for Farcaster sign-ins, else the wallet address
+  fid: number | null;
+  walletAddress: string;
+  method: 'siwf' | 'siwe';
+  iat: number;
+  exp: number;
+}
+
 export interface CreateOnrampRequest {
   userId: string;
   amount: string;
@@ -206,4 +510,49 @@ export class UnauthorizedError extends Error {
     super(message);
     this.name = 'UnauthorizedError';
   }
-}
\ No newline at end of file
+}
+
+export type ContractErrorCode =
+  | 'NOT_CONFIGURED'       // Contract address or signer missing
+  | 'DAILY_LIMIT_EXCEEDED' // Minter allowance for the day is used up
+  | 'REVERTED'             // Simulation or receipt reverted
+  | 'TRANSACTION_FAILED';  // Signer or RPC failure before a receipt
+
+export type CouponErrorCode =
+  | 'COUPON_NOT_FOUND'        // Token was never minted or was burned
+  | 'COUPON_ALREADY_REDEEMED'
+  | 'COUPON_EXPIRED'
+  | 'WRONG_VENUE'             // Coupon is restricted to another venue
+  | 'REDEEMER_NOT_AUTHORIZED' // Backend signer lacks REDEEMER_ROLE
+  | 'CONTRACT_PAUSED';
+
+export class CouponError extends Error {
+  constructor(
+    message: string,
+    public code: CouponErrorCode,
+    public revertReason?: string
+  ) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+export class ContractError extends Error {
+  constructor(
+    message: string,
+    public code: ContractErrorCode,
+    public revertReason?: string,
+    public transactionHash?: string
+  ) {
+    super(message);
+    this.name = 'ContractError';
+  }
+}
+
+// HTTP status for each ContractError code, shared by every controller that reports them
+export const CONTRACT_ERROR_STATUS: Record<ContractErrorCode, number> = {
+  NOT_CONFIGURED: 503,
+  DAILY_LIMIT_EXCEEDED: 429,
+  REVERTED: 422,
+  TRANSACTION_FAILED: 502,
+};
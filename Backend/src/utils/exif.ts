@@ -0,0 +1,189 @@
+/**
+ * Minimal EXIF reader for the raw EXIF block returned by sharp's metadata()
+ */
+
+export interface ExifData {
+  make?: string;
+  model?: string;
+  software?: string;
+  userComment?: string;
+  capturedAt?: string; // "YYYY:MM:DD HH:MM:SS" as written by the camera
+  offsetTime?: string; // e.g. "+02:00" when the camera recorded it
+  pixelWidth?: number; // Dimensions recorded at capture time
+  pixelHeight?: number;
+  gps?: {
+    lat: number;
+    lng: number;
+  };
+}
+
+// Tags read from IFD0, the Exif sub-IFD and the GPS sub-IFD
+const TAGS = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  SOFTWARE: 0x0131,
+  DATE_TIME: 0x0132,
+  EXIF_IFD: 0x8769,
+  GPS_IFD: 0x8825,
+  DATE_TIME_ORIGINAL: 0x9003,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+  USER_COMMENT: 0x9286,
+  PIXEL_X_DIMENSION: 0xa002,
+  PIXEL_Y_DIMENSION: 0xa003,
+  GPS_LATITUDE_REF: 0x0001,
+  GPS_LATITUDE: 0x0002,
+  GPS_LONGITUDE_REF: 0x0003,
+  GPS_LONGITUDE: 0x0004,
+} as const;
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Absolute offset of the value bytes
+}
+
+class TiffReader {
+  constructor(
+    private readonly buffer: Buffer,
+    private readonly start: number,
+    private readonly littleEndian: boolean
+  ) {}
+
+  uint16(offset: number): number {
+    return this.littleEndian ? this.buffer.readUInt16LE(offset) : this.buffer.readUInt16BE(offset);
+  }
+
+  uint32(offset: number): number {
+    return this.littleEndian ? this.buffer.readUInt32LE(offset) : this.buffer.readUInt32BE(offset);
+  }
+
+  /**
+   * Read an IFD at a TIFF-relative offset into a tag map
+   */
+  readIfd(relativeOffset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    const offset = this.start + relativeOffset;
+    if (offset + 2 > this.buffer.length) return entries;
+
+    const count = this.uint16(offset);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > this.buffer.length) break;
+
+      const type = this.uint16(entryOffset + 2);
+      const valueCount = this.uint32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] || 1) * valueCount;
+      const valueOffset = size <= 4 ? entryOffset + 8 : this.start + this.uint32(entryOffset + 8);
+
+      if (valueOffset + size <= this.buffer.length) {
+        entries.set(this.uint16(entryOffset), { type, count: valueCount, valueOffset });
+      }
+    }
+    return entries;
+  }
+
+  ascii(entry: IfdEntry | undefined): string | undefined {
+    if (!entry) return undefined;
+    const value = this.buffer
+      .toString('latin1', entry.valueOffset, entry.valueOffset + entry.count)
+      .replace(/\0+$/, '')
+      .trim();
+    return value || undefined;
+  }
+
+  number(entry: IfdEntry | undefined): number | undefined {
+    if (!entry) return undefined;
+    if (entry.type === 3) return this.uint16(entry.valueOffset);
+    if (entry.type === 4) return this.uint32(entry.valueOffset);
+    return undefined;
+  }
+
+  rationals(entry: IfdEntry | undefined): number[] {
+    if (!entry || entry.type !== 5) return [];
+    return Array.from({ length: entry.count }, (_, i) => {
+      const numerator = this.uint32(entry.valueOffset + i * 8);
+      const denominator = this.uint32(entry.valueOffset + i * 8 + 4);
+      return denominator ? numerator / denominator : 0;
+    });
+  }
+
+  /**
+   * UserComment: 8-byte character code followed by the text
+   */
+  comment(entry: IfdEntry | undefined): string | undefined {
+    if (!entry || entry.count <= 8) return undefined;
+    const value = this.buffer
+      .toString('latin1', entry.valueOffset + 8, entry.valueOffset + entry.count)
+      .replace(/\0/g, '')
+      .trim();
+    return value || undefined;
+  }
+}
+
+const toDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[], ref?: string): number => {
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return ref === 'S' || ref === 'W' ? -value : value;
+};
+
+/**
+ * Parse an EXIF block (with or without the "Exif\0\0" header)
+ * Returns an empty object for missing or malformed data rather than throwing.
+ */
+export const parseExif = (exif: Buffer | undefined): ExifData => {
+  if (!exif || exif.length < 8) return {};
+
+  try {
+    const start = exif.toString('latin1', 0, 6) === 'Exif\0\0' ? 6 : 0;
+    const byteOrder = exif.toString('latin1', start, start + 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') return {};
+
+    const reader = new TiffReader(exif, start, byteOrder === 'II');
+    const ifd0 = reader.readIfd(reader.uint32(start + 4));
+
+    const exifIfdOffset = reader.number(ifd0.get(TAGS.EXIF_IFD));
+    const exifIfd = exifIfdOffset ? reader.readIfd(exifIfdOffset) : new Map<number, IfdEntry>();
+
+    const gpsIfdOffset = reader.number(ifd0.get(TAGS.GPS_IFD));
+    const gpsIfd = gpsIfdOffset ? reader.readIfd(gpsIfdOffset) : new Map<number, IfdEntry>();
+
+    const latitude = reader.rationals(gpsIfd.get(TAGS.GPS_LATITUDE));
+    const longitude = reader.rationals(gpsIfd.get(TAGS.GPS_LONGITUDE));
+
+    return {
+      make: reader.ascii(ifd0.get(TAGS.MAKE)),
+      model: reader.ascii(ifd0.get(TAGS.MODEL)),
+      software: reader.ascii(ifd0.get(TAGS.SOFTWARE)),
+      userComment: reader.comment(exifIfd.get(TAGS.USER_COMMENT)),
+      capturedAt: reader.ascii(exifIfd.get(TAGS.DATE_TIME_ORIGINAL)) || reader.ascii(ifd0.get(TAGS.DATE_TIME)),
+      offsetTime: reader.ascii(exifIfd.get(TAGS.OFFSET_TIME_ORIGINAL)),
+      pixelWidth: reader.number(exifIfd.get(TAGS.PIXEL_X_DIMENSION)),
+      pixelHeight: reader.number(exifIfd.get(TAGS.PIXEL_Y_DIMENSION)),
+      gps: latitude.length === 3 && longitude.length === 3
+        ? {
+            lat: toDegrees(latitude, reader.ascii(gpsIfd.get(TAGS.GPS_LATITUDE_REF))),
+            lng: toDegrees(longitude, reader.ascii(gpsIfd.get(TAGS.GPS_LONGITUDE_REF))),
+          }
+        : undefined,
+    };
+  } catch (error) {
+    console.warn('EXIF parse error:', error);
+    return {};
+  }
+};
+
+/**
+ * Convert an EXIF timestamp to a Date
+ * Without an offset the time is read as UTC, so callers should allow timezone slack.
+ */
+export const exifDateToDate = (value: string | undefined, offset?: string): Date | null => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return isNaN(date.getTime()) ? null : date;
+};
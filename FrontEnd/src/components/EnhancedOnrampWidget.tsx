@@ -11,6 +11,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useMiniKit } from '@/hooks/useMiniKit';
 import { useToast } from '@/hooks/use-toast';
+import { useOnrampSession } from '@/hooks/useOnrampSession';
 import { 
   Wallet, 
   DollarSign, 
@@ -44,6 +45,7 @@ const EnhancedOnrampWidget: React.FC<EnhancedOnrampWidgetProps> = ({
   const { walletAddress, isConnected, connectWallet, getBalances } = useMiniKit();
   const { toast } = useToast();
   const [balances, setBalances] = useState({ bean: '0', usdc: '0', eth: '0' });
+  const { session, polling, createSession, waitForCompletion, stopPolling } = useOnrampSession();
 
   // Load balances when widget opens
   useEffect(() => {
@@ -52,23 +54,62 @@ const EnhancedOnrampWidget: React.FC<EnhancedOnrampWidgetProps> = ({
     }
   }, [isOpen, isConnected, getBalances]);
 
-  // Handle successful onramp purchase
-  const handleOnrampSuccess = (response: OnrampSuccessResponse) => {
-    const amount = response.onrampData?.amount || purchaseAmount;
-    
+  // Track each purchase as a backend session; its id is passed to Coinbase as partnerUserId
+  useEffect(() => {
+    if (isOpen && isConnected && walletAddress) {
+      createSession({
+        userId: walletAddress,
+        amount: purchaseAmount,
+        destinationWallet: walletAddress
+      });
+    }
+  }, [isOpen, isConnected, walletAddress, purchaseAmount, createSession]);
+
+  // Stop waiting on a purchase once the widget closes
+  useEffect(() => {
+    if (!isOpen) stopPolling();
+  }, [isOpen, stopPolling]);
+
+  // Handle onramp purchase: wait for the backend to confirm it via the signed webhook
+  const handleOnrampSuccess = async (response: OnrampSuccessResponse) => {
+    if (!session) {
+      refreshBalances();
+      return;
+    }
+
     toast({
-      title: "💰 Funds Added Successfully!",
-      description: `$${amount} USDC added to your wallet`,
+      title: "Confirming purchase…",
+      description: "Waiting for Coinbase to confirm your payment",
     });
 
-    // Update backend with new balance
-    updateBalanceAfterOnramp(amount);
-    
-    // Trigger success callback
-    onSuccess?.(amount);
-    
-    // Auto-close after success
-    setTimeout(() => onClose(), 2000);
+    const settled = await waitForCompletion(session.sessionId);
+    if (settled?.status === 'completed') {
+      const amount = parseFloat(settled.creditedAmount || settled.amount) || response.onrampData?.amount || purchaseAmount;
+
+      toast({
+        title: "💰 Funds Added Successfully!",
+        description: `$${amount} USDC added to your wallet`,
+      });
+
+      refreshBalances();
+      
+      // Trigger success callback
+      onSuccess?.(amount);
+      
+      // Auto-close after success
+      setTimeout(() => onClose(), 2000);
+    } else if (settled) {
+      toast({
+        title: settled.status === 'expired' ? "Purchase Expired" : "Purchase Failed",
+        description: settled.failureReason || "The purchase was not completed",
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Still Processing",
+        description: "Your purchase hasn't been confirmed yet. Check back shortly.",
+      });
+    }
   };
 
   // Handle onramp errors
@@ -81,28 +122,15 @@ const EnhancedOnrampWidget: React.FC<EnhancedOnrampWidgetProps> = ({
     });
   };
 
-  // Update backend balance tracking
-  const updateBalanceAfterOnramp = async (amount: number) => {
+  // Refresh wallet balances after a purchase
+  const refreshBalances = async () => {
     if (!walletAddress) return;
 
     try {
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/users/balance/onramp`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          address: walletAddress,
-          amount: amount,
-          transactionId: `onramp_${Date.now()}`
-        })
-      });
-
-      if (response.ok) {
-        // Refresh balances
-        const newBalances = await getBalances();
-        setBalances(newBalances);
-      }
+      const newBalances = await getBalances();
+      setBalances(newBalances);
     } catch (error) {
-      console.error('Balance update error:', error);
+      console.error('Balance refresh error:', error);
     }
   };
 
@@ -234,7 +262,7 @@ const EnhancedOnrampWidget: React.FC<EnhancedOnrampWidgetProps> = ({
                   config={{
                     appId: import.meta.env.VITE_ONRAMP_APP_ID!,
                     destinationWallet: walletAddress,
-                    partnerUserId: walletAddress,
+                    partnerUserId: session?.sessionId || walletAddress,
                     defaultAmount: purchaseAmount.toString(),
                     defaultCurrency: 'USDC',
                     defaultNetwork: 'base',
@@ -247,6 +275,12 @@ const EnhancedOnrampWidget: React.FC<EnhancedOnrampWidgetProps> = ({
               </OnrampProvider>
             )}
 
+            {polling && (
+              <div className="text-xs text-center text-muted-foreground">
+                Confirming your purchase with Coinbase…
+              </div>
+            )}
+
             {/* Network Info */}
             <div className="text-xs text-center text-muted-foreground">
               <div className="flex items-center justify-center gap-1">
@@ -7,7 +7,7 @@ interface FeedCardProps {
   distance: string;
   coffeeType: string;
   rating: number; // 1-5
-  pairing: string;
+  pairing?: string;
 }
 
 export function FeedCard({ image, cafe, distance, coffeeType, rating, pairing }: FeedCardProps) {
@@ -32,7 +32,9 @@ export function FeedCard({ image, cafe, distance, coffeeType, rating, pairing }:
             ))}
           </div>
         </div>
-        <p className="text-sm text-muted-foreground">Pairs well with <span className="font-medium text-foreground">{pairing}</span></p>
+        {pairing && (
+          <p className="text-sm text-muted-foreground">Pairs well with <span className="font-medium text-foreground">{pairing}</span></p>
+        )}
       </div>
     </article>
   );
@@ -4,6 +4,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { useToast } from "@/hooks/use-toast";
 import { Wallet, CreditCard, Smartphone, Loader2 } from "lucide-react";
 import { useAccount } from "wagmi";
+import { useOnrampSession } from "@/hooks/useOnrampSession";
 
 // CDP Onramp configuration
 const ONRAMP_CONFIG = {
@@ -49,6 +50,7 @@ export default function OnrampWidget({
   const [selectedAmount, setSelectedAmount] = useState(targetAmount);
   const [paymentMethod, setPaymentMethod] = useState<'card' | 'apple-pay' | 'bank'>('card');
   const [isApplePayAvailable, setIsApplePayAvailable] = useState(false);
+  const { createSession, waitForCompletion, stopPolling } = useOnrampSession();
 
   // Check Apple Pay availability
   useEffect(() => {
@@ -73,43 +75,48 @@ export default function OnrampWidget({
     setLoading(true);
 
     try {
-      // CDP Onramp URL with parameters
-      const onrampUrl = new URL(ONRAMP_CONFIG.baseUrl);
-      onrampUrl.searchParams.append('appId', ONRAMP_CONFIG.appId);
-      onrampUrl.searchParams.append('destinationWallets', JSON.stringify([{
-        address: address,
-        blockchains: ['base']
-      }]));
-      onrampUrl.searchParams.append('assets', JSON.stringify(['USDC']));
-      onrampUrl.searchParams.append('presetFiatAmount', selectedAmount.toString());
-      onrampUrl.searchParams.append('fiatCurrency', 'USD');
+      // The backend session carries the Coinbase Pay URL and tracks the purchase via webhooks
+      const session = await createSession({
+        userId: address,
+        amount: selectedAmount,
+        destinationWallet: address
+      });
+      if (!session?.onrampUrl) {
+        throw new Error('Could not start an onramp session');
+      }
 
       // Open Coinbase Pay in a popup or redirect
-      const popup = window.open(
-        onrampUrl.toString(),
+      window.open(
+        session.onrampUrl,
         'coinbase-pay',
         'width=500,height=700,scrollbars=yes,resizable=yes'
       );
 
-      // Listen for popup close or success message
-      const checkPopup = setInterval(() => {
-        if (popup?.closed) {
-          clearInterval(checkPopup);
-          setLoading(false);
-          
-          // Simulate success for demo (in production, you'd verify the transaction)
-          if (onSuccess) {
-            onSuccess(selectedAmount);
-          }
-          
-          toast({
-            title: "Funds Added Successfully!",
-            description: `${selectedAmount} USDC has been added to your wallet`
-          });
-          
-          onClose();
-        }
-      }, 1000);
+      // Wait for the webhook to settle the session instead of assuming success
+      const settled = await waitForCompletion(session.sessionId);
+
+      if (settled?.status === 'completed') {
+        const amount = parseFloat(settled.creditedAmount || settled.amount);
+        onSuccess?.(amount);
+
+        toast({
+          title: "Funds Added Successfully!",
+          description: `${amount} USDC has been added to your wallet`
+        });
+
+        onClose();
+      } else if (settled) {
+        toast({
+          title: settled.status === 'expired' ? "Purchase Expired" : "Purchase Failed",
+          description: settled.failureReason || "The purchase was not completed",
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Still Processing",
+          description: "Your purchase hasn't been confirmed yet. Check back shortly."
+        });
+      }
 
     } catch (error) {
       console.error('Onramp error:', error);
@@ -359,8 +366,10 @@ export default function OnrampWidget({
           <div className="flex gap-3">
             <Button
               variant="outline"
-              onClick={onClose}
-              disabled={loading}
+              onClick={() => {
+                stopPolling();
+                onClose();
+              }}
               className="rounded-xl flex-1"
             >
               Cancel
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+  className?: string;
+}
+
+// The part of the Shape Detection API used here; TypeScript's DOM lib doesn't declare it yet
+interface BarcodeDetector {
+  detect: (source: CanvasImageSource) => Promise<Array<{ rawValue: string }>>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options?: { formats?: string[] }) => BarcodeDetector;
+  }
+}
+
+// Native detector where the browser has one (Chrome on Android); jsQR otherwise
+const createNativeDetector = (): BarcodeDetector | null => {
+  const Detector = window.BarcodeDetector;
+  return Detector ? new Detector({ formats: ["qr_code"] }) : null;
+};
+
+/**
+ * Rear-camera QR scanner; calls onScan once per distinct code it reads
+ */
+export default function QrScanner({ onScan, className }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastScanRef = useRef<string | null>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const detector = createNativeDetector();
+
+    const report = (text: string) => {
+      if (text && text !== lastScanRef.current) {
+        lastScanRef.current = text;
+        onScanRef.current(text);
+      }
+    };
+
+    const scan = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState >= video.HAVE_ENOUGH_DATA) {
+        try {
+          if (detector) {
+            const [code] = await detector.detect(video);
+            if (code) report(code.rawValue);
+          } else {
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            const context = canvas.getContext("2d", { willReadFrequently: true });
+            if (context) {
+              context.drawImage(video, 0, 0, canvas.width, canvas.height);
+              const image = context.getImageData(0, 0, canvas.width, canvas.height);
+              const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+              if (code) report(code.data);
+            }
+          }
+        } catch (err) {
+          console.warn("QR decode failed:", err);
+        }
+      }
+
+      if (!stopped) frame = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false
+        });
+        if (stopped) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        const video = videoRef.current!;
+        video.srcObject = stream;
+        await video.play();
+        frame = requestAnimationFrame(scan);
+      } catch (err) {
+        console.error("Camera error:", err);
+        setError("Camera unavailable. Allow camera access to scan coupons.");
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className={`relative overflow-hidden ${className || ""}`}>
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center p-4 text-sm text-white/80 bg-black/80">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
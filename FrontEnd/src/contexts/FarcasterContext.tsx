@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { sdk } from '@farcaster/miniapp-sdk';
-import { logUserConnection } from '@/lib/api';
+import { clearAuthToken, logUserConnection, signInWithFarcaster } from '@/lib/api';
 
 export interface FarcasterUser {
   fid: number;
@@ -77,6 +77,15 @@ export function FarcasterProvider({ children }: FarcasterProviderProps) {
 
       console.log('✅ Farcaster user created - ok:', farcasterUser);
       setUser(farcasterUser);
+
+      // Session token for the signed-in API routes (snaps, tips, coupons, notifications)
+      if (contextUser) {
+        try {
+          await signInWithFarcaster();
+        } catch (signInError) {
+          console.error('❌ Sign In With Farcaster failed:', signInError);
+        }
+      }
       
       // Log successful connection to backend
       console.log('🚀🚀🚀 ABOUT TO CALL BACKEND API - START');
@@ -130,6 +139,7 @@ export function FarcasterProvider({ children }: FarcasterProviderProps) {
   };
 
   const signOut = () => {
+    clearAuthToken();
     setUser(null);
     setError(null);
   };
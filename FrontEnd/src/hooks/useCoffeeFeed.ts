@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// API base URL
+const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+export interface FeedSnap {
+  id: string;
+  userId: string;
+  fid: number;
+  imageUrl: string;
+  location: {
+    venueId: string;
+    venueName: string;
+    city?: string;
+    state?: string;
+  };
+  coffeeType?: string;
+  coffeeName?: string;
+  rating?: number;
+  description?: string;
+  timestamp: string;
+  engagement?: {
+    likes: number;
+    recasts: number;
+    replies: number;
+    tips: number;
+  };
+}
+
+export interface FeedFilters {
+  venueId?: string;
+  city?: string;
+  state?: string;
+  coffeeType?: string;
+  fid?: number;
+  following?: boolean;
+  viewerFid?: number;
+  sort?: 'recent' | 'engagement';
+}
+
+interface CoffeeFeedHook {
+  snaps: FeedSnap[];
+  loading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const PAGE_SIZE = 10;
+
+// Filter part of the feed query; a string, so it is stable across renders with equal filters
+function buildFilterQuery(filters: FeedFilters): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+
+  if (filters.sort) params.set('sort', filters.sort);
+  if (filters.venueId) params.set('venueId', filters.venueId);
+  if (filters.city) params.set('city', filters.city);
+  if (filters.state) params.set('state', filters.state);
+  if (filters.coffeeType) params.set('coffeeType', filters.coffeeType);
+  if (filters.fid !== undefined) params.set('fid', String(filters.fid));
+  if (filters.following && filters.viewerFid !== undefined) {
+    params.set('following', 'true');
+    params.set('viewerFid', String(filters.viewerFid));
+  }
+
+  return params.toString();
+}
+
+export function useCoffeeFeed(filters: FeedFilters = {}): CoffeeFeedHook {
+  const [snaps, setSnaps] = useState<FeedSnap[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState<boolean>(true);
+  const cursorRef = useRef<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const filterQuery = buildFilterQuery(filters);
+
+  // Fetch the next page after the current cursor, or the first page when reset.
+  // A reset aborts whatever is in flight; loading more waits for the current page.
+  const fetchPage = useCallback(async (reset: boolean) => {
+    if (requestRef.current) {
+      if (!reset) return;
+      requestRef.current.abort();
+    }
+
+    const request = new AbortController();
+    requestRef.current = request;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const cursor = reset ? null : cursorRef.current;
+      const query = cursor ? `${filterQuery}&cursor=${encodeURIComponent(cursor)}` : filterQuery;
+      const response = await fetch(`${API_BASE}/coffee/feed?${query}`, { signal: request.signal });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch feed: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.message || 'Failed to fetch feed');
+      }
+
+      cursorRef.current = data.data.pagination.nextCursor;
+      setHasMore(data.data.pagination.hasMore);
+      setSnaps(prev => reset ? data.data.snaps : [...prev, ...data.data.snaps]);
+    } catch (err) {
+      if (request.signal.aborted) return;
+      console.warn('Feed API not available:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch feed');
+      setHasMore(false);
+    } finally {
+      if (requestRef.current === request) {
+        requestRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, [filterQuery]);
+
+  const loadMore = useCallback(async () => {
+    if (hasMore) {
+      await fetchPage(false);
+    }
+  }, [fetchPage, hasMore]);
+
+  const refresh = useCallback(() => fetchPage(true), [fetchPage]);
+
+  // Restart from the first page whenever the filters change
+  useEffect(() => {
+    cursorRef.current = null;
+    setHasMore(true);
+    fetchPage(true);
+  }, [fetchPage]);
+
+  // Drop any request still in flight on unmount
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  return {
+    snaps,
+    loading,
+    error,
+    hasMore,
+    loadMore,
+    refresh,
+  };
+}
@@ -0,0 +1,146 @@
+import { useState, useCallback } from 'react';
+import type { Address, Hex } from 'viem';
+import { useSignTypedData } from 'wagmi';
+
+// API base URL
+const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+// Scanned codes start with this; the rest is base64url JSON (see decodeCouponCode)
+export const COUPON_QR_PREFIX = 'snapcoffee-coupon:';
+
+export interface CouponCodePayload {
+  tokenId: string;
+  venueId: string;
+  nonce: string;
+  expiry: number;
+  holder: string;
+  signature: string;
+}
+
+// EIP-712 types the backend asks the holder to sign (see services/coupon-presentations.ts)
+const presentationTypes = {
+  CouponPresentation: [
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'venueId', type: 'string' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+interface CouponPresentationResponse {
+  typedData: {
+    domain: { name: string; version: string; chainId: number; verifyingContract: Address };
+    message: { tokenId: string; venueId: string; nonce: Hex; expiry: string };
+  };
+  holder: Address;
+}
+
+interface CouponCodeHook {
+  code: string | null;
+  expiresAt: Date | null;
+  loading: boolean;
+  error: string | null;
+  generate: () => Promise<string | null>;
+}
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Read a scanned coupon code for display; the backend does the real verification
+ */
+export function decodeCouponCode(code: string): CouponCodePayload | null {
+  if (!code.startsWith(COUPON_QR_PREFIX)) return null;
+  try {
+    return JSON.parse(fromBase64Url(code.slice(COUPON_QR_PREFIX.length)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signed, short-lived QR code for one of the user's coupons.
+ * The backend hands out typed data (tokenId, venueId, nonce, expiry) that the
+ * holder's wallet signs; a venue scans the result before it expires, once.
+ */
+export function useCouponCode(tokenId: string | null): CouponCodeHook {
+  const { signTypedDataAsync } = useSignTypedData();
+  const [code, setCode] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = useCallback(async (): Promise<string | null> => {
+    if (!tokenId) return null;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`${API_BASE}/coupons/${tokenId}/presentation`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('authToken') || ''}`
+        }
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to create coupon code: ${response.statusText}`);
+      }
+
+      const { typedData, holder }: CouponPresentationResponse = result.data;
+      const signature = await signTypedDataAsync({
+        account: holder,
+        domain: typedData.domain,
+        types: presentationTypes,
+        primaryType: 'CouponPresentation',
+        message: {
+          ...typedData.message,
+          tokenId: BigInt(typedData.message.tokenId),
+          expiry: BigInt(typedData.message.expiry)
+        }
+      });
+
+      const payload: CouponCodePayload = {
+        tokenId: typedData.message.tokenId,
+        venueId: typedData.message.venueId,
+        nonce: typedData.message.nonce,
+        expiry: Number(typedData.message.expiry),
+        holder,
+        signature
+      };
+      const next = COUPON_QR_PREFIX + toBase64Url(JSON.stringify(payload));
+
+      setCode(next);
+      setExpiresAt(new Date(result.data.expiresAt));
+      return next;
+    } catch (err) {
+      console.error('Coupon code error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create coupon code');
+      setCode(null);
+      setExpiresAt(null);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenId, signTypedDataAsync]);
+
+  return {
+    code,
+    expiresAt,
+    loading,
+    error,
+    generate
+  };
+}
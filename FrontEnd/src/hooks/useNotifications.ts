@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// API base URL
+const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+export type NotificationType = 'coupon_expiring' | 'coupon_expired' | 'coupon_extended' | 'coupon_reissued';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  targetUrl: string;
+  read: boolean;
+  createdAt: string;
+}
+
+interface NotificationsHook {
+  notifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('authToken') || ''}`
+});
+
+/**
+ * The signed-in user's in-app notifications (coupon reminders and expiries).
+ * Does nothing until there is a session token.
+ */
+export function useNotifications(): NotificationsHook {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!localStorage.getItem('authToken')) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/notifications`, { headers: authHeaders() });
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setNotifications(result.data.notifications);
+        setUnreadCount(result.data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const markAllRead = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/notifications/read`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      });
+      if (response.ok) {
+        setNotifications(current => current.map(notification => ({ ...notification, read: true })));
+        setUnreadCount(0);
+      }
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { notifications, unreadCount, loading, refresh, markAllRead };
+}
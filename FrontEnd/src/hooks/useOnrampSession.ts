@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// API base URL
+const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+// How often to check a pending session, and how long to keep checking
+const POLL_INTERVAL_MS = 3000;
+const POLL_TIMEOUT_MS = 15 * 60 * 1000;
+
+export type OnrampSessionStatus = 'pending' | 'completed' | 'failed' | 'expired';
+
+export interface OnrampSession {
+  sessionId: string;
+  onrampUrl: string | null;
+  userId: string;
+  amount: string;
+  currency: string;
+  destinationWallet: string;
+  status: OnrampSessionStatus;
+  transactionHash: string | null;
+  creditedAmount: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string;
+}
+
+interface CreateOnrampSessionInput {
+  userId: string;
+  amount: number;
+  destinationWallet: string;
+  currency?: string;
+}
+
+interface OnrampSessionHook {
+  session: OnrampSession | null;
+  polling: boolean;
+  createSession: (input: CreateOnrampSessionInput) => Promise<OnrampSession | null>;
+  waitForCompletion: (sessionId: string) => Promise<OnrampSession | null>;
+  stopPolling: () => void;
+}
+
+/**
+ * Creates backend onramp sessions and polls them until the webhook settles them.
+ * The backend only marks a session completed after a signed onramp webhook,
+ * so callers should wait for that instead of trusting the widget's callback.
+ */
+export function useOnrampSession(): OnrampSessionHook {
+  const [session, setSession] = useState<OnrampSession | null>(null);
+  const [polling, setPolling] = useState(false);
+  const pollRef = useRef<{ cancelled: boolean } | null>(null);
+
+  const stopPolling = useCallback(() => {
+    if (pollRef.current) {
+      pollRef.current.cancelled = true;
+      pollRef.current = null;
+    }
+    setPolling(false);
+  }, []);
+
+  const createSession = useCallback(async (input: CreateOnrampSessionInput): Promise<OnrampSession | null> => {
+    try {
+      const response = await fetch(`${API_BASE}/onramp/create-session`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('authToken') || ''}`
+        },
+        body: JSON.stringify({
+          userId: input.userId,
+          amount: input.amount.toString(),
+          currency: input.currency || 'USD',
+          destinationWallet: input.destinationWallet
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to create onramp session: ${response.statusText}`);
+      }
+
+      setSession(result.data);
+      return result.data;
+    } catch (error) {
+      console.error('Onramp session error:', error);
+      return null;
+    }
+  }, []);
+
+  const waitForCompletion = useCallback(async (sessionId: string): Promise<OnrampSession | null> => {
+    stopPolling();
+    const poll = { cancelled: false };
+    pollRef.current = poll;
+    setPolling(true);
+
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    try {
+      while (!poll.cancelled && Date.now() < deadline) {
+        try {
+          const response = await fetch(`${API_BASE}/onramp/session/${sessionId}`, {
+            headers: {
+              'Authorization': `Bearer ${localStorage.getItem('authToken') || ''}`
+            }
+          });
+          const result = await response.json();
+
+          if (response.ok && result.success) {
+            setSession(result.data);
+            if (result.data.status !== 'pending') {
+              return result.data;
+            }
+          }
+        } catch (error) {
+          console.warn('Onramp status check failed, retrying:', error);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+      return null;
+    } finally {
+      if (pollRef.current === poll) {
+        pollRef.current = null;
+        setPolling(false);
+      }
+    }
+  }, [stopPolling]);
+
+  // Stop polling when the component unmounts
+  useEffect(() => stopPolling, [stopPolling]);
+
+  return {
+    session,
+    polling,
+    createSession,
+    waitForCompletion,
+    stopPolling
+  };
+}
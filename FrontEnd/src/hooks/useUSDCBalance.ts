@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAccount } from 'wagmi';
 import { useToast } from '@/hooks/use-toast';
+import { useMiniKit } from '@/hooks/useMiniKit';
 
 // API base URL
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
@@ -10,9 +11,13 @@ interface USDCBalanceHook {
   loading: boolean;
   error: string | null;
   refreshBalance: () => Promise<void>;
-  sendTip: (toUserId: number, amount: number) => Promise<boolean>;
+  sendTip: (toUserId: number, amount: number, creatorName?: string) => Promise<boolean>;
 }
 
+// How often to re-check a submitted tip, and how many times
+const TIP_CONFIRM_INTERVAL_MS = 3000;
+const TIP_CONFIRM_ATTEMPTS = 40;
+
 // Mock USDC balance data - in real app, this would come from blockchain + backend
 const MOCK_BALANCES: Record<string, number> = {
   'default': 45.75,
@@ -22,6 +27,7 @@ const MOCK_BALANCES: Record<string, number> = {
 export function useUSDCBalance(): USDCBalanceHook {
   const { address, isConnected } = useAccount();
   const { toast } = useToast();
+  const { sendUSDCTip } = useMiniKit();
   const [balance, setBalance] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -81,8 +87,9 @@ export function useUSDCBalance(): USDCBalanceHook {
     }
   }, [address, isConnected]);
 
-  // Send USDC tip to another user
-  const sendTip = useCallback(async (toUserId: number, amount: number): Promise<boolean> => {
+  // Send USDC tip to another user: the backend prepares it, the wallet sends it,
+  // and the backend confirms it from the transaction receipt
+  const sendTip = useCallback(async (toUserId: number, amount: number, creatorName?: string): Promise<boolean> => {
     if (!address || !isConnected) {
       toast({
         title: "Wallet Not Connected",
@@ -101,79 +108,88 @@ export function useUSDCBalance(): USDCBalanceHook {
       return false;
     }
 
+    const headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${localStorage.getItem('authToken') || ''}`
+    };
+
     try {
       setLoading(true);
-      
-      // In production, this would:
-      // 1. Create a USDC transfer transaction on Base network
-      // 2. Send USDC from current user's address to recipient's address
-      // 3. Record the tip transaction in your backend
-      // 4. Update both users' balances
-      
-      const response = await fetch(`${API_BASE}/users/tips/send`, {
+
+      // 1. Record a pending tip and get the transfer to send
+      const prepareResponse = await fetch(`${API_BASE}/users/tips/send`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('authToken') || 'mock-token'}`
-        },
+        headers,
         body: JSON.stringify({
           toUserId,
-          amount,
+          amount: amount.toString(),
           fromAddress: address
         })
       });
 
-      if (!response.ok) {
-        throw new Error(`Failed to send tip: ${response.statusText}`);
+      const prepared = await prepareResponse.json();
+      if (!prepareResponse.ok || !prepared.success) {
+        throw new Error(prepared.error || prepared.message || `Failed to prepare tip: ${prepareResponse.statusText}`);
       }
 
-      const result = await response.json();
-      
-      // For demo purposes, simulate successful tip
-      if (response.status === 404 || !result.success) {
-        // Mock successful transaction
-        setBalance(prevBalance => prevBalance - amount);
-        
-        toast({
-          title: "Tip Sent Successfully! 🎉",
-          description: `You sent $${amount.toFixed(2)} USDC`,
-        });
-        
-        return true;
+      const { tip, transfer } = prepared.data;
+
+      // 2. Send the USDC transfer from the user's wallet
+      const sent = await sendUSDCTip({
+        toAddress: transfer.to,
+        amount: transfer.amount,
+        creatorName: creatorName || `creator #${toUserId}`
+      });
+      if (!sent.success || !sent.transactionHash) {
+        return false;
       }
-      
-      // Update local balance with server response
-      if (result.data?.newBalance !== undefined) {
-        setBalance(result.data.newBalance);
-      } else {
-        // Optimistically update balance
-        setBalance(prevBalance => prevBalance - amount);
+
+      // 3. Report the hash; the backend answers 202 until the receipt is available
+      for (let attempt = 0; attempt < TIP_CONFIRM_ATTEMPTS; attempt++) {
+        const confirmResponse = await fetch(`${API_BASE}/users/tips/${tip.tipId}/confirm`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ transactionHash: sent.transactionHash })
+        });
+        const confirmed = await confirmResponse.json();
+
+        if (confirmResponse.status === 200 && confirmed.data?.status === 'confirmed') {
+          toast({
+            title: "Tip Confirmed! 🎉",
+            description: `You sent $${amount.toFixed(2)} USDC`,
+          });
+          await fetchBalance();
+          return true;
+        }
+
+        if (confirmResponse.status !== 202) {
+          throw new Error(confirmed.error || confirmed.message || 'Tip could not be confirmed');
+        }
+
+        await new Promise(resolve => setTimeout(resolve, TIP_CONFIRM_INTERVAL_MS));
       }
-      
+
       toast({
-        title: "Tip Sent Successfully! 🎉",
-        description: `You sent $${amount.toFixed(2)} USDC`,
+        title: "Tip Submitted",
+        description: "Your tip is on its way and will be confirmed shortly",
       });
-      
       return true;
       
     } catch (err) {
       console.error('Tip sending failed:', err);
       
-      // For demo, still allow mock transaction
-      setBalance(prevBalance => prevBalance - amount);
-      
       toast({
-        title: "Tip Sent! (Demo Mode)",
-        description: `Mock tip of $${amount.toFixed(2)} USDC sent`,
+        title: "Tip Failed",
+        description: err instanceof Error ? err.message : "Failed to send tip",
+        variant: "destructive"
       });
       
-      return true;
+      return false;
       
     } finally {
       setLoading(false);
     }
-  }, [address, isConnected, balance, toast]);
+  }, [address, isConnected, balance, toast, sendUSDCTip, fetchBalance]);
 
   // Refresh balance when component mounts or dependencies change
   useEffect(() => {
@@ -1,3 +1,5 @@
+import { sdk } from '@farcaster/miniapp-sdk';
+
 // Ensure URL has proper protocol
 const baseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
 const API_BASE_URL = baseUrl.startsWith('http') ? baseUrl : `https://${baseUrl}`;
@@ -77,4 +79,57 @@ export async function getUserProfile(fid: number) {
     console.error('Error fetching user profile:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+const AUTH_TOKEN_KEY = 'authToken';
+const AUTH_EXPIRES_KEY = 'authTokenExpiresAt';
+
+/**
+ * Session token for Authorization: Bearer headers, or null when signed out or expired
+ */
+export function getAuthToken(): string | null {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY);
+  const expiresAt = Date.parse(localStorage.getItem(AUTH_EXPIRES_KEY) || '');
+  if (!token || !(expiresAt > Date.now())) {
+    return null;
+  }
+  return token;
+}
+
+export function clearAuthToken(): void {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+  localStorage.removeItem(AUTH_EXPIRES_KEY);
+}
+
+/**
+ * Sign In With Farcaster: the host signs a message for a backend nonce with the user's
+ * custody address, and the backend exchanges it for a session token (stored for later calls)
+ */
+export async function signInWithFarcaster(): Promise<string> {
+  const existing = getAuthToken();
+  if (existing) {
+    return existing;
+  }
+
+  const nonceResponse = await fetch(`${API_BASE_URL}/api/auth/nonce`);
+  if (!nonceResponse.ok) {
+    throw new Error(`Failed to get sign-in nonce: ${nonceResponse.statusText}`);
+  }
+  const { data: { nonce } } = await nonceResponse.json();
+
+  const { message, signature } = await sdk.actions.signIn({ nonce });
+
+  const sessionResponse = await fetch(`${API_BASE_URL}/api/auth/session`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature })
+  });
+  const result = await sessionResponse.json();
+  if (!sessionResponse.ok || !result.success) {
+    throw new Error(result.error || 'Sign in failed');
+  }
+
+  localStorage.setItem(AUTH_TOKEN_KEY, result.data.token);
+  localStorage.setItem(AUTH_EXPIRES_KEY, result.data.expiresAt);
+  return result.data.token;
+}
@@ -1,6 +1,20 @@
 import MobileLayout from "@/layouts/MobileLayout";
 import nftImg from "@/assets/nft-coupon.jpg";
 import { Button } from "@/components/ui/button";
+import { QRCodeSVG } from "qrcode.react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useCouponCode } from "@/hooks/useCouponCode";
+
+// API base URL
+const API_BASE = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001/api";
+
+interface CouponStatus {
+  status: "active" | "redeemed" | "expired";
+  expiringSoon: boolean;
+  validUntil: string;
+  reissuedAs: string | null;
+}
 
 function QRPlaceholder() {
   return (
@@ -15,6 +29,37 @@ function QRPlaceholder() {
 }
 
 export default function Coupon() {
+  const [searchParams] = useSearchParams();
+  const tokenId = searchParams.get("tokenId");
+  const { code, expiresAt, loading, error, generate } = useCouponCode(tokenId);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [coupon, setCoupon] = useState<CouponStatus | null>(null);
+
+  useEffect(() => {
+    if (!tokenId) return;
+
+    fetch(`${API_BASE}/coupons/${tokenId}`)
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setCoupon(result.data);
+      })
+      .catch(error => console.error("Failed to load coupon:", error));
+  }, [tokenId]);
+
+  // Count down to the code's expiry; an expired code is hidden so it can't be shown to a scanner
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const tick = () => setSecondsLeft(Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  const usable = !coupon || coupon.status === "active";
+  const showCode = usable && code && secondsLeft > 0;
+  const validUntil = coupon ? new Date(coupon.validUntil).toLocaleDateString() : null;
+
   return (
     <MobileLayout title="NFT Coupon">
       <section className="p-4 text-center">
@@ -23,11 +68,42 @@ export default function Coupon() {
           <img src={nftImg} alt="Snap Coffee NFT coupon" className="w-full h-auto" />
         </div>
         <div className="mt-4">
-          <QRPlaceholder />
+          {showCode ? (
+            <div className="bg-white p-3 rounded-xl inline-block">
+              <QRCodeSVG value={code} size={200} level="M" />
+            </div>
+          ) : (
+            <QRPlaceholder />
+          )}
         </div>
-        <p className="text-sm text-muted-foreground mt-2">Participating café: Blue Bean Cafe</p>
+        {showCode ? (
+          <p className="text-sm text-muted-foreground mt-2">
+            Show this to the barista — valid for {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, "0")}
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground mt-2">Participating café: Blue Bean Cafe</p>
+        )}
+        {coupon?.status === "expired" && (
+          <p className="text-sm text-destructive mt-2">
+            This coupon expired on {validUntil}.
+            {coupon.reissuedAs && <> It was replaced by <a className="underline" href={`/coupon?tokenId=${coupon.reissuedAs}`}>coupon #{coupon.reissuedAs}</a>.</>}
+          </p>
+        )}
+        {coupon?.status === "redeemed" && <p className="text-sm text-muted-foreground mt-2">This coupon has been redeemed.</p>}
+        {coupon?.status === "active" && (
+          <p className={coupon.expiringSoon ? "text-sm text-destructive mt-2" : "text-sm text-muted-foreground mt-2"}>
+            {coupon.expiringSoon ? "Expiring soon — valid until" : "Valid until"} {validUntil}
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive mt-2">{error}</p>}
         <div className="mt-4">
-          <Button className="rounded-full">Redeem</Button>
+          {tokenId ? (
+            <Button className="rounded-full" onClick={generate} disabled={loading || !usable}>
+              {loading ? "Waiting for signature..." : showCode ? "Refresh Code" : "Show Redemption Code"}
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">Your coupon code will appear here once it has been minted.</p>
+          )}
         </div>
       </section>
     </MobileLayout>
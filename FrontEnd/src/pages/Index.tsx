@@ -5,9 +5,10 @@ import { FarcasterShareButton } from "@/components/FarcasterShareButton";
 import coffee1 from "@/assets/coffee1.jpg";
 import coffee2 from "@/assets/coffee2.jpg";
 import coffee3 from "@/assets/coffee3.jpg";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import confetti from "canvas-confetti";
+import { useCoffeeFeed } from "@/hooks/useCoffeeFeed";
 
 const TOTAL = 10;
 
@@ -16,6 +17,8 @@ export default function Index() {
   const location = useLocation() as { state?: { posted?: boolean; shareUrl?: string; snap?: any } };
   const [shareUrl, setShareUrl] = useState<string | null>(null);
   const navigate = useNavigate();
+  const { snaps, loading, hasMore, loadMore, refresh } = useCoffeeFeed();
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
     document.title = "Snap Coffee — Home";
@@ -42,6 +45,28 @@ export default function Index() {
     }
   }, [location.state]);
 
+  // Load the next page when the bottom of the feed scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  // Pick up the snap that was just posted
+  useEffect(() => {
+    if (shareUrl) {
+      refresh();
+    }
+  }, [shareUrl, refresh]);
+
   return (
     <MobileLayout title="Snap Coffee">
       <section className="bg-background">
@@ -66,9 +91,30 @@ export default function Index() {
         )}
         
         <div className="px-4 pb-4">
-          <FeedCard image={coffee1} cafe="Blue Bean Cafe" distance="0.3 mi" coffeeType="Latte" rating={5} pairing="almond croissant" />
-          <FeedCard image={coffee2} cafe="Roast & Co." distance="0.5 mi" coffeeType="Cold Brew" rating={4} pairing="cinnamon roll" />
-          <FeedCard image={coffee3} cafe="Cuppa Corner" distance="0.8 mi" coffeeType="Espresso" rating={4} pairing="dark chocolate" />
+          {snaps.map((snap) => (
+            <FeedCard
+              key={snap.id}
+              image={snap.imageUrl}
+              cafe={snap.location.venueName}
+              distance={[snap.location.city, snap.location.state].filter(Boolean).join(", ")}
+              coffeeType={snap.coffeeName || snap.coffeeType || "Coffee"}
+              rating={snap.rating || 0}
+            />
+          ))}
+
+          {/* Sample snaps until the feed has content */}
+          {!loading && snaps.length === 0 && (
+            <>
+              <FeedCard image={coffee1} cafe="Blue Bean Cafe" distance="0.3 mi" coffeeType="Latte" rating={5} pairing="almond croissant" />
+              <FeedCard image={coffee2} cafe="Roast & Co." distance="0.5 mi" coffeeType="Cold Brew" rating={4} pairing="cinnamon roll" />
+              <FeedCard image={coffee3} cafe="Cuppa Corner" distance="0.8 mi" coffeeType="Espresso" rating={4} pairing="dark chocolate" />
+            </>
+          )}
+
+          <div ref={sentinelRef} />
+          {loading && (
+            <p className="text-center text-xs text-muted-foreground py-4">Loading more snaps...</p>
+          )}
         </div>
       </section>
     </MobileLayout>
@@ -2,12 +2,14 @@ import MobileLayout from "@/layouts/MobileLayout";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import SupportModal from "@/components/SupportModal";
 import { useToast } from "@/hooks/use-toast";
+import { useNotifications } from "@/hooks/useNotifications";
 import coffee1 from "@/assets/coffee1.jpg";
 import coffee2 from "@/assets/coffee2.jpg";
 import coffee3 from "@/assets/coffee3.jpg";
 
 export default function Profile() {
   const { toast } = useToast();
+  const { notifications, unreadCount, markAllRead } = useNotifications();
 
   return (
     <MobileLayout title="Profile">
@@ -43,6 +45,27 @@ export default function Profile() {
           </div>
         </div>
 
+        {notifications.length > 0 && (
+          <div className="mt-4 bg-card border rounded-2xl p-3">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-semibold">Notifications{unreadCount > 0 ? ` (${unreadCount})` : ""}</p>
+              {unreadCount > 0 && (
+                <button className="text-xs text-primary" onClick={markAllRead}>Mark all read</button>
+              )}
+            </div>
+            <ul className="space-y-2">
+              {notifications.slice(0, 5).map((notification) => (
+                <li key={notification.id}>
+                  <a href={notification.targetUrl} className={notification.read ? "block text-muted-foreground" : "block"}>
+                    <p className="text-xs font-medium">{notification.title}</p>
+                    <p className="text-[11px]">{notification.body}</p>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-4 grid grid-cols-3 gap-2">
           {[coffee1, coffee2, coffee3, coffee2, coffee1, coffee3].map((img, i) => (
             <div key={i} className="aspect-square rounded-2xl overflow-hidden border">
@@ -25,6 +25,29 @@ import {
 // API base URL
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
 
+type EarningsWindow = '7d' | '30d' | 'all';
+
+// GET /users/:fid/earnings
+interface CreatorEarnings {
+  fid: number;
+  windows: Record<EarningsWindow, { total: string; count: number; supporters: number }>;
+  daily: Array<{ date: string; total: string; count: number }>;
+  currency: 'USDC';
+}
+
+// GET /users/:fid/supporters
+interface TipSupporter {
+  rank: number;
+  fid: number | null;
+  address: string;
+  username: string | null;
+  displayName: string | null;
+  pfpUrl: string | null;
+  total: string;
+  count: number;
+  lastTipAt: string;
+}
+
 export default function ProfileCreator() {
   const { fid } = useParams<{ fid: string }>();
   const navigate = useNavigate();
@@ -38,6 +61,8 @@ export default function ProfileCreator() {
   const [showOnrampDialog, setShowOnrampDialog] = useState(false);
   const [isFollowing, setIsFollowing] = useState(false);
   const [activeTab, setActiveTab] = useState<"posts" | "about">("posts");
+  const [earnings, setEarnings] = useState<CreatorEarnings | null>(null);
+  const [supporters, setSupporters] = useState<TipSupporter[]>([]);
 
   // Fetch creator data from backend
   const fetchCreator = async () => {
@@ -77,8 +102,31 @@ export default function ProfileCreator() {
     }
   };
 
+  // Confirmed tip earnings and top supporters; the profile still renders if these fail
+  const fetchTipStats = async () => {
+    if (!fid) return;
+
+    try {
+      const [earningsResponse, supportersResponse] = await Promise.all([
+        fetch(`${API_BASE}/users/${fid}/earnings`),
+        fetch(`${API_BASE}/users/${fid}/supporters?limit=5`)
+      ]);
+
+      const [earningsData, supportersData] = await Promise.all([
+        earningsResponse.json(),
+        supportersResponse.json()
+      ]);
+
+      if (earningsData.success) setEarnings(earningsData.data);
+      if (supportersData.success) setSupporters(supportersData.data.supporters);
+    } catch (error) {
+      console.warn('Could not load tip stats:', error);
+    }
+  };
+
   useEffect(() => {
     fetchCreator();
+    fetchTipStats();
   }, [fid]);
 
   const formatCurrency = (amount: number) => {
@@ -116,7 +164,7 @@ export default function ProfileCreator() {
 
     try {
       // Use the USDC balance hook to send the tip
-      const success = await sendTip(creator.fid, amount);
+      const success = await sendTip(creator.fid, amount, creator.displayName);
       
       if (success) {
         // Update creator's tip totals locally
@@ -128,6 +176,7 @@ export default function ProfileCreator() {
         
         setShowTipDialog(false);
         setTipAmount("");
+        fetchTipStats();
         
         toast({
           title: "Tip Sent Successfully! 🎉",
@@ -378,6 +427,55 @@ export default function ProfileCreator() {
 
         {activeTab === "about" && (
           <div className="p-4 space-y-6">
+            {/* Tip Earnings */}
+            {earnings && (
+              <div>
+                <h3 className="font-semibold mb-3">Tip Earnings</h3>
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  {([["7d", "Last 7 days"], ["30d", "Last 30 days"], ["all", "All time"]] as const).map(([period, label]) => (
+                    <div key={period} className="p-3 bg-card border rounded-xl">
+                      <div className="font-semibold text-sm text-green-500">
+                        {formatCurrency(parseFloat(earnings.windows[period].total))}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {earnings.windows[period].count} tips
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Top Supporters */}
+            <div>
+              <h3 className="font-semibold mb-3">Top Supporters</h3>
+              {supporters.length > 0 ? (
+                <div className="space-y-2">
+                  {supporters.map((supporter) => (
+                    <div key={supporter.fid ?? supporter.address} className="flex items-center gap-3 p-3 bg-card border rounded-xl">
+                      <span className="text-sm font-semibold text-muted-foreground w-5">#{supporter.rank}</span>
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={supporter.pfpUrl || undefined} />
+                        <AvatarFallback>{(supporter.displayName || supporter.address).charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-sm truncate">
+                          {supporter.displayName || `${supporter.address.slice(0, 6)}…${supporter.address.slice(-4)}`}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{supporter.count} tips</div>
+                      </div>
+                      <span className="text-sm font-semibold text-green-500">
+                        {formatCurrency(parseFloat(supporter.total))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No supporters yet — be the first to tip!</p>
+              )}
+            </div>
+
             {/* Top Cafés */}
             <div>
               <h3 className="font-semibold mb-3">Favorite Cafés</h3>
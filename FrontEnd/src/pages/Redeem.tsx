@@ -1,11 +1,78 @@
 import MobileLayout from "@/layouts/MobileLayout";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import QrScanner from "@/components/QrScanner";
+import { useToast } from "@/hooks/use-toast";
+import { decodeCouponCode } from "@/hooks/useCouponCode";
 import { CheckCircle2 } from "lucide-react";
 import { useState } from "react";
 
+// API base URL
+const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
 export default function Redeem() {
-  const [scanned, setScanned] = useState(false);
-  const [redeemed, setRedeemed] = useState(false);
+  const { toast } = useToast();
+  const [venueId, setVenueId] = useState(() => localStorage.getItem("venueId") || "");
+  // Redeem-scoped API key issued to the venue; kept on this device only
+  const [venueKey, setVenueKey] = useState(() => localStorage.getItem("venueApiKey") || "");
+  const [scanned, setScanned] = useState<string | null>(null);
+  const [redeeming, setRedeeming] = useState(false);
+  const [redeemed, setRedeemed] = useState<{ tokenId: string; transactionHash: string } | null>(null);
+
+  const coupon = scanned ? decodeCouponCode(scanned) : null;
+
+  const handleScan = (text: string) => {
+    if (!decodeCouponCode(text)) {
+      toast({
+        title: "Not a Snap Coffee coupon",
+        description: "Ask the customer to open their coupon in the app",
+        variant: "destructive"
+      });
+      return;
+    }
+    setScanned(text);
+  };
+
+  const handleRedeem = async () => {
+    if (!scanned || !venueId || !venueKey) return;
+
+    try {
+      setRedeeming(true);
+      localStorage.setItem("venueId", venueId);
+      localStorage.setItem("venueApiKey", venueKey);
+
+      const response = await fetch(`${API_BASE}/coupons/scan`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': venueKey
+        },
+        body: JSON.stringify({ qr: scanned, venueId })
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Redemption failed: ${response.statusText}`);
+      }
+
+      setRedeemed(result.data);
+    } catch (error) {
+      console.error('Redeem failed:', error);
+      toast({
+        title: "Coupon Not Redeemed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+      setScanned(null);
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  const reset = () => {
+    setScanned(null);
+    setRedeemed(null);
+  };
 
   return (
     <MobileLayout title="Redeem Coupon">
@@ -13,23 +80,48 @@ export default function Redeem() {
         <h1 className="sr-only">Coffee Shop Redemption</h1>
         {!scanned ? (
           <>
-            <div className="mx-auto rounded-2xl border bg-black/80 h-72 w-72 flex items-center justify-center text-white/80">
-              QR Scanner
-            </div>
-            <Button className="rounded-full mt-4" onClick={() => setScanned(true)}>Simulate Scan</Button>
+            <QrScanner onScan={handleScan} className="mx-auto rounded-2xl border bg-black/80 h-72 w-72" />
+            <p className="text-sm text-muted-foreground mt-4">Point the camera at the customer's coupon code</p>
           </>
         ) : !redeemed ? (
           <>
-            <div className="bg-card border rounded-2xl p-4 text-left">
-              <p className="font-semibold">Coupon: Free Coffee</p>
-              <p className="text-sm text-muted-foreground">User: 0x1234...ABCD</p>
+            <div className="bg-card border rounded-2xl p-4 text-left space-y-1">
+              <p className="font-semibold">Coupon #{coupon?.tokenId}</p>
+              <p className="text-sm text-muted-foreground">
+                Holder: {coupon ? `${coupon.holder.slice(0, 6)}...${coupon.holder.slice(-4)}` : "Unknown"}
+              </p>
+              {coupon?.venueId && (
+                <p className="text-sm text-muted-foreground">Only valid at venue {coupon.venueId}</p>
+              )}
+            </div>
+            <Input
+              className="mt-4"
+              placeholder="Your venue ID"
+              value={venueId}
+              onChange={(e) => setVenueId(e.target.value)}
+            />
+            <Input
+              className="mt-2"
+              type="password"
+              placeholder="Venue redemption key"
+              value={venueKey}
+              onChange={(e) => setVenueKey(e.target.value)}
+            />
+            <div className="flex gap-2 justify-center mt-4">
+              <Button variant="outline" className="rounded-full" onClick={reset} disabled={redeeming}>
+                Scan Again
+              </Button>
+              <Button className="rounded-full" onClick={handleRedeem} disabled={redeeming || !venueId || !venueKey}>
+                {redeeming ? "Redeeming..." : "Redeem"}
+              </Button>
             </div>
-            <Button className="rounded-full mt-4" onClick={() => setRedeemed(true)}>Redeem</Button>
           </>
         ) : (
           <div className="flex flex-col items-center gap-2 animate-enter">
             <CheckCircle2 className="h-16 w-16 text-primary" />
             <p className="text-primary font-semibold">Redeemed!</p>
+            <p className="text-xs text-muted-foreground">Coupon #{redeemed.tokenId}</p>
+            <Button variant="outline" className="rounded-full mt-2" onClick={reset}>Scan Next</Button>
           </div>
         )}
       </section>
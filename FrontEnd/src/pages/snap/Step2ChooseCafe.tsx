@@ -10,6 +10,7 @@ interface CoffeeVenue {
   name: string;
   address: string;
   distance: number;
+  coordinates?: { lat: number; lng: number };
   rating?: number;
   openNow?: boolean;
   priceLevel?: number;
@@ -165,7 +166,7 @@ export default function Step2ChooseCafe() {
                   onClick={() => navigate("/snap/review", { 
                     state: { 
                       image: img, 
-                      cafe: { name: venue.name, address: venue.address, id: venue.id }
+                      cafe: { name: venue.name, address: venue.address, id: venue.id, coordinates: venue.coordinates }
                     } 
                   })}
                   className="w-full text-left bg-card border rounded-2xl p-3 hover:bg-accent transition-colors"
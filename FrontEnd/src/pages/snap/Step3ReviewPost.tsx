@@ -11,7 +11,7 @@ const types = ["Espresso", "Latte", "Cold Brew", "Cappuccino", "Mocha"];
 export default function Step3ReviewPost() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { state } = useLocation() as { state?: { image?: string; cafe?: { name: string } } };
+  const { state } = useLocation() as { state?: { image?: string; cafe?: { name: string; id?: string; coordinates?: { lat: number; lng: number } } } };
   const img = state?.image;
   const cafe = state?.cafe?.name ?? "Unknown Café";
 
@@ -44,13 +44,16 @@ export default function Step3ReviewPost() {
       const formData = new FormData();
       formData.append('image', file);
       formData.append('userId', 'user_123'); // TODO: Get from auth context
-      formData.append('fid', '123456'); // TODO: Get from Farcaster auth
       formData.append('coffeeType', selected);
       formData.append('coffeeName', coffeeName);
       formData.append('venueName', cafe);
       formData.append('city', city);
       formData.append('state', stateInput);
       formData.append('rating', rating.toString());
+      formData.append('timezone', Intl.DateTimeFormat().resolvedOptions().timeZone); // Streak days are local
+      if (state?.cafe?.id) {
+        formData.append('venueId', state.cafe.id); // Backend looks up the venue's coordinates
+      }
       if (pair.trim()) {
         formData.append('description', `Paired with: ${pair}`);
       }
@@ -59,6 +62,9 @@ export default function Step3ReviewPost() {
       const apiUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
       const uploadResponse = await fetch(`${apiUrl}/coffee/validate-snap`, {
         method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('authToken') || ''}` // fid and wallet come from the session
+        },
         body: formData,
       });
 
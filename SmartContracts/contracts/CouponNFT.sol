@@ -55,6 +55,7 @@ contract CouponNFT is
     mapping(uint256 => CouponMetadata) public couponData;
     mapping(address => uint256[]) public userCoupons;
     mapping(string => uint256[]) public venueCoupons;
+    mapping(uint256 => bool) public expiryRecorded; // CouponExpired already emitted for the current expiry
     
     // Base URI for metadata
     string private _baseTokenURI;
@@ -78,6 +79,12 @@ contract CouponNFT is
     
     event CouponExpired(uint256 indexed tokenId);
     
+    event CouponExpiryExtended(
+        uint256 indexed tokenId,
+        uint256 oldExpiryTimestamp,
+        uint256 newExpiryTimestamp
+    );
+    
     event BaseURIUpdated(string oldURI, string newURI);
     
     constructor(
@@ -249,6 +256,58 @@ contract CouponNFT is
         return (true, "");
     }
     
+    /**
+     * @dev Emit CouponExpired for coupons that lapsed unredeemed
+     * @param tokenIds Token IDs to check; missing, redeemed, unexpired or already recorded ones are skipped
+     * @return recorded Number of CouponExpired events emitted
+     */
+    function recordExpired(
+        uint256[] calldata tokenIds
+    ) external onlyRole(REDEEMER_ROLE) returns (uint256 recorded) {
+        require(tokenIds.length <= 100, "Too many token IDs");
+        
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            uint256 tokenId = tokenIds[i];
+            if (_ownerOf(tokenId) == address(0) || expiryRecorded[tokenId]) {
+                continue;
+            }
+            
+            CouponMetadata memory coupon = couponData[tokenId];
+            if (coupon.isRedeemed || block.timestamp <= coupon.expiryTimestamp) {
+                continue;
+            }
+            
+            expiryRecorded[tokenId] = true;
+            recorded++;
+            emit CouponExpired(tokenId);
+        }
+        
+        return recorded;
+    }
+    
+    /**
+     * @dev Push back an unredeemed coupon's expiry (also revives an expired coupon)
+     * @param tokenId Token ID to extend
+     * @param additionalDays Days added to the later of the current expiry and now
+     */
+    function extendExpiry(
+        uint256 tokenId,
+        uint256 additionalDays
+    ) external onlyRole(MINTER_ROLE) whenNotPaused {
+        require(_ownerOf(tokenId) != address(0), "Coupon does not exist");
+        require(additionalDays > 0 && additionalDays <= 365, "Invalid expiry days");
+        
+        CouponMetadata storage coupon = couponData[tokenId];
+        require(!coupon.isRedeemed, "Coupon already redeemed");
+        
+        uint256 oldExpiry = coupon.expiryTimestamp;
+        uint256 from = oldExpiry > block.timestamp ? oldExpiry : block.timestamp;
+        coupon.expiryTimestamp = from + (additionalDays * 1 days);
+        expiryRecorded[tokenId] = false;
+        
+        emit CouponExpiryExtended(tokenId, oldExpiry, coupon.expiryTimestamp);
+    }
+    
     /**
      * @dev Get user's coupons
      * @param user User address
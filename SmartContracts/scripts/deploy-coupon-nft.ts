@@ -36,7 +36,7 @@ async function main() {
   // Configuration
   const ADMIN_ADDRESS = process.env.ADMIN_ADDRESS || deployer.address;
   const CDP_WALLET_ADDRESS = process.env.CDP_WALLET_ADDRESS || deployer.address;
-  const NFT_BASE_URI = process.env.NFT_BASE_URI || "https://snapcoffee.xyz/api/nft/metadata/";
+  const NFT_BASE_URI = process.env.NFT_BASE_URI || "https://snapcoffee.xyz/api/coupons/metadata/";
 
   console.log("📋 Configuration:");
   console.log(`   Admin: ${ADMIN_ADDRESS}`);
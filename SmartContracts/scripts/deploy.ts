@@ -7,6 +7,7 @@ interface DeploymentAddresses {
   snapRegistry: string;
   admin: string;
   cdpWallet: string;
+  baseURI: string; // CouponNFT constructor argument, read back by verify.ts
 }
 
 async function main() {
@@ -26,7 +27,7 @@ async function main() {
   // Configuration
   const ADMIN_ADDRESS = process.env.ADMIN_ADDRESS || deployer.address;
   const CDP_WALLET_ADDRESS = process.env.CDP_WALLET_ADDRESS || deployer.address;
-  const BASE_URI = process.env.NFT_BASE_URI || "https://snapcoffee.xyz/api/metadata/";
+  const BASE_URI = process.env.NFT_BASE_URI || "https://snapcoffee.xyz/api/coupons/metadata/";
 
   console.log("📋 Configuration:");
   console.log(`   Admin: ${ADMIN_ADDRESS}`);
@@ -38,7 +39,8 @@ async function main() {
     couponNFT: "",
     snapRegistry: "",
     admin: ADMIN_ADDRESS,
-    cdpWallet: CDP_WALLET_ADDRESS
+    cdpWallet: CDP_WALLET_ADDRESS,
+    baseURI: BASE_URI
   };
 
   try {
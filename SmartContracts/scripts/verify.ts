@@ -8,6 +8,7 @@ interface DeploymentAddresses {
   snapRegistry: string;
   admin: string;
   cdpWallet: string;
+  baseURI?: string; // Recorded by deploy.ts; missing from older deployment files
 }
 
 async function main() {
@@ -42,7 +43,7 @@ async function main() {
   // Configuration (should match deployment)
   const ADMIN_ADDRESS = addresses.admin;
   const CDP_WALLET_ADDRESS = addresses.cdpWallet;
-  const BASE_URI = process.env.NFT_BASE_URI || "https://snapcoffee.xyz/api/metadata/";
+  const BASE_URI = addresses.baseURI || process.env.NFT_BASE_URI || "https://snapcoffee.xyz/api/metadata/";
 
   try {
     // 1. Verify LoyaltyToken